@@ -0,0 +1,18 @@
+-- Create team-owned custom board templates.
+CREATE TABLE "retro_templates" (
+    "id" SERIAL NOT NULL,
+    "teamId" INTEGER NOT NULL,
+    "createdById" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "columns" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "retro_templates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "retro_templates_teamId_idx" ON "retro_templates"("teamId");
+
+ALTER TABLE "retro_templates" ADD CONSTRAINT "retro_templates_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "retro_templates" ADD CONSTRAINT "retro_templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- Archive and soft-delete (trash) state for boards.
+ALTER TABLE "retro_boards"
+ADD COLUMN "archivedAt" TIMESTAMP(3),
+ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+CREATE INDEX "retro_boards_deletedAt_idx" ON "retro_boards"("deletedAt");
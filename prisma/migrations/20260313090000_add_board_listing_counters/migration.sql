@@ -0,0 +1,11 @@
+-- Columns that collect action items (used for board listing counters).
+ALTER TABLE "retro_columns"
+ADD COLUMN "isActionItems" BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE "retro_columns"
+SET "isActionItems" = true
+WHERE "name" = 'Actions points';
+
+-- Listing sorts and filters boards by date and name inside a team.
+CREATE INDEX "retro_boards_teamId_date_idx" ON "retro_boards"("teamId", "date");
+CREATE INDEX "retro_boards_teamId_name_idx" ON "retro_boards"("teamId", "name");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "retro_items" ADD COLUMN "authorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "retro_items_authorId_idx" ON "retro_items"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "retro_items" ADD CONSTRAINT "retro_items_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
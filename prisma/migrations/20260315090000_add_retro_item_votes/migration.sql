@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "retro_item_votes" (
+    "id" SERIAL NOT NULL,
+    "itemId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "retro_item_votes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retro_item_votes_itemId_userId_key" ON "retro_item_votes"("itemId", "userId");
+
+-- CreateIndex
+CREATE INDEX "retro_item_votes_userId_idx" ON "retro_item_votes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "retro_item_votes" ADD CONSTRAINT "retro_item_votes_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "retro_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "retro_item_votes" ADD CONSTRAINT "retro_item_votes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "RetroVoteKind" AS ENUM ('LIKE', 'DOT');
+
+-- Existing rows are dot votes.
+ALTER TABLE "retro_item_votes" ADD COLUMN "kind" "RetroVoteKind" NOT NULL DEFAULT 'DOT';
+ALTER TABLE "retro_item_votes" ALTER COLUMN "kind" DROP DEFAULT;
+
+-- Uniqueness is per vote kind now.
+DROP INDEX "retro_item_votes_itemId_userId_key";
+CREATE UNIQUE INDEX "retro_item_votes_itemId_userId_kind_key" ON "retro_item_votes"("itemId", "userId", "kind");
+
+-- Move likes arrays into vote rows. Likes of deleted users are dropped.
+INSERT INTO "retro_item_votes" ("itemId", "userId", "kind", "count", "createdAt", "updatedAt")
+SELECT DISTINCT i."id", l."userId", 'LIKE'::"RetroVoteKind", 1, i."updatedAt", i."updatedAt"
+FROM "retro_items" i
+CROSS JOIN LATERAL unnest(i."likes") AS l("userId")
+JOIN "users" u ON u."id" = l."userId"
+ON CONFLICT ("itemId", "userId", "kind") DO NOTHING;
+
+-- AlterTable
+ALTER TABLE "retro_items" DROP COLUMN "likes";
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "RetroBoardPhase" AS ENUM ('WRITE', 'REVEAL', 'GROUP', 'VOTE', 'DISCUSS', 'CLOSED');
+
+-- Boards without a phase keep the free-form behaviour.
+ALTER TABLE "retro_boards"
+ADD COLUMN "phase" "RetroBoardPhase",
+ADD COLUMN "phaseChangedAt" TIMESTAMP(3);
@@ -0,0 +1,12 @@
+-- Boards of teams that hid all cards keep their cards hidden.
+UPDATE "retro_boards" b
+SET "settings" = jsonb_set(
+  CASE WHEN jsonb_typeof(b."settings") = 'object' THEN b."settings" ELSE '{}'::jsonb END,
+  '{cardHiding}',
+  '{"enabled": true, "revealedColumnIds": [], "revealedAuthorIds": []}'::jsonb
+)
+FROM "teams" t
+WHERE t."id" = b."teamId" AND t."isAllCardsHidden" = true;
+
+-- AlterTable
+ALTER TABLE "teams" DROP COLUMN "isAllCardsHidden";
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "retro_boards" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "retro_columns" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "retro_groups" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "retro_items" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "retro_item_comments" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "retro_boards" ADD COLUMN "eventSeq" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "retro_board_events" (
+    "id" SERIAL NOT NULL,
+    "boardId" INTEGER NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "event" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retro_board_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retro_board_events_boardId_seq_key" ON "retro_board_events"("boardId", "seq");
+
+-- AddForeignKey
+ALTER TABLE "retro_board_events" ADD CONSTRAINT "retro_board_events_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "retro_boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "RetroTombstoneEntity" AS ENUM ('COLUMN', 'GROUP', 'ITEM', 'COMMENT');
+
+-- CreateTable
+CREATE TABLE "retro_tombstones" (
+    "id" SERIAL NOT NULL,
+    "boardId" INTEGER NOT NULL,
+    "entity" "RetroTombstoneEntity" NOT NULL,
+    "entityId" INTEGER NOT NULL,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retro_tombstones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "retro_tombstones_boardId_deletedAt_idx" ON "retro_tombstones"("boardId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "retro_tombstones_deletedAt_idx" ON "retro_tombstones"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "retro_tombstones" ADD CONSTRAINT "retro_tombstones_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "retro_boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "retro_history_entries" (
+    "id" SERIAL NOT NULL,
+    "boardId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "undo" JSONB NOT NULL,
+    "redo" JSONB NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retro_history_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "retro_history_entries_boardId_userId_id_idx" ON "retro_history_entries"("boardId", "userId", "id");
+
+-- CreateIndex
+CREATE INDEX "retro_history_entries_userId_idx" ON "retro_history_entries"("userId");
+
+-- AddForeignKey
+ALTER TABLE "retro_history_entries" ADD CONSTRAINT "retro_history_entries_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "retro_boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "retro_history_entries" ADD CONSTRAINT "retro_history_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
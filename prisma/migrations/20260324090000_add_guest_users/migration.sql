@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "isGuest" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "guestBoardId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "users_guestBoardId_idx" ON "users"("guestBoardId");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_guestBoardId_fkey" FOREIGN KEY ("guestBoardId") REFERENCES "retro_boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
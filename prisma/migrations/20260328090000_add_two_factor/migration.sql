@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "totpSecret" TEXT,
+ADD COLUMN     "totpPendingSecret" TEXT,
+ADD COLUMN     "totpEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "totpLastUsedStep" INTEGER;
+
+-- AlterTable
+ALTER TABLE "teams" ADD COLUMN     "isTwoFactorRequiredForAdmins" BOOLEAN NOT NULL DEFAULT false;
+
+-- Google sign-ins of 2FA users get a challenge instead of stored tokens.
+ALTER TABLE "auth_exchange_tokens" ALTER COLUMN "accessToken" DROP NOT NULL,
+ALTER COLUMN "refreshToken" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "totp_recovery_codes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "totp_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "totp_recovery_codes_userId_idx" ON "totp_recovery_codes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "totp_recovery_codes" ADD CONSTRAINT "totp_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
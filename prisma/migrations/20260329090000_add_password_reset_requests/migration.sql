@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "password_reset_requests" (
+    "id" TEXT NOT NULL,
+    "emailHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "password_reset_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "password_reset_requests_emailHash_createdAt_idx" ON "password_reset_requests"("emailHash", "createdAt");
@@ -0,0 +1,3 @@
+-- Databases that already ran the email verification backfill marked the
+-- shared anonymous user as verified, which let admins add it to teams.
+UPDATE "users" SET "emailVerifiedAt" = NULL WHERE "email" = 'anonymous@system.local';
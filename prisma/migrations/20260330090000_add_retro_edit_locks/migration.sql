@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "retro_edit_locks" (
+    "entity" TEXT NOT NULL,
+    "entityId" INTEGER NOT NULL,
+    "boardId" INTEGER NOT NULL,
+    "socketId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "isGuest" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retro_edit_locks_pkey" PRIMARY KEY ("entity","entityId")
+);
+
+-- CreateIndex
+CREATE INDEX "retro_edit_locks_socketId_idx" ON "retro_edit_locks"("socketId");
+
+-- CreateIndex
+CREATE INDEX "retro_edit_locks_expiresAt_idx" ON "retro_edit_locks"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "retro_edit_locks" ADD CONSTRAINT "retro_edit_locks_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "retro_boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "guest_session_requests" (
+    "id" TEXT NOT NULL,
+    "ipHash" TEXT NOT NULL,
+    "boardId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "guest_session_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "guest_session_requests_ipHash_createdAt_idx" ON "guest_session_requests"("ipHash", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "guest_session_requests_boardId_createdAt_idx" ON "guest_session_requests"("boardId", "createdAt");
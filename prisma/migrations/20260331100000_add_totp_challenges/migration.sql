@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "totpFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "totpLockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "totp_challenges" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "totp_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "totp_challenges_userId_expiresAt_idx" ON "totp_challenges"("userId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "totp_challenges" ADD CONSTRAINT "totp_challenges_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -4,6 +4,7 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
+import { MailModule } from './mail/mail.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { RealtimeModule } from './realtime/realtime.module';
 import { RetroModule } from './retro/retro.module';
@@ -16,6 +17,7 @@ import { TimerModule } from './timer/timer.module';
   imports: [
     PrismaModule,
     RealtimeModule,
+    MailModule,
     AuthModule,
     RetroModule,
     TeamModule,
@@ -1,4 +1,14 @@
-import { Body, Controller, Get, Patch, Post, Query, Res } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Ip,
+  Patch,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
 import {
   ApiBearerAuth,
   ApiBody,
@@ -13,17 +23,29 @@ import { CurrentUser } from './decorators/current-user.decorator';
 import { Public } from './decorators/public.decorator';
 import {
   ChangePasswordDto,
+  CompleteTwoFactorLoginDto,
+  ConfirmEmailVerificationDto,
+  ConfirmPasswordResetDto,
+  CreateGuestSessionDto,
   GoogleExchangeResponseDto,
   GoogleExchangeTokenDto,
+  GuestSessionResponseDto,
   LoginDto,
   LogoutDto,
   RefreshTokenDto,
   RegisterDto,
+  RequestPasswordResetDto,
+  TwoFactorCodeDto,
   UpdateMeDto,
 } from './dto/auth.dto';
 import { AuthService } from './auth.service';
+import { EmailVerificationService } from './email-verification.service';
 import { AuthenticatedUser } from './types/authenticated-user.type';
 import { GoogleOAuthService } from './google-oauth.service';
+import { GuestSessionService } from './guest-session.service';
+import { OptionalJwtAuthGuard } from './guards/optional-jwt-auth.guard';
+import { PasswordResetService } from './password-reset.service';
+import { TwoFactorService } from './two-factor.service';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -31,6 +53,10 @@ export class AuthController {
   constructor(
     private readonly authService: AuthService,
     private readonly googleOAuthService: GoogleOAuthService,
+    private readonly guestSessionService: GuestSessionService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
   @Public()
@@ -42,11 +68,24 @@ export class AuthController {
 
   @Public()
   @Post('login')
-  @ApiOperation({ summary: 'Login user and issue access/refresh tokens' })
+  @ApiOperation({
+    summary:
+      'Login user and issue access/refresh tokens, or a two-factor challenge token when 2FA is enabled',
+  })
   login(@Body() body: LoginDto) {
     return this.authService.login(body);
   }
 
+  @Public()
+  @Post('login/2fa')
+  @ApiOperation({
+    summary:
+      'Complete login with the challenge token and an authenticator or recovery code',
+  })
+  completeTwoFactorLogin(@Body() body: CompleteTwoFactorLoginDto) {
+    return this.authService.completeTwoFactorLogin(body.challengeToken, body.code);
+  }
+
   @Public()
   @Post('refresh')
   @ApiOperation({ summary: 'Rotate refresh token and issue new token pair' })
@@ -54,6 +93,84 @@ export class AuthController {
     return this.authService.refresh(body.refreshToken);
   }
 
+  @Public()
+  @Post('password-reset/request')
+  @ApiOperation({
+    summary:
+      'Email a one-time password reset link; succeeds whether or not the email has an account',
+  })
+  requestPasswordReset(@Body() body: RequestPasswordResetDto) {
+    return this.passwordResetService.requestReset(body.email);
+  }
+
+  @Public()
+  @Post('password-reset/confirm')
+  @ApiOperation({
+    summary: 'Set a new password with a reset token and revoke all refresh tokens',
+  })
+  confirmPasswordReset(@Body() body: ConfirmPasswordResetDto) {
+    return this.passwordResetService.confirmReset(body.token, body.newPassword);
+  }
+
+  @Public()
+  @Post('email-verification/confirm')
+  @ApiOperation({ summary: 'Mark the email as verified with an emailed token' })
+  confirmEmailVerification(@Body() body: ConfirmEmailVerificationDto) {
+    return this.emailVerificationService.confirm(body.token);
+  }
+
+  @ApiBearerAuth()
+  @Post('email-verification/resend')
+  @ApiOperation({ summary: 'Send a new email verification link to the current user' })
+  resendEmailVerification(@CurrentUser() user: AuthenticatedUser) {
+    return this.emailVerificationService.sendVerification(user.id);
+  }
+
+  @ApiBearerAuth()
+  @Post('2fa/setup')
+  @ApiOperation({
+    summary: 'Generate a pending TOTP secret and otpauth URI for the authenticator app',
+  })
+  setupTwoFactor(@CurrentUser() user: AuthenticatedUser) {
+    return this.twoFactorService.setup(user.id);
+  }
+
+  @ApiBearerAuth()
+  @Post('2fa/enable')
+  @ApiOperation({
+    summary: 'Confirm the pending secret with a code; returns one-time recovery codes',
+  })
+  enableTwoFactor(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() body: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.enable(user.id, body.code);
+  }
+
+  @ApiBearerAuth()
+  @Post('2fa/disable')
+  @ApiOperation({
+    summary: 'Turn off two-factor authentication with an authenticator or recovery code',
+  })
+  disableTwoFactor(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() body: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.disable(user.id, body.code);
+  }
+
+  @ApiBearerAuth()
+  @Post('2fa/recovery-codes')
+  @ApiOperation({
+    summary: 'Replace all recovery codes; needs an authenticator code',
+  })
+  regenerateRecoveryCodes(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() body: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(user.id, body.code);
+  }
+
   @Public()
   @Get('google/start')
   @ApiOperation({ summary: 'Start Google OAuth Authorization Code flow' })
@@ -63,14 +180,23 @@ export class AuthController {
     example: '/teams',
     description: 'Frontend relative path to continue after login',
   })
+  @ApiQuery({
+    name: 'guestToken',
+    required: false,
+    description: 'Guest session token whose cards, comments and likes move to the signed-in account',
+  })
   @ApiFoundResponse({
     description: '302 redirect to Google OAuth consent screen',
   })
   async googleStart(
     @Query('returnTo') returnTo: string | undefined,
+    @Query('guestToken') guestToken: string | undefined,
     @Res() response: Response,
   ) {
-    const redirectUrl = await this.googleOAuthService.getStartRedirectUrl(returnTo);
+    const redirectUrl = await this.googleOAuthService.getStartRedirectUrl(
+      returnTo,
+      guestToken,
+    );
     return response.redirect(302, redirectUrl);
   }
 
@@ -114,6 +240,23 @@ export class AuthController {
     return this.googleOAuthService.exchangeToken(body.exchangeToken);
   }
 
+  @Public()
+  @UseGuards(OptionalJwtAuthGuard)
+  @Post('guest')
+  @ApiOperation({
+    summary:
+      'Issue a guest session token for a board with anonymous access; a guest token of the same board renames that guest',
+  })
+  @ApiBody({ type: CreateGuestSessionDto })
+  @ApiOkResponse({ type: GuestSessionResponseDto })
+  createGuestSession(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Body() body: CreateGuestSessionDto,
+    @Ip() ip: string,
+  ) {
+    return this.guestSessionService.createSession(body, user, ip);
+  }
+
   @ApiBearerAuth()
   @Post('logout')
   @ApiOperation({ summary: 'Revoke active refresh token' })
@@ -2,13 +2,16 @@ import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { PrismaModule } from '../prisma/prisma.module';
-import { AnonymousActorService } from './anonymous-actor.service';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { EmailVerificationService } from './email-verification.service';
 import { GoogleOAuthService } from './google-oauth.service';
+import { GuestSessionService } from './guest-session.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { OptionalJwtAuthGuard } from './guards/optional-jwt-auth.guard';
+import { PasswordResetService } from './password-reset.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { TwoFactorService } from './two-factor.service';
 
 @Module({
   imports: [
@@ -23,8 +26,16 @@ import { JwtStrategy } from './strategies/jwt.strategy';
     JwtStrategy,
     JwtAuthGuard,
     OptionalJwtAuthGuard,
-    AnonymousActorService,
+    GuestSessionService,
+    PasswordResetService,
+    EmailVerificationService,
+    TwoFactorService,
+  ],
+  exports: [
+    JwtAuthGuard,
+    OptionalJwtAuthGuard,
+    AuthService,
+    GuestSessionService,
   ],
-  exports: [JwtAuthGuard, OptionalJwtAuthGuard, AnonymousActorService, AuthService],
 })
 export class AuthModule {}
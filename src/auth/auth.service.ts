@@ -3,6 +3,7 @@ import {
   ConflictException,
   Injectable,
   InternalServerErrorException,
+  Logger,
   UnauthorizedException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
@@ -12,6 +13,12 @@ import * as bcrypt from 'bcrypt';
 import { createHash } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoginDto, RegisterDto } from './dto/auth.dto';
+import { EmailVerificationService } from './email-verification.service';
+import { GuestClaimResult, GuestSessionService } from './guest-session.service';
+import {
+  TwoFactorChallengeResponse,
+  TwoFactorService,
+} from './two-factor.service';
 
 type JwtPayload = {
   sub: string;
@@ -23,12 +30,15 @@ type AuthUserResponse = {
   id: string;
   email: string;
   name: string | null;
+  emailVerifiedAt: Date | null;
+  totpEnabledAt: Date | null;
 };
 
 type AuthWithTokensResponse = {
   user: AuthUserResponse;
   accessToken: string;
   refreshToken: string;
+  claimedGuest?: GuestClaimResult;
 };
 
 type JwtExpiresIn = NonNullable<SignOptions['expiresIn']>;
@@ -37,6 +47,7 @@ const PASSWORD_SALT_ROUNDS = 12;
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
   private readonly accessSecret = getRequiredEnv('JWT_ACCESS_SECRET');
   private readonly accessExpiresIn = getJwtExpiresInEnv('JWT_ACCESS_EXPIRES_IN');
   private readonly refreshSecret = getRequiredEnv('JWT_REFRESH_SECRET');
@@ -47,6 +58,9 @@ export class AuthService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly jwtService: JwtService,
+    private readonly guestSessionService: GuestSessionService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
   async register(dto: RegisterDto): Promise<AuthWithTokensResponse> {
@@ -60,29 +74,64 @@ export class AuthService {
       throw new ConflictException('Email already in use');
     }
 
+    const guest = dto.guestToken
+      ? await this.guestSessionService.verifyGuestToken(dto.guestToken)
+      : null;
     const passwordHash = await bcrypt.hash(dto.password, PASSWORD_SALT_ROUNDS);
 
-    const user = await this.prisma.user.create({
-      data: {
-        email,
-        passwordHash,
-        name: dto.name?.trim() || null,
-      },
+    const { user, claimedGuest } = await this.prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          email,
+          passwordHash,
+          name: dto.name?.trim() || null,
+        },
+      });
+      if (!guest) {
+        return { user, claimedGuest: null };
+      }
+
+      const claimedGuest = await this.guestSessionService.claimGuest(
+        tx,
+        guest.id,
+        user.id,
+      );
+      if (!claimedGuest) {
+        throw new UnauthorizedException('Invalid guest token');
+      }
+
+      return { user, claimedGuest };
     });
 
     const tokenPair = await this.issueAppTokenPair(user);
 
+    // The account works without a delivered letter; the user can resend it.
+    await this.emailVerificationService
+      .sendVerification(user.id)
+      .catch((error: unknown) =>
+        this.logger.error(
+          `Verification email for userId=${user.id} failed: ${String(error)}`,
+        ),
+      );
+
     return {
       user: this.toAuthUser(user),
       ...tokenPair,
+      ...(claimedGuest ? { claimedGuest } : {}),
     };
   }
 
-  async login(dto: LoginDto): Promise<AuthWithTokensResponse> {
+  /**
+   * Users with two-factor authentication get a short-lived challenge token
+   * instead of the token pair; `completeTwoFactorLogin` trades it for the pair.
+   */
+  async login(
+    dto: LoginDto,
+  ): Promise<AuthWithTokensResponse | TwoFactorChallengeResponse> {
     const email = normalizeEmail(dto.email);
 
     const user = await this.prisma.user.findUnique({ where: { email } });
-    if (!user) {
+    if (!user || user.isGuest) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
@@ -94,6 +143,32 @@ export class AuthService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    if (user.totpEnabledAt) {
+      return this.twoFactorService.createChallenge(user);
+    }
+
+    const tokenPair = await this.issueAppTokenPair(user);
+
+    return {
+      user: this.toAuthUser(user),
+      ...tokenPair,
+    };
+  }
+
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+  ): Promise<AuthWithTokensResponse> {
+    const userId = await this.twoFactorService.verifyChallenge(
+      challengeToken,
+      code,
+    );
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
     const tokenPair = await this.issueAppTokenPair(user);
 
     return {
@@ -159,6 +234,8 @@ export class AuthService {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
       },
     });
 
@@ -190,6 +267,8 @@ export class AuthService {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
       },
     });
   }
@@ -291,12 +370,14 @@ export class AuthService {
   }
 
   private toAuthUser(
-    user: Pick<User, 'id' | 'email' | 'name'>,
+    user: Pick<User, 'id' | 'email' | 'name' | 'emailVerifiedAt' | 'totpEnabledAt'>,
   ): AuthUserResponse {
     return {
       id: user.id,
       email: user.email,
       name: user.name,
+      emailVerifiedAt: user.emailVerifiedAt,
+      totpEnabledAt: user.totpEnabledAt,
     };
   }
 }
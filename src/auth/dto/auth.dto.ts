@@ -1,5 +1,14 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsEmail, IsOptional, IsString, MinLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IsEmail,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
 
 export class RegisterDto {
   @ApiProperty({ example: 'alice@example.com' })
@@ -15,6 +24,14 @@ export class RegisterDto {
   @IsOptional()
   @IsString()
   name?: string;
+
+  @ApiPropertyOptional({
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    description: 'Guest session token whose cards, comments and likes move to the new account',
+  })
+  @IsOptional()
+  @IsString()
+  guestToken?: string;
 }
 
 export class LoginDto {
@@ -28,6 +45,29 @@ export class LoginDto {
   password!: string;
 }
 
+export class CompleteTwoFactorLoginDto {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  @IsString()
+  challengeToken!: string;
+
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app or an unused recovery code',
+  })
+  @IsString()
+  @MinLength(6)
+  @MaxLength(32)
+  code!: string;
+}
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ example: '123456' })
+  @IsString()
+  @MinLength(6)
+  @MaxLength(32)
+  code!: string;
+}
+
 export class RefreshTokenDto {
   @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
   @IsString()
@@ -59,6 +99,29 @@ export class ChangePasswordDto {
   newPassword!: string;
 }
 
+export class RequestPasswordResetDto {
+  @ApiProperty({ example: 'alice@example.com' })
+  @IsEmail()
+  email!: string;
+}
+
+export class ConfirmPasswordResetDto {
+  @ApiProperty({ example: 'WjKkJx7WwXH-9X8HWsPWiX3fRbPCs7Xf_LCZda0bZX4' })
+  @IsString()
+  token!: string;
+
+  @ApiProperty({ example: 'newstrongpassword123' })
+  @IsString()
+  @MinLength(8)
+  newPassword!: string;
+}
+
+export class ConfirmEmailVerificationDto {
+  @ApiProperty({ example: 'WjKkJx7WwXH-9X8HWsPWiX3fRbPCs7Xf_LCZda0bZX4' })
+  @IsString()
+  token!: string;
+}
+
 export class GoogleExchangeTokenDto {
   @ApiProperty({ example: 'WjKkJx7WwXH-9X8HWsPWiX3fRbPCs7Xf_LCZda0bZX4' })
   @IsString()
@@ -66,9 +129,57 @@ export class GoogleExchangeTokenDto {
 }
 
 export class GoogleExchangeResponseDto {
-  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
-  accessToken!: string;
+  @ApiPropertyOptional({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  accessToken?: string;
+
+  @ApiPropertyOptional({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  refreshToken?: string;
 
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Set instead of the token pair when the user has two-factor authentication',
+  })
+  twoFactorRequired?: boolean;
+
+  @ApiPropertyOptional({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  challengeToken?: string;
+
+  @ApiPropertyOptional({ example: '2026-03-28T09:05:00.000Z' })
+  expiresAt?: Date;
+}
+
+export class CreateGuestSessionDto {
+  @ApiProperty({ example: 12 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  boardId!: number;
+
+  @ApiProperty({ example: 'Guest Bob' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+}
+
+export class GuestSessionUserDto {
+  @ApiProperty({ example: '6f1c2d3e-4b5a-6978-8a9b-0c1d2e3f4a5b' })
+  id!: string;
+
+  @ApiProperty({ example: 'Guest Bob' })
+  name!: string;
+
+  @ApiProperty({ example: 12 })
+  boardId!: number;
+}
+
+export class GuestSessionResponseDto {
   @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
-  refreshToken!: string;
+  guestToken!: string;
+
+  @ApiProperty({ type: GuestSessionUserDto })
+  guest!: GuestSessionUserDto;
+
+  @ApiProperty({ example: '2026-04-23T09:00:00.000Z' })
+  expiresAt!: Date;
 }
@@ -0,0 +1,163 @@
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { MailService } from '../mail/mail.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const DEFAULT_TOKEN_TTL_SEC = 86400;
+const DEFAULT_RATE_LIMIT = 3;
+const DEFAULT_RATE_WINDOW_SEC = 3600;
+
+/**
+ * Proves that a locally registered user owns their email. Teams look users
+ * up by email, so unverified addresses cannot be added or join by invite.
+ */
+@Injectable()
+export class EmailVerificationService {
+  private readonly frontendUrl = getRequiredEnv('FRONTEND_URL');
+  private readonly tokenTtlSec = getIntEnv(
+    'EMAIL_VERIFICATION_TOKEN_TTL_SEC',
+    DEFAULT_TOKEN_TTL_SEC,
+  );
+  private readonly rateLimit = getIntEnv(
+    'EMAIL_VERIFICATION_RATE_LIMIT',
+    DEFAULT_RATE_LIMIT,
+  );
+  private readonly rateWindowSec = getIntEnv(
+    'EMAIL_VERIFICATION_RATE_WINDOW_SEC',
+    DEFAULT_RATE_WINDOW_SEC,
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mailService: MailService,
+  ) {}
+
+  async sendVerification(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, emailVerifiedAt: true, isGuest: true },
+    });
+    if (!user || user.isGuest) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new ConflictException('Email is already verified');
+    }
+
+    const recentRequests = await this.prisma.emailVerificationToken.count({
+      where: {
+        userId: user.id,
+        createdAt: { gt: addSeconds(-this.rateWindowSec) },
+      },
+    });
+    if (recentRequests >= this.rateLimit) {
+      throw new HttpException(
+        'Too many verification emails, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const token = generateRandomToken();
+    await this.prisma.emailVerificationToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: addSeconds(this.tokenTtlSec),
+      },
+    });
+
+    const url = new URL('/auth/verify-email', this.frontendUrl);
+    url.searchParams.set('token', token);
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Confirm your email',
+      text: [
+        'Confirm the email of your Retro Board account to join teams:',
+        url.toString(),
+        `The link is valid for ${Math.ceil(this.tokenTtlSec / 3600)} hours.`,
+      ].join('\n\n'),
+    });
+
+    return { success: true };
+  }
+
+  async confirm(tokenRaw: string) {
+    const verified = await this.prisma.$transaction(async (tx) => {
+      const record = await tx.emailVerificationToken.findUnique({
+        where: { tokenHash: hashToken(tokenRaw.trim()) },
+        select: { id: true, userId: true, usedAt: true, expiresAt: true },
+      });
+      if (!record || record.usedAt || record.expiresAt <= new Date()) {
+        return null;
+      }
+
+      const now = new Date();
+      const claimed = await tx.emailVerificationToken.updateMany({
+        where: { id: record.id, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now },
+      });
+      if (claimed.count !== 1) {
+        return null;
+      }
+
+      await tx.user.updateMany({
+        where: { id: record.userId, emailVerifiedAt: null },
+        data: { emailVerifiedAt: now },
+      });
+      await tx.emailVerificationToken.updateMany({
+        where: { userId: record.userId, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      return record;
+    });
+
+    if (!verified) {
+      throw new UnauthorizedException('Invalid or expired verification token');
+    }
+
+    return { success: true };
+  }
+}
+
+function generateRandomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function addSeconds(seconds: number): Date {
+  return new Date(Date.now() + seconds * 1000);
+}
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+
+  return value;
+}
+
+function getIntEnv(name: string, fallbackValue: number): number {
+  const rawValue = process.env[name]?.trim();
+  if (!rawValue) {
+    return fallbackValue;
+  }
+
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+
+  return parsed;
+}
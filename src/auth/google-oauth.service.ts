@@ -8,6 +8,8 @@ import * as bcrypt from 'bcrypt';
 import { createHash, createVerify, randomBytes } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuthService } from './auth.service';
+import { GuestSessionService } from './guest-session.service';
+import { TwoFactorService } from './two-factor.service';
 
 type GoogleTokenResponse = {
   id_token?: string;
@@ -41,7 +43,7 @@ type GoogleCallbackParams = {
 };
 
 type ConsumedStateResult =
-  | { ok: true; returnTo: string }
+  | { ok: true; returnTo: string; guestUserId: string | null }
   | { ok: false; reason: 'missing' | 'mismatch' | 'expired' | 'reused' };
 
 const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
@@ -73,10 +75,23 @@ export class GoogleOAuthService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly authService: AuthService,
+    private readonly guestSessionService: GuestSessionService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
-  async getStartRedirectUrl(returnToRaw?: string): Promise<string> {
+  /**
+   * A guest token is checked here, before the consent screen; the guest's
+   * content is claimed by the signed-in account in the callback.
+   */
+  async getStartRedirectUrl(
+    returnToRaw?: string,
+    guestTokenRaw?: string,
+  ): Promise<string> {
     const returnTo = normalizeReturnTo(returnToRaw);
+    const guestToken = guestTokenRaw?.trim();
+    const guest = guestToken
+      ? await this.guestSessionService.verifyGuestToken(guestToken)
+      : null;
 
     const state = generateRandomToken();
     const stateHash = hashToken(state);
@@ -85,6 +100,7 @@ export class GoogleOAuthService {
       data: {
         stateHash,
         returnTo,
+        guestUserId: guest?.id ?? null,
         expiresAt: addSeconds(this.stateTtlSec),
       },
     });
@@ -121,16 +137,22 @@ export class GoogleOAuthService {
     try {
       const googleTokens = await this.exchangeCodeForGoogleTokens(params.code);
       const claims = await this.validateGoogleIdToken(googleTokens.id_token);
-      const user = await this.findOrCreateGoogleUser(claims);
-      const appTokens = await this.authService.issueAppTokenPair(user);
+      const user = await this.findOrCreateGoogleUser(
+        claims,
+        stateResult.guestUserId,
+      );
+      // 2FA users get no tokens here; the exchange hands out a challenge.
+      const appTokens = user.totpEnabledAt
+        ? null
+        : await this.authService.issueAppTokenPair(user);
 
       const exchangeToken = generateRandomToken();
       await this.prisma.authExchangeToken.create({
         data: {
           tokenHash: hashToken(exchangeToken),
           userId: user.id,
-          accessToken: appTokens.accessToken,
-          refreshToken: appTokens.refreshToken,
+          accessToken: appTokens?.accessToken ?? null,
+          refreshToken: appTokens?.refreshToken ?? null,
           expiresAt: addSeconds(this.exchangeTokenTtlSec),
         },
       });
@@ -160,6 +182,7 @@ export class GoogleOAuthService {
         where: { tokenHash },
         select: {
           id: true,
+          userId: true,
           accessToken: true,
           refreshToken: true,
           usedAt: true,
@@ -184,17 +207,21 @@ export class GoogleOAuthService {
         return null;
       }
 
-      return {
-        accessToken: record.accessToken,
-        refreshToken: record.refreshToken,
-      };
+      return record;
     });
 
     if (!exchangeRecord) {
       throw new UnauthorizedException('Invalid or expired exchange token');
     }
 
-    return exchangeRecord;
+    if (!exchangeRecord.accessToken || !exchangeRecord.refreshToken) {
+      return this.twoFactorService.createChallenge({ id: exchangeRecord.userId });
+    }
+
+    return {
+      accessToken: exchangeRecord.accessToken,
+      refreshToken: exchangeRecord.refreshToken,
+    };
   }
 
   private async consumeState(stateRaw?: string): Promise<ConsumedStateResult> {
@@ -208,6 +235,7 @@ export class GoogleOAuthService {
       select: {
         id: true,
         returnTo: true,
+        guestUserId: true,
         usedAt: true,
         expiresAt: true,
       },
@@ -238,7 +266,11 @@ export class GoogleOAuthService {
       return { ok: false, reason: 'reused' };
     }
 
-    return { ok: true, returnTo: stateRecord.returnTo };
+    return {
+      ok: true,
+      returnTo: stateRecord.returnTo,
+      guestUserId: stateRecord.guestUserId,
+    };
   }
 
   private async exchangeCodeForGoogleTokens(code: string): Promise<GoogleTokenResponse> {
@@ -349,7 +381,15 @@ export class GoogleOAuthService {
     return cert;
   }
 
-  private async findOrCreateGoogleUser(claims: GoogleIdTokenPayload): Promise<User> {
+  /**
+   * The guest, if any, is claimed in the same transaction. A guest removed
+   * since the start of the flow (e.g. with its board) just has nothing left
+   * to claim and does not fail the sign-in.
+   */
+  private async findOrCreateGoogleUser(
+    claims: GoogleIdTokenPayload,
+    guestUserId: string | null = null,
+  ): Promise<User> {
     const email = claims.email ? normalizeEmail(claims.email) : '';
     const name = claims.name?.trim() || null;
 
@@ -361,56 +401,12 @@ export class GoogleOAuthService {
 
     try {
       return await this.prisma.$transaction(async (tx) => {
-        const existingBySub = await tx.user.findUnique({
-          where: { googleSub: claims.sub },
-        });
-
-        if (existingBySub) {
-          if (
-            existingBySub.googleEmail !== email ||
-            existingBySub.authProvider !== AuthProvider.GOOGLE
-          ) {
-            return tx.user.update({
-              where: { id: existingBySub.id },
-              data: {
-                authProvider: AuthProvider.GOOGLE,
-                googleEmail: email,
-              },
-            });
-          }
-
-          return existingBySub;
-        }
-
-        const existingByEmail = await tx.user.findUnique({
-          where: { email },
-        });
-
-        if (existingByEmail) {
-          if (existingByEmail.googleSub && existingByEmail.googleSub !== claims.sub) {
-            throw new AccountLinkConflictError();
-          }
-
-          return tx.user.update({
-            where: { id: existingByEmail.id },
-            data: {
-              authProvider: AuthProvider.GOOGLE,
-              googleSub: claims.sub,
-              googleEmail: email,
-            },
-          });
+        const user = await this.upsertGoogleUser(tx, claims, email, name, passwordHash);
+        if (guestUserId) {
+          await this.guestSessionService.claimGuest(tx, guestUserId, user.id);
         }
 
-        return tx.user.create({
-          data: {
-            email,
-            passwordHash,
-            name,
-            authProvider: AuthProvider.GOOGLE,
-            googleSub: claims.sub,
-            googleEmail: email,
-          },
-        });
+        return user;
       });
     } catch (error) {
       if (error instanceof AccountLinkConflictError) {
@@ -430,6 +426,96 @@ export class GoogleOAuthService {
     }
   }
 
+  private async upsertGoogleUser(
+    tx: Prisma.TransactionClient,
+    claims: GoogleIdTokenPayload,
+    email: string,
+    name: string | null,
+    passwordHash: string,
+  ): Promise<User> {
+    const existingBySub = await tx.user.findUnique({
+      where: { googleSub: claims.sub },
+    });
+
+    // Google has checked `email_verified`, which counts as our verification.
+    const emailVerifiedAt = new Date();
+
+    if (existingBySub) {
+      const verifiesEmail =
+        existingBySub.email === email && !existingBySub.emailVerifiedAt;
+      if (
+        existingBySub.googleEmail !== email ||
+        existingBySub.authProvider !== AuthProvider.GOOGLE ||
+        verifiesEmail
+      ) {
+        return tx.user.update({
+          where: { id: existingBySub.id },
+          data: {
+            authProvider: AuthProvider.GOOGLE,
+            googleEmail: email,
+            ...(verifiesEmail ? { emailVerifiedAt } : {}),
+          },
+        });
+      }
+
+      return existingBySub;
+    }
+
+    const existingByEmail = await tx.user.findUnique({
+      where: { email },
+    });
+
+    if (existingByEmail) {
+      if (existingByEmail.googleSub && existingByEmail.googleSub !== claims.sub) {
+        throw new AccountLinkConflictError();
+      }
+
+      // Anyone could have registered an unverified address, so whatever
+      // they set up (password, sessions, 2FA) goes away before Google's
+      // verified owner takes the account over.
+      if (!existingByEmail.emailVerifiedAt) {
+        await tx.refreshToken.updateMany({
+          where: { userId: existingByEmail.id, revokedAt: null },
+          data: { revokedAt: emailVerifiedAt },
+        });
+        await tx.totpRecoveryCode.deleteMany({
+          where: { userId: existingByEmail.id },
+        });
+      }
+
+      return tx.user.update({
+        where: { id: existingByEmail.id },
+        data: {
+          authProvider: AuthProvider.GOOGLE,
+          googleSub: claims.sub,
+          googleEmail: email,
+          ...(existingByEmail.emailVerifiedAt
+            ? {}
+            : {
+                emailVerifiedAt,
+                passwordHash,
+                totpSecret: null,
+                totpPendingSecret: null,
+                totpEnabledAt: null,
+                totpLastUsedStep: null,
+              }),
+        },
+      });
+    }
+
+    return tx.user.create({
+      data: {
+        email,
+        passwordHash,
+        name,
+        emailVerifiedAt,
+        authProvider: AuthProvider.GOOGLE,
+        googleSub: claims.sub,
+        googleEmail: email,
+      },
+    });
+  }
+
   private buildAuthErrorRedirect(errorCode: string, returnTo = '/'): string {
     return this.buildFrontendUrl('/auth', {
       error: errorCode,
@@ -1,7 +1,8 @@
-import { ExecutionContext, Injectable } from '@nestjs/common';
+import { ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { AuthenticatedUser } from '../types/authenticated-user.type';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
@@ -16,9 +17,39 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     ]);
 
     if (isPublic) {
+      // On public controllers this guard marks account-only routes and runs
+      // after OptionalJwtAuthGuard, which may have let a guest in.
+      const request = context
+        .switchToHttp()
+        .getRequest<{ user?: unknown }>();
+      if (isGuestUser(request.user)) {
+        throw new UnauthorizedException(
+          'Guest sessions cannot access this resource',
+        );
+      }
+
       return true;
     }
 
     return super.canActivate(context);
   }
+
+  handleRequest<TUser = unknown>(
+    err: unknown,
+    user: TUser,
+    info: unknown,
+    context: ExecutionContext,
+  ): TUser {
+    if (isGuestUser(user)) {
+      throw new UnauthorizedException(
+        'Guest sessions cannot access this resource',
+      );
+    }
+
+    return super.handleRequest(err, user, info, context);
+  }
+}
+
+function isGuestUser(user: unknown): boolean {
+  return Boolean(user && (user as Partial<AuthenticatedUser>).isGuest);
 }
@@ -0,0 +1,360 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Prisma } from '@prisma/client';
+import type { SignOptions } from 'jsonwebtoken';
+import { createHash, randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateGuestSessionDto } from './dto/auth.dto';
+import { AuthenticatedUser } from './types/authenticated-user.type';
+
+export const GUEST_TOKEN_TYPE = 'guest';
+
+// Requests without a token have no identity to act as.
+export const GUEST_SESSION_REQUIRED_MESSAGE =
+  'Start a guest session (POST /auth/guest) to access the board';
+
+const GUEST_EMAIL_DOMAIN = 'guest.local';
+// Not a bcrypt hash, so no password ever matches it.
+const GUEST_PASSWORD_HASH = '!guest';
+const DEFAULT_GUEST_TOKEN_EXPIRES_IN = '30d';
+const DEFAULT_IP_RATE_LIMIT = 30;
+const DEFAULT_BOARD_RATE_LIMIT = 200;
+const DEFAULT_RATE_WINDOW_SEC = 3600;
+
+export type GuestTokenPayload = {
+  sub: string;
+  email: string;
+  type: typeof GUEST_TOKEN_TYPE;
+  boardId: number;
+  exp?: number;
+};
+
+export type GuestClaimResult = {
+  guestId: string;
+  boardId: number | null;
+  items: number;
+  comments: number;
+  votes: number;
+  droppedVotes: number;
+};
+
+type JwtExpiresIn = NonNullable<SignOptions['expiresIn']>;
+
+/**
+ * Issues per-guest identities for boards with anonymous access. A guest is
+ * a user row bound to one board: it is deleted with the board, and its token
+ * stops working once the board is deleted or anonymous access is turned off.
+ */
+@Injectable()
+export class GuestSessionService {
+  private readonly accessSecret = getRequiredEnv('JWT_ACCESS_SECRET');
+  private readonly expiresIn = getGuestExpiresIn();
+  private readonly ipRateLimit = getIntEnv(
+    'GUEST_SESSION_IP_RATE_LIMIT',
+    DEFAULT_IP_RATE_LIMIT,
+  );
+  private readonly boardRateLimit = getIntEnv(
+    'GUEST_SESSION_BOARD_RATE_LIMIT',
+    DEFAULT_BOARD_RATE_LIMIT,
+  );
+  private readonly rateWindowSec = getIntEnv(
+    'GUEST_SESSION_RATE_WINDOW_SEC',
+    DEFAULT_RATE_WINDOW_SEC,
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  /**
+   * Presenting a guest token of the same board renames that guest instead of
+   * creating a new one, so a refresh keeps the guest's likes and comments.
+   * Only new guests count towards the per-IP and per-board limits.
+   */
+  async createSession(
+    dto: CreateGuestSessionDto,
+    currentUser?: AuthenticatedUser | null,
+    clientIp = '',
+  ) {
+    const name = dto.name.trim();
+    if (!name) {
+      throw new BadRequestException('Name cannot be empty');
+    }
+
+    await this.ensureGuestBoard(dto.boardId);
+
+    const guest =
+      currentUser?.isGuest && currentUser.guestBoardId === dto.boardId
+        ? await this.prisma.user.update({
+            where: { id: currentUser.id },
+            data: { name },
+            select: { id: true, email: true, name: true },
+          })
+        : await this.prisma.$transaction(async (tx) => {
+            await this.recordGuestRequest(tx, dto.boardId, clientIp);
+            return tx.user.create({
+              data: {
+                email: `guest-${randomUUID()}@${GUEST_EMAIL_DOMAIN}`,
+                passwordHash: GUEST_PASSWORD_HASH,
+                name,
+                isGuest: true,
+                guestBoardId: dto.boardId,
+              },
+              select: { id: true, email: true, name: true },
+            });
+          });
+
+    const payload: GuestTokenPayload = {
+      sub: guest.id,
+      email: guest.email,
+      type: GUEST_TOKEN_TYPE,
+      boardId: dto.boardId,
+    };
+    const guestToken = await this.jwtService.signAsync(payload, {
+      secret: this.accessSecret,
+      expiresIn: this.expiresIn,
+    });
+    const decoded = this.jwtService.decode(guestToken) as GuestTokenPayload;
+
+    return {
+      guestToken,
+      guest: {
+        id: guest.id,
+        name: guest.name,
+        boardId: dto.boardId,
+      },
+      expiresAt: new Date((decoded.exp ?? 0) * 1000),
+    };
+  }
+
+  /**
+   * Resolves a verified guest token to its user, or null when the guest or
+   * its board is gone.
+   */
+  async resolveGuest(
+    payload: GuestTokenPayload,
+  ): Promise<AuthenticatedUser | null> {
+    const guest = await this.prisma.user.findFirst({
+      where: {
+        id: payload.sub,
+        isGuest: true,
+        guestBoardId: payload.boardId,
+        guestBoard: {
+          deletedAt: null,
+          team: { isAnonymousBoardAccessEnabled: true },
+        },
+      },
+      select: { id: true, email: true },
+    });
+
+    if (!guest) {
+      return null;
+    }
+
+    return {
+      id: guest.id,
+      email: guest.email,
+      isGuest: true,
+      guestBoardId: payload.boardId,
+    };
+  }
+
+  /**
+   * Checks a guest token presented for claiming, e.g. on registration.
+   */
+  async verifyGuestToken(token: string): Promise<AuthenticatedUser> {
+    let payload: object;
+    try {
+      payload = await this.jwtService.verifyAsync<object>(token, {
+        secret: this.accessSecret,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid guest token');
+    }
+
+    const guest = isGuestTokenPayload(payload)
+      ? await this.resolveGuest(payload)
+      : null;
+    if (!guest) {
+      throw new UnauthorizedException('Invalid guest token');
+    }
+
+    return guest;
+  }
+
+  /**
+   * Moves the guest's cards, comments, likes, votes and timers to `userId`
+   * and deletes the guest, so its token stops working. A like or vote the
+   * account already holds on the same card wins over the guest's one.
+   * Runs inside the caller's transaction; returns null when the guest is gone.
+   */
+  async claimGuest(
+    tx: Prisma.TransactionClient,
+    guestId: string,
+    userId: string,
+  ): Promise<GuestClaimResult | null> {
+    const guest = await tx.user.findFirst({
+      where: { id: guestId, isGuest: true },
+      select: { id: true, guestBoardId: true },
+    });
+    if (!guest || guest.id === userId) {
+      return null;
+    }
+
+    const guestVotes = await tx.retroItemVote.findMany({
+      where: { userId: guestId },
+      select: { id: true, itemId: true, kind: true },
+    });
+    const heldVotes = await tx.retroItemVote.findMany({
+      where: {
+        userId,
+        itemId: { in: [...new Set(guestVotes.map((vote) => vote.itemId))] },
+      },
+      select: { itemId: true, kind: true },
+    });
+    const held = new Set(heldVotes.map((vote) => `${vote.itemId}:${vote.kind}`));
+    const droppedVoteIds = guestVotes
+      .filter((vote) => held.has(`${vote.itemId}:${vote.kind}`))
+      .map((vote) => vote.id);
+    if (droppedVoteIds.length > 0) {
+      await tx.retroItemVote.deleteMany({
+        where: { id: { in: droppedVoteIds } },
+      });
+    }
+
+    const votes = await tx.retroItemVote.updateMany({
+      where: { userId: guestId },
+      data: { userId },
+    });
+    const items = await tx.retroItem.updateMany({
+      where: { authorId: guestId },
+      data: { authorId: userId },
+    });
+    const comments = await tx.retroItemComment.updateMany({
+      where: { creatorId: guestId },
+      data: { creatorId: userId },
+    });
+    await tx.boardTimer.updateMany({
+      where: { createdById: guestId },
+      data: { createdById: userId },
+    });
+    await tx.user.delete({ where: { id: guestId } });
+
+    return {
+      guestId,
+      boardId: guest.guestBoardId,
+      items: items.count,
+      comments: comments.count,
+      votes: votes.count,
+      droppedVotes: droppedVoteIds.length,
+    };
+  }
+
+  /**
+   * Counts and records a new guest under advisory locks on the IP and the
+   * board, so parallel requests cannot all pass the same count.
+   */
+  private async recordGuestRequest(
+    tx: Prisma.TransactionClient,
+    boardId: number,
+    clientIp: string,
+  ) {
+    const ipHash = createHash('sha256').update(clientIp).digest('hex');
+    const windowStart = addSeconds(-this.rateWindowSec);
+
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`guest-ip:${ipHash}`}))`;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`guest-board:${boardId}`}))`;
+
+    const [ipRequests, boardRequests] = await Promise.all([
+      tx.guestSessionRequest.count({
+        where: { ipHash, createdAt: { gt: windowStart } },
+      }),
+      tx.guestSessionRequest.count({
+        where: { boardId, createdAt: { gt: windowStart } },
+      }),
+    ]);
+    if (
+      ipRequests >= this.ipRateLimit ||
+      boardRequests >= this.boardRateLimit
+    ) {
+      throw new HttpException(
+        'Too many guest sessions, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    await tx.guestSessionRequest.deleteMany({
+      where: {
+        OR: [{ ipHash }, { boardId }],
+        createdAt: { lte: windowStart },
+      },
+    });
+    await tx.guestSessionRequest.create({ data: { ipHash, boardId } });
+  }
+
+  private async ensureGuestBoard(boardId: number) {
+    const board = await this.prisma.retroBoard.findFirst({
+      where: {
+        id: boardId,
+        deletedAt: null,
+        team: { isAnonymousBoardAccessEnabled: true },
+      },
+      select: { id: true },
+    });
+
+    if (!board) {
+      throw new NotFoundException(`Board ${boardId} not found`);
+    }
+  }
+}
+
+export function isGuestTokenPayload(
+  payload: object,
+): payload is GuestTokenPayload {
+  return 'type' in payload && payload.type === GUEST_TOKEN_TYPE;
+}
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+
+  return value;
+}
+
+function getIntEnv(name: string, fallbackValue: number): number {
+  const rawValue = process.env[name]?.trim();
+  if (!rawValue) {
+    return fallbackValue;
+  }
+
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+
+  return parsed;
+}
+
+function addSeconds(seconds: number): Date {
+  return new Date(Date.now() + seconds * 1000);
+}
+
+function getGuestExpiresIn(): JwtExpiresIn {
+  const value =
+    process.env.GUEST_TOKEN_EXPIRES_IN?.trim() || DEFAULT_GUEST_TOKEN_EXPIRES_IN;
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  return value as JwtExpiresIn;
+}
@@ -0,0 +1,201 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { MailService } from '../mail/mail.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const DEFAULT_TOKEN_TTL_SEC = 1800;
+const DEFAULT_RATE_LIMIT = 3;
+const DEFAULT_RATE_WINDOW_SEC = 3600;
+const PASSWORD_SALT_ROUNDS = 12;
+
+/**
+ * Forgotten password recovery. Only the sha256 of a reset token is stored;
+ * the token itself exists only in the emailed link.
+ */
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+  private readonly frontendUrl = getRequiredEnv('FRONTEND_URL');
+  private readonly tokenTtlSec = getIntEnv(
+    'PASSWORD_RESET_TOKEN_TTL_SEC',
+    DEFAULT_TOKEN_TTL_SEC,
+  );
+  private readonly rateLimit = getIntEnv(
+    'PASSWORD_RESET_RATE_LIMIT',
+    DEFAULT_RATE_LIMIT,
+  );
+  private readonly rateWindowSec = getIntEnv(
+    'PASSWORD_RESET_RATE_WINDOW_SEC',
+    DEFAULT_RATE_WINDOW_SEC,
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mailService: MailService,
+  ) {}
+
+  /**
+   * Always succeeds, so the response does not tell whether the email has an
+   * account. The limit is counted per email before any lookup, and the
+   * letter goes out after the answer, so unknown emails are limited and
+   * answered just like existing ones. Unknown emails and guests get no letter.
+   * The count and the insert run under an advisory lock on the email, so
+   * parallel requests cannot all pass the same count.
+   */
+  async requestReset(emailRaw: string) {
+    const email = normalizeEmail(emailRaw);
+    const emailHash = hashToken(email);
+    const windowStart = addSeconds(-this.rateWindowSec);
+
+    const accepted = await this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`password-reset:${emailHash}`}))`;
+
+      const recentRequests = await tx.passwordResetRequest.count({
+        where: { emailHash, createdAt: { gt: windowStart } },
+      });
+      if (recentRequests >= this.rateLimit) {
+        return false;
+      }
+
+      await tx.passwordResetRequest.deleteMany({
+        where: { emailHash, createdAt: { lte: windowStart } },
+      });
+      await tx.passwordResetRequest.create({ data: { emailHash } });
+      return true;
+    });
+    if (!accepted) {
+      this.logger.warn(
+        `Password reset rate limit reached for emailHash=${emailHash}`,
+      );
+      return { success: true };
+    }
+
+    void this.sendResetLink(email).catch((error: unknown) =>
+      this.logger.error(`Password reset email failed: ${String(error)}`),
+    );
+
+    return { success: true };
+  }
+
+  /**
+   * Uses up the token, sets the password and signs the user out everywhere
+   * by revoking all refresh tokens. Other outstanding reset links stop
+   * working too.
+   */
+  async confirmReset(tokenRaw: string, newPassword: string) {
+    const token = tokenRaw.trim();
+    const passwordHash = await bcrypt.hash(newPassword, PASSWORD_SALT_ROUNDS);
+
+    const reset = await this.prisma.$transaction(async (tx) => {
+      const record = await tx.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        select: { id: true, userId: true, usedAt: true, expiresAt: true },
+      });
+      if (!record || record.usedAt || record.expiresAt <= new Date()) {
+        return null;
+      }
+
+      const now = new Date();
+      const claimed = await tx.passwordResetToken.updateMany({
+        where: { id: record.id, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now },
+      });
+      if (claimed.count !== 1) {
+        return null;
+      }
+
+      await tx.user.update({
+        where: { id: record.userId },
+        data: { passwordHash },
+      });
+      await tx.refreshToken.updateMany({
+        where: { userId: record.userId, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      await tx.passwordResetToken.updateMany({
+        where: { userId: record.userId, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      return record;
+    });
+
+    if (!reset) {
+      throw new UnauthorizedException('Invalid or expired reset token');
+    }
+
+    return { success: true };
+  }
+
+  private async sendResetLink(email: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, isGuest: true },
+    });
+    if (!user || user.isGuest) {
+      return;
+    }
+
+    const token = generateRandomToken();
+    await this.prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: addSeconds(this.tokenTtlSec),
+      },
+    });
+
+    const url = new URL('/auth/reset-password', this.frontendUrl);
+    url.searchParams.set('token', token);
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Password reset',
+      text: [
+        'Someone requested a password reset for your Retro Board account.',
+        `Open this link within ${Math.ceil(this.tokenTtlSec / 60)} minutes to choose a new password:`,
+        url.toString(),
+        'If it was not you, ignore this email.',
+      ].join('\n\n'),
+    });
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function generateRandomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function addSeconds(seconds: number): Date {
+  return new Date(Date.now() + seconds * 1000);
+}
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+
+  return value;
+}
+
+function getIntEnv(name: string, fallbackValue: number): number {
+  const rawValue = process.env[name]?.trim();
+  if (!rawValue) {
+    return fallbackValue;
+  }
+
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+
+  return parsed;
+}
@@ -1,16 +1,28 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import {
+  GuestSessionService,
+  GuestTokenPayload,
+  isGuestTokenPayload,
+} from '../guest-session.service';
+import {
+  isTwoFactorChallengePayload,
+  TwoFactorChallengePayload,
+} from '../two-factor.service';
 import { AuthenticatedUser } from '../types/authenticated-user.type';
 
-type JwtPayload = {
-  sub: string;
-  email: string;
-};
+type JwtPayload =
+  | {
+      sub: string;
+      email: string;
+    }
+  | GuestTokenPayload
+  | TwoFactorChallengePayload;
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(private readonly guestSessionService: GuestSessionService) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -18,7 +30,21 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  validate(payload: JwtPayload): AuthenticatedUser {
+  async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
+    // Signed with the same secret, but only proves the password step.
+    if (isTwoFactorChallengePayload(payload)) {
+      throw new UnauthorizedException('Two-factor authentication required');
+    }
+
+    if (isGuestTokenPayload(payload)) {
+      const guest = await this.guestSessionService.resolveGuest(payload);
+      if (!guest) {
+        throw new UnauthorizedException('Guest session expired');
+      }
+
+      return guest;
+    }
+
     return {
       id: payload.sub,
       email: payload.email,
@@ -0,0 +1,412 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Prisma, User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { buildTotpUri, generateTotpSecret, verifyTotpCode } from './totp';
+
+export const TWO_FACTOR_CHALLENGE_TOKEN_TYPE = 'totp-challenge';
+
+const RECOVERY_CODE_COUNT = 10;
+const DEFAULT_CHALLENGE_TTL_SEC = 300;
+const DEFAULT_CHALLENGE_MAX_ATTEMPTS = 5;
+const DEFAULT_MAX_FAILED_ATTEMPTS = 10;
+const DEFAULT_LOCKOUT_SEC = 900;
+
+export type TwoFactorChallengePayload = {
+  sub: string;
+  type: typeof TWO_FACTOR_CHALLENGE_TOKEN_TYPE;
+  jti?: string;
+  exp?: number;
+};
+
+export type TwoFactorChallengeResponse = {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: Date;
+};
+
+/**
+ * TOTP second factor for local and Google accounts. A new secret stays
+ * pending until the user proves it with a code; recovery codes are stored as
+ * sha256 hashes and each works once. A login challenge allows a few code
+ * attempts and works once; repeated wrong codes lock the user's 2FA for a
+ * while.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly accessSecret = getRequiredEnv('JWT_ACCESS_SECRET');
+  private readonly challengeTtlSec = getIntEnv(
+    'TOTP_CHALLENGE_TTL_SEC',
+    DEFAULT_CHALLENGE_TTL_SEC,
+  );
+  private readonly challengeMaxAttempts = getIntEnv(
+    'TOTP_CHALLENGE_MAX_ATTEMPTS',
+    DEFAULT_CHALLENGE_MAX_ATTEMPTS,
+  );
+  private readonly maxFailedAttempts = getIntEnv(
+    'TOTP_MAX_FAILED_ATTEMPTS',
+    DEFAULT_MAX_FAILED_ATTEMPTS,
+  );
+  private readonly lockoutSec = getIntEnv(
+    'TOTP_LOCKOUT_SEC',
+    DEFAULT_LOCKOUT_SEC,
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  /**
+   * Starts enrolment with a fresh secret. Calling it again replaces the
+   * pending secret, e.g. when the QR code was never scanned.
+   */
+  async setup(userId: string) {
+    const user = await this.findAccountOrFail(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { totpPendingSecret: secret },
+    });
+
+    return {
+      secret,
+      otpauthUri: buildTotpUri(secret, user.email),
+    };
+  }
+
+  async enable(userId: string, code: string) {
+    const user = await this.findAccountOrFail(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+    if (!user.totpPendingSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    const step = verifyTotpCode(user.totpPendingSecret, code);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: {
+          totpSecret: user.totpPendingSecret,
+          totpPendingSecret: null,
+          totpEnabledAt: new Date(),
+          totpLastUsedStep: step,
+        },
+      });
+      await this.replaceRecoveryCodes(tx, user.id, recoveryCodes);
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turning 2FA off needs a current code or a recovery code, so a stolen
+   * access token alone cannot remove it.
+   */
+  async disable(userId: string, code: string) {
+    await this.verifyCode(userId, code);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          totpSecret: null,
+          totpPendingSecret: null,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+        },
+      });
+      await tx.totpRecoveryCode.deleteMany({ where: { userId } });
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Replaces all recovery codes. Only an authenticator code is accepted, so
+   * a leaked recovery code cannot be turned into a fresh set.
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    await this.verifyCode(userId, code, { allowRecoveryCode: false });
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.prisma.$transaction(async (tx) => {
+      await this.replaceRecoveryCodes(tx, userId, recoveryCodes);
+    });
+
+    return { recoveryCodes };
+  }
+
+  async createChallenge(
+    user: Pick<User, 'id'>,
+  ): Promise<TwoFactorChallengeResponse> {
+    await this.prisma.totpChallenge.deleteMany({
+      where: { userId: user.id, expiresAt: { lte: new Date() } },
+    });
+    const challenge = await this.prisma.totpChallenge.create({
+      data: { userId: user.id, expiresAt: addSeconds(this.challengeTtlSec) },
+      select: { id: true },
+    });
+
+    const payload: TwoFactorChallengePayload = {
+      sub: user.id,
+      type: TWO_FACTOR_CHALLENGE_TOKEN_TYPE,
+    };
+    const challengeToken = await this.jwtService.signAsync(payload, {
+      secret: this.accessSecret,
+      expiresIn: this.challengeTtlSec,
+      jwtid: challenge.id,
+    });
+    const decoded = this.jwtService.decode(
+      challengeToken,
+    ) as TwoFactorChallengePayload;
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresAt: new Date((decoded.exp ?? 0) * 1000),
+    };
+  }
+
+  /**
+   * Checks the challenge issued after the password (or Google) step and the
+   * second factor; returns the id of the user to issue tokens for. The
+   * attempt is counted before the code is checked, so parallel requests
+   * cannot get past the limit, and a passed challenge cannot be used again.
+   */
+  async verifyChallenge(challengeToken: string, code: string): Promise<string> {
+    let payload: object;
+    try {
+      payload = await this.jwtService.verifyAsync<object>(challengeToken, {
+        secret: this.accessSecret,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+    if (!isTwoFactorChallengePayload(payload) || !payload.jti) {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    const counted = await this.prisma.totpChallenge.updateMany({
+      where: {
+        id: payload.jti,
+        userId: payload.sub,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+        attempts: { lt: this.challengeMaxAttempts },
+      },
+      data: { attempts: { increment: 1 } },
+    });
+    if (counted.count !== 1) {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    await this.verifyCode(payload.sub, code);
+
+    const consumed = await this.prisma.totpChallenge.updateMany({
+      where: { id: payload.jti, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (consumed.count !== 1) {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge');
+    }
+
+    return payload.sub;
+  }
+
+  /**
+   * Accepts a TOTP code whose step is newer than the last one used, or an
+   * unused recovery code. Both are consumed with a conditional update, so
+   * two requests racing with the same code cannot both pass. Each check
+   * counts against the user's failed attempts until a code passes.
+   */
+  private async verifyCode(
+    userId: string,
+    codeRaw: string,
+    options: { allowRecoveryCode: boolean } = { allowRecoveryCode: true },
+  ) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, totpSecret: true, totpEnabledAt: true },
+    });
+    if (!user?.totpEnabledAt || !user.totpSecret) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    await this.countAttempt(user.id);
+    await this.checkCode(user.id, user.totpSecret, codeRaw, options);
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { totpFailedAttempts: 0, totpLockedUntil: null },
+    });
+  }
+
+  /**
+   * Counts an attempt up front. The last one allowed starts the lockout
+   * right away, and only a passed code lifts it early.
+   */
+  private async countAttempt(userId: string) {
+    const now = new Date();
+    const unlocked: Prisma.UserWhereInput = {
+      OR: [{ totpLockedUntil: null }, { totpLockedUntil: { lte: now } }],
+    };
+
+    const counted = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        totpFailedAttempts: { lt: this.maxFailedAttempts - 1 },
+        ...unlocked,
+      },
+      data: { totpFailedAttempts: { increment: 1 } },
+    });
+    if (counted.count === 1) {
+      return;
+    }
+
+    const locked = await this.prisma.user.updateMany({
+      where: { id: userId, ...unlocked },
+      data: {
+        totpFailedAttempts: 0,
+        totpLockedUntil: addSeconds(this.lockoutSec),
+      },
+    });
+    if (locked.count !== 1) {
+      throw new HttpException(
+        'Too many failed two-factor attempts, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async checkCode(
+    userId: string,
+    secret: string,
+    codeRaw: string,
+    options: { allowRecoveryCode: boolean },
+  ) {
+    const step = verifyTotpCode(secret, codeRaw);
+    if (step !== null) {
+      const claimed = await this.prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+        },
+        data: { totpLastUsedStep: step },
+      });
+      if (claimed.count === 1) {
+        return;
+      }
+    } else if (options.allowRecoveryCode) {
+      const claimed = await this.prisma.totpRecoveryCode.updateMany({
+        where: {
+          userId,
+          codeHash: hashRecoveryCode(codeRaw),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+      if (claimed.count === 1) {
+        return;
+      }
+    }
+
+    throw new UnauthorizedException('Invalid two-factor code');
+  }
+
+  private async replaceRecoveryCodes(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    recoveryCodes: string[],
+  ) {
+    await tx.totpRecoveryCode.deleteMany({ where: { userId } });
+    await tx.totpRecoveryCode.createMany({
+      data: recoveryCodes.map((code) => ({
+        userId,
+        codeHash: hashRecoveryCode(code),
+      })),
+    });
+  }
+
+  private async findAccountOrFail(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        isGuest: true,
+        totpPendingSecret: true,
+        totpEnabledAt: true,
+      },
+    });
+    if (!user || user.isGuest) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    return user;
+  }
+}
+
+export function isTwoFactorChallengePayload(
+  payload: object,
+): payload is TwoFactorChallengePayload {
+  return 'type' in payload && payload.type === TWO_FACTOR_CHALLENGE_TOKEN_TYPE;
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+// Recovery codes are typed by hand, so case, dashes and spaces do not matter.
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+function addSeconds(seconds: number): Date {
+  return new Date(Date.now() + seconds * 1000);
+}
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+
+  return value;
+}
+
+function getIntEnv(name: string, fallbackValue: number): number {
+  const rawValue = process.env[name]?.trim();
+  if (!rawValue) {
+    return fallbackValue;
+  }
+
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+
+  return parsed;
+}
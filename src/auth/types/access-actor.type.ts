@@ -1,4 +1,4 @@
 export type AccessActor = {
   userId: string;
-  isAnonymous: boolean;
+  isGuest?: boolean;
 };
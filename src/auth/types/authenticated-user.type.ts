@@ -1,4 +1,6 @@
 export interface AuthenticatedUser {
   id: string;
   email: string;
+  isGuest?: boolean;
+  guestBoardId?: number;
 }
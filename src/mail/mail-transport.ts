@@ -0,0 +1,73 @@
+import { createTransport, Transporter } from 'nodemailer';
+
+export const MAIL_TRANSPORTS = ['log', 'smtp'] as const;
+
+export type MailTransportKind = (typeof MAIL_TRANSPORTS)[number];
+
+/**
+ * Builds the nodemailer transport:
+ * - `log` renders messages without sending them (the default in development);
+ * - `smtp` delivers to `MAIL_SMTP_HOST`, e.g. a real relay or a local SMTP
+ *   catcher such as Mailpit in tests.
+ */
+export function createMailTransport(
+  kind: MailTransportKind = getMailTransportKind(),
+): Transporter {
+  if (kind === 'log') {
+    return createTransport({ jsonTransport: true });
+  }
+
+  const user = process.env.MAIL_SMTP_USER?.trim();
+  return createTransport({
+    host: getRequiredEnv('MAIL_SMTP_HOST'),
+    port: getPortEnv('MAIL_SMTP_PORT', 587),
+    secure: process.env.MAIL_SMTP_SECURE?.trim() === 'true',
+    ...(user
+      ? { auth: { user, pass: process.env.MAIL_SMTP_PASSWORD ?? '' } }
+      : {}),
+  });
+}
+
+/**
+ * `log` is only the default in development: elsewhere a missing setting
+ * would silently drop every letter, so it has to be chosen explicitly.
+ */
+export function getMailTransportKind(): MailTransportKind {
+  const value = process.env.MAIL_TRANSPORT?.trim();
+  if (!value) {
+    if (process.env.NODE_ENV?.trim() !== 'development') {
+      throw new Error('MAIL_TRANSPORT is required outside development');
+    }
+
+    return 'log';
+  }
+
+  if (!MAIL_TRANSPORTS.includes(value as MailTransportKind)) {
+    throw new Error(`MAIL_TRANSPORT must be one of: ${MAIL_TRANSPORTS.join(', ')}`);
+  }
+
+  return value as MailTransportKind;
+}
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+
+  return value;
+}
+
+function getPortEnv(name: string, fallbackValue: number): number {
+  const rawValue = process.env[name]?.trim();
+  if (!rawValue) {
+    return fallbackValue;
+  }
+
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+
+  return parsed;
+}
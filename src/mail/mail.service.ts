@@ -0,0 +1,37 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Transporter } from 'nodemailer';
+import {
+  createMailTransport,
+  getMailTransportKind,
+  MailTransportKind,
+} from './mail-transport';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+const DEFAULT_MAIL_FROM = 'Retro Board <no-reply@retro.local>';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from = process.env.MAIL_FROM?.trim() || DEFAULT_MAIL_FROM;
+  private readonly kind: MailTransportKind;
+  private readonly transport: Transporter;
+
+  constructor() {
+    this.kind = getMailTransportKind();
+    this.transport = createMailTransport(this.kind);
+  }
+
+  async send(message: MailMessage) {
+    await this.transport.sendMail({ from: this.from, ...message });
+
+    // The body carries one-time links, so it never goes to the log.
+    if (this.kind === 'log') {
+      this.logger.log(`Mail to ${message.to}: ${message.subject}`);
+    }
+  }
+}
@@ -2,11 +2,14 @@ import { ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import { RealtimeIoAdapter } from './realtime/realtime-io.adapter';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
   const frontendOrigin = getFrontendOrigin();
 
+  app.useWebSocketAdapter(new RealtimeIoAdapter(app));
+
   app.enableCors({
     origin: (
       origin: string | undefined,
@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export const BOARD_EVENT_LOG_SIZE = 500;
+
+export const BOARD_RESYNC_EVENT = 'board.resync';
+
+export type BoardEvent = {
+  seq: number;
+  event: string;
+  payload: Prisma.JsonValue;
+};
+
+export type BoardEventReplay = {
+  seq: number;
+  resync: boolean;
+  events: BoardEvent[];
+};
+
+/**
+ * Per-board event log: every board event gets the next `seq` of its board
+ * and the last BOARD_EVENT_LOG_SIZE events are kept for replay.
+ */
+@Injectable()
+export class BoardEventLogService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Returns the logged event, or null when the board no longer exists.
+   */
+  async append(
+    boardId: number,
+    event: string,
+    payload: unknown,
+  ): Promise<BoardEvent | null> {
+    // One transaction: the row lock taken by the bump orders concurrent
+    // appends of a board, and a failed insert gives its seq back.
+    return this.prisma.$transaction(async (tx) => {
+      // Raw update keeps the counter bump from touching `updatedAt`.
+      const [row] = await tx.$queryRaw<Array<{ seq: number }>>`
+        WITH next AS (
+          UPDATE "retro_boards"
+          SET "eventSeq" = "eventSeq" + 1
+          WHERE "id" = ${boardId}
+          RETURNING "eventSeq"
+        )
+        SELECT "eventSeq" AS "seq" FROM next
+      `;
+
+      if (!row) {
+        return null;
+      }
+
+      const stamped = withSeq(payload, row.seq);
+      await tx.retroBoardEvent.create({
+        data: {
+          boardId,
+          seq: row.seq,
+          event,
+          payload: stamped as Prisma.InputJsonValue,
+        },
+      });
+
+      if (row.seq > BOARD_EVENT_LOG_SIZE) {
+        await tx.retroBoardEvent.deleteMany({
+          where: { boardId, seq: { lte: row.seq - BOARD_EVENT_LOG_SIZE } },
+        });
+      }
+
+      return { seq: row.seq, event, payload: stamped };
+    });
+  }
+
+  /**
+   * Events after `lastSeq`, or `resync: true` when some of them are no
+   * longer in the log (or `lastSeq` is ahead of the board).
+   */
+  async readSince(boardId: number, lastSeq?: number): Promise<BoardEventReplay> {
+    const board = await this.prisma.retroBoard.findUnique({
+      where: { id: boardId },
+      select: { eventSeq: true },
+    });
+    const seq = board?.eventSeq ?? 0;
+
+    if (lastSeq === undefined || lastSeq === seq) {
+      return { seq, resync: false, events: [] };
+    }
+
+    if (lastSeq > seq) {
+      return { seq, resync: true, events: [] };
+    }
+
+    const events = await this.prisma.retroBoardEvent.findMany({
+      where: { boardId, seq: { gt: lastSeq } },
+      orderBy: { seq: 'asc' },
+      select: { seq: true, event: true, payload: true },
+    });
+
+    if (events.length === 0 || events[0].seq !== lastSeq + 1) {
+      return { seq, resync: true, events: [] };
+    }
+
+    return { seq: events[events.length - 1].seq, resync: false, events };
+  }
+}
+
+function withSeq(payload: unknown, seq: number): Prisma.JsonValue {
+  // Dates and other values are stored the way socket.io serializes them.
+  const json = JSON.parse(JSON.stringify(payload ?? null)) as Prisma.JsonValue;
+
+  if (typeof json === 'object' && json !== null && !Array.isArray(json)) {
+    return { ...json, seq };
+  }
+
+  return { seq, data: json };
+}
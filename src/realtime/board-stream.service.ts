@@ -0,0 +1,256 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { Namespace } from 'socket.io';
+import {
+  BOARD_RESYNC_EVENT,
+  BoardEventLogService,
+} from './board-event-log.service';
+import { getRealtimeAdapterKind } from './realtime-io.adapter';
+
+export const BOARD_STREAM_EVENTS = {
+  ready: 'board.stream.ready',
+  heartbeat: 'board.stream.heartbeat',
+} as const;
+
+// Below the usual 60s idle timeout of proxies.
+export const BOARD_STREAM_HEARTBEAT_MS = 25_000;
+
+const BOARD_STREAM_RELAY_EVENT = 'board.stream.relay';
+const BOARD_STREAM_EVICT_EVENT = 'board.stream.evict';
+
+type BoardStreamSubscriber = {
+  userId: string;
+  deliver: (event: string, payload: unknown) => void;
+  close: () => void;
+};
+
+type BoardStreamRelay = {
+  boardId: number;
+  event: string;
+  payload: unknown;
+  excludedUserId?: string;
+};
+
+type BoardStreamEviction = {
+  boardIds: number[];
+  memberIds: string[];
+};
+
+/**
+ * Server-Sent Events fallback for the board room: subscribers get the same
+ * events as sockets that joined the board. With a shared socket.io adapter
+ * the events are relayed to streams held by other instances.
+ */
+@Injectable()
+export class BoardStreamService {
+  private readonly subscribers = new Map<number, Set<BoardStreamSubscriber>>();
+  private namespace: Namespace | null = null;
+  private relayEnabled = false;
+
+  constructor(private readonly eventLog: BoardEventLogService) {}
+
+  bindNamespace(
+    namespace: Namespace,
+    relayEnabled = getRealtimeAdapterKind() !== 'memory',
+  ) {
+    this.namespace = namespace;
+    this.relayEnabled = relayEnabled;
+
+    if (!relayEnabled) {
+      return;
+    }
+
+    namespace.on(BOARD_STREAM_RELAY_EVENT, (relay: BoardStreamRelay) => {
+      this.deliver(
+        relay.boardId,
+        relay.event,
+        relay.payload,
+        relay.excludedUserId,
+      );
+    });
+    namespace.on(BOARD_STREAM_EVICT_EVENT, (eviction: BoardStreamEviction) => {
+      this.closeUnauthorized(eviction.boardIds, new Set(eviction.memberIds));
+    });
+  }
+
+  /**
+   * Replays events after `lastSeq` the way `board.join` does, then streams
+   * live events; live events already covered by the replay are skipped.
+   * The caller checks board access before opening the stream.
+   */
+  stream(
+    boardId: number,
+    userId: string,
+    lastSeq?: number,
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      let replayedSeq: number | null = null;
+      const pending: Array<[string, unknown]> = [];
+
+      const send = (event: string, payload: unknown) => {
+        if (replayedSeq === null) {
+          pending.push([event, payload]);
+          return;
+        }
+
+        const seq = getSeq(payload);
+        if (seq !== null && seq <= replayedSeq) {
+          return;
+        }
+
+        subscriber.next(toMessageEvent(event, payload, seq));
+      };
+
+      const unsubscribe = this.subscribe(boardId, {
+        userId,
+        deliver: send,
+        close: () => subscriber.complete(),
+      });
+      const heartbeat = setInterval(() => {
+        subscriber.next({
+          type: BOARD_STREAM_EVENTS.heartbeat,
+          data: { boardId },
+        });
+      }, BOARD_STREAM_HEARTBEAT_MS);
+
+      // Subscribed before reading, so nothing falls between replay and live.
+      this.eventLog.readSince(boardId, lastSeq).then(
+        (replay) => {
+          if (replay.resync) {
+            subscriber.next({
+              type: BOARD_RESYNC_EVENT,
+              data: { boardId, seq: replay.seq },
+            });
+          }
+
+          for (const event of replay.events) {
+            subscriber.next(toMessageEvent(event.event, event.payload, event.seq));
+          }
+
+          subscriber.next({
+            id: String(replay.seq),
+            type: BOARD_STREAM_EVENTS.ready,
+            data: {
+              boardId,
+              seq: replay.seq,
+              replayed: replay.events.length,
+              resync: replay.resync,
+            },
+          });
+
+          replayedSeq = replay.seq;
+          for (const [event, payload] of pending.splice(0)) {
+            send(event, payload);
+          }
+        },
+        (error: unknown) => subscriber.error(error),
+      );
+
+      return () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * Sends a board room event to the streams of this and, when relayed,
+   * every other instance. `excludedUserId` mirrors the socket broadcast.
+   */
+  publish(
+    boardId: number,
+    event: string,
+    payload: unknown,
+    excludedUserId?: string,
+  ) {
+    this.deliver(boardId, event, payload, excludedUserId);
+
+    if (this.relayEnabled) {
+      const relay: BoardStreamRelay = { boardId, event, payload, excludedUserId };
+      this.namespace?.serverSideEmit(BOARD_STREAM_RELAY_EVENT, relay);
+    }
+  }
+
+  /**
+   * Closes streams of users that are no longer team members.
+   */
+  evictUnauthorized(boardIds: number[], memberIds: Set<string>) {
+    this.closeUnauthorized(boardIds, memberIds);
+
+    if (this.relayEnabled) {
+      const eviction: BoardStreamEviction = {
+        boardIds,
+        memberIds: Array.from(memberIds),
+      };
+      this.namespace?.serverSideEmit(BOARD_STREAM_EVICT_EVENT, eviction);
+    }
+  }
+
+  getSubscriberCount(boardId: number): number {
+    return this.subscribers.get(boardId)?.size ?? 0;
+  }
+
+  private subscribe(
+    boardId: number,
+    subscriber: BoardStreamSubscriber,
+  ): () => void {
+    const subscribers =
+      this.subscribers.get(boardId) ?? new Set<BoardStreamSubscriber>();
+    subscribers.add(subscriber);
+    this.subscribers.set(boardId, subscribers);
+
+    return () => {
+      subscribers.delete(subscriber);
+      if (subscribers.size === 0 && this.subscribers.get(boardId) === subscribers) {
+        this.subscribers.delete(boardId);
+      }
+    };
+  }
+
+  private deliver(
+    boardId: number,
+    event: string,
+    payload: unknown,
+    excludedUserId?: string,
+  ) {
+    for (const subscriber of this.subscribers.get(boardId) ?? []) {
+      if (excludedUserId && subscriber.userId === excludedUserId) {
+        continue;
+      }
+
+      subscriber.deliver(event, payload);
+    }
+  }
+
+  private closeUnauthorized(boardIds: number[], memberIds: Set<string>) {
+    for (const boardId of boardIds) {
+      for (const subscriber of Array.from(this.subscribers.get(boardId) ?? [])) {
+        if (!memberIds.has(subscriber.userId)) {
+          subscriber.close();
+        }
+      }
+    }
+  }
+}
+
+function getSeq(payload: unknown): number | null {
+  if (typeof payload !== 'object' || payload === null) {
+    return null;
+  }
+
+  const seq = (payload as { seq?: unknown }).seq;
+  return typeof seq === 'number' ? seq : null;
+}
+
+function toMessageEvent(
+  event: string,
+  payload: unknown,
+  seq: number | null,
+): MessageEvent {
+  // Only logged events carry an id, so Last-Event-ID is always a board seq.
+  return {
+    ...(seq === null ? {} : { id: String(seq) }),
+    type: event,
+    data: (payload ?? null) as MessageEvent['data'],
+  };
+}
@@ -0,0 +1,316 @@
+import {
+  ConflictException,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeService } from './realtime.service';
+
+export const EDIT_LOCK_EVENTS = {
+  acquired: 'lock.acquired',
+  released: 'lock.released',
+  typing: 'lock.typing',
+} as const;
+
+export const EDIT_LOCK_TTL_MS = 15_000;
+const EDIT_LOCK_SWEEP_INTERVAL_MS = 5_000;
+
+export const EDIT_LOCK_ENTITIES = ['item', 'group', 'column'] as const;
+
+export const EDIT_LOCKED_ERROR_CODE = 'EDIT_LOCKED';
+
+export type EditLockEntity = (typeof EDIT_LOCK_ENTITIES)[number];
+
+export type EditLockTarget = {
+  entity: EditLockEntity;
+  entityId: number;
+  boardId: number;
+};
+
+export type EditLockHolder = {
+  socketId: string;
+  userId: string;
+  name: string | null;
+  isGuest: boolean;
+};
+
+export type EditLock = EditLockTarget & {
+  userId: string;
+  name: string | null;
+  isGuest: boolean;
+  expiresAt: Date;
+};
+
+type HeldLock = EditLock & { socketId: string };
+
+const HELD_LOCK_SELECT = {
+  entity: true,
+  entityId: true,
+  boardId: true,
+  socketId: true,
+  userId: true,
+  name: true,
+  isGuest: true,
+  expiresAt: true,
+} satisfies Prisma.RetroEditLockSelect;
+
+type StoredLock = Prisma.RetroEditLockGetPayload<{
+  select: typeof HELD_LOCK_SELECT;
+}>;
+
+const ENTITY_LABELS: Record<EditLockEntity, string> = {
+  item: 'Item',
+  group: 'Group',
+  column: 'Column',
+};
+
+/**
+ * Short-lived soft locks taken by a socket while its user edits an entity.
+ * Locks expire unless renewed, and are dropped when the socket disconnects.
+ * They are stored in Postgres, so a lock taken through one API instance
+ * blocks sockets and REST writes on every other instance too.
+ */
+@Injectable()
+export class EditLockService implements OnModuleInit, OnModuleDestroy {
+  private sweepId: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  onModuleInit() {
+    this.sweepId = setInterval(() => {
+      void this.sweepExpiredLocks();
+    }, EDIT_LOCK_SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (!this.sweepId) {
+      return;
+    }
+
+    clearInterval(this.sweepId);
+    this.sweepId = null;
+  }
+
+  /**
+   * Takes over an own or expired lock with one conditional update; a free
+   * entity gets a new row, and its primary key stops two instances from
+   * creating the same lock at once.
+   */
+  async acquire(
+    target: EditLockTarget,
+    holder: EditLockHolder,
+    now = new Date(),
+  ): Promise<EditLock> {
+    const { entity, entityId } = target;
+    const data = {
+      boardId: target.boardId,
+      socketId: holder.socketId,
+      userId: holder.userId,
+      name: holder.name,
+      isGuest: holder.isGuest,
+      expiresAt: new Date(now.getTime() + EDIT_LOCK_TTL_MS),
+    };
+
+    const taken = await this.prisma.retroEditLock.updateMany({
+      where: {
+        entity,
+        entityId,
+        OR: [{ socketId: holder.socketId }, { expiresAt: { lte: now } }],
+      },
+      data,
+    });
+    if (taken.count === 0) {
+      try {
+        await this.prisma.retroEditLock.create({
+          data: { entity, entityId, ...data },
+        });
+      } catch (error) {
+        if (!isUniqueViolation(error)) {
+          throw error;
+        }
+
+        const current = await this.getActiveLock(entity, entityId, now);
+        throw lockedConflict(current ?? { entity, entityId, name: null });
+      }
+    }
+
+    return toEditLock({ entity, entityId, ...data });
+  }
+
+  async renew(
+    entity: EditLockEntity,
+    entityId: number,
+    socketId: string,
+    now = new Date(),
+  ): Promise<EditLock> {
+    const renewed = await this.prisma.retroEditLock.updateMany({
+      where: { entity, entityId, socketId, expiresAt: { gt: now } },
+      data: { expiresAt: new Date(now.getTime() + EDIT_LOCK_TTL_MS) },
+    });
+    const lock =
+      renewed.count === 1
+        ? await this.getActiveLock(entity, entityId, now)
+        : null;
+    if (!lock || lock.socketId !== socketId) {
+      throw new ConflictException(
+        `${ENTITY_LABELS[entity]} ${entityId} is not locked by this connection`,
+      );
+    }
+
+    return toEditLock(lock);
+  }
+
+  /**
+   * Returns the released lock, or null when the socket did not hold it.
+   */
+  async release(
+    entity: EditLockEntity,
+    entityId: number,
+    socketId: string,
+  ): Promise<EditLock | null> {
+    const lock = await this.findLock(entity, entityId);
+    if (!lock || lock.socketId !== socketId) {
+      return null;
+    }
+
+    const released = await this.prisma.retroEditLock.deleteMany({
+      where: { entity, entityId, socketId },
+    });
+    return released.count === 1 ? toEditLock(lock) : null;
+  }
+
+  async releaseSocketLocks(socketId: string): Promise<number> {
+    const held = await this.prisma.retroEditLock.findMany({
+      where: { socketId },
+      select: HELD_LOCK_SELECT,
+    });
+
+    return this.releaseLocks(held, { socketId });
+  }
+
+  /**
+   * Every instance sweeps; the conditional delete lets only one of them
+   * announce each expired lock.
+   */
+  async sweepExpiredLocks(now = new Date()): Promise<number> {
+    const expired = await this.prisma.retroEditLock.findMany({
+      where: { expiresAt: { lte: now } },
+      select: HELD_LOCK_SELECT,
+    });
+
+    return this.releaseLocks(expired, { expiresAt: { lte: now } });
+  }
+
+  /**
+   * REST updates go through here: a lock held by the same user (any tab)
+   * does not block them, a lock held by anyone else does.
+   */
+  async ensureNotLockedByOther(
+    entity: EditLockEntity,
+    entityId: number,
+    userId: string,
+    now = new Date(),
+  ) {
+    const lock = await this.getActiveLock(entity, entityId, now);
+    if (lock && lock.userId !== userId) {
+      throw lockedConflict(lock);
+    }
+  }
+
+  private async releaseLocks(
+    locks: StoredLock[],
+    where: Prisma.RetroEditLockWhereInput,
+  ): Promise<number> {
+    let releasedCount = 0;
+    for (const lock of locks) {
+      const released = await this.prisma.retroEditLock.deleteMany({
+        where: { ...where, entity: lock.entity, entityId: lock.entityId },
+      });
+      if (released.count === 1) {
+        releasedCount += 1;
+        await this.emitReleased(toHeldLock(lock));
+      }
+    }
+
+    return releasedCount;
+  }
+
+  private async getActiveLock(
+    entity: EditLockEntity,
+    entityId: number,
+    now: Date,
+  ): Promise<HeldLock | null> {
+    const lock = await this.findLock(entity, entityId);
+    if (!lock || lock.expiresAt <= now) {
+      return null;
+    }
+
+    return lock;
+  }
+
+  private async findLock(
+    entity: EditLockEntity,
+    entityId: number,
+  ): Promise<HeldLock | null> {
+    const lock = await this.prisma.retroEditLock.findUnique({
+      where: { entity_entityId: { entity, entityId } },
+      select: HELD_LOCK_SELECT,
+    });
+
+    return lock ? toHeldLock(lock) : null;
+  }
+
+  private async emitReleased(lock: HeldLock) {
+    await this.realtimeService.emitTransientToBoard(
+      lock.boardId,
+      EDIT_LOCK_EVENTS.released,
+      {
+        entity: lock.entity,
+        entityId: lock.entityId,
+        boardId: lock.boardId,
+      },
+    );
+  }
+}
+
+function lockedConflict(
+  lock: Pick<EditLock, 'entity' | 'entityId' | 'name'>,
+): ConflictException {
+  return new ConflictException({
+    statusCode: 409,
+    error: 'Conflict',
+    message: `${ENTITY_LABELS[lock.entity]} ${lock.entityId} is being edited by ${
+      lock.name ?? 'another user'
+    }`,
+    code: EDIT_LOCKED_ERROR_CODE,
+  });
+}
+
+function toEditLock(lock: EditLock): EditLock {
+  return {
+    entity: lock.entity,
+    entityId: lock.entityId,
+    boardId: lock.boardId,
+    userId: lock.userId,
+    name: lock.name,
+    isGuest: lock.isGuest,
+    expiresAt: lock.expiresAt,
+  };
+}
+
+// Rows store the entity as text; only the service writes them.
+function toHeldLock(lock: StoredLock): HeldLock {
+  return { ...lock, entity: lock.entity as EditLockEntity };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002'
+  );
+}
@@ -0,0 +1,91 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/postgres-adapter';
+import { Server as HttpServer } from 'node:http';
+import { Pool } from 'pg';
+import { Server, ServerOptions } from 'socket.io';
+
+export const REALTIME_ADAPTERS = ['memory', 'postgres'] as const;
+
+export type RealtimeAdapterKind = (typeof REALTIME_ADAPTERS)[number];
+
+export const SOCKET_IO_ATTACHMENTS_TABLE = 'socket_io_attachments';
+
+/**
+ * Socket.io server with a pluggable cross-instance adapter:
+ * - `memory` keeps rooms in this process (single instance, the default);
+ * - `postgres` shares rooms between instances over LISTEN/NOTIFY.
+ */
+export class RealtimeIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RealtimeIoAdapter.name);
+  private pool: Pool | null = null;
+
+  constructor(
+    appOrHttpServer: INestApplicationContext | HttpServer,
+    private readonly kind: RealtimeAdapterKind = getRealtimeAdapterKind(),
+  ) {
+    super(appOrHttpServer);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+
+    if (this.kind === 'postgres') {
+      server.adapter(
+        createAdapter(this.getPool(), {
+          tableName: SOCKET_IO_ATTACHMENTS_TABLE,
+          errorHandler: (error) =>
+            this.logger.error(`Postgres adapter error: ${error.message}`),
+        }),
+      );
+    }
+
+    this.logger.log(`Realtime adapter: ${this.kind}`);
+    return server;
+  }
+
+  async dispose() {
+    await super.dispose();
+
+    if (!this.pool) {
+      return;
+    }
+
+    const pool = this.pool;
+    this.pool = null;
+    await pool.end();
+  }
+
+  private getPool(): Pool {
+    if (!this.pool) {
+      this.pool = new Pool({
+        connectionString: getRequiredEnv('DATABASE_URL'),
+      });
+      this.pool.on('error', (error) =>
+        this.logger.error(`Postgres pool error: ${error.message}`),
+      );
+    }
+
+    return this.pool;
+  }
+}
+
+export function getRealtimeAdapterKind(): RealtimeAdapterKind {
+  const value = process.env.REALTIME_ADAPTER?.trim() || 'memory';
+  if (!REALTIME_ADAPTERS.includes(value as RealtimeAdapterKind)) {
+    throw new Error(
+      `REALTIME_ADAPTER must be one of: ${REALTIME_ADAPTERS.join(', ')}`,
+    );
+  }
+
+  return value as RealtimeAdapterKind;
+}
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+
+  return value;
+}
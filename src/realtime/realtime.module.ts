@@ -1,9 +1,22 @@
 import { Global, Module } from '@nestjs/common';
+import { BoardEventLogService } from './board-event-log.service';
+import { BoardStreamService } from './board-stream.service';
+import { EditLockService } from './edit-lock.service';
 import { RealtimeService } from './realtime.service';
 
 @Global()
 @Module({
-  providers: [RealtimeService],
-  exports: [RealtimeService],
+  providers: [
+    RealtimeService,
+    EditLockService,
+    BoardEventLogService,
+    BoardStreamService,
+  ],
+  exports: [
+    RealtimeService,
+    EditLockService,
+    BoardEventLogService,
+    BoardStreamService,
+  ],
 })
 export class RealtimeModule {}
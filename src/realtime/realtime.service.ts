@@ -1,88 +1,586 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { Namespace, Socket } from 'socket.io';
 import { PrismaService } from '../prisma/prisma.service';
+import { BoardEventLogService } from './board-event-log.service';
+import { BoardStreamService } from './board-stream.service';
+import { getRealtimeAdapterKind } from './realtime-io.adapter';
+
+export const BOARD_PRESENCE_EVENTS = {
+  snapshot: 'board.presence',
+  joined: 'board.presence.joined',
+  left: 'board.presence.left',
+  updated: 'board.presence.updated',
+} as const;
+
+export const PRESENCE_IDLE_AFTER_MS = 60_000;
+const PRESENCE_SWEEP_INTERVAL_MS = 15_000;
+
+const BOARD_EVICT_EVENT = 'board.evict';
+
+export type BoardPresenceParticipant = {
+  key: string;
+  userId: string | null;
+  name: string | null;
+  email: string | null;
+  isGuest: boolean;
+  idle: boolean;
+  connections: number;
+  joinedAt: Date;
+  lastActiveAt: Date;
+};
+
+/**
+ * Presence of one socket on one board. It lives in `socket.data`, so every
+ * instance reads the whole cluster with `fetchSockets()`; times are epoch
+ * milliseconds to survive the adapter's serialization.
+ */
+type SocketBoardPresence = {
+  name: string | null;
+  email: string | null;
+  isGuest: boolean;
+  idle: boolean;
+  joinedAt: number;
+  lastActiveAt: number;
+};
+
+type PresenceSocketData = {
+  userId?: string;
+  presence?: Record<number, SocketBoardPresence>;
+};
+
+// Local sockets and the remote sockets returned by `fetchSockets()`.
+type PresenceSocket = Pick<Socket, 'id' | 'data'>;
+
+type BoardEviction = {
+  boardIds: number[];
+  memberIds: string[];
+};
 
 @Injectable()
-export class RealtimeService {
+export class RealtimeService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RealtimeService.name);
-  private readonly userSocketIds = new Map<string, Set<string>>();
-  private readonly socketUserIds = new Map<string, string>();
   private namespace: Namespace | null = null;
+  private relayEnabled = false;
+  private presenceSweepId: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventLog: BoardEventLogService,
+    private readonly boardStream: BoardStreamService,
+  ) {}
+
+  onModuleInit() {
+    this.presenceSweepId = setInterval(() => {
+      this.sweepIdlePresence().catch((error: unknown) =>
+        this.logger.warn(`Presence sweep failed: ${toErrorMessage(error)}`),
+      );
+    }, PRESENCE_SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (!this.presenceSweepId) {
+      return;
+    }
 
-  constructor(private readonly prisma: PrismaService) {}
+    clearInterval(this.presenceSweepId);
+    this.presenceSweepId = null;
+  }
 
-  bindNamespace(namespace: Namespace) {
+  bindNamespace(
+    namespace: Namespace,
+    relayEnabled = getRealtimeAdapterKind() !== 'memory',
+  ) {
     this.namespace = namespace;
+    this.relayEnabled = relayEnabled;
+    this.boardStream.bindNamespace(namespace, relayEnabled);
+
+    if (!relayEnabled) {
+      return;
+    }
+
+    // Socket data can only be changed by the instance holding the socket.
+    namespace.on(BOARD_EVICT_EVENT, (eviction: BoardEviction) => {
+      this.evictLocalBoardSockets(
+        eviction.boardIds,
+        new Set(eviction.memberIds),
+      ).catch((error: unknown) =>
+        this.logger.warn(`Board eviction failed: ${toErrorMessage(error)}`),
+      );
+    });
   }
 
+  /**
+   * Every socket of a user joins the user room, so user-addressed events
+   * and exclusions work across instances sharing the socket.io adapter.
+   */
   registerClient(client: Socket, userId: string) {
-    const sockets = this.userSocketIds.get(userId) ?? new Set<string>();
-    sockets.add(client.id);
-    this.userSocketIds.set(userId, sockets);
-    this.socketUserIds.set(client.id, userId);
+    client.data.userId = userId;
+    client.join(getUserRoom(userId));
+  }
+
+  async unregisterClient(client: PresenceSocket) {
+    for (const boardId of Object.keys(getSocketData(client).presence ?? {})) {
+      try {
+        await this.leaveBoardPresence(client, Number(boardId));
+      } catch (error) {
+        this.logger.warn(
+          `Failed to leave presence of board ${boardId}: ${toErrorMessage(error)}`,
+        );
+      }
+    }
   }
 
-  unregisterClient(client: Socket) {
-    const userId = this.socketUserIds.get(client.id);
-    if (!userId) {
+  /**
+   * Team channel: sockets of current team members, used for team-level
+   * events (membership, settings) that are not tied to a single board.
+   */
+  async emitToTeam(
+    teamId: number,
+    event: string,
+    payload: unknown,
+    excludedUserId?: string,
+  ) {
+    if (!this.namespace) {
+      this.logger.warn(
+        `Skipped broadcast for team ${teamId}: namespace is not initialized`,
+      );
       return;
     }
 
-    this.socketUserIds.delete(client.id);
+    const userRooms = await this.getTeamUserRooms(teamId);
+    this.broadcast(userRooms, event, payload, excludedUserId);
+  }
+
+  /**
+   * Board room: every socket that joined the board via `board.join`,
+   * including guests, and every SSE stream of the board.
+   * The event is stamped with the board `seq` and kept for replay.
+   */
+  async emitToBoard(
+    boardId: number,
+    event: string,
+    payload: unknown,
+    excludedUserId?: string,
+  ) {
+    const logged = await this.appendBoardEvent(boardId, event, payload);
+    await this.emitTransientToBoard(boardId, event, logged, excludedUserId);
+  }
 
-    const sockets = this.userSocketIds.get(userId);
-    if (!sockets) {
+  /**
+   * Board room without the event log, for short-lived state (locks) that
+   * makes no sense to replay after a reconnect.
+   */
+  async emitTransientToBoard(
+    boardId: number,
+    event: string,
+    payload: unknown,
+    excludedUserId?: string,
+  ) {
+    this.boardStream.publish(boardId, event, payload, excludedUserId);
+    if (!this.namespace) {
+      this.logger.warn(
+        `Skipped broadcast for board ${boardId}: namespace is not initialized`,
+      );
       return;
     }
 
-    sockets.delete(client.id);
-    if (sockets.size === 0) {
-      this.userSocketIds.delete(userId);
-    }
+    this.broadcast([getBoardRoom(boardId)], event, payload, excludedUserId);
   }
 
-  async emitToTeam(
+  /**
+   * Board lifecycle events are shown both on the board and in the team's
+   * board list, so they go to the board room and the team channel at once.
+   */
+  async emitToTeamAndBoard(
     teamId: number,
+    boardId: number,
     event: string,
     payload: unknown,
     excludedUserId?: string,
   ) {
+    const logged = await this.appendBoardEvent(boardId, event, payload);
+    this.boardStream.publish(boardId, event, logged, excludedUserId);
     if (!this.namespace) {
       this.logger.warn(
-        `Skipped broadcast for team ${teamId}: namespace is not initialized`,
+        `Skipped broadcast for board ${boardId}: namespace is not initialized`,
       );
       return;
     }
 
-    const teamMembers = await this.prisma.teamMember.findMany({
-      where: { teamId },
-      select: { userId: true },
+    const userRooms = await this.getTeamUserRooms(teamId);
+    this.broadcast(
+      [...userRooms, getBoardRoom(boardId)],
+      event,
+      logged,
+      excludedUserId,
+    );
+  }
+
+  /**
+   * Board rooms and streams are joined once after an access check, so
+   * sockets and SSE streams that lost access later (removed member,
+   * anonymous access turned off) are evicted. Each instance evicts its own
+   * sockets, the others are told through the adapter.
+   */
+  async evictUnauthorizedBoardSockets(teamId: number) {
+    const team = await this.prisma.team.findUnique({
+      where: { id: teamId },
+      select: {
+        isAnonymousBoardAccessEnabled: true,
+        members: { select: { userId: true } },
+        boards: { select: { id: true } },
+      },
     });
 
-    if (teamMembers.length === 0) {
+    if (!team || team.isAnonymousBoardAccessEnabled) {
+      return;
+    }
+
+    const boardIds = team.boards.map((board) => board.id);
+    const memberIds = new Set(team.members.map((member) => member.userId));
+    this.boardStream.evictUnauthorized(boardIds, memberIds);
+    if (!this.namespace) {
+      return;
+    }
+
+    await this.evictLocalBoardSockets(boardIds, memberIds);
+    if (this.relayEnabled) {
+      const eviction: BoardEviction = {
+        boardIds,
+        memberIds: Array.from(memberIds),
+      };
+      this.namespace.serverSideEmit(BOARD_EVICT_EVENT, eviction);
+    }
+  }
+
+  /**
+   * Adds the socket to the board presence list and returns the snapshot.
+   * Tabs of one user share a single entry, also across instances; guests
+   * are tracked per socket. The socket must already be in the board room.
+   */
+  async joinBoardPresence(
+    client: PresenceSocket,
+    boardId: number,
+  ): Promise<BoardPresenceParticipant[]> {
+    const data = getSocketData(client);
+    const now = Date.now();
+    const current = data.presence?.[boardId];
+    if (current) {
+      current.idle = false;
+      current.lastActiveAt = now;
+      return this.getBoardPresence(boardId);
+    }
+
+    const userId = data.userId ?? null;
+    const profile = userId
+      ? await this.prisma.user.findUnique({
+          where: { id: userId },
+          select: { name: true, email: true, isGuest: true },
+        })
+      : null;
+
+    data.presence = {
+      ...data.presence,
+      [boardId]: {
+        name: profile?.name ?? null,
+        email: profile?.isGuest ? null : (profile?.email ?? null),
+        isGuest: !userId || Boolean(profile?.isGuest),
+        idle: false,
+        joinedAt: now,
+        lastActiveAt: now,
+      },
+    };
+
+    const participants = await this.getBoardPresence(boardId);
+    const participant = participants.find(
+      (item) => item.key === getPresenceKey(client),
+    );
+    if (participant) {
+      // Only the first connection of a participant in the cluster is news.
+      this.emitPresence(
+        boardId,
+        participant.connections === 1
+          ? BOARD_PRESENCE_EVENTS.joined
+          : BOARD_PRESENCE_EVENTS.updated,
+        { boardId, participant },
+        client.id,
+      );
+    }
+
+    return participants;
+  }
+
+  /**
+   * `left` goes out only when no socket of the participant stays on the
+   * board on any instance; otherwise the others get the new `connections`.
+   */
+  async leaveBoardPresence(client: PresenceSocket, boardId: number) {
+    const data = getSocketData(client);
+    if (!data.presence?.[boardId]) {
       return;
     }
 
-    const socketIds: string[] = [];
-    for (const member of teamMembers) {
-      if (excludedUserId && member.userId === excludedUserId) {
+    delete data.presence[boardId];
+    const key = getPresenceKey(client);
+    const participant = await this.getParticipant(boardId, key, client.id);
+    if (participant) {
+      this.emitPresence(boardId, BOARD_PRESENCE_EVENTS.updated, {
+        boardId,
+        participant,
+      });
+      return;
+    }
+
+    this.emitPresence(boardId, BOARD_PRESENCE_EVENTS.left, { boardId, key });
+  }
+
+  /**
+   * Returns false when the socket is not on the board presence list.
+   */
+  async markBoardActivity(
+    client: PresenceSocket,
+    boardId: number,
+  ): Promise<boolean> {
+    const entry = getSocketData(client).presence?.[boardId];
+    if (!entry) {
+      return false;
+    }
+
+    const wasIdle = entry.idle;
+    entry.idle = false;
+    entry.lastActiveAt = Date.now();
+    if (wasIdle) {
+      const participant = await this.getParticipant(
+        boardId,
+        getPresenceKey(client),
+      );
+      if (participant) {
+        this.emitPresence(boardId, BOARD_PRESENCE_EVENTS.updated, {
+          boardId,
+          participant,
+        });
+      }
+    }
+
+    return true;
+  }
+
+  async getPresenceParticipant(
+    client: PresenceSocket,
+    boardId: number,
+  ): Promise<BoardPresenceParticipant | null> {
+    if (!getSocketData(client).presence?.[boardId]) {
+      return null;
+    }
+
+    return this.getParticipant(boardId, getPresenceKey(client));
+  }
+
+  /**
+   * Participants from every instance: sockets in the board room that
+   * joined presence, merged per presence key.
+   */
+  async getBoardPresence(
+    boardId: number,
+    exceptSocketId?: string,
+  ): Promise<BoardPresenceParticipant[]> {
+    if (!this.namespace) {
+      return [];
+    }
+
+    const sockets = await this.namespace
+      .in(getBoardRoom(boardId))
+      .fetchSockets();
+    const participants = new Map<string, BoardPresenceParticipant>();
+    for (const socket of sockets) {
+      const entry = getSocketData(socket).presence?.[boardId];
+      if (!entry || socket.id === exceptSocketId) {
         continue;
       }
 
-      const userSockets = this.userSocketIds.get(member.userId);
-      if (!userSockets) {
+      const key = getPresenceKey(socket);
+      const current = participants.get(key);
+      if (!current) {
+        participants.set(key, {
+          key,
+          userId: getSocketData(socket).userId ?? null,
+          name: entry.name,
+          email: entry.email,
+          isGuest: entry.isGuest,
+          idle: entry.idle,
+          connections: 1,
+          joinedAt: new Date(entry.joinedAt),
+          lastActiveAt: new Date(entry.lastActiveAt),
+        });
         continue;
       }
 
-      for (const socketId of userSockets) {
-        socketIds.push(socketId);
+      // The participant is idle only when every tab is.
+      current.connections += 1;
+      current.idle = current.idle && entry.idle;
+      if (entry.joinedAt < current.joinedAt.getTime()) {
+        current.joinedAt = new Date(entry.joinedAt);
+      }
+      if (entry.lastActiveAt > current.lastActiveAt.getTime()) {
+        current.lastActiveAt = new Date(entry.lastActiveAt);
+      }
+    }
+
+    return Array.from(participants.values()).sort(
+      (a, b) => a.joinedAt.getTime() - b.joinedAt.getTime(),
+    );
+  }
+
+  /**
+   * Marks local sockets idle; `updated` goes out once all tabs of the
+   * participant, on any instance, are idle.
+   */
+  async sweepIdlePresence(now = new Date()): Promise<number> {
+    if (!this.namespace) {
+      return 0;
+    }
+
+    let updated = 0;
+    for (const socket of this.namespace.sockets.values()) {
+      const presence = getSocketData(socket).presence ?? {};
+      for (const [boardIdKey, entry] of Object.entries(presence)) {
+        if (
+          entry.idle ||
+          now.getTime() - entry.lastActiveAt < PRESENCE_IDLE_AFTER_MS
+        ) {
+          continue;
+        }
+
+        entry.idle = true;
+        const boardId = Number(boardIdKey);
+        const participant = await this.getParticipant(
+          boardId,
+          getPresenceKey(socket),
+        );
+        if (participant?.idle) {
+          updated += 1;
+          this.emitPresence(boardId, BOARD_PRESENCE_EVENTS.updated, {
+            boardId,
+            participant,
+          });
+        }
+      }
+    }
+
+    return updated;
+  }
+
+  private async getParticipant(
+    boardId: number,
+    key: string,
+    exceptSocketId?: string,
+  ): Promise<BoardPresenceParticipant | null> {
+    const participants = await this.getBoardPresence(boardId, exceptSocketId);
+    return participants.find((item) => item.key === key) ?? null;
+  }
+
+  private emitPresence(
+    boardId: number,
+    event: string,
+    payload: unknown,
+    exceptSocketId?: string,
+  ) {
+    this.boardStream.publish(boardId, event, payload);
+    this.namespace
+      ?.to(getBoardRoom(boardId))
+      .except(exceptSocketId ? [exceptSocketId] : [])
+      .emit(event, payload);
+  }
+
+  /**
+   * Returns the payload stamped with `seq`. A failed write only costs
+   * replay for this event, so the broadcast still goes out unstamped.
+   */
+  private async evictLocalBoardSockets(
+    boardIds: number[],
+    memberIds: Set<string>,
+  ) {
+    if (!this.namespace) {
+      return;
+    }
+
+    for (const boardId of boardIds) {
+      const room = getBoardRoom(boardId);
+      const sockets = await this.namespace.in(room).local.fetchSockets();
+
+      for (const socket of sockets) {
+        const userId = getSocketData(socket).userId;
+        if (!userId || !memberIds.has(userId)) {
+          socket.leave(room);
+          await this.leaveBoardPresence(socket, boardId);
+        }
       }
     }
+  }
+
+  private async appendBoardEvent(
+    boardId: number,
+    event: string,
+    payload: unknown,
+  ): Promise<unknown> {
+    try {
+      const logged = await this.eventLog.append(boardId, event, payload);
+      return logged ? logged.payload : payload;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to log ${event} for board ${boardId}: ${toErrorMessage(error)}`,
+      );
+      return payload;
+    }
+  }
 
-    if (socketIds.length === 0) {
+  private async getTeamUserRooms(teamId: number): Promise<string[]> {
+    const teamMembers = await this.prisma.teamMember.findMany({
+      where: { teamId },
+      select: { userId: true },
+    });
+
+    return teamMembers.map((member) => getUserRoom(member.userId));
+  }
+
+  private broadcast(
+    rooms: string[],
+    event: string,
+    payload: unknown,
+    excludedUserId?: string,
+  ) {
+    if (!this.namespace || rooms.length === 0) {
       return;
     }
 
-    this.namespace.to(socketIds).emit(event, payload);
+    const excludedRooms = excludedUserId ? [getUserRoom(excludedUserId)] : [];
+
+    this.namespace.to(rooms).except(excludedRooms).emit(event, payload);
   }
 }
+
+function getSocketData(socket: PresenceSocket): PresenceSocketData {
+  return socket.data as PresenceSocketData;
+}
+
+function getPresenceKey(socket: PresenceSocket): string {
+  const userId = getSocketData(socket).userId;
+  return userId ? `user:${userId}` : `guest:${socket.id}`;
+}
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function getBoardRoom(boardId: number): string {
+  return `board:${boardId}`;
+}
+
+export function getUserRoom(userId: string): string {
+  return `user:${userId}`;
+}
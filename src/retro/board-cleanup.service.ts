@@ -0,0 +1,46 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { RetroService } from './retro.service';
+
+@Injectable()
+export class BoardCleanupService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BoardCleanupService.name);
+  private intervalId: NodeJS.Timeout | null = null;
+
+  constructor(private readonly retroService: RetroService) {}
+
+  onModuleInit() {
+    this.intervalId = setInterval(() => {
+      void this.runCleanup();
+      void this.runTombstoneCleanup();
+    }, 60 * 60 * 1000);
+  }
+
+  onModuleDestroy() {
+    if (!this.intervalId) {
+      return;
+    }
+
+    clearInterval(this.intervalId);
+    this.intervalId = null;
+  }
+
+  async runCleanup(): Promise<number> {
+    try {
+      return await this.retroService.purgeExpiredDeletedBoards();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to purge deleted boards: ${message}`);
+      return 0;
+    }
+  }
+
+  async runTombstoneCleanup(): Promise<number> {
+    try {
+      return await this.retroService.purgeExpiredTombstones();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to purge tombstones: ${message}`);
+      return 0;
+    }
+  }
+}
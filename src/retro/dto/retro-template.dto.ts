@@ -0,0 +1,199 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ColumnColorDto } from './retro.dto';
+
+export class RetroTemplateGroupDto {
+  @ApiProperty({ example: 'Процессы' })
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @ApiPropertyOptional({ example: 'Карточки про процессы команды' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    type: ColumnColorDto,
+    example: {
+      columnColor: '#B6D9F7',
+      itemColor: '#5FB0EF',
+      buttonColor: '#8AC4F3',
+    },
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ColumnColorDto)
+  color?: ColumnColorDto;
+}
+
+export class RetroTemplateColumnDto {
+  @ApiProperty({ example: 'Start' })
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @ApiPropertyOptional({ example: 'Что стоит начать делать?' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    type: ColumnColorDto,
+    example: {
+      columnColor: '#B4DFC4',
+      itemColor: '#7FBF7F',
+      buttonColor: '#96CD9D',
+    },
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ColumnColorDto)
+  color?: ColumnColorDto;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Cards of this column are counted as action items',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActionItems?: boolean;
+
+  @ApiPropertyOptional({ type: [RetroTemplateGroupDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RetroTemplateGroupDto)
+  groups?: RetroTemplateGroupDto[];
+}
+
+export class GetRetroTemplatesQueryDto {
+  @ApiProperty({ example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  teamId!: number;
+}
+
+export class CreateRetroTemplateDto {
+  @ApiProperty({ example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  teamId!: number;
+
+  @ApiProperty({ example: 'Наш формат ретро' })
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @ApiPropertyOptional({ example: 'Шаблон для спринтовых ретро платформы' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: [RetroTemplateColumnDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RetroTemplateColumnDto)
+  columns!: RetroTemplateColumnDto[];
+}
+
+export class UpdateRetroTemplateDto {
+  @ApiPropertyOptional({ example: 'Наш формат ретро v2' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'Обновленный шаблон' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ type: [RetroTemplateColumnDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RetroTemplateColumnDto)
+  columns?: RetroTemplateColumnDto[];
+}
+
+export class SaveBoardAsTemplateDto {
+  @ApiPropertyOptional({ example: 'Шаблон из Sprint 12 Retro' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'Колонки и группы спринтового ретро' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class RetroTemplateGroupResponseDto {
+  @ApiProperty({ example: 'Процессы' })
+  name!: string;
+
+  @ApiProperty({ example: 'Карточки про процессы команды' })
+  description!: string;
+
+  @ApiPropertyOptional({ type: ColumnColorDto })
+  color?: ColumnColorDto;
+}
+
+export class RetroTemplateColumnResponseDto {
+  @ApiProperty({ example: 'Start' })
+  name!: string;
+
+  @ApiProperty({ example: 'Что стоит начать делать?' })
+  description!: string;
+
+  @ApiProperty({ type: ColumnColorDto })
+  color!: ColumnColorDto;
+
+  @ApiPropertyOptional({ example: false })
+  isActionItems?: boolean;
+
+  @ApiProperty({ type: [RetroTemplateGroupResponseDto] })
+  groups!: RetroTemplateGroupResponseDto[];
+}
+
+export class RetroTemplateResponseDto {
+  @ApiProperty({
+    example: 'start-stop-continue',
+    description: 'Built-in template slug or numeric id of a team template',
+  })
+  id!: string;
+
+  @ApiProperty({ example: 1, nullable: true })
+  teamId!: number | null;
+
+  @ApiProperty({ example: true })
+  isBuiltIn!: boolean;
+
+  @ApiProperty({ example: 'Start / Stop / Continue' })
+  name!: string;
+
+  @ApiProperty({
+    example: 'Что начать делать, что прекратить и что продолжать',
+  })
+  description!: string;
+
+  @ApiProperty({ type: [RetroTemplateColumnResponseDto] })
+  columns!: RetroTemplateColumnResponseDto[];
+}
@@ -1,17 +1,35 @@
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { RetroBoardPhase, RetroTombstoneEntity, TeamRole } from '@prisma/client';
+import { Transform, Type } from 'class-transformer';
 import {
   IsArray,
   IsBoolean,
   IsDateString,
+  IsEnum,
   IsHexColor,
+  IsIn,
   IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
+  Max,
   Min,
   ValidateNested,
 } from 'class-validator';
+import { BoardTimerResponseDto } from '../../timer/dto/timer.dto';
+
+export const BOARD_SORT_FIELDS = ['date', 'name'] as const;
+export type BoardSortField = (typeof BOARD_SORT_FIELDS)[number];
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+export const AUTHOR_VISIBILITY_MODES = [
+  'visible',
+  'facilitators',
+  'anonymous',
+] as const;
+export type AuthorVisibility = (typeof AUTHOR_VISIBILITY_MODES)[number];
 
 export class CreateBoardDto {
   @ApiProperty({ example: 1 })
@@ -34,6 +52,45 @@ export class CreateBoardDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  @ApiPropertyOptional({
+    example: 'start-stop-continue',
+    description: 'Built-in template id or numeric id of a team template',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  templateId?: string;
+}
+
+export class CloneBoardDto {
+  @ApiPropertyOptional({ example: 'Sprint 13 Retro' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({ example: '2026-03-02' })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+
+  @ApiPropertyOptional({ example: 'Командная ретроспектива по спринту' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    type: [Number],
+    example: [42, 43],
+    description: 'Items to carry over into the new board, e.g. unfinished action points',
+  })
+  @IsOptional()
+  @IsArray()
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  itemIds?: number[];
 }
 
 export class GetBoardsQueryDto {
@@ -43,6 +100,104 @@ export class GetBoardsQueryDto {
   @IsInt()
   @Min(1)
   teamId?: number;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Include archived boards in the list',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeArchived?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'eyJ2IjoiMjAyNi0wMi0xNiIsImlkIjoxMn0',
+    description: 'Opaque cursor from previous page `nextCursor`',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  cursor?: string;
+
+  @ApiPropertyOptional({ example: 20, minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: BOARD_SORT_FIELDS, default: 'date' })
+  @IsOptional()
+  @IsIn(BOARD_SORT_FIELDS)
+  sortBy?: BoardSortField;
+
+  @ApiPropertyOptional({ enum: SORT_ORDERS, default: 'desc' })
+  @IsOptional()
+  @IsIn(SORT_ORDERS)
+  order?: SortOrder;
+
+  @ApiPropertyOptional({ example: '2026-01-01' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ example: '2026-03-31' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+
+  @ApiPropertyOptional({
+    example: 'sprint',
+    description: 'Case-insensitive search by board name',
+  })
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
+
+export class GetDeletedBoardsQueryDto {
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  teamId?: number;
+}
+
+export class BoardEventsQueryDto {
+  @ApiPropertyOptional({
+    example: 42,
+    description:
+      'Last processed board event seq for the first connection; the Last-Event-ID header wins on reconnects',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  lastEventId?: number;
+}
+
+export class BoardChangesQueryDto {
+  @ApiProperty({
+    example: '2026-03-22T09:00:00.000Z',
+    description: 'Cursor from the previous response, or the time of the last full load',
+  })
+  @IsDateString()
+  since!: string;
+}
+
+export class ExpectedVersionQueryDto {
+  @ApiPropertyOptional({
+    example: 3,
+    description:
+      'Version the change is based on; a stale version is rejected with 409 and the current state',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class UpdateBoardNameDto {
@@ -50,12 +205,123 @@ export class UpdateBoardNameDto {
   @IsString()
   @IsNotEmpty()
   name!: string;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
+}
+
+export class BoardVotingSettingsDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  enabled!: boolean;
+
+  @ApiProperty({ example: 5, minimum: 1, maximum: 100 })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  maxVotesPerParticipant!: number;
+
+  @ApiProperty({ example: false })
+  @IsBoolean()
+  allowMultipleVotesPerItem!: boolean;
+
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  hideVotesUntilReveal!: boolean;
+
+  @ApiProperty({ example: false })
+  @IsBoolean()
+  votesRevealed!: boolean;
+}
+
+export class UpdateBoardVotingSettingsDto {
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({ example: 5, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  maxVotesPerParticipant?: number;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  allowMultipleVotesPerItem?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  hideVotesUntilReveal?: boolean;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  votesRevealed?: boolean;
+}
+
+export class BoardCardHidingSettingsDto {
+  @ApiProperty({
+    example: true,
+    description: 'Cards are visible only to their authors until revealed',
+  })
+  @IsBoolean()
+  enabled!: boolean;
+
+  @ApiProperty({ type: [Number], example: [7] })
+  @IsArray()
+  @IsInt({ each: true })
+  revealedColumnIds!: number[];
+
+  @ApiProperty({
+    type: [String],
+    example: ['8f635db5-7d93-4e6e-a1a7-8f7ba4f4f7d2'],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  revealedAuthorIds!: string[];
+}
+
+export class UpdateBoardCardHidingSettingsDto {
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Enabling hiding again drops earlier reveals',
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
 }
 
 export class BoardSettingsDto {
   @ApiProperty({ example: true })
   @IsBoolean()
   showLikes!: boolean;
+
+  @ApiProperty({
+    enum: AUTHOR_VISIBILITY_MODES,
+    example: 'visible',
+    description:
+      'Who sees card authors: everyone, only OWNER/ADMIN or nobody',
+  })
+  @IsIn(AUTHOR_VISIBILITY_MODES)
+  authorVisibility!: AuthorVisibility;
+
+  @ApiProperty({ type: BoardVotingSettingsDto })
+  @ValidateNested()
+  @Type(() => BoardVotingSettingsDto)
+  voting!: BoardVotingSettingsDto;
+
+  @ApiProperty({ type: BoardCardHidingSettingsDto })
+  @ValidateNested()
+  @Type(() => BoardCardHidingSettingsDto)
+  cardHiding!: BoardCardHidingSettingsDto;
 }
 
 export class UpdateBoardSettingsDto {
@@ -63,12 +329,100 @@ export class UpdateBoardSettingsDto {
   @IsOptional()
   @IsBoolean()
   showLikes?: boolean;
+
+  @ApiPropertyOptional({ enum: AUTHOR_VISIBILITY_MODES, example: 'anonymous' })
+  @IsOptional()
+  @IsIn(AUTHOR_VISIBILITY_MODES)
+  authorVisibility?: AuthorVisibility;
+
+  @ApiPropertyOptional({ type: UpdateBoardVotingSettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateBoardVotingSettingsDto)
+  voting?: UpdateBoardVotingSettingsDto;
+
+  @ApiPropertyOptional({ type: UpdateBoardCardHidingSettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateBoardCardHidingSettingsDto)
+  cardHiding?: UpdateBoardCardHidingSettingsDto;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
+}
+
+export class RevealBoardCardsDto {
+  @ApiPropertyOptional({ example: 7, description: 'Reveal cards of column' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  columnId?: number;
+
+  @ApiPropertyOptional({
+    example: '8f635db5-7d93-4e6e-a1a7-8f7ba4f4f7d2',
+    description: 'Reveal cards of author',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  authorId?: string;
+}
+
+export class UpdateBoardPhaseDto {
+  @ApiProperty({
+    enum: RetroBoardPhase,
+    example: RetroBoardPhase.GROUP,
+    description:
+      'Target phase: any later phase or the previous one can be selected',
+  })
+  @IsEnum(RetroBoardPhase)
+  phase!: RetroBoardPhase;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
+}
+
+export class BoardPhaseChangeResponseDto {
+  @ApiProperty({ example: 1 })
+  boardId!: number;
+
+  @ApiProperty({ enum: RetroBoardPhase, example: RetroBoardPhase.GROUP })
+  phase!: RetroBoardPhase;
+
+  @ApiProperty({
+    enum: RetroBoardPhase,
+    example: RetroBoardPhase.REVEAL,
+    nullable: true,
+  })
+  previousPhase!: RetroBoardPhase | null;
+
+  @ApiProperty({ example: '2026-03-17T18:00:00.000Z' })
+  phaseChangedAt!: Date;
+
+  @ApiProperty({ example: 5 })
+  version!: number;
 }
 
 export class UpdateColumnNameDto {
   @ApiProperty({ example: 'Что было хорошо?' })
   @IsString()
   name!: string;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class ColumnColorDto {
@@ -97,12 +451,26 @@ export class UpdateColumnColorDto {
   @ValidateNested()
   @Type(() => ColumnColorDto)
   color!: ColumnColorDto;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class UpdateColumnDescriptionDto {
   @ApiProperty({ example: 'Фокус: стабильность CI и speed delivery' })
   @IsString()
   description!: string;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class CreateColumnDto {
@@ -148,6 +516,13 @@ export class UpdateItemDescriptionDto {
   @ApiProperty({ example: 'Нужно улучшить code review процесс' })
   @IsString()
   description!: string;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class UpdateItemColorDto {
@@ -155,6 +530,13 @@ export class UpdateItemColorDto {
   @IsOptional()
   @IsString()
   color?: string;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class CreateItemCommentDto {
@@ -169,6 +551,13 @@ export class UpdateItemCommentDto {
   @IsString()
   @IsNotEmpty()
   text!: string;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class CreateGroupDto {
@@ -201,6 +590,13 @@ export class UpdateGroupNameDto {
   @IsString()
   @IsNotEmpty()
   name!: string;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class UpdateGroupColorDto {
@@ -215,12 +611,26 @@ export class UpdateGroupColorDto {
   @ValidateNested()
   @Type(() => ColumnColorDto)
   color!: ColumnColorDto;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class UpdateGroupDescriptionDto {
   @ApiProperty({ example: 'Группа для связанных карточек по релизу' })
   @IsString()
   description!: string;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class ReorderColumnsDto {
@@ -261,6 +671,13 @@ export class ItemPositionChangeDto {
   @IsInt()
   @Min(1)
   newGroupId?: number | null;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class SyncItemPositionsDto {
@@ -292,6 +709,13 @@ export class GroupPositionChangeDto {
   @IsInt()
   @Min(0)
   newOrderIndex!: number;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expectedVersion?: number;
 }
 
 export class SyncGroupPositionsDto {
@@ -305,6 +729,17 @@ export class SyncGroupPositionsDto {
   changes!: GroupPositionChangeDto[];
 }
 
+export class ItemAuthorDto {
+  @ApiProperty({ example: '8f635db5-7d93-4e6e-a1a7-8f7ba4f4f7d2' })
+  id!: string;
+
+  @ApiProperty({ example: 'alice@example.com' })
+  email!: string;
+
+  @ApiPropertyOptional({ example: 'Alice' })
+  name?: string | null;
+}
+
 export class RetroItemResponseDto {
   @ApiProperty({ example: 42 })
   id!: number;
@@ -332,6 +767,33 @@ export class RetroItemResponseDto {
 
   @ApiProperty({ example: 3 })
   commentsCount!: number;
+
+  @ApiProperty({ example: 2 })
+  version!: number;
+
+  @ApiProperty({
+    type: ItemAuthorDto,
+    nullable: true,
+    description: 'Null when author is hidden by board settings or unknown',
+  })
+  author!: ItemAuthorDto | null;
+}
+
+export class RevealBoardCardsResponseDto {
+  @ApiProperty({ example: 1 })
+  boardId!: number;
+
+  @ApiProperty({ example: 5 })
+  version!: number;
+
+  @ApiProperty({ type: BoardCardHidingSettingsDto })
+  cardHiding!: BoardCardHidingSettingsDto;
+
+  @ApiProperty({
+    type: [RetroItemResponseDto],
+    description: 'Cards of the revealed column or author',
+  })
+  items!: RetroItemResponseDto[];
 }
 
 export class CommentCreatorDto {
@@ -355,6 +817,9 @@ export class RetroItemCommentResponseDto {
   @ApiProperty({ example: 'Согласен, это нужно поправить в следующем спринте' })
   text!: string;
 
+  @ApiProperty({ example: 1 })
+  version!: number;
+
   @ApiProperty({ example: '2026-02-22T12:00:00.000Z' })
   createdAt!: Date;
 
@@ -388,6 +853,9 @@ export class RetroGroupResponseDto {
   @ApiProperty({ example: 0 })
   orderIndex!: number;
 
+  @ApiProperty({ example: 2 })
+  version!: number;
+
   @ApiProperty({ example: false })
   isNameEditing!: boolean;
 
@@ -429,6 +897,12 @@ export class RetroColumnResponseDto {
   })
   color!: ColumnColorDto;
 
+  @ApiProperty({ example: false })
+  isActionItems!: boolean;
+
+  @ApiProperty({ example: 4 })
+  version!: number;
+
   @ApiProperty({ example: false })
   isNameEditing!: boolean;
 
@@ -485,9 +959,6 @@ export class RetroBoardResponseDto {
   @ApiProperty({ example: 1 })
   teamId!: number;
 
-  @ApiProperty({ example: false })
-  isAllCardsHidden!: boolean;
-
   @ApiProperty({ type: BoardSettingsDto })
   settings!: BoardSettingsDto;
 
@@ -500,6 +971,313 @@ export class RetroBoardResponseDto {
   @ApiProperty({ example: 'Командная ретроспектива по спринту' })
   description!: string;
 
+  @ApiProperty({ example: '2026-03-10T18:00:00.000Z', nullable: true })
+  archivedAt!: Date | null;
+
+  @ApiProperty({
+    enum: RetroBoardPhase,
+    example: RetroBoardPhase.WRITE,
+    nullable: true,
+    description: 'Facilitation phase, null when the board is not facilitated',
+  })
+  phase!: RetroBoardPhase | null;
+
+  @ApiProperty({ example: '2026-03-17T18:00:00.000Z', nullable: true })
+  phaseChangedAt!: Date | null;
+
+  @ApiProperty({ example: 5 })
+  version!: number;
+
   @ApiProperty({ type: [RetroColumnResponseDto] })
   columns!: RetroColumnResponseDto[];
 }
+
+export class RetroBoardDetailsResponseDto extends RetroBoardResponseDto {
+  @ApiProperty({ type: BoardTimerResponseDto, nullable: true })
+  timer!: BoardTimerResponseDto | null;
+
+  @ApiProperty({
+    enum: TeamRole,
+    example: TeamRole.MEMBER,
+    nullable: true,
+    description: 'Caller role in board team, null for anonymous access',
+  })
+  role!: TeamRole | null;
+
+  @ApiProperty({
+    example: 42,
+    description: 'Last board event seq included in this snapshot',
+  })
+  eventSeq!: number;
+}
+
+export class RetroBoardStateResponseDto extends OmitType(RetroBoardResponseDto, [
+  'columns',
+] as const) {}
+
+export class RetroColumnChangeResponseDto extends OmitType(
+  RetroColumnResponseDto,
+  ['isNameEditing', 'items', 'groups', 'entries'] as const,
+) {
+  @ApiProperty({ example: 0 })
+  orderIndex!: number;
+}
+
+export class RetroGroupChangeResponseDto extends OmitType(RetroGroupResponseDto, [
+  'isNameEditing',
+  'items',
+] as const) {}
+
+export class RetroItemChangeResponseDto extends RetroItemResponseDto {
+  @ApiProperty({ example: 7 })
+  columnId!: number;
+}
+
+export class RetroTombstoneResponseDto {
+  @ApiProperty({ enum: RetroTombstoneEntity, example: RetroTombstoneEntity.ITEM })
+  entity!: RetroTombstoneEntity;
+
+  @ApiProperty({ example: 42 })
+  id!: number;
+
+  @ApiProperty({ example: '2026-03-22T09:00:05.000Z' })
+  deletedAt!: Date;
+}
+
+export class RetroBoardChangesResponseDto {
+  @ApiProperty({ example: 1 })
+  boardId!: number;
+
+  @ApiProperty({ example: '2026-03-22T09:00:00.000Z' })
+  since!: Date;
+
+  @ApiProperty({
+    example: '2026-03-22T09:05:00.000Z',
+    description: 'Pass as `since` in the next request',
+  })
+  cursor!: Date;
+
+  @ApiProperty({
+    example: false,
+    description: 'True when `since` is older than the kept tombstones: reload the board',
+  })
+  resync!: boolean;
+
+  @ApiProperty({
+    type: RetroBoardStateResponseDto,
+    nullable: true,
+    description: 'Board fields when the board itself changed; then all items are returned',
+  })
+  board!: RetroBoardStateResponseDto | null;
+
+  @ApiProperty({ type: [RetroColumnChangeResponseDto] })
+  columns!: RetroColumnChangeResponseDto[];
+
+  @ApiProperty({ type: [RetroGroupChangeResponseDto] })
+  groups!: RetroGroupChangeResponseDto[];
+
+  @ApiProperty({ type: [RetroItemChangeResponseDto] })
+  items!: RetroItemChangeResponseDto[];
+
+  @ApiProperty({ type: [RetroItemCommentResponseDto] })
+  comments!: RetroItemCommentResponseDto[];
+
+  @ApiProperty({ type: [RetroTombstoneResponseDto] })
+  tombstones!: RetroTombstoneResponseDto[];
+}
+
+export class RetroBoardCountersDto {
+  @ApiProperty({ example: 14 })
+  itemsCount!: number;
+
+  @ApiProperty({ example: 6 })
+  participantsCount!: number;
+
+  @ApiProperty({ example: 3 })
+  openActionItemsCount!: number;
+}
+
+export class RetroBoardSummaryResponseDto {
+  @ApiProperty({ example: 1 })
+  id!: number;
+
+  @ApiProperty({ example: 1 })
+  teamId!: number;
+
+  @ApiProperty({ example: 'Sprint 12 Retro' })
+  name!: string;
+
+  @ApiProperty({ example: '2026-02-16' })
+  date!: string;
+
+  @ApiProperty({ example: 'Командная ретроспектива по спринту' })
+  description!: string;
+
+  @ApiProperty({ example: '2026-03-10T18:00:00.000Z', nullable: true })
+  archivedAt!: Date | null;
+
+  @ApiProperty({ type: RetroBoardCountersDto })
+  counters!: RetroBoardCountersDto;
+}
+
+export class RetroBoardListResponseDto {
+  @ApiProperty({ type: [RetroBoardSummaryResponseDto] })
+  items!: RetroBoardSummaryResponseDto[];
+
+  @ApiProperty({
+    example: 'eyJ2IjoiMjAyNi0wMi0xNiIsImlkIjoxMn0',
+    nullable: true,
+  })
+  nextCursor!: string | null;
+}
+
+export class DeletedRetroBoardResponseDto {
+  @ApiProperty({ example: 1 })
+  id!: number;
+
+  @ApiProperty({ example: 1 })
+  teamId!: number;
+
+  @ApiProperty({ example: 'Sprint 12 Retro' })
+  name!: string;
+
+  @ApiProperty({ example: '2026-02-16' })
+  date!: string;
+
+  @ApiProperty({ example: 'Командная ретроспектива по спринту' })
+  description!: string;
+
+  @ApiProperty({ example: '2026-03-10T18:00:00.000Z', nullable: true })
+  archivedAt!: Date | null;
+
+  @ApiProperty({ example: '2026-03-12T09:00:00.000Z' })
+  deletedAt!: Date;
+
+  @ApiProperty({
+    example: '2026-04-11T09:00:00.000Z',
+    description: 'Moment after which the board is permanently removed',
+  })
+  purgeAt!: Date;
+}
+
+export class DeleteBoardResponseDto {
+  @ApiProperty({ example: true })
+  deleted!: boolean;
+
+  @ApiProperty({ example: 1 })
+  boardId!: number;
+
+  @ApiProperty({ example: '2026-04-11T09:00:00.000Z' })
+  purgeAt!: Date;
+}
+
+export class ItemVoteResponseDto {
+  @ApiProperty({ example: 1 })
+  boardId!: number;
+
+  @ApiProperty({ example: 42 })
+  itemId!: number;
+
+  @ApiProperty({ example: 2, description: 'Votes of current user on item' })
+  myVotes!: number;
+
+  @ApiProperty({ example: 3 })
+  remainingVotes!: number;
+
+  @ApiProperty({
+    example: 7,
+    nullable: true,
+    description: 'Null while votes are hidden until reveal',
+  })
+  votesCount!: number | null;
+}
+
+export class MyVoteDto {
+  @ApiProperty({ example: 42 })
+  itemId!: number;
+
+  @ApiProperty({ example: 2 })
+  count!: number;
+}
+
+export class MyVotesResponseDto {
+  @ApiProperty({ example: 1 })
+  boardId!: number;
+
+  @ApiProperty({ example: 5 })
+  maxVotes!: number;
+
+  @ApiProperty({ example: 2 })
+  usedVotes!: number;
+
+  @ApiProperty({ example: 3 })
+  remainingVotes!: number;
+
+  @ApiProperty({ type: [MyVoteDto] })
+  votes!: MyVoteDto[];
+}
+
+export class VoteResultDto {
+  @ApiProperty({ example: 1, description: 'Items with equal votes share rank' })
+  rank!: number;
+
+  @ApiProperty({ example: 42 })
+  itemId!: number;
+
+  @ApiProperty({ example: 7 })
+  columnId!: number;
+
+  @ApiProperty({ example: 3, nullable: true })
+  groupId!: number | null;
+
+  @ApiProperty({ example: 'Нужно улучшить code review процесс' })
+  description!: string;
+
+  @ApiProperty({ example: 7 })
+  votesCount!: number;
+
+  @ApiProperty({ example: 4 })
+  votersCount!: number;
+}
+
+export class RetroHistoryStepResponseDto {
+  @ApiProperty({ example: 15 })
+  id!: number;
+
+  @ApiProperty({ example: 'item.delete' })
+  action!: string;
+
+  @ApiProperty({ example: '2026-03-23T09:00:00.000Z' })
+  createdAt!: Date;
+}
+
+export class RetroHistoryResponseDto {
+  @ApiProperty({ example: 1 })
+  boardId!: number;
+
+  @ApiProperty({
+    type: [RetroHistoryStepResponseDto],
+    description: 'Latest first; the first entry is reverted by undo',
+  })
+  undo!: RetroHistoryStepResponseDto[];
+
+  @ApiProperty({
+    type: [RetroHistoryStepResponseDto],
+    description: 'The first entry is repeated by redo',
+  })
+  redo!: RetroHistoryStepResponseDto[];
+}
+
+export class RetroHistoryApplyResponseDto {
+  @ApiProperty({ example: 1 })
+  boardId!: number;
+
+  @ApiProperty({ example: 'item.delete' })
+  action!: string;
+
+  @ApiProperty({
+    type: Object,
+    description: 'Result of the applied command, e.g. the restored card with the changed columns',
+  })
+  result!: unknown;
+}
@@ -0,0 +1,67 @@
+import { ConflictException } from '@nestjs/common';
+import { RetroBoardPhase } from '@prisma/client';
+
+export const BOARD_PHASE_ORDER: readonly RetroBoardPhase[] = [
+  RetroBoardPhase.WRITE,
+  RetroBoardPhase.REVEAL,
+  RetroBoardPhase.GROUP,
+  RetroBoardPhase.VOTE,
+  RetroBoardPhase.DISCUSS,
+  RetroBoardPhase.CLOSED,
+];
+
+/**
+ * Actions restricted by the facilitation phase. Boards without a phase
+ * (`null`) are not facilitated and allow everything.
+ */
+export type BoardPhaseAction = 'change' | 'groupMove' | 'vote';
+
+const ACTION_PHASES: Record<
+  Exclude<BoardPhaseAction, 'change'>,
+  RetroBoardPhase
+> = {
+  groupMove: RetroBoardPhase.GROUP,
+  vote: RetroBoardPhase.VOTE,
+};
+
+/**
+ * Facilitators may jump forward to any later phase or step back by one,
+ * e.g. to reopen a closed board for discussion.
+ */
+export function canChangeBoardPhase(
+  from: RetroBoardPhase | null,
+  to: RetroBoardPhase,
+): boolean {
+  if (from === null) {
+    return true;
+  }
+
+  const fromIndex = BOARD_PHASE_ORDER.indexOf(from);
+  const toIndex = BOARD_PHASE_ORDER.indexOf(to);
+
+  return toIndex > fromIndex || toIndex === fromIndex - 1;
+}
+
+export function ensureBoardPhaseAllows(
+  phase: RetroBoardPhase | null,
+  action: BoardPhaseAction,
+) {
+  if (phase === null) {
+    return;
+  }
+
+  if (phase === RetroBoardPhase.CLOSED) {
+    throw new ConflictException('Board is closed');
+  }
+
+  if (action === 'change') {
+    return;
+  }
+
+  const requiredPhase = ACTION_PHASES[action];
+  if (phase !== requiredPhase) {
+    throw new ConflictException(
+      `Action is allowed only in ${requiredPhase} phase`,
+    );
+  }
+}
@@ -0,0 +1,243 @@
+import { Prisma, TeamRole } from '@prisma/client';
+import {
+  AUTHOR_VISIBILITY_MODES,
+  AuthorVisibility,
+  UpdateBoardSettingsDto,
+} from './dto/retro.dto';
+
+export const MAX_VOTES_PER_PARTICIPANT_LIMIT = 100;
+
+export type BoardVotingSettings = {
+  enabled: boolean;
+  maxVotesPerParticipant: number;
+  allowMultipleVotesPerItem: boolean;
+  hideVotesUntilReveal: boolean;
+  votesRevealed: boolean;
+};
+
+/**
+ * Hidden cards show their text only to the author until a facilitator
+ * reveals them per column or per author.
+ */
+export type BoardCardHidingSettings = {
+  enabled: boolean;
+  revealedColumnIds: number[];
+  revealedAuthorIds: string[];
+};
+
+export type BoardSettings = {
+  showLikes: boolean;
+  authorVisibility: AuthorVisibility;
+  voting: BoardVotingSettings;
+  cardHiding: BoardCardHidingSettings;
+};
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  showLikes: true,
+  authorVisibility: 'visible',
+  voting: {
+    enabled: false,
+    maxVotesPerParticipant: 5,
+    allowMultipleVotesPerItem: false,
+    hideVotesUntilReveal: false,
+    votesRevealed: false,
+  },
+  cardHiding: {
+    enabled: false,
+    revealedColumnIds: [],
+    revealedAuthorIds: [],
+  },
+};
+
+export function normalizeBoardSettings(
+  settings: Prisma.JsonValue,
+): BoardSettings {
+  if (!isJsonObject(settings)) {
+    return {
+      ...DEFAULT_BOARD_SETTINGS,
+      voting: { ...DEFAULT_BOARD_SETTINGS.voting },
+      cardHiding: withoutCardReveals(DEFAULT_BOARD_SETTINGS.cardHiding),
+    };
+  }
+
+  return {
+    showLikes:
+      typeof settings.showLikes === 'boolean'
+        ? settings.showLikes
+        : DEFAULT_BOARD_SETTINGS.showLikes,
+    authorVisibility: AUTHOR_VISIBILITY_MODES.includes(
+      settings.authorVisibility as AuthorVisibility,
+    )
+      ? (settings.authorVisibility as AuthorVisibility)
+      : DEFAULT_BOARD_SETTINGS.authorVisibility,
+    voting: normalizeVotingSettings(settings.voting),
+    cardHiding: normalizeCardHidingSettings(settings.cardHiding),
+  };
+}
+
+export function mergeBoardSettings(
+  current: BoardSettings,
+  patch: UpdateBoardSettingsDto,
+): BoardSettings {
+  return {
+    showLikes: patch.showLikes ?? current.showLikes,
+    authorVisibility: patch.authorVisibility ?? current.authorVisibility,
+    voting: {
+      enabled: patch.voting?.enabled ?? current.voting.enabled,
+      maxVotesPerParticipant:
+        patch.voting?.maxVotesPerParticipant ??
+        current.voting.maxVotesPerParticipant,
+      allowMultipleVotesPerItem:
+        patch.voting?.allowMultipleVotesPerItem ??
+        current.voting.allowMultipleVotesPerItem,
+      hideVotesUntilReveal:
+        patch.voting?.hideVotesUntilReveal ??
+        current.voting.hideVotesUntilReveal,
+      votesRevealed:
+        patch.voting?.votesRevealed ?? current.voting.votesRevealed,
+    },
+    cardHiding: mergeCardHidingSettings(
+      current.cardHiding,
+      patch.cardHiding?.enabled,
+    ),
+  };
+}
+
+/**
+ * Turning hiding on starts a new round, so earlier reveals are dropped.
+ */
+function mergeCardHidingSettings(
+  current: BoardCardHidingSettings,
+  enabled?: boolean,
+): BoardCardHidingSettings {
+  if (enabled === undefined || enabled === current.enabled) {
+    return current;
+  }
+
+  return enabled
+    ? { ...withoutCardReveals(current), enabled: true }
+    : { ...current, enabled: false };
+}
+
+export function withoutCardReveals(
+  cardHiding: BoardCardHidingSettings,
+): BoardCardHidingSettings {
+  return {
+    enabled: cardHiding.enabled,
+    revealedColumnIds: [],
+    revealedAuthorIds: [],
+  };
+}
+
+export function revealCards(
+  cardHiding: BoardCardHidingSettings,
+  reveal: { columnId?: number; authorId?: string },
+): BoardCardHidingSettings {
+  return {
+    enabled: cardHiding.enabled,
+    revealedColumnIds:
+      reveal.columnId !== undefined &&
+      !cardHiding.revealedColumnIds.includes(reveal.columnId)
+        ? [...cardHiding.revealedColumnIds, reveal.columnId]
+        : cardHiding.revealedColumnIds,
+    revealedAuthorIds:
+      reveal.authorId !== undefined &&
+      !cardHiding.revealedAuthorIds.includes(reveal.authorId)
+        ? [...cardHiding.revealedAuthorIds, reveal.authorId]
+        : cardHiding.revealedAuthorIds,
+  };
+}
+
+/**
+ * Responses of mutations are broadcast to the whole team, so without a
+ * viewer role the facilitators-only mode falls back to hiding authors.
+ */
+export function canSeeAuthors(
+  settings: BoardSettings,
+  viewerRole?: TeamRole | null,
+): boolean {
+  if (settings.authorVisibility === 'visible') {
+    return true;
+  }
+
+  if (settings.authorVisibility === 'facilitators') {
+    return isFacilitatorRole(viewerRole);
+  }
+
+  return false;
+}
+
+export function areVotesVisible(
+  settings: BoardSettings,
+  viewerRole?: TeamRole | null,
+): boolean {
+  if (!settings.voting.hideVotesUntilReveal || settings.voting.votesRevealed) {
+    return true;
+  }
+
+  return isFacilitatorRole(viewerRole);
+}
+
+export function isFacilitatorRole(role?: TeamRole | null): boolean {
+  return role === TeamRole.OWNER || role === TeamRole.ADMIN;
+}
+
+function normalizeVotingSettings(value: unknown): BoardVotingSettings {
+  const defaults = DEFAULT_BOARD_SETTINGS.voting;
+  if (!isJsonObject(value)) {
+    return { ...defaults };
+  }
+
+  const maxVotes = value.maxVotesPerParticipant;
+
+  return {
+    enabled:
+      typeof value.enabled === 'boolean' ? value.enabled : defaults.enabled,
+    maxVotesPerParticipant:
+      typeof maxVotes === 'number' &&
+      Number.isInteger(maxVotes) &&
+      maxVotes >= 1 &&
+      maxVotes <= MAX_VOTES_PER_PARTICIPANT_LIMIT
+        ? maxVotes
+        : defaults.maxVotesPerParticipant,
+    allowMultipleVotesPerItem:
+      typeof value.allowMultipleVotesPerItem === 'boolean'
+        ? value.allowMultipleVotesPerItem
+        : defaults.allowMultipleVotesPerItem,
+    hideVotesUntilReveal:
+      typeof value.hideVotesUntilReveal === 'boolean'
+        ? value.hideVotesUntilReveal
+        : defaults.hideVotesUntilReveal,
+    votesRevealed:
+      typeof value.votesRevealed === 'boolean'
+        ? value.votesRevealed
+        : defaults.votesRevealed,
+  };
+}
+
+function normalizeCardHidingSettings(value: unknown): BoardCardHidingSettings {
+  if (!isJsonObject(value)) {
+    return withoutCardReveals(DEFAULT_BOARD_SETTINGS.cardHiding);
+  }
+
+  return {
+    enabled:
+      typeof value.enabled === 'boolean'
+        ? value.enabled
+        : DEFAULT_BOARD_SETTINGS.cardHiding.enabled,
+    revealedColumnIds: Array.isArray(value.revealedColumnIds)
+      ? value.revealedColumnIds.filter((id): id is number =>
+          Number.isInteger(id),
+        )
+      : [],
+    revealedAuthorIds: Array.isArray(value.revealedAuthorIds)
+      ? value.revealedAuthorIds.filter(
+          (id): id is string => typeof id === 'string',
+        )
+      : [],
+  };
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
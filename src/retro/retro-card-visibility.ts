@@ -0,0 +1,53 @@
+import { RetroBoardPhase } from '@prisma/client';
+import { BoardCardHidingSettings } from './retro-board-settings';
+
+export type CardVisibility = {
+  phase: RetroBoardPhase | null;
+  cardHiding: BoardCardHidingSettings;
+};
+
+export type CardRef = {
+  authorId: string | null;
+  columnId: number;
+};
+
+/**
+ * Authors always see their own cards. Everyone else sees nothing during the
+ * write phase and, while hiding is on, only revealed columns and authors.
+ * Without `viewerUserId` the result is the view broadcast to the team.
+ */
+export function isCardTextVisible(
+  visibility: CardVisibility,
+  card: CardRef,
+  viewerUserId?: string,
+): boolean {
+  if (viewerUserId !== undefined && card.authorId === viewerUserId) {
+    return true;
+  }
+
+  if (visibility.phase === RetroBoardPhase.WRITE) {
+    return false;
+  }
+
+  const { cardHiding } = visibility;
+  if (!cardHiding.enabled) {
+    return true;
+  }
+
+  return (
+    cardHiding.revealedColumnIds.includes(card.columnId) ||
+    (card.authorId !== null &&
+      cardHiding.revealedAuthorIds.includes(card.authorId))
+  );
+}
+
+export function maskCardText<T extends { description: string }>(
+  card: T,
+  ref: CardRef,
+  visibility: CardVisibility,
+  viewerUserId?: string,
+): T {
+  return isCardTextVisible(visibility, ref, viewerUserId)
+    ? card
+    : { ...card, description: '' };
+}
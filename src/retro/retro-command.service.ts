@@ -0,0 +1,1057 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AccessActor } from '../auth/types/access-actor.type';
+import { EditLockService } from '../realtime/edit-lock.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import {
+  CreateColumnDto,
+  CreateGroupDto,
+  CreateItemCommentDto,
+  CreateItemDto,
+  GroupPositionChangeDto,
+  ItemPositionChangeDto,
+  UpdateColumnColorDto,
+  UpdateColumnDescriptionDto,
+  UpdateColumnNameDto,
+  UpdateGroupColorDto,
+  UpdateGroupDescriptionDto,
+  UpdateGroupNameDto,
+  UpdateItemColorDto,
+  UpdateItemCommentDto,
+  UpdateItemDescriptionDto,
+} from './dto/retro.dto';
+import { maskCardText } from './retro-card-visibility';
+import { isStaleVersionConflict } from './retro-entity-version';
+import { RETRO_EVENTS } from './retro-events';
+import {
+  RetroHistoryAction,
+  RetroHistoryEntryRecord,
+  RetroHistoryOperation,
+} from './retro-history';
+import { RetroHistoryService } from './retro-history.service';
+import { RetroVoteService } from './retro-vote.service';
+import { RetroService } from './retro.service';
+
+type HistoryOperation<T extends RetroHistoryAction> = Extract<
+  RetroHistoryOperation,
+  { type: T }
+>;
+
+type Applied<T> = {
+  boardId: number;
+  result: T;
+  inverse: RetroHistoryOperation;
+};
+
+/**
+ * Board content mutations shared by REST and websocket commands: access
+ * checks, edit locks, the service call and the board broadcast. Moves,
+ * deletes, renames and color changes also land in the actor's undo history.
+ */
+@Injectable()
+export class RetroCommandService {
+  constructor(
+    private readonly retroService: RetroService,
+    private readonly retroVoteService: RetroVoteService,
+    private readonly realtimeService: RealtimeService,
+    private readonly editLockService: EditLockService,
+    private readonly retroHistoryService: RetroHistoryService,
+  ) {}
+
+  async createColumn(actor: AccessActor, boardId: number, dto: CreateColumnDto) {
+    const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+    const column = await this.retroService.createColumn(
+      boardId,
+      actor.userId,
+      dto.name,
+      dto.description,
+      dto.color,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.columnCreated,
+      {
+        boardId: context.boardId,
+        ...column,
+      },
+      actor.userId,
+    );
+    return column;
+  }
+
+  async updateColumnName(actor: AccessActor, columnId: number, dto: UpdateColumnNameDto) {
+    const operation: HistoryOperation<'column.name'> = {
+      type: 'column.name',
+      columnId,
+      name: dto.name,
+      version: dto.expectedVersion,
+    };
+    const applied = await this.renameColumn(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async updateColumnColor(actor: AccessActor, columnId: number, dto: UpdateColumnColorDto) {
+    const operation: HistoryOperation<'column.color'> = {
+      type: 'column.color',
+      columnId,
+      color: dto.color,
+      version: dto.expectedVersion,
+    };
+    const applied = await this.recolorColumn(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async updateColumnDescription(
+    actor: AccessActor,
+    columnId: number,
+    dto: UpdateColumnDescriptionDto,
+  ) {
+    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('column', columnId, actor.userId);
+    const column = await this.retroService.updateColumnDescription(
+      columnId,
+      actor.userId,
+      dto.description,
+      dto.expectedVersion,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.columnDescriptionUpdated,
+      {
+        ...column,
+        boardId: context.boardId,
+      },
+      actor.userId,
+    );
+    return column;
+  }
+
+  async deleteColumn(actor: AccessActor, columnId: number, expectedVersion?: number) {
+    const operation: HistoryOperation<'column.delete'> = {
+      type: 'column.delete',
+      columnId,
+      version: expectedVersion,
+    };
+    const applied = await this.removeColumn(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async createGroup(actor: AccessActor, columnId: number, dto: CreateGroupDto) {
+    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
+    const group = await this.retroService.createGroup(
+      columnId,
+      actor.userId,
+      dto.name,
+      dto.description,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.groupCreated,
+      {
+        boardId: context.boardId,
+        ...group,
+      },
+      actor.userId,
+    );
+    return group;
+  }
+
+  async updateGroupName(actor: AccessActor, groupId: number, dto: UpdateGroupNameDto) {
+    const operation: HistoryOperation<'group.name'> = {
+      type: 'group.name',
+      groupId,
+      name: dto.name,
+      version: dto.expectedVersion,
+    };
+    const applied = await this.renameGroup(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async updateGroupColor(actor: AccessActor, groupId: number, dto: UpdateGroupColorDto) {
+    const operation: HistoryOperation<'group.color'> = {
+      type: 'group.color',
+      groupId,
+      color: dto.color,
+      version: dto.expectedVersion,
+    };
+    const applied = await this.recolorGroup(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async updateGroupDescription(
+    actor: AccessActor,
+    groupId: number,
+    dto: UpdateGroupDescriptionDto,
+  ) {
+    const context = await this.retroService.getGroupRealtimeContext(groupId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('group', groupId, actor.userId);
+    const group = await this.retroService.updateGroupDescription(
+      groupId,
+      actor.userId,
+      dto.description,
+      dto.expectedVersion,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.groupDescriptionUpdated,
+      {
+        boardId: context.boardId,
+        ...group,
+      },
+      actor.userId,
+    );
+    return group;
+  }
+
+  async deleteGroup(actor: AccessActor, groupId: number, expectedVersion?: number) {
+    const operation: HistoryOperation<'group.delete'> = {
+      type: 'group.delete',
+      groupId,
+      version: expectedVersion,
+    };
+    const applied = await this.removeGroup(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async addItemToColumn(actor: AccessActor, columnId: number, dto: CreateItemDto) {
+    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
+    const item = await this.retroService.addItemToColumn(
+      columnId,
+      actor.userId,
+      dto.description,
+      dto.groupId,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemCreated,
+      {
+        boardId: context.boardId,
+        ...maskCardText(
+          item,
+          { authorId: actor.userId, columnId: context.columnId },
+          context.cardVisibility,
+        ),
+      },
+      actor.userId,
+    );
+    return item;
+  }
+
+  async updateItemDescription(
+    actor: AccessActor,
+    itemId: number,
+    dto: UpdateItemDescriptionDto,
+  ) {
+    const operation: HistoryOperation<'item.description'> = {
+      type: 'item.description',
+      itemId,
+      description: dto.description,
+      version: dto.expectedVersion,
+    };
+    const applied = await this.describeItem(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async updateItemColor(actor: AccessActor, itemId: number, dto: UpdateItemColorDto) {
+    const operation: HistoryOperation<'item.color'> = {
+      type: 'item.color',
+      itemId,
+      color: dto.color ?? null,
+      version: dto.expectedVersion,
+    };
+    const applied = await this.recolorItem(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async toggleItemLike(actor: AccessActor, itemId: number) {
+    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
+    const item = await this.retroService.toggleItemLike(itemId, actor.userId);
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemLikeToggled,
+      {
+        boardId: context.boardId,
+        ...maskCardText(item, context, context.cardVisibility),
+      },
+      actor.userId,
+    );
+    return item;
+  }
+
+  async castItemVote(actor: AccessActor, itemId: number) {
+    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
+    const vote = await this.retroVoteService.castVote(itemId, actor.userId);
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemVoteCast,
+      {
+        boardId: vote.boardId,
+        itemId: vote.itemId,
+        votesCount: vote.votesCount,
+      },
+      actor.userId,
+    );
+    return vote;
+  }
+
+  async retractItemVote(actor: AccessActor, itemId: number) {
+    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
+    const vote = await this.retroVoteService.retractVote(itemId, actor.userId);
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemVoteRetracted,
+      {
+        boardId: vote.boardId,
+        itemId: vote.itemId,
+        votesCount: vote.votesCount,
+      },
+      actor.userId,
+    );
+    return vote;
+  }
+
+  async deleteItem(actor: AccessActor, itemId: number, expectedVersion?: number) {
+    const operation: HistoryOperation<'item.delete'> = {
+      type: 'item.delete',
+      itemId,
+      version: expectedVersion,
+    };
+    const applied = await this.removeItem(
+      actor,
+      operation,
+      actor.userId,
+    );
+    await this.remember(actor, applied, operation);
+    return applied.result;
+  }
+
+  async createItemComment(actor: AccessActor, itemId: number, dto: CreateItemCommentDto) {
+    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
+    const comment = await this.retroService.createItemComment(itemId, actor.userId, dto.text);
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemCommentCreated,
+      {
+        boardId: context.boardId,
+        ...comment,
+      },
+      actor.userId,
+    );
+    return comment;
+  }
+
+  async updateItemComment(
+    actor: AccessActor,
+    commentId: number,
+    dto: UpdateItemCommentDto,
+  ) {
+    const context = await this.retroService.getCommentRealtimeContext(commentId, actor.userId);
+    const comment = await this.retroService.updateItemComment(
+      commentId,
+      actor.userId,
+      dto.text,
+      dto.expectedVersion,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemCommentUpdated,
+      {
+        boardId: context.boardId,
+        ...comment,
+      },
+      actor.userId,
+    );
+    return comment;
+  }
+
+  async deleteItemComment(actor: AccessActor, commentId: number, expectedVersion?: number) {
+    const context = await this.retroService.getCommentRealtimeContext(commentId, actor.userId);
+    const result = await this.retroService.deleteItemComment(
+      commentId,
+      actor.userId,
+      expectedVersion,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemCommentDeleted,
+      {
+        boardId: context.boardId,
+        commentId: context.commentId,
+        itemId: context.itemId,
+        ...result,
+      },
+      actor.userId,
+    );
+    return result;
+  }
+
+  async syncItemPositions(
+    actor: AccessActor,
+    boardId: number,
+    changes: ItemPositionChangeDto[],
+  ) {
+    const operation: HistoryOperation<'items.move'> = {
+      type: 'items.move',
+      boardId,
+      changes,
+    };
+    const applied = await this.moveItems(
+      actor,
+      operation,
+      actor.userId,
+    );
+    if (changes.length > 0) {
+      await this.remember(actor, applied, operation);
+    }
+    return applied.result;
+  }
+
+  async syncGroupPositions(
+    actor: AccessActor,
+    boardId: number,
+    changes: GroupPositionChangeDto[],
+  ) {
+    const operation: HistoryOperation<'groups.move'> = {
+      type: 'groups.move',
+      boardId,
+      changes,
+    };
+    const applied = await this.moveGroups(
+      actor,
+      operation,
+      actor.userId,
+    );
+    if (changes.length > 0) {
+      await this.remember(actor, applied, operation);
+    }
+    return applied.result;
+  }
+
+  /**
+   * Reverts the actor's latest change on the board. Its broadcasts also
+   * reach the actor, whose client cannot know in advance what changes.
+   */
+  async undo(actor: AccessActor, boardId: number) {
+    await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+    const entry = await this.retroHistoryService.claimUndo(boardId, actor.userId);
+    if (!entry) {
+      throw new NotFoundException('Nothing to undo');
+    }
+
+    return this.applyHistoryEntry(actor, entry, entry.undo);
+  }
+
+  async redo(actor: AccessActor, boardId: number) {
+    await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+    const entry = await this.retroHistoryService.claimRedo(boardId, actor.userId);
+    if (!entry) {
+      throw new NotFoundException('Nothing to redo');
+    }
+
+    return this.applyHistoryEntry(actor, entry, entry.redo);
+  }
+
+  async getHistory(actor: AccessActor, boardId: number) {
+    await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+    return this.retroHistoryService.getHistory(boardId, actor.userId);
+  }
+
+  /**
+   * Guests keep no history: undo, redo and history need an account.
+   */
+  private async remember<T>(
+    actor: AccessActor,
+    applied: Applied<T>,
+    operation: RetroHistoryOperation,
+  ) {
+    if (actor.isGuest) {
+      return;
+    }
+
+    await this.retroHistoryService.record(
+      applied.boardId,
+      actor.userId,
+      applied.inverse,
+      operation,
+    );
+  }
+
+  /**
+   * A step that no longer fits the board (the entity is gone or was changed
+   * by someone else) is dropped, so the next undo moves on; other failures,
+   * like an edit lock, keep it for a retry.
+   */
+  private async applyHistoryEntry(
+    actor: AccessActor,
+    entry: RetroHistoryEntryRecord,
+    operation: RetroHistoryOperation,
+  ) {
+    let applied: Applied<unknown>;
+    try {
+      applied = await this.applyOperation(actor, operation);
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException ||
+        isStaleVersionConflict(error)
+      ) {
+        await this.retroHistoryService.discard(entry);
+      } else {
+        await this.retroHistoryService.release(entry);
+      }
+      throw error;
+    }
+
+    await this.retroHistoryService.saveInverse(entry, applied.inverse);
+    return {
+      boardId: applied.boardId,
+      action: entry.action,
+      result: applied.result,
+    };
+  }
+
+  private applyOperation(
+    actor: AccessActor,
+    operation: RetroHistoryOperation,
+  ): Promise<Applied<unknown>> {
+    switch (operation.type) {
+      case 'item.description':
+        return this.describeItem(actor, operation);
+      case 'item.color':
+        return this.recolorItem(actor, operation);
+      case 'item.delete':
+        return this.removeItem(actor, operation);
+      case 'item.restore':
+        return this.restoreItem(actor, operation);
+      case 'items.move':
+        return this.moveItems(actor, operation);
+      case 'column.name':
+        return this.renameColumn(actor, operation);
+      case 'column.color':
+        return this.recolorColumn(actor, operation);
+      case 'column.delete':
+        return this.removeColumn(actor, operation);
+      case 'column.restore':
+        return this.restoreColumn(actor, operation);
+      case 'group.name':
+        return this.renameGroup(actor, operation);
+      case 'group.color':
+        return this.recolorGroup(actor, operation);
+      case 'group.delete':
+        return this.removeGroup(actor, operation);
+      case 'group.restore':
+        return this.restoreGroup(actor, operation);
+      case 'groups.move':
+        return this.moveGroups(actor, operation);
+    }
+  }
+
+  private async renameColumn(
+    actor: AccessActor,
+    operation: HistoryOperation<'column.name'>,
+    excludedUserId?: string,
+  ) {
+    const { columnId } = operation;
+    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('column', columnId, actor.userId);
+    const previous = await this.retroService.getColumnValues(columnId);
+    const column = await this.retroService.updateColumnName(
+      columnId,
+      actor.userId,
+      operation.name,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.columnNameUpdated,
+      {
+        ...column,
+        boardId: context.boardId,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, column, {
+      type: 'column.name',
+      columnId,
+      name: previous.name,
+      version: column.version,
+    });
+  }
+
+  private async recolorColumn(
+    actor: AccessActor,
+    operation: HistoryOperation<'column.color'>,
+    excludedUserId?: string,
+  ) {
+    const { columnId } = operation;
+    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('column', columnId, actor.userId);
+    const previous = await this.retroService.getColumnValues(columnId);
+    const column = await this.retroService.updateColumnColor(
+      columnId,
+      actor.userId,
+      operation.color,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.columnColorUpdated,
+      {
+        ...column,
+        boardId: context.boardId,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, column, {
+      type: 'column.color',
+      columnId,
+      color: previous.color,
+      version: column.version,
+    });
+  }
+
+  private async removeColumn(
+    actor: AccessActor,
+    operation: HistoryOperation<'column.delete'>,
+    excludedUserId?: string,
+  ) {
+    const { columnId } = operation;
+    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('column', columnId, actor.userId);
+    const snapshot = await this.retroService.getColumnSnapshot(columnId);
+    const result = await this.retroService.deleteColumn(
+      columnId,
+      actor.userId,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.columnDeleted,
+      {
+        boardId: context.boardId,
+        columnId: context.columnId,
+        ...result,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, result, {
+      type: 'column.restore',
+      column: snapshot,
+    });
+  }
+
+  private async restoreColumn(
+    actor: AccessActor,
+    operation: HistoryOperation<'column.restore'>,
+    excludedUserId?: string,
+  ) {
+    const restored = await this.retroService.restoreColumn(
+      actor.userId,
+      operation.column,
+    );
+    await this.realtimeService.emitToBoard(
+      restored.boardId,
+      RETRO_EVENTS.columnCreated,
+      {
+        boardId: restored.boardId,
+        ...restored.column,
+      },
+      excludedUserId,
+    );
+    await this.realtimeService.emitToBoard(
+      restored.boardId,
+      RETRO_EVENTS.boardColumnsReordered,
+      {
+        boardId: restored.boardId,
+        columns: restored.columns,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(restored.boardId, restored, {
+      type: 'column.delete',
+      columnId: restored.column.id,
+      version: restored.column.version,
+    });
+  }
+
+  private async renameGroup(
+    actor: AccessActor,
+    operation: HistoryOperation<'group.name'>,
+    excludedUserId?: string,
+  ) {
+    const { groupId } = operation;
+    const context = await this.retroService.getGroupRealtimeContext(groupId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('group', groupId, actor.userId);
+    const previous = await this.retroService.getGroupValues(groupId);
+    const group = await this.retroService.updateGroupName(
+      groupId,
+      actor.userId,
+      operation.name,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.groupNameUpdated,
+      {
+        boardId: context.boardId,
+        ...group,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, group, {
+      type: 'group.name',
+      groupId,
+      name: previous.name,
+      version: group.version,
+    });
+  }
+
+  private async recolorGroup(
+    actor: AccessActor,
+    operation: HistoryOperation<'group.color'>,
+    excludedUserId?: string,
+  ) {
+    const { groupId } = operation;
+    const context = await this.retroService.getGroupRealtimeContext(groupId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('group', groupId, actor.userId);
+    const previous = await this.retroService.getGroupValues(groupId);
+    const group = await this.retroService.updateGroupColor(
+      groupId,
+      actor.userId,
+      operation.color,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.groupColorUpdated,
+      {
+        boardId: context.boardId,
+        ...group,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, group, {
+      type: 'group.color',
+      groupId,
+      color: previous.color,
+      version: group.version,
+    });
+  }
+
+  private async removeGroup(
+    actor: AccessActor,
+    operation: HistoryOperation<'group.delete'>,
+    excludedUserId?: string,
+  ) {
+    const { groupId } = operation;
+    const context = await this.retroService.getGroupRealtimeContext(groupId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('group', groupId, actor.userId);
+    const snapshot = await this.retroService.getGroupSnapshot(groupId);
+    const result = await this.retroService.deleteGroup(
+      groupId,
+      actor.userId,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.groupDeleted,
+      {
+        boardId: context.boardId,
+        groupId: context.groupId,
+        columnId: context.columnId,
+        ...result,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, result, {
+      type: 'group.restore',
+      group: snapshot,
+    });
+  }
+
+  private async restoreGroup(
+    actor: AccessActor,
+    operation: HistoryOperation<'group.restore'>,
+    excludedUserId?: string,
+  ) {
+    const restored = await this.retroService.restoreGroup(
+      actor.userId,
+      operation.group,
+    );
+    await this.realtimeService.emitToBoard(
+      restored.boardId,
+      RETRO_EVENTS.groupCreated,
+      {
+        boardId: restored.boardId,
+        ...restored.group,
+      },
+      excludedUserId,
+    );
+    await this.realtimeService.emitToBoard(
+      restored.boardId,
+      RETRO_EVENTS.boardGroupsPositionsSynced,
+      {
+        boardId: restored.boardId,
+        updated: 1,
+        changedColumnIds: restored.changedColumnIds,
+        columns: restored.columns,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(restored.boardId, restored, {
+      type: 'group.delete',
+      groupId: restored.group.id,
+      version: restored.group.version,
+    });
+  }
+
+  private async describeItem(
+    actor: AccessActor,
+    operation: HistoryOperation<'item.description'>,
+    excludedUserId?: string,
+  ) {
+    const { itemId } = operation;
+    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('item', itemId, actor.userId);
+    const previous = await this.retroService.getItemValues(itemId);
+    const item = await this.retroService.updateItemDescription(
+      itemId,
+      actor.userId,
+      operation.description,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemDescriptionUpdated,
+      {
+        boardId: context.boardId,
+        ...maskCardText(item, context, context.cardVisibility),
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, item, {
+      type: 'item.description',
+      itemId,
+      description: previous.description,
+      version: item.version,
+    });
+  }
+
+  private async recolorItem(
+    actor: AccessActor,
+    operation: HistoryOperation<'item.color'>,
+    excludedUserId?: string,
+  ) {
+    const { itemId } = operation;
+    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('item', itemId, actor.userId);
+    const previous = await this.retroService.getItemValues(itemId);
+    const item = await this.retroService.updateItemColor(
+      itemId,
+      actor.userId,
+      operation.color ?? undefined,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemColorUpdated,
+      {
+        boardId: context.boardId,
+        ...maskCardText(item, context, context.cardVisibility),
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, item, {
+      type: 'item.color',
+      itemId,
+      color: previous.color,
+      version: item.version,
+    });
+  }
+
+  private async removeItem(
+    actor: AccessActor,
+    operation: HistoryOperation<'item.delete'>,
+    excludedUserId?: string,
+  ) {
+    const { itemId } = operation;
+    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
+    await this.editLockService.ensureNotLockedByOther('item', itemId, actor.userId);
+    const snapshot = await this.retroService.getItemSnapshot(itemId);
+    const result = await this.retroService.deleteItem(
+      itemId,
+      actor.userId,
+      operation.version,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.itemDeleted,
+      {
+        boardId: context.boardId,
+        itemId: context.itemId,
+        ...result,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(context.boardId, result, {
+      type: 'item.restore',
+      item: snapshot,
+    });
+  }
+
+  private async restoreItem(
+    actor: AccessActor,
+    operation: HistoryOperation<'item.restore'>,
+    excludedUserId?: string,
+  ) {
+    const restored = await this.retroService.restoreItem(
+      actor.userId,
+      operation.item,
+    );
+    await this.realtimeService.emitToBoard(
+      restored.boardId,
+      RETRO_EVENTS.itemCreated,
+      {
+        boardId: restored.boardId,
+        ...restored.item,
+      },
+      excludedUserId,
+    );
+    await this.realtimeService.emitToBoard(
+      restored.boardId,
+      RETRO_EVENTS.boardItemPositionsSynced,
+      {
+        boardId: restored.boardId,
+        updated: 1,
+        changedColumnIds: restored.changedColumnIds,
+        columns: restored.columns,
+      },
+      excludedUserId,
+    );
+    return this.toApplied(restored.boardId, restored, {
+      type: 'item.delete',
+      itemId: restored.item.id,
+      version: restored.item.version,
+    });
+  }
+
+  private async moveItems(
+    actor: AccessActor,
+    operation: HistoryOperation<'items.move'>,
+    excludedUserId?: string,
+  ) {
+    const { boardId, changes } = operation;
+    const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+    const itemIds = changes.map((change) => change.itemId);
+    const previous = await this.retroService.getItemPositions(boardId, itemIds);
+    const result = await this.retroService.syncItemPositions(boardId, actor.userId, changes);
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.boardItemPositionsSynced,
+      result,
+      excludedUserId,
+    );
+
+    const versions = new Map(
+      (await this.retroService.getItemPositions(boardId, itemIds)).map(
+        (item) => [item.id, item.version],
+      ),
+    );
+    return this.toApplied(context.boardId, result, {
+      type: 'items.move',
+      boardId,
+      changes: previous.map((item) => ({
+        itemId: item.id,
+        newColumnId: item.columnId,
+        newGroupId: item.groupId,
+        newRowIndex: item.rowIndex,
+        expectedVersion: versions.get(item.id),
+      })),
+    });
+  }
+
+  private async moveGroups(
+    actor: AccessActor,
+    operation: HistoryOperation<'groups.move'>,
+    excludedUserId?: string,
+  ) {
+    const { boardId, changes } = operation;
+    const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+    const groupIds = changes.map((change) => change.groupId);
+    const previous = await this.retroService.getGroupPositions(boardId, groupIds);
+    const result = await this.retroService.syncGroupPositions(boardId, actor.userId, changes);
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.boardGroupsPositionsSynced,
+      result,
+      excludedUserId,
+    );
+
+    const versions = new Map(
+      (await this.retroService.getGroupPositions(boardId, groupIds)).map(
+        (group) => [group.id, group.version],
+      ),
+    );
+    return this.toApplied(context.boardId, result, {
+      type: 'groups.move',
+      boardId,
+      changes: previous.map((group) => ({
+        groupId: group.id,
+        newColumnId: group.columnId,
+        newOrderIndex: group.orderIndex,
+        expectedVersion: versions.get(group.id),
+      })),
+    });
+  }
+
+  private toApplied<T>(
+    boardId: number,
+    result: T,
+    inverse: RetroHistoryOperation,
+  ): Applied<T> {
+    return { boardId, result, inverse };
+  }
+}
@@ -0,0 +1,81 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+export type VersionedTarget = {
+  entity: 'Board' | 'Column' | 'Group' | 'Item' | 'Comment';
+  id: number;
+  expectedVersion?: number;
+};
+
+export type VersionedWhere = { id: number; version?: number };
+
+export const BUMP_VERSION = { version: { increment: 1 } } as const;
+
+/**
+ * Without an expected version the write stays last-write-wins; with one the
+ * row only matches while nobody else has changed it.
+ */
+export function whereVersion(
+  id: number,
+  expectedVersion?: number,
+): VersionedWhere {
+  return expectedVersion === undefined ? { id } : { id, version: expectedVersion };
+}
+
+export function staleVersionConflict(
+  target: VersionedTarget,
+  currentVersion: number,
+  current: unknown,
+): ConflictException {
+  return new ConflictException({
+    statusCode: 409,
+    error: 'Conflict',
+    message: `${target.entity} ${target.id} was changed: expected version ${target.expectedVersion}, current version ${currentVersion}`,
+    current,
+  });
+}
+
+/**
+ * Runs a versioned write. A missed version filter surfaces from Prisma as
+ * "record not found", which is turned into 409 with the current state.
+ */
+export async function writeVersioned<T, C extends { version: number }>(
+  target: VersionedTarget,
+  write: (where: VersionedWhere) => Promise<T>,
+  loadCurrent: () => Promise<C | null>,
+): Promise<T> {
+  try {
+    return await write(whereVersion(target.id, target.expectedVersion));
+  } catch (error) {
+    if (target.expectedVersion === undefined || !isRecordNotFound(error)) {
+      throw error;
+    }
+
+    const current = await loadCurrent();
+    if (!current) {
+      throw new NotFoundException(`${target.entity} ${target.id} not found`);
+    }
+
+    if (current.version === target.expectedVersion) {
+      throw error;
+    }
+
+    throw staleVersionConflict(target, current.version, current);
+  }
+}
+
+export function isStaleVersionConflict(error: unknown): boolean {
+  if (!(error instanceof ConflictException)) {
+    return false;
+  }
+
+  const response = error.getResponse();
+  return typeof response === 'object' && 'current' in response;
+}
+
+export function isRecordNotFound(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2025'
+  );
+}
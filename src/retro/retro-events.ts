@@ -0,0 +1,34 @@
+export const RETRO_EVENTS = {
+  boardRenamed: 'retro.board.renamed',
+  boardSettingsUpdated: 'retro.board.settings.updated',
+  boardArchived: 'retro.board.archived',
+  boardUnarchived: 'retro.board.unarchived',
+  boardDeleted: 'retro.board.deleted',
+  boardRestored: 'retro.board.restored',
+  boardPhaseChanged: 'retro.board.phase.changed',
+  boardCardsRevealed: 'retro.board.cards.revealed',
+  boardColumnsReordered: 'retro.board.columns.reordered',
+  boardGroupsPositionsSynced: 'retro.board.groups.positions.synced',
+  boardItemPositionsSynced: 'retro.board.items.positions.synced',
+  columnCreated: 'retro.column.created',
+  columnNameUpdated: 'retro.column.name.updated',
+  columnColorUpdated: 'retro.column.color.updated',
+  columnDescriptionUpdated: 'retro.column.description.updated',
+  columnDeleted: 'retro.column.deleted',
+  groupCreated: 'retro.group.created',
+  groupNameUpdated: 'retro.group.name.updated',
+  groupColorUpdated: 'retro.group.color.updated',
+  groupDescriptionUpdated: 'retro.group.description.updated',
+  groupDeleted: 'retro.group.deleted',
+  itemCreated: 'retro.item.created',
+  itemDescriptionUpdated: 'retro.item.description.updated',
+  itemLikeToggled: 'retro.item.like.toggled',
+  itemVoteCast: 'retro.item.vote.cast',
+  itemVoteRetracted: 'retro.item.vote.retracted',
+  itemColorUpdated: 'retro.item.color.updated',
+  itemDeleted: 'retro.item.deleted',
+  itemCommentsFetched: 'retro.item.comments.fetched',
+  itemCommentCreated: 'retro.item.comment.created',
+  itemCommentUpdated: 'retro.item.comment.updated',
+  itemCommentDeleted: 'retro.item.comment.deleted',
+} as const;
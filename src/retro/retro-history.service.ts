@@ -0,0 +1,171 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, RetroHistoryEntry } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  RetroHistoryEntryRecord,
+  RetroHistoryOperation,
+} from './retro-history';
+
+export const RETRO_HISTORY_LIMIT = 50;
+
+/**
+ * Per-user undo/redo stacks of a board. Entries with `undoneAt` form the
+ * redo stack; a new change clears it, like in any editor.
+ */
+@Injectable()
+export class RetroHistoryService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async record(
+    boardId: number,
+    userId: string,
+    undo: RetroHistoryOperation,
+    redo: RetroHistoryOperation,
+  ) {
+    await this.prisma.$transaction(async (tx) => {
+      await tx.retroHistoryEntry.deleteMany({
+        where: { boardId, userId, undoneAt: { not: null } },
+      });
+      await tx.retroHistoryEntry.create({
+        data: {
+          boardId,
+          userId,
+          action: redo.type,
+          undo: toJson(undo),
+          redo: toJson(redo),
+        },
+      });
+
+      const dropped = await tx.retroHistoryEntry.findMany({
+        where: { boardId, userId },
+        orderBy: { id: 'desc' },
+        skip: RETRO_HISTORY_LIMIT,
+        select: { id: true },
+      });
+      if (dropped.length > 0) {
+        await tx.retroHistoryEntry.deleteMany({
+          where: { id: { in: dropped.map((entry) => entry.id) } },
+        });
+      }
+    });
+  }
+
+  /**
+   * Takes the latest change off the undo stack. The conditional update
+   * makes concurrent undo requests take different entries.
+   */
+  async claimUndo(
+    boardId: number,
+    userId: string,
+  ): Promise<RetroHistoryEntryRecord | null> {
+    for (;;) {
+      const entry = await this.prisma.retroHistoryEntry.findFirst({
+        where: { boardId, userId, undoneAt: null },
+        orderBy: { id: 'desc' },
+      });
+      if (!entry) {
+        return null;
+      }
+
+      const undoneAt = new Date();
+      const claimed = await this.prisma.retroHistoryEntry.updateMany({
+        where: { id: entry.id, undoneAt: null },
+        data: { undoneAt },
+      });
+      if (claimed.count === 1) {
+        return toRecord({ ...entry, undoneAt });
+      }
+    }
+  }
+
+  /**
+   * Takes the most recently undone change off the redo stack.
+   */
+  async claimRedo(
+    boardId: number,
+    userId: string,
+  ): Promise<RetroHistoryEntryRecord | null> {
+    for (;;) {
+      const entry = await this.prisma.retroHistoryEntry.findFirst({
+        where: { boardId, userId, undoneAt: { not: null } },
+        orderBy: { id: 'asc' },
+      });
+      if (!entry) {
+        return null;
+      }
+
+      const claimed = await this.prisma.retroHistoryEntry.updateMany({
+        where: { id: entry.id, undoneAt: entry.undoneAt },
+        data: { undoneAt: null },
+      });
+      if (claimed.count === 1) {
+        return toRecord({ ...entry, undoneAt: null });
+      }
+    }
+  }
+
+  /**
+   * Stores the operation that reverts what undo or redo just applied.
+   */
+  async saveInverse(
+    entry: RetroHistoryEntryRecord,
+    inverse: RetroHistoryOperation,
+  ) {
+    await this.prisma.retroHistoryEntry.update({
+      where: { id: entry.id },
+      data: entry.undoneAt ? { redo: toJson(inverse) } : { undo: toJson(inverse) },
+    });
+  }
+
+  /**
+   * Puts a claimed entry back after a failure that may pass, e.g. a lock.
+   */
+  async release(entry: RetroHistoryEntryRecord) {
+    await this.prisma.retroHistoryEntry.updateMany({
+      where: { id: entry.id },
+      data: { undoneAt: entry.undoneAt ? null : new Date() },
+    });
+  }
+
+  async discard(entry: RetroHistoryEntryRecord) {
+    await this.prisma.retroHistoryEntry.deleteMany({ where: { id: entry.id } });
+  }
+
+  async getHistory(boardId: number, userId: string) {
+    const entries = await this.prisma.retroHistoryEntry.findMany({
+      where: { boardId, userId },
+      orderBy: { id: 'desc' },
+      select: { id: true, action: true, undoneAt: true, createdAt: true },
+    });
+
+    const toStep = (entry: (typeof entries)[number]) => ({
+      id: entry.id,
+      action: entry.action,
+      createdAt: entry.createdAt,
+    });
+
+    return {
+      boardId,
+      undo: entries.filter((entry) => entry.undoneAt === null).map(toStep),
+      redo: entries
+        .filter((entry) => entry.undoneAt !== null)
+        .reverse()
+        .map(toStep),
+    };
+  }
+}
+
+function toJson(operation: RetroHistoryOperation): Prisma.InputJsonValue {
+  return operation as unknown as Prisma.InputJsonValue;
+}
+
+function toRecord(entry: RetroHistoryEntry): RetroHistoryEntryRecord {
+  return {
+    id: entry.id,
+    action: entry.action,
+    undo: entry.undo as unknown as RetroHistoryOperation,
+    redo: entry.redo as unknown as RetroHistoryOperation,
+    undoneAt: entry.undoneAt,
+    createdAt: entry.createdAt,
+  };
+}
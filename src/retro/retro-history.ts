@@ -0,0 +1,116 @@
+import { RetroVoteKind } from '@prisma/client';
+import { GroupPositionChangeDto, ItemPositionChangeDto } from './dto/retro.dto';
+import { ColumnColors } from './retro-palette';
+
+export type RetroCommentSnapshot = {
+  id: number;
+  creatorId: string;
+  text: string;
+  version: number;
+  createdAt: string;
+};
+
+export type RetroVoteSnapshot = {
+  userId: string;
+  kind: RetroVoteKind;
+  count: number;
+};
+
+export type RetroItemSnapshot = {
+  id: number;
+  columnId: number;
+  groupId: number | null;
+  rowIndex: number;
+  description: string;
+  color: string | null;
+  authorId: string | null;
+  version: number;
+  createdAt: string;
+  comments: RetroCommentSnapshot[];
+  votes: RetroVoteSnapshot[];
+};
+
+export type RetroGroupRecordSnapshot = {
+  id: number;
+  columnId: number;
+  name: string;
+  description: string;
+  color: ColumnColors;
+  orderIndex: number;
+  version: number;
+  createdAt: string;
+};
+
+/**
+ * Deleting a group keeps its cards in the column, so the snapshot only
+ * remembers which cards to put back, in their order.
+ */
+export type RetroGroupSnapshot = RetroGroupRecordSnapshot & {
+  itemIds: number[];
+};
+
+export type RetroColumnSnapshot = {
+  id: number;
+  boardId: number;
+  name: string;
+  description: string;
+  color: ColumnColors;
+  orderIndex: number;
+  isActionItems: boolean;
+  version: number;
+  createdAt: string;
+  groups: RetroGroupRecordSnapshot[];
+  items: RetroItemSnapshot[];
+};
+
+/**
+ * A history entry stores two operations: `undo` reverts the user's change
+ * and `redo` repeats it. Applying one produces the other from the state it
+ * replaced, so versions and snapshots stay current across undo/redo cycles.
+ */
+export type RetroHistoryOperation =
+  | {
+      type: 'item.description';
+      itemId: number;
+      description: string;
+      version?: number;
+    }
+  | {
+      type: 'item.color';
+      itemId: number;
+      color: string | null;
+      version?: number;
+    }
+  | { type: 'item.delete'; itemId: number; version?: number }
+  | { type: 'item.restore'; item: RetroItemSnapshot }
+  | { type: 'items.move'; boardId: number; changes: ItemPositionChangeDto[] }
+  | { type: 'column.name'; columnId: number; name: string; version?: number }
+  | {
+      type: 'column.color';
+      columnId: number;
+      color: ColumnColors;
+      version?: number;
+    }
+  | { type: 'column.delete'; columnId: number; version?: number }
+  | { type: 'column.restore'; column: RetroColumnSnapshot }
+  | { type: 'group.name'; groupId: number; name: string; version?: number }
+  | {
+      type: 'group.color';
+      groupId: number;
+      color: ColumnColors;
+      version?: number;
+    }
+  | { type: 'group.delete'; groupId: number; version?: number }
+  | { type: 'group.restore'; group: RetroGroupSnapshot }
+  | { type: 'groups.move'; boardId: number; changes: GroupPositionChangeDto[] };
+
+export type RetroHistoryAction = RetroHistoryOperation['type'];
+
+export type RetroHistoryEntryRecord = {
+  id: number;
+  action: string;
+  undo: RetroHistoryOperation;
+  redo: RetroHistoryOperation;
+  undoneAt: Date | null;
+  createdAt: Date;
+};
@@ -0,0 +1,63 @@
+export type ColumnColors = {
+  columnColor: string;
+  itemColor: string;
+  buttonColor: string;
+};
+
+export const AVAILABLE_COLUMN_COLORS: readonly ColumnColors[] = [
+  // Red
+  {
+    columnColor: '#FFDBD7',
+    itemColor: '#FF6161',
+    buttonColor: '#FF9594',
+  },
+  // Orange
+  {
+    columnColor: '#FFE0A0',
+    itemColor: '#FFB061',
+    buttonColor: '#FFC37A',
+  },
+  // Yellow
+  {
+    columnColor: '#F9E99E',
+    itemColor: '#FED13E',
+    buttonColor: '#FCDC69',
+  },
+  // Green
+  {
+    columnColor: '#B4DFC4',
+    itemColor: '#7FBF7F',
+    buttonColor: '#96CD9D',
+  },
+  // Blue
+  {
+    columnColor: '#B6D9F7',
+    itemColor: '#5FB0EF',
+    buttonColor: '#8AC4F3',
+  },
+  // Pink
+  {
+    columnColor: '#FFD8F0',
+    itemColor: '#E49EE5',
+    buttonColor: '#E49EE5',
+  },
+  // Purple
+  {
+    columnColor: '#D7CEF9',
+    itemColor: '#AB99ED',
+    buttonColor: '#C1B3F3',
+  },
+] as const;
+
+export const PALETTE = {
+  red: AVAILABLE_COLUMN_COLORS[0],
+  orange: AVAILABLE_COLUMN_COLORS[1],
+  yellow: AVAILABLE_COLUMN_COLORS[2],
+  green: AVAILABLE_COLUMN_COLORS[3],
+  blue: AVAILABLE_COLUMN_COLORS[4],
+  pink: AVAILABLE_COLUMN_COLORS[5],
+  purple: AVAILABLE_COLUMN_COLORS[6],
+} as const;
+
+export const DEFAULT_COLUMN_COLORS: [ColumnColors, ColumnColors, ColumnColors] =
+  [PALETTE.red, PALETTE.green, PALETTE.purple];
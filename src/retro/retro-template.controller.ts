@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/types/authenticated-user.type';
+import {
+  CreateRetroTemplateDto,
+  GetRetroTemplatesQueryDto,
+  RetroTemplateResponseDto,
+  SaveBoardAsTemplateDto,
+  UpdateRetroTemplateDto,
+} from './dto/retro-template.dto';
+import { RetroTemplateService } from './retro-template.service';
+
+@ApiTags('retro-templates')
+@ApiBearerAuth()
+@Controller('retro')
+export class RetroTemplateController {
+  constructor(private readonly retroTemplateService: RetroTemplateService) {}
+
+  @Get('templates')
+  @ApiOperation({
+    summary: 'Get built-in templates and custom templates of team',
+  })
+  @ApiOkResponse({ type: [RetroTemplateResponseDto] })
+  getTemplates(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: GetRetroTemplatesQueryDto,
+  ) {
+    return this.retroTemplateService.getTemplates(query.teamId, user.id);
+  }
+
+  @Get('templates/:templateId')
+  @ApiOperation({
+    summary: 'Get template by built-in slug or custom template id',
+  })
+  @ApiOkResponse({ type: RetroTemplateResponseDto })
+  getTemplate(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('templateId') templateId: string,
+  ) {
+    return this.retroTemplateService.getTemplate(templateId, user.id);
+  }
+
+  @Post('templates')
+  @ApiOperation({ summary: 'Create custom team template (OWNER/ADMIN only)' })
+  @ApiBody({
+    schema: {
+      example: {
+        teamId: 1,
+        name: 'Наш формат ретро',
+        description: 'Шаблон для спринтовых ретро платформы',
+        columns: [
+          {
+            name: 'Start',
+            description: 'Что стоит начать делать?',
+            color: {
+              columnColor: '#B4DFC4',
+              itemColor: '#7FBF7F',
+              buttonColor: '#96CD9D',
+            },
+            groups: [{ name: 'Процессы' }],
+          },
+          { name: 'Stop' },
+        ],
+      },
+    },
+  })
+  @ApiOkResponse({ type: RetroTemplateResponseDto })
+  createTemplate(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() body: CreateRetroTemplateDto,
+  ) {
+    return this.retroTemplateService.createTemplate(user.id, body);
+  }
+
+  @Patch('templates/:templateId')
+  @ApiOperation({ summary: 'Update custom team template (OWNER/ADMIN only)' })
+  @ApiBody({
+    schema: {
+      example: {
+        name: 'Наш формат ретро v2',
+      },
+    },
+  })
+  @ApiOkResponse({ type: RetroTemplateResponseDto })
+  updateTemplate(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('templateId', ParseIntPipe) templateId: number,
+    @Body() body: UpdateRetroTemplateDto,
+  ) {
+    return this.retroTemplateService.updateTemplate(templateId, user.id, body);
+  }
+
+  @Delete('templates/:templateId')
+  @ApiOperation({ summary: 'Delete custom team template (OWNER/ADMIN only)' })
+  deleteTemplate(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('templateId', ParseIntPipe) templateId: number,
+  ) {
+    return this.retroTemplateService.deleteTemplate(templateId, user.id);
+  }
+
+  @Post('boards/:boardId/template')
+  @ApiOperation({
+    summary:
+      'Save board columns and groups as team template (OWNER/ADMIN only)',
+  })
+  @ApiBody({
+    schema: {
+      example: {
+        name: 'Шаблон из Sprint 12 Retro',
+      },
+    },
+  })
+  @ApiOkResponse({ type: RetroTemplateResponseDto })
+  saveBoardAsTemplate(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('boardId', ParseIntPipe) boardId: number,
+    @Body() body: SaveBoardAsTemplateDto,
+  ) {
+    return this.retroTemplateService.saveBoardAsTemplate(
+      boardId,
+      user.id,
+      body,
+    );
+  }
+}
@@ -0,0 +1,439 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, RetroTemplate, TeamRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ensureAdminTwoFactor,
+  TEAM_ADMIN_MEMBER_SELECT,
+} from '../team/team-admin-two-factor';
+import {
+  CreateRetroTemplateDto,
+  RetroTemplateColumnDto,
+  RetroTemplateResponseDto,
+  SaveBoardAsTemplateDto,
+  UpdateRetroTemplateDto,
+} from './dto/retro-template.dto';
+import { ColumnColors, DEFAULT_COLUMN_COLORS } from './retro-palette';
+import {
+  BUILT_IN_TEMPLATES,
+  BuiltInRetroTemplate,
+  DEFAULT_TEMPLATE_ID,
+  findBuiltInTemplate,
+  RetroTemplateColumn,
+  RetroTemplateGroup,
+} from './retro-templates';
+
+const CUSTOM_TEMPLATE_ID_PATTERN = /^\d+$/;
+
+@Injectable()
+export class RetroTemplateService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getTemplates(
+    teamId: number,
+    userId: string,
+  ): Promise<RetroTemplateResponseDto[]> {
+    await this.ensureTeamMember(teamId, userId);
+
+    const customTemplates = await this.prisma.retroTemplate.findMany({
+      where: { teamId },
+      orderBy: { id: 'asc' },
+    });
+
+    return [
+      ...BUILT_IN_TEMPLATES.map((template) =>
+        this.mapBuiltInTemplate(template),
+      ),
+      ...customTemplates.map((template: RetroTemplate) =>
+        this.mapCustomTemplate(template),
+      ),
+    ];
+  }
+
+  async getTemplate(
+    templateId: string,
+    userId: string,
+  ): Promise<RetroTemplateResponseDto> {
+    const builtInTemplate = findBuiltInTemplate(templateId);
+    if (builtInTemplate) {
+      return this.mapBuiltInTemplate(builtInTemplate);
+    }
+
+    const template = await this.getCustomTemplateOrFail(
+      this.parseCustomTemplateId(templateId),
+    );
+    await this.ensureTeamMember(template.teamId, userId);
+
+    return this.mapCustomTemplate(template);
+  }
+
+  async createTemplate(
+    userId: string,
+    dto: CreateRetroTemplateDto,
+  ): Promise<RetroTemplateResponseDto> {
+    await this.ensureTeamAdminOrOwner(dto.teamId, userId);
+
+    const template = await this.prisma.retroTemplate.create({
+      data: {
+        teamId: dto.teamId,
+        createdById: userId,
+        name: this.normalizeTemplateName(dto.name),
+        description: dto.description ?? '',
+        columns: this.toTemplateColumnsInput(this.fromColumnDtos(dto.columns)),
+      },
+    });
+
+    return this.mapCustomTemplate(template);
+  }
+
+  async updateTemplate(
+    templateId: number,
+    userId: string,
+    dto: UpdateRetroTemplateDto,
+  ): Promise<RetroTemplateResponseDto> {
+    const current = await this.getCustomTemplateOrFail(templateId);
+    await this.ensureTeamAdminOrOwner(current.teamId, userId);
+
+    const template = await this.prisma.retroTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...(dto.name !== undefined
+          ? { name: this.normalizeTemplateName(dto.name) }
+          : {}),
+        ...(dto.description !== undefined
+          ? { description: dto.description }
+          : {}),
+        ...(dto.columns !== undefined
+          ? {
+              columns: this.toTemplateColumnsInput(
+                this.fromColumnDtos(dto.columns),
+              ),
+            }
+          : {}),
+      },
+    });
+
+    return this.mapCustomTemplate(template);
+  }
+
+  async deleteTemplate(templateId: number, userId: string) {
+    const template = await this.getCustomTemplateOrFail(templateId);
+    await this.ensureTeamAdminOrOwner(template.teamId, userId);
+
+    await this.prisma.retroTemplate.delete({
+      where: { id: templateId },
+    });
+
+    return { deleted: true };
+  }
+
+  async saveBoardAsTemplate(
+    boardId: number,
+    userId: string,
+    dto: SaveBoardAsTemplateDto,
+  ): Promise<RetroTemplateResponseDto> {
+    const board = await this.prisma.retroBoard.findFirst({
+      where: { id: boardId, deletedAt: null },
+      select: {
+        teamId: true,
+        name: true,
+        description: true,
+        columns: {
+          orderBy: { orderIndex: 'asc' },
+          select: {
+            name: true,
+            description: true,
+            color: true,
+            isActionItems: true,
+            groups: {
+              orderBy: { orderIndex: 'asc' },
+              select: {
+                name: true,
+                description: true,
+                color: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!board) {
+      throw new NotFoundException(`Board ${boardId} not found`);
+    }
+
+    await this.ensureTeamAdminOrOwner(board.teamId, userId, boardId);
+
+    if (board.columns.length === 0) {
+      throw new BadRequestException(`Board ${boardId} has no columns`);
+    }
+
+    const columns = this.normalizeTemplateColumns(board.columns);
+
+    const template = await this.prisma.retroTemplate.create({
+      data: {
+        teamId: board.teamId,
+        createdById: userId,
+        name: this.normalizeTemplateName(dto.name ?? board.name),
+        description: dto.description ?? board.description,
+        columns: this.toTemplateColumnsInput(columns),
+      },
+    });
+
+    return this.mapCustomTemplate(template);
+  }
+
+  async resolveTemplateColumns(
+    teamId: number,
+    templateId?: string,
+  ): Promise<RetroTemplateColumn[]> {
+    const builtInTemplate = findBuiltInTemplate(
+      templateId ?? DEFAULT_TEMPLATE_ID,
+    );
+    if (builtInTemplate) {
+      return builtInTemplate.columns;
+    }
+
+    if (!templateId || !CUSTOM_TEMPLATE_ID_PATTERN.test(templateId)) {
+      throw new BadRequestException(`Template ${templateId} not found`);
+    }
+
+    const template = await this.prisma.retroTemplate.findUnique({
+      where: { id: Number(templateId) },
+      select: { teamId: true, columns: true },
+    });
+
+    if (!template || template.teamId !== teamId) {
+      throw new BadRequestException(`Template ${templateId} not found`);
+    }
+
+    return this.normalizeTemplateColumns(template.columns);
+  }
+
+  private async getCustomTemplateOrFail(templateId: number) {
+    const template = await this.prisma.retroTemplate.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Template ${templateId} not found`);
+    }
+
+    return template;
+  }
+
+  private async ensureTeamMember(teamId: number, userId: string) {
+    const teamMember = await this.prisma.teamMember.findUnique({
+      where: {
+        teamId_userId: {
+          teamId,
+          userId,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!teamMember) {
+      throw new NotFoundException(`Team ${teamId} not found`);
+    }
+  }
+
+  private async ensureTeamAdminOrOwner(
+    teamId: number,
+    userId: string,
+    boardId?: number,
+  ) {
+    const teamMember = await this.prisma.teamMember.findUnique({
+      where: {
+        teamId_userId: {
+          teamId,
+          userId,
+        },
+      },
+      select: TEAM_ADMIN_MEMBER_SELECT,
+    });
+
+    if (!teamMember) {
+      throw new NotFoundException(
+        boardId !== undefined
+          ? `Board ${boardId} not found`
+          : `Team ${teamId} not found`,
+      );
+    }
+
+    if (teamMember.role === TeamRole.MEMBER) {
+      throw new ForbiddenException(
+        'Insufficient permissions to manage templates',
+      );
+    }
+
+    ensureAdminTwoFactor(teamMember);
+  }
+
+  private parseCustomTemplateId(templateId: string): number {
+    if (!CUSTOM_TEMPLATE_ID_PATTERN.test(templateId)) {
+      throw new NotFoundException(`Template ${templateId} not found`);
+    }
+
+    return Number(templateId);
+  }
+
+  private normalizeTemplateName(name: string): string {
+    const normalizedName = name.trim();
+    if (!normalizedName) {
+      throw new BadRequestException('Template name is required');
+    }
+
+    return normalizedName;
+  }
+
+  private fromColumnDtos(
+    columns: RetroTemplateColumnDto[],
+  ): RetroTemplateColumn[] {
+    return columns.map((column, index) => ({
+      name: column.name,
+      description: column.description ?? '',
+      color:
+        column.color ??
+        DEFAULT_COLUMN_COLORS[index % DEFAULT_COLUMN_COLORS.length],
+      ...(column.isActionItems ? { isActionItems: true } : {}),
+      groups: (column.groups ?? []).map((group) => ({
+        name: group.name,
+        description: group.description ?? '',
+        ...(group.color ? { color: group.color } : {}),
+      })),
+    }));
+  }
+
+  private normalizeTemplateColumns(
+    value: Prisma.JsonValue | unknown[],
+  ): RetroTemplateColumn[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    return value.flatMap((rawColumn, index): RetroTemplateColumn[] => {
+      if (
+        typeof rawColumn !== 'object' ||
+        rawColumn === null ||
+        Array.isArray(rawColumn)
+      ) {
+        return [];
+      }
+
+      const column = rawColumn as Record<string, unknown>;
+      if (typeof column.name !== 'string') {
+        return [];
+      }
+
+      return [
+        {
+          name: column.name,
+          description:
+            typeof column.description === 'string' ? column.description : '',
+          color:
+            this.toColumnColors(column.color) ??
+            DEFAULT_COLUMN_COLORS[index % DEFAULT_COLUMN_COLORS.length],
+          ...(column.isActionItems === true ? { isActionItems: true } : {}),
+          groups: this.normalizeTemplateGroups(column.groups),
+        },
+      ];
+    });
+  }
+
+  private normalizeTemplateGroups(value: unknown): RetroTemplateGroup[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    return value.flatMap((rawGroup): RetroTemplateGroup[] => {
+      if (
+        typeof rawGroup !== 'object' ||
+        rawGroup === null ||
+        Array.isArray(rawGroup)
+      ) {
+        return [];
+      }
+
+      const group = rawGroup as Record<string, unknown>;
+      if (typeof group.name !== 'string') {
+        return [];
+      }
+
+      const color = this.toColumnColors(group.color);
+      return [
+        {
+          name: group.name,
+          description:
+            typeof group.description === 'string' ? group.description : '',
+          ...(color ? { color } : {}),
+        },
+      ];
+    });
+  }
+
+  private toColumnColors(value: unknown): ColumnColors | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return null;
+    }
+
+    const color = value as Record<string, unknown>;
+    if (
+      typeof color.columnColor === 'string' &&
+      typeof color.itemColor === 'string' &&
+      typeof color.buttonColor === 'string'
+    ) {
+      return {
+        columnColor: color.columnColor,
+        itemColor: color.itemColor,
+        buttonColor: color.buttonColor,
+      };
+    }
+
+    return null;
+  }
+
+  private toTemplateColumnsInput(
+    columns: RetroTemplateColumn[],
+  ): Prisma.InputJsonArray {
+    return columns.map((column) => ({
+      name: column.name,
+      description: column.description,
+      color: { ...column.color },
+      ...(column.isActionItems ? { isActionItems: true } : {}),
+      groups: column.groups.map((group) => ({
+        name: group.name,
+        description: group.description,
+        ...(group.color ? { color: { ...group.color } } : {}),
+      })),
+    }));
+  }
+
+  private mapBuiltInTemplate(
+    template: BuiltInRetroTemplate,
+  ): RetroTemplateResponseDto {
+    return {
+      id: template.id,
+      teamId: null,
+      isBuiltIn: true,
+      name: template.name,
+      description: template.description,
+      columns: template.columns,
+    };
+  }
+
+  private mapCustomTemplate(template: RetroTemplate): RetroTemplateResponseDto {
+    return {
+      id: String(template.id),
+      teamId: template.teamId,
+      isBuiltIn: false,
+      name: template.name,
+      description: template.description,
+      columns: this.normalizeTemplateColumns(template.columns),
+    };
+  }
+}
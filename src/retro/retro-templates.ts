@@ -0,0 +1,208 @@
+import { ColumnColors, DEFAULT_COLUMN_COLORS, PALETTE } from './retro-palette';
+
+export type RetroTemplateGroup = {
+  name: string;
+  description: string;
+  color?: ColumnColors;
+};
+
+export type RetroTemplateColumn = {
+  name: string;
+  description: string;
+  color: ColumnColors;
+  isActionItems?: boolean;
+  groups: RetroTemplateGroup[];
+};
+
+export type BuiltInRetroTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  columns: RetroTemplateColumn[];
+};
+
+export const DEFAULT_TEMPLATE_ID = 'classic';
+
+export const BUILT_IN_TEMPLATES: readonly BuiltInRetroTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Классическая ретроспектива',
+    description: 'Что было хорошо, что могло быть лучше и action points',
+    columns: [
+      {
+        name: 'Что было хорошо?',
+        description: '',
+        color: DEFAULT_COLUMN_COLORS[0],
+        groups: [],
+      },
+      {
+        name: 'Что могло быть лучше?',
+        description: '',
+        color: DEFAULT_COLUMN_COLORS[1],
+        groups: [],
+      },
+      {
+        name: 'Actions points',
+        description: '',
+        color: DEFAULT_COLUMN_COLORS[2],
+        isActionItems: true,
+        groups: [],
+      },
+    ],
+  },
+  {
+    id: 'start-stop-continue',
+    name: 'Start / Stop / Continue',
+    description: 'Что начать делать, что прекратить и что продолжать',
+    columns: [
+      {
+        name: 'Start',
+        description: 'Что стоит начать делать?',
+        color: PALETTE.green,
+        groups: [],
+      },
+      {
+        name: 'Stop',
+        description: 'Что стоит перестать делать?',
+        color: PALETTE.red,
+        groups: [],
+      },
+      {
+        name: 'Continue',
+        description: 'Что работает и стоит продолжать?',
+        color: PALETTE.blue,
+        groups: [],
+      },
+    ],
+  },
+  {
+    id: '4ls',
+    name: '4Ls',
+    description: 'Liked, Learned, Lacked, Longed for',
+    columns: [
+      {
+        name: 'Liked',
+        description: 'Что понравилось?',
+        color: PALETTE.green,
+        groups: [],
+      },
+      {
+        name: 'Learned',
+        description: 'Чему научились?',
+        color: PALETTE.blue,
+        groups: [],
+      },
+      {
+        name: 'Lacked',
+        description: 'Чего не хватало?',
+        color: PALETTE.orange,
+        groups: [],
+      },
+      {
+        name: 'Longed for',
+        description: 'Чего хотелось бы?',
+        color: PALETTE.purple,
+        groups: [],
+      },
+    ],
+  },
+  {
+    id: 'mad-sad-glad',
+    name: 'Mad / Sad / Glad',
+    description: 'Эмоциональная ретроспектива по итогам спринта',
+    columns: [
+      {
+        name: 'Mad',
+        description: 'Что раздражало?',
+        color: PALETTE.red,
+        groups: [],
+      },
+      {
+        name: 'Sad',
+        description: 'Что расстроило?',
+        color: PALETTE.blue,
+        groups: [],
+      },
+      {
+        name: 'Glad',
+        description: 'Что порадовало?',
+        color: PALETTE.green,
+        groups: [],
+      },
+    ],
+  },
+  {
+    id: 'starfish',
+    name: 'Starfish',
+    description: 'Keep, Less, More, Stop, Start',
+    columns: [
+      {
+        name: 'Keep doing',
+        description: 'Что работает и стоит сохранить?',
+        color: PALETTE.green,
+        groups: [],
+      },
+      {
+        name: 'Less of',
+        description: 'Чего стоит делать меньше?',
+        color: PALETTE.yellow,
+        groups: [],
+      },
+      {
+        name: 'More of',
+        description: 'Чего стоит делать больше?',
+        color: PALETTE.blue,
+        groups: [],
+      },
+      {
+        name: 'Stop doing',
+        description: 'Что стоит прекратить?',
+        color: PALETTE.red,
+        groups: [],
+      },
+      {
+        name: 'Start doing',
+        description: 'Что стоит начать?',
+        color: PALETTE.purple,
+        groups: [],
+      },
+    ],
+  },
+  {
+    id: 'sailboat',
+    name: 'Sailboat',
+    description: 'Ветер, якоря, рифы и остров',
+    columns: [
+      {
+        name: 'Wind',
+        description: 'Что толкает нас вперед?',
+        color: PALETTE.green,
+        groups: [],
+      },
+      {
+        name: 'Anchors',
+        description: 'Что нас тормозит?',
+        color: PALETTE.orange,
+        groups: [],
+      },
+      {
+        name: 'Rocks',
+        description: 'Какие риски впереди?',
+        color: PALETTE.red,
+        groups: [],
+      },
+      {
+        name: 'Island',
+        description: 'К какой цели мы идем?',
+        color: PALETTE.blue,
+        groups: [],
+      },
+    ],
+  },
+];
+
+export function findBuiltInTemplate(
+  templateId: string,
+): BuiltInRetroTemplate | undefined {
+  return BUILT_IN_TEMPLATES.find((template) => template.id === templateId);
+}
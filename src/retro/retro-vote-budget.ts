@@ -0,0 +1,30 @@
+import { Prisma, RetroVoteKind } from '@prisma/client';
+
+/**
+ * Serializes DOT vote changes of one participant on one board, so
+ * concurrent requests cannot both pass the budget check.
+ */
+export async function lockParticipantVotes(
+  tx: Prisma.TransactionClient,
+  boardId: number,
+  userId: string,
+) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${boardId}::int, hashtext(${userId}))`;
+}
+
+export async function getUsedVotes(
+  tx: Prisma.TransactionClient,
+  boardId: number,
+  userId: string,
+): Promise<number> {
+  const result = await tx.retroItemVote.aggregate({
+    where: {
+      userId,
+      kind: RetroVoteKind.DOT,
+      item: { column: { boardId } },
+    },
+    _sum: { count: true },
+  });
+
+  return result._sum.count ?? 0;
+}
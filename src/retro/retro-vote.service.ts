@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, RetroVoteKind } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ItemVoteResponseDto,
+  MyVotesResponseDto,
+  VoteResultDto,
+} from './dto/retro.dto';
+import { ensureBoardPhaseAllows } from './retro-board-phase';
+import {
+  areVotesVisible,
+  BoardSettings,
+  normalizeBoardSettings,
+} from './retro-board-settings';
+import { isCardTextVisible } from './retro-card-visibility';
+import { getUsedVotes, lockParticipantVotes } from './retro-vote-budget';
+import { RetroService } from './retro.service';
+
+@Injectable()
+export class RetroVoteService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly retroService: RetroService,
+  ) {}
+
+  async castVote(itemId: number, userId: string): Promise<ItemVoteResponseDto> {
+    const { boardId } = await this.retroService.getItemRealtimeContext(
+      itemId,
+      userId,
+    );
+    const { settings, phase } = await this.getBoardVotingContext(boardId);
+    this.ensureVotingEnabled(settings);
+    ensureBoardPhaseAllows(phase, 'vote');
+
+    const myVotes = await this.prisma.$transaction(async (tx) => {
+      await lockParticipantVotes(tx, boardId, userId);
+
+      const existingVote = await tx.retroItemVote.findUnique({
+        where: {
+          itemId_userId_kind: { itemId, userId, kind: RetroVoteKind.DOT },
+        },
+        select: { count: true },
+      });
+
+      if (existingVote && !settings.voting.allowMultipleVotesPerItem) {
+        throw new BadRequestException(
+          'Multiple votes on one item are not allowed',
+        );
+      }
+
+      const usedVotes = await getUsedVotes(tx, boardId, userId);
+      if (usedVotes >= settings.voting.maxVotesPerParticipant) {
+        throw new BadRequestException('No votes left');
+      }
+
+      const vote = await tx.retroItemVote.upsert({
+        where: {
+          itemId_userId_kind: { itemId, userId, kind: RetroVoteKind.DOT },
+        },
+        create: { itemId, userId, kind: RetroVoteKind.DOT, count: 1 },
+        update: { count: { increment: 1 } },
+        select: { count: true },
+      });
+
+      return vote.count;
+    });
+
+    return this.buildItemVoteResponse(
+      boardId,
+      itemId,
+      userId,
+      myVotes,
+      settings,
+    );
+  }
+
+  async retractVote(
+    itemId: number,
+    userId: string,
+  ): Promise<ItemVoteResponseDto> {
+    const { boardId } = await this.retroService.getItemRealtimeContext(
+      itemId,
+      userId,
+    );
+    const { settings, phase } = await this.getBoardVotingContext(boardId);
+    this.ensureVotingEnabled(settings);
+    ensureBoardPhaseAllows(phase, 'vote');
+
+    const myVotes = await this.prisma.$transaction(async (tx) => {
+      await lockParticipantVotes(tx, boardId, userId);
+
+      const existingVote = await tx.retroItemVote.findUnique({
+        where: {
+          itemId_userId_kind: { itemId, userId, kind: RetroVoteKind.DOT },
+        },
+        select: { count: true },
+      });
+
+      if (!existingVote) {
+        throw new BadRequestException('No votes to retract');
+      }
+
+      if (existingVote.count <= 1) {
+        await tx.retroItemVote.delete({
+          where: {
+            itemId_userId_kind: { itemId, userId, kind: RetroVoteKind.DOT },
+          },
+        });
+        return 0;
+      }
+
+      const vote = await tx.retroItemVote.update({
+        where: {
+          itemId_userId_kind: { itemId, userId, kind: RetroVoteKind.DOT },
+        },
+        data: { count: { decrement: 1 } },
+        select: { count: true },
+      });
+
+      return vote.count;
+    });
+
+    return this.buildItemVoteResponse(
+      boardId,
+      itemId,
+      userId,
+      myVotes,
+      settings,
+    );
+  }
+
+  async getMyVotes(
+    boardId: number,
+    userId: string,
+  ): Promise<MyVotesResponseDto> {
+    await this.retroService.getBoardRealtimeContext(boardId, userId);
+    const { settings } = await this.getBoardVotingContext(boardId);
+
+    const votes = await this.prisma.retroItemVote.findMany({
+      where: {
+        userId,
+        kind: RetroVoteKind.DOT,
+        item: { column: { boardId } },
+      },
+      select: { itemId: true, count: true },
+      orderBy: { itemId: 'asc' },
+    });
+    const usedVotes = votes.reduce((sum, vote) => sum + vote.count, 0);
+
+    return {
+      boardId,
+      maxVotes: settings.voting.maxVotesPerParticipant,
+      usedVotes,
+      remainingVotes: Math.max(
+        settings.voting.maxVotesPerParticipant - usedVotes,
+        0,
+      ),
+      votes,
+    };
+  }
+
+  async getResults(boardId: number, userId: string): Promise<VoteResultDto[]> {
+    const { teamId } = await this.retroService.getBoardRealtimeContext(
+      boardId,
+      userId,
+    );
+    const { settings, phase } = await this.getBoardVotingContext(boardId);
+    const teamMember = await this.prisma.teamMember.findUnique({
+      where: { teamId_userId: { teamId, userId } },
+      select: { role: true },
+    });
+
+    if (!areVotesVisible(settings, teamMember?.role)) {
+      throw new ForbiddenException('Votes are hidden until revealed');
+    }
+
+    const items = await this.prisma.retroItem.findMany({
+      where: {
+        column: { boardId },
+        votes: { some: { kind: RetroVoteKind.DOT } },
+      },
+      select: {
+        id: true,
+        columnId: true,
+        groupId: true,
+        authorId: true,
+        description: true,
+        votes: {
+          where: { kind: RetroVoteKind.DOT },
+          select: { count: true },
+        },
+      },
+    });
+
+    const ranked = items
+      .map((item) => ({
+        itemId: item.id,
+        columnId: item.columnId,
+        groupId: item.groupId,
+        description: isCardTextVisible(
+          { phase, cardHiding: settings.cardHiding },
+          item,
+          userId,
+        )
+          ? item.description
+          : '',
+        votesCount: item.votes.reduce((sum, vote) => sum + vote.count, 0),
+        votersCount: item.votes.length,
+      }))
+      .sort((a, b) => b.votesCount - a.votesCount || a.itemId - b.itemId);
+
+    let rank = 0;
+    return ranked.map((result, index) => {
+      if (index === 0 || ranked[index - 1].votesCount !== result.votesCount) {
+        rank = index + 1;
+      }
+
+      return { rank, ...result };
+    });
+  }
+
+  private async getBoardVotingContext(boardId: number) {
+    const board = await this.prisma.retroBoard.findUnique({
+      where: { id: boardId },
+      select: {
+        settings: true,
+        phase: true,
+      },
+    });
+
+    if (!board) {
+      throw new NotFoundException(`Board ${boardId} not found`);
+    }
+
+    return {
+      settings: normalizeBoardSettings(board.settings),
+      phase: board.phase,
+    };
+  }
+
+  private ensureVotingEnabled(settings: BoardSettings) {
+    if (!settings.voting.enabled) {
+      throw new BadRequestException('Voting is disabled on this board');
+    }
+  }
+
+  private async buildItemVoteResponse(
+    boardId: number,
+    itemId: number,
+    userId: string,
+    myVotes: number,
+    settings: BoardSettings,
+  ): Promise<ItemVoteResponseDto> {
+    const [usedVotes, itemVotes] = await Promise.all([
+      getUsedVotes(this.prisma, boardId, userId),
+      this.prisma.retroItemVote.aggregate({
+        where: { itemId, kind: RetroVoteKind.DOT },
+        _sum: { count: true },
+      }),
+    ]);
+
+    return {
+      boardId,
+      itemId,
+      myVotes,
+      remainingVotes: Math.max(
+        settings.voting.maxVotesPerParticipant - usedVotes,
+        0,
+      ),
+      votesCount: areVotesVisible(settings)
+        ? (itemVotes._sum.count ?? 0)
+        : null,
+    };
+  }
+}
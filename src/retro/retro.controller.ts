@@ -3,35 +3,67 @@ import {
   Controller,
   Delete,
   Get,
+  Headers,
+  MessageEvent,
   Param,
   ParseIntPipe,
   Patch,
   Post,
   Query,
+  Sse,
   UnauthorizedException,
   UseGuards,
 } from '@nestjs/common';
-import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiHeader,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Public } from '../auth/decorators/public.decorator';
-import { AnonymousActorService } from '../auth/anonymous-actor.service';
+import { GUEST_SESSION_REQUIRED_MESSAGE } from '../auth/guest-session.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { AccessActor } from '../auth/types/access-actor.type';
 import { AuthenticatedUser } from '../auth/types/authenticated-user.type';
+import { BoardStreamService } from '../realtime/board-stream.service';
 import { RealtimeService } from '../realtime/realtime.service';
+import { TimerService } from '../timer/timer.service';
 import {
+  BoardChangesQueryDto,
+  BoardEventsQueryDto,
+  BoardPhaseChangeResponseDto,
+  CloneBoardDto,
   CreateBoardDto,
   CreateColumnDto,
   CreateGroupDto,
   CreateItemCommentDto,
   CreateItemDto,
+  ItemVoteResponseDto,
+  DeleteBoardResponseDto,
+  DeletedRetroBoardResponseDto,
+  ExpectedVersionQueryDto,
   GetBoardsQueryDto,
+  GetDeletedBoardsQueryDto,
+  MyVotesResponseDto,
   ReorderColumnsDto,
   ReorderColumnsResponseDto,
+  RevealBoardCardsDto,
+  RevealBoardCardsResponseDto,
+  RetroBoardChangesResponseDto,
+  RetroBoardDetailsResponseDto,
+  RetroBoardListResponseDto,
   RetroBoardResponseDto,
   RetroColumnResponseDto,
   RetroGroupResponseDto,
+  RetroHistoryApplyResponseDto,
+  RetroHistoryResponseDto,
   RetroItemCommentResponseDto,
   RetroItemResponseDto,
   SyncGroupPositionsDto,
@@ -39,6 +71,7 @@ import {
   SyncItemPositionsResponseDto,
   SyncItemPositionsDto,
   UpdateBoardNameDto,
+  UpdateBoardPhaseDto,
   UpdateBoardSettingsDto,
   UpdateColumnColorDto,
   UpdateColumnDescriptionDto,
@@ -49,36 +82,13 @@ import {
   UpdateItemColorDto,
   UpdateItemCommentDto,
   UpdateItemDescriptionDto,
+  VoteResultDto,
 } from './dto/retro.dto';
+import { RetroCommandService } from './retro-command.service';
+import { RETRO_EVENTS } from './retro-events';
+import { RetroVoteService } from './retro-vote.service';
 import { RetroService } from './retro.service';
 
-const RETRO_EVENTS = {
-  boardRenamed: 'retro.board.renamed',
-  boardSettingsUpdated: 'retro.board.settings.updated',
-  boardColumnsReordered: 'retro.board.columns.reordered',
-  boardGroupsPositionsSynced: 'retro.board.groups.positions.synced',
-  boardItemPositionsSynced: 'retro.board.items.positions.synced',
-  columnCreated: 'retro.column.created',
-  columnNameUpdated: 'retro.column.name.updated',
-  columnColorUpdated: 'retro.column.color.updated',
-  columnDescriptionUpdated: 'retro.column.description.updated',
-  columnDeleted: 'retro.column.deleted',
-  groupCreated: 'retro.group.created',
-  groupNameUpdated: 'retro.group.name.updated',
-  groupColorUpdated: 'retro.group.color.updated',
-  groupDescriptionUpdated: 'retro.group.description.updated',
-  groupDeleted: 'retro.group.deleted',
-  itemCreated: 'retro.item.created',
-  itemDescriptionUpdated: 'retro.item.description.updated',
-  itemLikeToggled: 'retro.item.like.toggled',
-  itemColorUpdated: 'retro.item.color.updated',
-  itemDeleted: 'retro.item.deleted',
-  itemCommentsFetched: 'retro.item.comments.fetched',
-  itemCommentCreated: 'retro.item.comment.created',
-  itemCommentUpdated: 'retro.item.comment.updated',
-  itemCommentDeleted: 'retro.item.comment.deleted',
-} as const;
-
 @ApiTags('retro')
 @ApiBearerAuth()
 @Public()
@@ -88,7 +98,10 @@ export class RetroController {
   constructor(
     private readonly retroService: RetroService,
     private readonly realtimeService: RealtimeService,
-    private readonly anonymousActorService: AnonymousActorService,
+    private readonly retroCommandService: RetroCommandService,
+    private readonly timerService: TimerService,
+    private readonly retroVoteService: RetroVoteService,
+    private readonly boardStreamService: BoardStreamService,
   ) {}
 
   @Post('boards')
@@ -114,20 +127,233 @@ export class RetroController {
 
   @Get('boards')
   @UseGuards(JwtAuthGuard)
-  @ApiOperation({ summary: 'Get retro boards for current user teams' })
+  @ApiOperation({ summary: 'Get paginated board summaries for current user teams' })
   @ApiQuery({
     name: 'teamId',
     required: false,
     description: 'Filter boards by team id',
     schema: { type: 'integer', minimum: 1 },
   })
-  @ApiOkResponse({ type: [RetroBoardResponseDto] })
+  @ApiQuery({
+    name: 'includeArchived',
+    required: false,
+    description: 'Include archived boards',
+    schema: { type: 'boolean', default: false },
+  })
+  @ApiOkResponse({ type: RetroBoardListResponseDto })
   getBoards(@CurrentUser() user: AuthenticatedUser | undefined, @Query() query: GetBoardsQueryDto) {
     if (!user) {
       throw new UnauthorizedException();
     }
 
-    return this.retroService.getBoards(user.id, query.teamId);
+    return this.retroService.getBoards(user.id, query);
+  }
+
+  @Get('boards/trash')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Get deleted boards waiting in trash (OWNER/ADMIN only)' })
+  @ApiQuery({
+    name: 'teamId',
+    required: false,
+    description: 'Filter boards by team id',
+    schema: { type: 'integer', minimum: 1 },
+  })
+  @ApiOkResponse({ type: [DeletedRetroBoardResponseDto] })
+  getDeletedBoards(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Query() query: GetDeletedBoardsQueryDto,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    return this.retroService.getDeletedBoards(user.id, query.teamId);
+  }
+
+  @Post('boards/:boardId/archive')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Archive board (OWNER/ADMIN only)' })
+  @ApiOkResponse({ type: RetroBoardResponseDto })
+  async archiveBoard(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const board = await this.retroService.archiveBoard(boardId, user.id);
+    await this.realtimeService.emitToTeamAndBoard(
+      board.teamId,
+      board.id,
+      RETRO_EVENTS.boardArchived,
+      {
+        boardId: board.id,
+        archivedAt: board.archivedAt,
+      },
+      user.id,
+    );
+    return board;
+  }
+
+  @Post('boards/:boardId/unarchive')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Unarchive board (OWNER/ADMIN only)' })
+  @ApiOkResponse({ type: RetroBoardResponseDto })
+  async unarchiveBoard(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const board = await this.retroService.unarchiveBoard(boardId, user.id);
+    await this.realtimeService.emitToTeamAndBoard(
+      board.teamId,
+      board.id,
+      RETRO_EVENTS.boardUnarchived,
+      {
+        boardId: board.id,
+      },
+      user.id,
+    );
+    return board;
+  }
+
+  @Delete('boards/:boardId')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Move board to trash (OWNER/ADMIN only)' })
+  @ApiOkResponse({ type: DeleteBoardResponseDto })
+  async deleteBoard(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const context = await this.retroService.getBoardRealtimeContext(boardId, user.id);
+    const result = await this.retroService.deleteBoard(boardId, user.id);
+    await this.realtimeService.emitToTeamAndBoard(
+      context.teamId,
+      context.boardId,
+      RETRO_EVENTS.boardDeleted,
+      {
+        boardId: context.boardId,
+        purgeAt: result.purgeAt,
+      },
+      user.id,
+    );
+    return result;
+  }
+
+  @Post('boards/:boardId/restore')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Restore board from trash (OWNER/ADMIN only)' })
+  @ApiOkResponse({ type: RetroBoardResponseDto })
+  async restoreBoard(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const board = await this.retroService.restoreBoard(boardId, user.id);
+    await this.realtimeService.emitToTeamAndBoard(
+      board.teamId,
+      board.id,
+      RETRO_EVENTS.boardRestored,
+      board,
+      user.id,
+    );
+    return board;
+  }
+
+  @Post('boards/:boardId/clone')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Clone board structure into a new board (OWNER/ADMIN only)' })
+  @ApiBody({
+    schema: {
+      example: {
+        name: 'Sprint 13 Retro',
+        date: '2026-03-02',
+        itemIds: [42, 43],
+      },
+    },
+  })
+  @ApiOkResponse({ type: RetroBoardResponseDto })
+  cloneBoard(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+    @Body() body: CloneBoardDto,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    return this.retroService.cloneBoard(boardId, user.id, body);
+  }
+
+  @Get('boards/:boardId')
+  @ApiOperation({ summary: 'Get board with columns, timer and caller role' })
+  @ApiOkResponse({ type: RetroBoardDetailsResponseDto })
+  async getBoard(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    const actor = await this.resolveActor(user);
+    const board = await this.retroService.getBoard(boardId, actor.userId);
+    const timer = await this.timerService.getCurrentTimer(boardId, actor.userId);
+    return {
+      ...board,
+      timer,
+    };
+  }
+
+  @Get('boards/:boardId/changes')
+  @ApiOperation({
+    summary: 'Get columns, groups, items and comments changed since a cursor, with tombstones',
+  })
+  @ApiOkResponse({ type: RetroBoardChangesResponseDto })
+  async getBoardChanges(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+    @Query() query: BoardChangesQueryDto,
+  ) {
+    const actor = await this.resolveActor(user);
+    return this.retroService.getBoardChanges(
+      boardId,
+      actor.userId,
+      new Date(query.since),
+    );
+  }
+
+  @Sse('boards/:boardId/events')
+  @ApiOperation({
+    summary: 'Stream board events over SSE (fallback when websockets are blocked)',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiHeader({
+    name: 'Last-Event-ID',
+    required: false,
+    description: 'Last processed board event seq; sent by EventSource on reconnect',
+  })
+  async streamBoardEvents(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+    @Query() query: BoardEventsQueryDto,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Promise<Observable<MessageEvent>> {
+    const actor = await this.resolveActor(user);
+    await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+
+    return this.boardStreamService.stream(
+      boardId,
+      actor.userId,
+      parseLastEventId(lastEventId) ?? query.lastEventId,
+    );
   }
 
   @Get('boards/:boardId/columns')
@@ -157,12 +383,17 @@ export class RetroController {
   ) {
     const actor = await this.resolveActor(user);
     const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
-    const updatedBoard = await this.retroService.updateBoardName(boardId, actor.userId, body.name);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
+    const updatedBoard = await this.retroService.updateBoardName(
+      boardId,
+      actor.userId,
+      body.name,
+      body.expectedVersion,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
       RETRO_EVENTS.boardRenamed,
       updatedBoard,
-      this.toExcludedUserId(actor),
+      actor.userId,
     );
     return updatedBoard;
   }
@@ -173,6 +404,11 @@ export class RetroController {
     schema: {
       example: {
         showLikes: false,
+        voting: {
+          enabled: true,
+          maxVotesPerParticipant: 5,
+          hideVotesUntilReveal: true,
+        },
       },
     },
   })
@@ -189,18 +425,77 @@ export class RetroController {
       actor.userId,
       body,
     );
-    await this.realtimeService.emitToTeam(
-      context.teamId,
+    await this.realtimeService.emitToBoard(
+      context.boardId,
       RETRO_EVENTS.boardSettingsUpdated,
       {
         boardId: context.boardId,
         settings: updatedBoard.settings,
       },
-      this.toExcludedUserId(actor),
+      actor.userId,
     );
     return updatedBoard;
   }
 
+  @Patch('boards/:boardId/phase')
+  @ApiOperation({ summary: 'Move board to another facilitation phase (OWNER/ADMIN only)' })
+  @ApiBody({
+    schema: {
+      example: {
+        phase: 'GROUP',
+      },
+    },
+  })
+  @ApiOkResponse({ type: BoardPhaseChangeResponseDto })
+  async changeBoardPhase(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+    @Body() body: UpdateBoardPhaseDto,
+  ) {
+    const actor = await this.resolveActor(user);
+    const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+    const result = await this.retroService.changeBoardPhase(
+      boardId,
+      actor.userId,
+      body.phase,
+      body.expectedVersion,
+    );
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.boardPhaseChanged,
+      result,
+      actor.userId,
+    );
+    return result;
+  }
+
+  @Post('boards/:boardId/cards/reveal')
+  @ApiOperation({ summary: 'Reveal hidden cards of column or author (OWNER/ADMIN only)' })
+  @ApiBody({
+    schema: {
+      example: {
+        columnId: 7,
+      },
+    },
+  })
+  @ApiOkResponse({ type: RevealBoardCardsResponseDto })
+  async revealBoardCards(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+    @Body() body: RevealBoardCardsDto,
+  ) {
+    const actor = await this.resolveActor(user);
+    const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
+    const result = await this.retroService.revealBoardCards(boardId, actor.userId, body);
+    await this.realtimeService.emitToBoard(
+      context.boardId,
+      RETRO_EVENTS.boardCardsRevealed,
+      result,
+      actor.userId,
+    );
+    return result;
+  }
+
   @Patch('boards/:boardId/columns/reorder')
   @ApiOperation({ summary: 'Reorder board columns' })
   @ApiBody({
@@ -229,11 +524,11 @@ export class RetroController {
       boardId: context.boardId,
       columns,
     };
-    await this.realtimeService.emitToTeam(
-      context.teamId,
+    await this.realtimeService.emitToBoard(
+      context.boardId,
       RETRO_EVENTS.boardColumnsReordered,
       payload,
-      this.toExcludedUserId(actor),
+      actor.userId,
     );
     return payload;
   }
@@ -258,24 +553,7 @@ export class RetroController {
     @Body() body: CreateColumnDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
-    const column = await this.retroService.createColumn(
-      boardId,
-      actor.userId,
-      body.name,
-      body.description,
-      body.color,
-    );
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.columnCreated,
-      {
-        boardId: context.boardId,
-        ...column,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return column;
+    return this.retroCommandService.createColumn(actor, boardId, body);
   }
 
   @Post('columns/:columnId/items')
@@ -295,23 +573,7 @@ export class RetroController {
     @Body() body: CreateItemDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
-    const item = await this.retroService.addItemToColumn(
-      columnId,
-      actor.userId,
-      body.description,
-      body.groupId,
-    );
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.itemCreated,
-      {
-        boardId: context.boardId,
-        ...item,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return item;
+    return this.retroCommandService.addItemToColumn(actor, columnId, body);
   }
 
   @Post('columns/:columnId/groups')
@@ -336,23 +598,7 @@ export class RetroController {
     @Body() body: CreateGroupDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
-    const group = await this.retroService.createGroup(
-      columnId,
-      actor.userId,
-      body.name,
-      body.description,
-    );
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.groupCreated,
-      {
-        boardId: context.boardId,
-        ...group,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return group;
+    return this.retroCommandService.createGroup(actor, columnId, body);
   }
 
   @Patch('columns/:columnId/name')
@@ -370,18 +616,7 @@ export class RetroController {
     @Body() body: UpdateColumnNameDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
-    const column = await this.retroService.updateColumnName(columnId, actor.userId, body.name);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.columnNameUpdated,
-      {
-        ...column,
-        boardId: context.boardId,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return column;
+    return this.retroCommandService.updateColumnName(actor, columnId, body);
   }
 
   @Patch('columns/:id/color')
@@ -403,18 +638,7 @@ export class RetroController {
     @Body() body: UpdateColumnColorDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
-    const column = await this.retroService.updateColumnColor(columnId, actor.userId, body.color);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.columnColorUpdated,
-      {
-        ...column,
-        boardId: context.boardId,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return column;
+    return this.retroCommandService.updateColumnColor(actor, columnId, body);
   }
 
   @Patch('columns/:columnId/description')
@@ -432,18 +656,7 @@ export class RetroController {
     @Body() body: UpdateColumnDescriptionDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
-    const column = await this.retroService.updateColumnDescription(columnId, actor.userId, body.description);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.columnDescriptionUpdated,
-      {
-        ...column,
-        boardId: context.boardId,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return column;
+    return this.retroCommandService.updateColumnDescription(actor, columnId, body);
   }
 
   @Patch('groups/:groupId/name')
@@ -461,18 +674,7 @@ export class RetroController {
     @Body() body: UpdateGroupNameDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getGroupRealtimeContext(groupId, actor.userId);
-    const group = await this.retroService.updateGroupName(groupId, actor.userId, body.name);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.groupNameUpdated,
-      {
-        boardId: context.boardId,
-        ...group,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return group;
+    return this.retroCommandService.updateGroupName(actor, groupId, body);
   }
 
   @Patch('groups/:groupId/color')
@@ -494,18 +696,7 @@ export class RetroController {
     @Body() body: UpdateGroupColorDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getGroupRealtimeContext(groupId, actor.userId);
-    const group = await this.retroService.updateGroupColor(groupId, actor.userId, body.color);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.groupColorUpdated,
-      {
-        boardId: context.boardId,
-        ...group,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return group;
+    return this.retroCommandService.updateGroupColor(actor, groupId, body);
   }
 
   @Patch('groups/:groupId/description')
@@ -523,18 +714,7 @@ export class RetroController {
     @Body() body: UpdateGroupDescriptionDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getGroupRealtimeContext(groupId, actor.userId);
-    const group = await this.retroService.updateGroupDescription(groupId, actor.userId, body.description);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.groupDescriptionUpdated,
-      {
-        boardId: context.boardId,
-        ...group,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return group;
+    return this.retroCommandService.updateGroupDescription(actor, groupId, body);
   }
 
   @Patch('items/:itemId/description')
@@ -552,18 +732,7 @@ export class RetroController {
     @Body() body: UpdateItemDescriptionDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
-    const item = await this.retroService.updateItemDescription(itemId, actor.userId, body.description);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.itemDescriptionUpdated,
-      {
-        boardId: context.boardId,
-        ...item,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return item;
+    return this.retroCommandService.updateItemDescription(actor, itemId, body);
   }
 
   @Patch('items/:itemId/like')
@@ -573,18 +742,51 @@ export class RetroController {
     @Param('itemId', ParseIntPipe) itemId: number,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
-    const item = await this.retroService.toggleItemLike(itemId, actor.userId);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.itemLikeToggled,
-      {
-        boardId: context.boardId,
-        ...item,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return item;
+    return this.retroCommandService.toggleItemLike(actor, itemId);
+  }
+
+  @Post('items/:itemId/votes')
+  @ApiOperation({ summary: 'Cast one vote for item (board voting mode)' })
+  @ApiOkResponse({ type: ItemVoteResponseDto })
+  async castItemVote(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('itemId', ParseIntPipe) itemId: number,
+  ) {
+    const actor = await this.resolveActor(user);
+    return this.retroCommandService.castItemVote(actor, itemId);
+  }
+
+  @Delete('items/:itemId/votes')
+  @ApiOperation({ summary: 'Retract one vote from item (board voting mode)' })
+  @ApiOkResponse({ type: ItemVoteResponseDto })
+  async retractItemVote(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('itemId', ParseIntPipe) itemId: number,
+  ) {
+    const actor = await this.resolveActor(user);
+    return this.retroCommandService.retractItemVote(actor, itemId);
+  }
+
+  @Get('boards/:boardId/votes/me')
+  @ApiOperation({ summary: 'Get current user votes and remaining vote budget' })
+  @ApiOkResponse({ type: MyVotesResponseDto })
+  async getMyVotes(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    const actor = await this.resolveActor(user);
+    return this.retroVoteService.getMyVotes(boardId, actor.userId);
+  }
+
+  @Get('boards/:boardId/votes/results')
+  @ApiOperation({ summary: 'Get items ranked by votes' })
+  @ApiOkResponse({ type: [VoteResultDto] })
+  async getVoteResults(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    const actor = await this.resolveActor(user);
+    return this.retroVoteService.getResults(boardId, actor.userId);
   }
 
   @Patch('items/:itemId/color')
@@ -602,18 +804,7 @@ export class RetroController {
     @Body() body: UpdateItemColorDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
-    const item = await this.retroService.updateItemColor(itemId, actor.userId, body.color);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.itemColorUpdated,
-      {
-        boardId: context.boardId,
-        ...item,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return item;
+    return this.retroCommandService.updateItemColor(actor, itemId, body);
   }
 
   @Get('items/:itemId/comments')
@@ -626,15 +817,15 @@ export class RetroController {
     const actor = await this.resolveActor(user);
     const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
     const comments = await this.retroService.getItemComments(itemId, actor.userId);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
+    await this.realtimeService.emitToBoard(
+      context.boardId,
       RETRO_EVENTS.itemCommentsFetched,
       {
         boardId: context.boardId,
         itemId: context.itemId,
         comments,
       },
-      this.toExcludedUserId(actor),
+      actor.userId,
     );
     return comments;
   }
@@ -655,18 +846,7 @@ export class RetroController {
     @Body() body: CreateItemCommentDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
-    const comment = await this.retroService.createItemComment(itemId, actor.userId, body.text);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.itemCommentCreated,
-      {
-        boardId: context.boardId,
-        ...comment,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return comment;
+    return this.retroCommandService.createItemComment(actor, itemId, body);
   }
 
   @Patch('comments/:commentId')
@@ -685,18 +865,7 @@ export class RetroController {
     @Body() body: UpdateItemCommentDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getCommentRealtimeContext(commentId, actor.userId);
-    const comment = await this.retroService.updateItemComment(commentId, actor.userId, body.text);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.itemCommentUpdated,
-      {
-        boardId: context.boardId,
-        ...comment,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return comment;
+    return this.retroCommandService.updateItemComment(actor, commentId, body);
   }
 
   @Patch('boards/:boardId/items/positions')
@@ -715,15 +884,7 @@ export class RetroController {
     @Body() body: SyncItemPositionsDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
-    const result = await this.retroService.syncItemPositions(boardId, actor.userId, body.changes);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.boardItemPositionsSynced,
-      result,
-      this.toExcludedUserId(actor),
-    );
-    return result;
+    return this.retroCommandService.syncItemPositions(actor, boardId, body.changes);
   }
 
   @Patch('boards/:boardId/groups/positions')
@@ -742,15 +903,57 @@ export class RetroController {
     @Body() body: SyncGroupPositionsDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getBoardRealtimeContext(boardId, actor.userId);
-    const result = await this.retroService.syncGroupPositions(boardId, actor.userId, body.changes);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.boardGroupsPositionsSynced,
-      result,
-      this.toExcludedUserId(actor),
-    );
-    return result;
+    return this.retroCommandService.syncGroupPositions(actor, boardId, body.changes);
+  }
+
+  @Get('boards/:boardId/history')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Get undo and redo stacks of the current user on board' })
+  @ApiOkResponse({ type: RetroHistoryResponseDto })
+  async getBoardHistory(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const actor = await this.resolveActor(user);
+    return this.retroCommandService.getHistory(actor, boardId);
+  }
+
+  @Post('boards/:boardId/undo')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Undo the latest move, delete, rename or color change of the current user',
+  })
+  @ApiOkResponse({ type: RetroHistoryApplyResponseDto })
+  async undoBoardChange(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const actor = await this.resolveActor(user);
+    return this.retroCommandService.undo(actor, boardId);
+  }
+
+  @Post('boards/:boardId/redo')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Redo the latest undone change of the current user' })
+  @ApiOkResponse({ type: RetroHistoryApplyResponseDto })
+  async redoBoardChange(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Param('boardId', ParseIntPipe) boardId: number,
+  ) {
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const actor = await this.resolveActor(user);
+    return this.retroCommandService.redo(actor, boardId);
   }
 
   @Delete('columns/:columnId')
@@ -758,21 +961,10 @@ export class RetroController {
   async deleteColumn(
     @CurrentUser() user: AuthenticatedUser | undefined,
     @Param('columnId', ParseIntPipe) columnId: number,
+    @Query() query: ExpectedVersionQueryDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getColumnRealtimeContext(columnId, actor.userId);
-    const result = await this.retroService.deleteColumn(columnId, actor.userId);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.columnDeleted,
-      {
-        boardId: context.boardId,
-        columnId: context.columnId,
-        ...result,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return result;
+    return this.retroCommandService.deleteColumn(actor, columnId, query.expectedVersion);
   }
 
   @Delete('groups/:groupId')
@@ -780,22 +972,10 @@ export class RetroController {
   async deleteGroup(
     @CurrentUser() user: AuthenticatedUser | undefined,
     @Param('groupId', ParseIntPipe) groupId: number,
+    @Query() query: ExpectedVersionQueryDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getGroupRealtimeContext(groupId, actor.userId);
-    const result = await this.retroService.deleteGroup(groupId, actor.userId);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.groupDeleted,
-      {
-        boardId: context.boardId,
-        groupId: context.groupId,
-        columnId: context.columnId,
-        ...result,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return result;
+    return this.retroCommandService.deleteGroup(actor, groupId, query.expectedVersion);
   }
 
   @Delete('items/:itemId')
@@ -803,21 +983,10 @@ export class RetroController {
   async deleteItem(
     @CurrentUser() user: AuthenticatedUser | undefined,
     @Param('itemId', ParseIntPipe) itemId: number,
+    @Query() query: ExpectedVersionQueryDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getItemRealtimeContext(itemId, actor.userId);
-    const result = await this.retroService.deleteItem(itemId, actor.userId);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.itemDeleted,
-      {
-        boardId: context.boardId,
-        itemId: context.itemId,
-        ...result,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return result;
+    return this.retroCommandService.deleteItem(actor, itemId, query.expectedVersion);
   }
 
   @Delete('comments/:commentId')
@@ -825,43 +994,30 @@ export class RetroController {
   async deleteItemComment(
     @CurrentUser() user: AuthenticatedUser | undefined,
     @Param('commentId', ParseIntPipe) commentId: number,
+    @Query() query: ExpectedVersionQueryDto,
   ) {
     const actor = await this.resolveActor(user);
-    const context = await this.retroService.getCommentRealtimeContext(commentId, actor.userId);
-    const result = await this.retroService.deleteItemComment(commentId, actor.userId);
-    await this.realtimeService.emitToTeam(
-      context.teamId,
-      RETRO_EVENTS.itemCommentDeleted,
-      {
-        boardId: context.boardId,
-        commentId: context.commentId,
-        itemId: context.itemId,
-        ...result,
-      },
-      this.toExcludedUserId(actor),
-    );
-    return result;
+    return this.retroCommandService.deleteItemComment(actor, commentId, query.expectedVersion);
   }
 
   private async resolveActor(user: AuthenticatedUser | undefined): Promise<AccessActor> {
-    if (user) {
-      return {
-        userId: user.id,
-        isAnonymous: false,
-      };
+    // Every visitor acts as an own user; without a token there is none, so
+    // visitors of boards with anonymous access start a guest session first.
+    if (!user) {
+      throw new UnauthorizedException(GUEST_SESSION_REQUIRED_MESSAGE);
     }
 
     return {
-      userId: await this.anonymousActorService.getOrCreateGuestUserId(),
-      isAnonymous: true,
+      userId: user.id,
+      isGuest: Boolean(user.isGuest),
     };
   }
+}
 
-  private toExcludedUserId(actor: AccessActor): string | undefined {
-    if (actor.isAnonymous) {
-      return undefined;
-    }
-
-    return actor.userId;
+function parseLastEventId(value: string | undefined): number | undefined {
+  if (!value || !/^\d+$/.test(value.trim())) {
+    return undefined;
   }
+
+  return Number(value.trim());
 }
@@ -1,12 +1,31 @@
 import { Module } from '@nestjs/common';
 import { AuthModule } from '../auth/auth.module';
+import { TimerModule } from '../timer/timer.module';
+import { BoardCleanupService } from './board-cleanup.service';
+import { RetroCommandService } from './retro-command.service';
+import { RetroHistoryService } from './retro-history.service';
+import { RetroTemplateController } from './retro-template.controller';
+import { RetroTemplateService } from './retro-template.service';
+import { RetroVoteService } from './retro-vote.service';
 import { RetroController } from './retro.controller';
 import { RetroService } from './retro.service';
 
 @Module({
-  imports: [AuthModule],
-  controllers: [RetroController],
-  providers: [RetroService],
-  exports: [RetroService],
+  imports: [AuthModule, TimerModule],
+  controllers: [RetroController, RetroTemplateController],
+  providers: [
+    RetroService,
+    RetroCommandService,
+    RetroHistoryService,
+    RetroTemplateService,
+    RetroVoteService,
+    BoardCleanupService,
+  ],
+  exports: [
+    RetroService,
+    RetroCommandService,
+    RetroTemplateService,
+    RetroVoteService,
+  ],
 })
 export class RetroModule {}
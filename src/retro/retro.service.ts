@@ -2,22 +2,99 @@ import {
   BadRequestException,
   ForbiddenException,
   Injectable,
+  Logger,
   NotFoundException,
 } from '@nestjs/common';
-import { Prisma, TeamRole } from '@prisma/client';
+import {
+  Prisma,
+  RetroBoard,
+  RetroBoardPhase,
+  RetroColumn,
+  RetroGroup,
+  RetroTombstoneEntity,
+  RetroVoteKind,
+  TeamRole,
+} from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import {
+  ensureAdminTwoFactor,
+  TEAM_ADMIN_MEMBER_SELECT,
+} from '../team/team-admin-two-factor';
+import {
+  BoardSortField,
+  CloneBoardDto,
   ColumnColorDto,
   CreateBoardDto,
+  GetBoardsQueryDto,
   GroupPositionChangeDto,
   ItemPositionChangeDto,
+  RevealBoardCardsDto,
+  SortOrder,
   UpdateBoardSettingsDto,
 } from './dto/retro.dto';
+import {
+  AVAILABLE_COLUMN_COLORS,
+  ColumnColors,
+  DEFAULT_COLUMN_COLORS,
+} from './retro-palette';
+import {
+  canSeeAuthors,
+  DEFAULT_BOARD_SETTINGS,
+  mergeBoardSettings,
+  normalizeBoardSettings,
+  revealCards,
+  withoutCardReveals,
+} from './retro-board-settings';
+import {
+  CardRef,
+  CardVisibility,
+  isCardTextVisible,
+} from './retro-card-visibility';
+import {
+  BoardPhaseAction,
+  canChangeBoardPhase,
+  ensureBoardPhaseAllows,
+} from './retro-board-phase';
+import {
+  BUMP_VERSION,
+  isRecordNotFound,
+  staleVersionConflict,
+  whereVersion,
+  writeVersioned,
+} from './retro-entity-version';
+import {
+  RetroColumnSnapshot,
+  RetroGroupRecordSnapshot,
+  RetroGroupSnapshot,
+  RetroItemSnapshot,
+} from './retro-history';
+import { RetroTemplateService } from './retro-template.service';
+import { getUsedVotes, lockParticipantVotes } from './retro-vote-budget';
+
+const ITEM_LIKES_INCLUDE = {
+  votes: {
+    where: { kind: RetroVoteKind.LIKE },
+    select: { userId: true },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.RetroItemInclude;
+
+type RetroItemWithLikes = Prisma.RetroItemGetPayload<{
+  include: typeof ITEM_LIKES_INCLUDE;
+}>;
 
 const ITEM_WITH_COMMENTS_COUNT_INCLUDE = {
+  ...ITEM_LIKES_INCLUDE,
   _count: {
     select: { comments: true },
   },
+  author: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+    },
+  },
 } satisfies Prisma.RetroItemInclude;
 
 const GROUP_ITEMS_INCLUDE = {
@@ -40,11 +117,6 @@ const COLUMN_WITH_GROUPS_INCLUDE = {
 } satisfies Prisma.RetroColumnInclude;
 
 const BOARD_INCLUDE = {
-  team: {
-    select: {
-      isAllCardsHidden: true,
-    },
-  },
   columns: {
     orderBy: { orderIndex: 'asc' },
     include: COLUMN_WITH_GROUPS_INCLUDE,
@@ -80,6 +152,28 @@ type RetroItemCommentWithCreator = Prisma.RetroItemCommentGetPayload<{
   include: typeof COMMENT_INCLUDE;
 }>;
 
+const ITEM_SNAPSHOT_INCLUDE = {
+  comments: { orderBy: { id: 'asc' } },
+  votes: {
+    orderBy: { id: 'asc' },
+    select: { userId: true, kind: true, count: true },
+  },
+} satisfies Prisma.RetroItemInclude;
+
+type RetroItemWithSnapshotData = Prisma.RetroItemGetPayload<{
+  include: typeof ITEM_SNAPSHOT_INCLUDE;
+}>;
+
+/**
+ * Everything that decides how cards look to a particular viewer. Without
+ * `viewerUserId` the view is the one broadcast to the whole team.
+ */
+type CardView = CardVisibility & {
+  showLikes: boolean;
+  showAuthors: boolean;
+  viewerUserId?: string;
+};
+
 type RootEntryType = 'ITEM' | 'GROUP';
 type RootEntryMoveMeta = {
   oldIndex?: number;
@@ -87,78 +181,65 @@ type RootEntryMoveMeta = {
   changeOrder: number;
 };
 
-type ColumnColors = {
-  columnColor: string;
-  itemColor: string;
-  buttonColor: string;
-};
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-type BoardSettings = {
-  showLikes: boolean;
-};
+// Returned cursors lag behind the read, so writes committed while the
+// changes were read (or stamped by an instance with a slightly late clock)
+// are returned again on the next call instead of being lost.
+const BOARD_CHANGES_CURSOR_OVERLAP_MS = 5_000;
 
-const DEFAULT_BOARD_SETTINGS: BoardSettings = {
-  showLikes: true,
-};
+const DEFAULT_BOARD_LIST_LIMIT = 20;
 
-const AVAILABLE_COLUMN_COLORS: readonly ColumnColors[] = [
-  // Red
-  {
-    columnColor: '#FFDBD7',
-    itemColor: '#FF6161',
-    buttonColor: '#FF9594',
-  },
-  // Orange
-  {
-    columnColor: '#FFE0A0',
-    itemColor: '#FFB061',
-    buttonColor: '#FFC37A',
-  },
-  // Yellow
-  {
-    columnColor: '#F9E99E',
-    itemColor: '#FED13E',
-    buttonColor: '#FCDC69',
-  },
-  // Green
-  {
-    columnColor: '#B4DFC4',
-    itemColor: '#7FBF7F',
-    buttonColor: '#96CD9D',
-  },
-  // Blue
-  {
-    columnColor: '#B6D9F7',
-    itemColor: '#5FB0EF',
-    buttonColor: '#8AC4F3',
-  },
-  // Pink
-  {
-    columnColor: '#FFD8F0',
-    itemColor: '#E49EE5',
-    buttonColor: '#E49EE5',
-  },
-  // Purple
-  {
-    columnColor: '#D7CEF9',
-    itemColor: '#AB99ED',
-    buttonColor: '#C1B3F3',
-  },
-] as const;
+const BOARD_SUMMARY_SELECT = {
+  id: true,
+  teamId: true,
+  name: true,
+  date: true,
+  description: true,
+  archivedAt: true,
+} satisfies Prisma.RetroBoardSelect;
 
-const DEFAULT_COLUMN_COLORS: [ColumnColors, ColumnColors, ColumnColors] = [
-  AVAILABLE_COLUMN_COLORS[0],
-  AVAILABLE_COLUMN_COLORS[3],
-  AVAILABLE_COLUMN_COLORS[6],
-];
+type RetroBoardSummary = Prisma.RetroBoardGetPayload<{
+  select: typeof BOARD_SUMMARY_SELECT;
+}>;
+
+type BoardListCursor = {
+  sortBy: BoardSortField;
+  value: string;
+  id: number;
+};
+
+type BoardCounters = {
+  itemsCount: number;
+  participantsCount: number;
+  openActionItemsCount: number;
+};
 
 @Injectable()
 export class RetroService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(RetroService.name);
+  private readonly trashRetentionDays = getIntEnv(
+    'BOARD_TRASH_RETENTION_DAYS',
+    30,
+  );
+  private readonly tombstoneRetentionDays = getIntEnv(
+    'BOARD_TOMBSTONE_RETENTION_DAYS',
+    30,
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly retroTemplateService: RetroTemplateService,
+  ) {}
 
   async createBoard(userId: string, dto: CreateBoardDto) {
     await this.ensureTeamAdminOrOwner(dto.teamId, userId);
 
+    const templateColumns = await this.retroTemplateService.resolveTemplateColumns(
+      dto.teamId,
+      dto.templateId,
+    );
+
     const board = await this.prisma.retroBoard.create({
       data: {
         teamId: dto.teamId,
@@ -167,23 +248,23 @@ export class RetroService {
         description: dto.description ?? '',
         settings: DEFAULT_BOARD_SETTINGS satisfies Prisma.InputJsonValue,
         columns: {
-          create: [
-            {
-              name: 'Что было хорошо?',
-              color: DEFAULT_COLUMN_COLORS[0] satisfies Prisma.InputJsonValue,
-              orderIndex: 0,
-            },
-            {
-              name: 'Что могло быть лучше?',
-              color: DEFAULT_COLUMN_COLORS[1] satisfies Prisma.InputJsonValue,
-              orderIndex: 1,
+          create: templateColumns.map((column, columnIndex) => ({
+            name: column.name,
+            description: column.description,
+            color: this.toColumnColorsInput(column.color),
+            orderIndex: columnIndex,
+            isActionItems: column.isActionItems ?? false,
+            groups: {
+              create: column.groups.map((group, groupIndex) => ({
+                name: group.name,
+                description: group.description,
+                color: this.toColumnColorsInput(
+                  group.color ?? this.getAlternativeGroupColor(column.color),
+                ),
+                orderIndex: groupIndex,
+              })),
             },
-            {
-              name: 'Actions points',
-              color: DEFAULT_COLUMN_COLORS[2] satisfies Prisma.InputJsonValue,
-              orderIndex: 2,
-            },
-          ],
+          })),
         },
       },
       include: BOARD_INCLUDE,
@@ -192,30 +273,319 @@ export class RetroService {
     return this.mapBoard(board);
   }
 
-  async getBoards(userId: string, teamId?: number) {
-    if (teamId !== undefined) {
-      await this.ensureTeamMember(teamId, userId);
+  async getBoards(userId: string, query: GetBoardsQueryDto) {
+    if (query.teamId !== undefined) {
+      await this.ensureTeamMember(query.teamId, userId);
     }
 
+    const sortBy = query.sortBy ?? 'date';
+    const order = query.order ?? 'desc';
+    const limit = query.limit ?? DEFAULT_BOARD_LIST_LIMIT;
+    const search = query.search?.trim();
+    const cursor =
+      query.cursor !== undefined
+        ? this.decodeBoardListCursor(query.cursor, sortBy)
+        : null;
+
     const boards = await this.prisma.retroBoard.findMany({
       where: {
-        ...(teamId !== undefined ? { teamId } : {}),
+        ...(query.teamId !== undefined ? { teamId: query.teamId } : {}),
+        deletedAt: null,
+        ...(query.includeArchived ? {} : { archivedAt: null }),
+        ...(query.dateFrom !== undefined || query.dateTo !== undefined
+          ? {
+              date: {
+                ...(query.dateFrom !== undefined
+                  ? { gte: new Date(query.dateFrom) }
+                  : {}),
+                ...(query.dateTo !== undefined
+                  ? { lt: new Date(new Date(query.dateTo).getTime() + DAY_MS) }
+                  : {}),
+              },
+            }
+          : {}),
+        ...(search ? { name: { contains: search, mode: 'insensitive' } } : {}),
         team: {
           members: {
             some: { userId },
           },
         },
+        AND: cursor ? [this.getBoardListCursorWhere(cursor, sortBy, order)] : [],
       },
-      include: BOARD_INCLUDE,
-      orderBy: { id: 'asc' },
+      select: BOARD_SUMMARY_SELECT,
+      orderBy: [{ [sortBy]: order }, { id: order }],
+      take: limit + 1,
+    });
+
+    const hasMore = boards.length > limit;
+    const page = hasMore ? boards.slice(0, limit) : boards;
+    const counters = await this.getBoardCounters(page.map((board) => board.id));
+    const lastBoard = page[page.length - 1];
+
+    return {
+      items: page.map((board) => ({
+        id: board.id,
+        teamId: board.teamId,
+        name: board.name,
+        date: board.date.toISOString().slice(0, 10),
+        description: board.description,
+        archivedAt: board.archivedAt,
+        counters: counters.get(board.id) ?? {
+          itemsCount: 0,
+          participantsCount: 0,
+          openActionItemsCount: 0,
+        },
+      })),
+      nextCursor:
+        hasMore && lastBoard
+          ? this.encodeBoardListCursor(lastBoard, sortBy)
+          : null,
+    };
+  }
+
+  async getBoard(boardId: number, userId: string) {
+    const board = await this.getBoardOrFail(boardId, userId);
+    const role = await this.getTeamRole(board.teamId, userId);
+
+    return {
+      ...this.mapBoard(board, role, userId),
+      role,
+      eventSeq: board.eventSeq,
+    };
+  }
+
+  async cloneBoard(boardId: number, userId: string, dto: CloneBoardDto) {
+    await this.ensureBoardAdminOrOwner(boardId, userId);
+
+    const carriedItemIds = Array.from(new Set(dto.itemIds ?? []));
+
+    const sourceBoard = await this.prisma.retroBoard.findUnique({
+      where: { id: boardId },
+      select: {
+        teamId: true,
+        name: true,
+        description: true,
+        settings: true,
+        columns: {
+          orderBy: { orderIndex: 'asc' },
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            color: true,
+            isActionItems: true,
+            groups: {
+              orderBy: { orderIndex: 'asc' },
+              select: {
+                id: true,
+                name: true,
+                description: true,
+                color: true,
+                orderIndex: true,
+              },
+            },
+            items: {
+              where: { id: { in: carriedItemIds } },
+              orderBy: [{ rowIndex: 'asc' }, { id: 'asc' }],
+              select: {
+                id: true,
+                description: true,
+                color: true,
+                rowIndex: true,
+                groupId: true,
+                authorId: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!sourceBoard) {
+      throw new NotFoundException(`Board ${boardId} not found`);
+    }
+
+    const foundItemsCount = sourceBoard.columns.reduce(
+      (count, column) => count + column.items.length,
+      0,
+    );
+    if (foundItemsCount !== carriedItemIds.length) {
+      throw new BadRequestException('One or more items not found on board');
+    }
+
+    // Reveals point at columns and authors of the source board, and revealed
+    // votes belong to its voting round.
+    const sourceSettings = normalizeBoardSettings(sourceBoard.settings);
+
+    const clonedBoardId = await this.prisma.$transaction(async (tx) => {
+      const clonedBoard = await tx.retroBoard.create({
+        data: {
+          teamId: sourceBoard.teamId,
+          name: dto.name ?? sourceBoard.name,
+          date: dto.date ? new Date(dto.date) : new Date(),
+          description: dto.description ?? sourceBoard.description,
+          settings: {
+            ...sourceSettings,
+            voting: { ...sourceSettings.voting, votesRevealed: false },
+            cardHiding: withoutCardReveals(sourceSettings.cardHiding),
+          } satisfies Prisma.InputJsonValue,
+        },
+        select: { id: true },
+      });
+
+      for (let columnIndex = 0; columnIndex < sourceBoard.columns.length; columnIndex += 1) {
+        const sourceColumn = sourceBoard.columns[columnIndex];
+        const clonedColumn = await tx.retroColumn.create({
+          data: {
+            boardId: clonedBoard.id,
+            name: sourceColumn.name,
+            description: sourceColumn.description,
+            color: this.toColumnColorsInput(this.toColumnColors(sourceColumn.color)),
+            orderIndex: columnIndex,
+            isActionItems: sourceColumn.isActionItems,
+          },
+          select: { id: true },
+        });
+
+        const clonedGroupIdBySourceId = new Map<number, number>();
+        for (const sourceGroup of sourceColumn.groups) {
+          const clonedGroup = await tx.retroGroup.create({
+            data: {
+              columnId: clonedColumn.id,
+              name: sourceGroup.name,
+              description: sourceGroup.description,
+              color: this.toColumnColorsInput(this.toColumnColors(sourceGroup.color)),
+              orderIndex: sourceGroup.orderIndex,
+            },
+            select: { id: true },
+          });
+          clonedGroupIdBySourceId.set(sourceGroup.id, clonedGroup.id);
+        }
+
+        for (const sourceItem of sourceColumn.items) {
+          await tx.retroItem.create({
+            data: {
+              description: sourceItem.description,
+              color: sourceItem.color,
+              rowIndex: sourceItem.rowIndex,
+              columnId: clonedColumn.id,
+              authorId: sourceItem.authorId,
+              groupId:
+                sourceItem.groupId !== null
+                  ? clonedGroupIdBySourceId.get(sourceItem.groupId) ?? null
+                  : null,
+            },
+          });
+        }
+
+        for (const clonedGroupId of clonedGroupIdBySourceId.values()) {
+          await this.normalizeGroupItemsOrder(tx, clonedGroupId);
+        }
+        await this.normalizeColumnRootEntryOrder(tx, clonedColumn.id);
+      }
+
+      return clonedBoard.id;
     });
 
-    return boards.map((board: RetroBoardWithColumns) => this.mapBoard(board));
+    return this.mapBoard(await this.getBoardOrFail(clonedBoardId, userId));
   }
 
   async getBoardColumns(boardId: number, userId: string) {
     const board = await this.getBoardOrFail(boardId, userId);
-    return this.mapBoard(board).columns;
+    const role = await this.getTeamRole(board.teamId, userId);
+    return this.mapBoard(board, role, userId).columns;
+  }
+
+  /**
+   * Columns, groups, items and comments created or updated after `since`,
+   * plus tombstones of the deleted ones. A board change (phase, settings,
+   * reveal) can change how every card looks, so it returns all items.
+   */
+  async getBoardChanges(boardId: number, userId: string, since: Date) {
+    const readAt = new Date();
+    const board = await this.prisma.retroBoard.findFirst({
+      where: { id: boardId, deletedAt: null },
+    });
+
+    if (!board || !(await this.hasBoardAccess(boardId, userId))) {
+      throw new NotFoundException(`Board ${boardId} not found`);
+    }
+
+    const cursor = new Date(readAt.getTime() - BOARD_CHANGES_CURSOR_OVERLAP_MS);
+    const tombstonesFrom = new Date(
+      readAt.getTime() - this.tombstoneRetentionDays * DAY_MS,
+    );
+    if (since < tombstonesFrom) {
+      return {
+        boardId,
+        since,
+        cursor,
+        resync: true,
+        board: null,
+        columns: [],
+        groups: [],
+        items: [],
+        comments: [],
+        tombstones: [],
+      };
+    }
+
+    const role = await this.getTeamRole(board.teamId, userId);
+    const view = this.toCardView(board, role, userId);
+    const boardChanged = board.updatedAt > since;
+    const changedSince = { gt: since };
+
+    const [columns, groups, items, comments, tombstones] = await Promise.all([
+      this.prisma.retroColumn.findMany({
+        where: { boardId, updatedAt: changedSince },
+        orderBy: { orderIndex: 'asc' },
+      }),
+      this.prisma.retroGroup.findMany({
+        where: { column: { boardId }, updatedAt: changedSince },
+        orderBy: [{ columnId: 'asc' }, { orderIndex: 'asc' }],
+      }),
+      this.prisma.retroItem.findMany({
+        where: {
+          column: { boardId },
+          ...(boardChanged ? {} : { updatedAt: changedSince }),
+        },
+        orderBy: { id: 'asc' },
+        include: {
+          ...ITEM_WITH_COMMENTS_COUNT_INCLUDE,
+          column: { select: { orderIndex: true } },
+        },
+      }),
+      this.prisma.retroItemComment.findMany({
+        where: { item: { column: { boardId } }, updatedAt: changedSince },
+        orderBy: { id: 'asc' },
+        include: COMMENT_INCLUDE,
+      }),
+      this.prisma.retroTombstone.findMany({
+        where: { boardId, deletedAt: changedSince },
+        orderBy: { id: 'asc' },
+        select: { entity: true, entityId: true, deletedAt: true },
+      }),
+    ]);
+
+    return {
+      boardId,
+      since,
+      cursor,
+      resync: false,
+      board: boardChanged ? this.mapBoardState(board) : null,
+      columns: columns.map((column) => this.mapColumnRecord(column)),
+      groups: groups.map((group) => this.mapGroupRecord(group)),
+      items: items.map((item) => ({
+        ...this.mapItem(item, item.column.orderIndex, view),
+        columnId: item.columnId,
+      })),
+      comments: comments.map((comment) => this.mapComment(comment)),
+      tombstones: tombstones.map((tombstone) => ({
+        entity: tombstone.entity,
+        id: tombstone.entityId,
+        deletedAt: tombstone.deletedAt,
+      })),
+    };
   }
 
   async getBoardRealtimeContext(boardId: number, userId: string) {
@@ -245,6 +615,8 @@ export class RetroService {
           select: {
             id: true,
             teamId: true,
+            settings: true,
+            phase: true,
           },
         },
       },
@@ -260,6 +632,7 @@ export class RetroService {
       teamId: column.board.teamId,
       boardId: column.board.id,
       columnId: column.id,
+      cardVisibility: this.toCardVisibility(column.board),
     };
   }
 
@@ -301,6 +674,7 @@ export class RetroService {
       where: { id: itemId },
       select: {
         id: true,
+        authorId: true,
         column: {
           select: {
             id: true,
@@ -308,6 +682,8 @@ export class RetroService {
               select: {
                 id: true,
                 teamId: true,
+                settings: true,
+                phase: true,
               },
             },
           },
@@ -326,6 +702,8 @@ export class RetroService {
       boardId: item.column.board.id,
       itemId: item.id,
       columnId: item.column.id,
+      authorId: item.authorId,
+      cardVisibility: this.toCardVisibility(item.column.board),
     };
   }
 
@@ -366,14 +744,25 @@ export class RetroService {
     };
   }
 
-  async updateBoardName(boardId: number, userId: string, name: string) {
+  async updateBoardName(
+    boardId: number,
+    userId: string,
+    name: string,
+    expectedVersion?: number,
+  ) {
     await this.ensureBoardAdminOrOwner(boardId, userId);
-
-    const board = await this.prisma.retroBoard.update({
-      where: { id: boardId },
-      data: { name },
-      include: BOARD_INCLUDE,
-    });
+    await this.ensureBoardPhase(boardId);
+
+    const board = await writeVersioned(
+      { entity: 'Board', id: boardId, expectedVersion },
+      (where) =>
+        this.prisma.retroBoard.update({
+          where,
+          data: { name, ...BUMP_VERSION },
+          include: BOARD_INCLUDE,
+        }),
+      () => this.getCurrentBoard(boardId, userId),
+    );
 
     return this.mapBoard(board);
   }
@@ -387,99 +776,372 @@ export class RetroService {
 
     const board = await this.prisma.retroBoard.findUnique({
       where: { id: boardId },
-      select: { settings: true },
+      select: { settings: true, phase: true },
     });
 
     if (!board) {
       throw new NotFoundException(`Board ${boardId} not found`);
     }
 
-    const mergedSettings = this.mergeBoardSettings(
-      this.normalizeBoardSettings(board.settings),
+    ensureBoardPhaseAllows(board.phase, 'change');
+
+    const mergedSettings = mergeBoardSettings(
+      normalizeBoardSettings(board.settings),
       patch,
     );
 
-    const updatedBoard = await this.prisma.retroBoard.update({
-      where: { id: boardId },
-      data: {
-        settings: mergedSettings satisfies Prisma.InputJsonValue,
-      },
-      include: BOARD_INCLUDE,
-    });
+    const updatedBoard = await writeVersioned(
+      { entity: 'Board', id: boardId, expectedVersion: patch.expectedVersion },
+      (where) =>
+        this.prisma.retroBoard.update({
+          where,
+          data: {
+            settings: mergedSettings satisfies Prisma.InputJsonValue,
+            ...BUMP_VERSION,
+          },
+          include: BOARD_INCLUDE,
+        }),
+      () => this.getCurrentBoard(boardId, userId),
+    );
 
     return this.mapBoard(updatedBoard);
   }
 
-  async createColumn(
+  async changeBoardPhase(
     boardId: number,
     userId: string,
-    name?: string,
-    description?: string,
-    color?: ColumnColorDto,
+    phase: RetroBoardPhase,
+    expectedVersion?: number,
   ) {
-    await this.ensureBoardAccessible(boardId, userId);
+    await this.ensureBoardAdminOrOwner(boardId, userId);
 
-    const lastColumn = await this.prisma.retroColumn.findFirst({
-      where: {
-        boardId,
-      },
-      orderBy: { orderIndex: 'desc' },
-      select: { orderIndex: true },
+    const board = await this.prisma.retroBoard.findUnique({
+      where: { id: boardId },
+      select: { phase: true },
     });
 
-    const createdColumn = await this.prisma.retroColumn.create({
-      data: {
-        boardId,
-        name: name ?? 'Новая колонка',
-        description: description ?? '',
-        color: this.toColumnColorsInput(color ?? DEFAULT_COLUMN_COLORS[0]),
-        orderIndex: lastColumn ? lastColumn.orderIndex + 1 : 0,
-      },
-    });
+    if (!board) {
+      throw new NotFoundException(`Board ${boardId} not found`);
+    }
+
+    if (board.phase === phase) {
+      throw new BadRequestException(`Board is already in ${phase} phase`);
+    }
+
+    if (!canChangeBoardPhase(board.phase, phase)) {
+      throw new BadRequestException(
+        `Cannot change board phase from ${board.phase} to ${phase}`,
+      );
+    }
+
+    const updatedBoard = await writeVersioned(
+      { entity: 'Board', id: boardId, expectedVersion },
+      (where) =>
+        this.prisma.retroBoard.update({
+          where,
+          data: {
+            phase,
+            phaseChangedAt: new Date(),
+            ...BUMP_VERSION,
+          },
+          select: { phase: true, phaseChangedAt: true, version: true },
+        }),
+      () => this.getCurrentBoard(boardId, userId),
+    );
 
     return {
-      id: createdColumn.id,
-      name: createdColumn.name,
-      description: createdColumn.description,
-      color: this.toColumnColors(createdColumn.color),
-      isNameEditing: false,
-      items: [],
-      groups: [],
-      entries: [],
+      boardId,
+      phase: updatedBoard.phase,
+      previousPhase: board.phase,
+      phaseChangedAt: updatedBoard.phaseChangedAt,
+      version: updatedBoard.version,
     };
   }
 
-  async createGroup(
-    columnId: number,
+  async revealBoardCards(
+    boardId: number,
     userId: string,
-    name?: string,
-    description?: string,
+    reveal: RevealBoardCardsDto,
   ) {
-    const column = await this.prisma.retroColumn.findUnique({
-      where: { id: columnId },
-      select: {
-        boardId: true,
-        color: true,
-      },
+    if (reveal.columnId === undefined && reveal.authorId === undefined) {
+      throw new BadRequestException('columnId or authorId is required');
+    }
+
+    await this.ensureBoardAdminOrOwner(boardId, userId);
+
+    const board = await this.prisma.retroBoard.findUnique({
+      where: { id: boardId },
+      select: { settings: true, phase: true },
     });
 
-    if (!column) {
-      throw new NotFoundException(`Column ${columnId} not found`);
+    if (!board) {
+      throw new NotFoundException(`Board ${boardId} not found`);
     }
 
-    await this.ensureBoardAccessible(column.boardId, userId);
+    ensureBoardPhaseAllows(board.phase, 'change');
 
-    const createdGroup = await this.prisma.retroGroup.create({
-      data: {
-        columnId,
-        name: name ?? 'Новая группа',
-        description: description ?? '',
-        color: this.toColumnColorsInput(
-          this.getAlternativeGroupColor(this.toColumnColors(column.color)),
-        ),
-        orderIndex: await this.getNextRootEntryIndex(columnId),
-      },
-    });
+    const settings = normalizeBoardSettings(board.settings);
+    if (!settings.cardHiding.enabled) {
+      throw new BadRequestException(`Cards of board ${boardId} are not hidden`);
+    }
+
+    if (reveal.columnId !== undefined) {
+      const column = await this.prisma.retroColumn.findFirst({
+        where: { id: reveal.columnId, boardId },
+        select: { id: true },
+      });
+
+      if (!column) {
+        throw new BadRequestException(
+          `Column id ${reveal.columnId} not found on board ${boardId}`,
+        );
+      }
+    }
+
+    const updatedSettings = {
+      ...settings,
+      cardHiding: revealCards(settings.cardHiding, reveal),
+    };
+
+    const { version } = await this.prisma.retroBoard.update({
+      where: { id: boardId },
+      data: {
+        settings: updatedSettings satisfies Prisma.InputJsonValue,
+        ...BUMP_VERSION,
+      },
+      select: { version: true },
+    });
+
+    const items = await this.prisma.retroItem.findMany({
+      where: {
+        column: { boardId },
+        OR: [
+          ...(reveal.columnId !== undefined
+            ? [{ columnId: reveal.columnId }]
+            : []),
+          ...(reveal.authorId !== undefined
+            ? [{ authorId: reveal.authorId }]
+            : []),
+        ],
+      },
+      orderBy: [{ columnId: 'asc' }, { rowIndex: 'asc' }, { id: 'asc' }],
+      include: {
+        ...ITEM_WITH_COMMENTS_COUNT_INCLUDE,
+        column: { select: { orderIndex: true } },
+      },
+    });
+
+    const view = this.toCardView({
+      settings: updatedSettings,
+      phase: board.phase,
+    });
+
+    return {
+      boardId,
+      version,
+      cardHiding: updatedSettings.cardHiding,
+      items: items.map((item) =>
+        this.mapItem(item, item.column.orderIndex, view),
+      ),
+    };
+  }
+
+  async archiveBoard(boardId: number, userId: string) {
+    await this.ensureBoardAdminOrOwner(boardId, userId);
+
+    await this.prisma.retroBoard.updateMany({
+      where: { id: boardId, archivedAt: null },
+      data: { archivedAt: new Date(), ...BUMP_VERSION },
+    });
+
+    return this.mapBoard(await this.getBoardOrFail(boardId, userId));
+  }
+
+  async unarchiveBoard(boardId: number, userId: string) {
+    await this.ensureBoardAdminOrOwner(boardId, userId);
+
+    const board = await this.prisma.retroBoard.update({
+      where: { id: boardId },
+      data: { archivedAt: null, ...BUMP_VERSION },
+      include: BOARD_INCLUDE,
+    });
+
+    return this.mapBoard(board);
+  }
+
+  async deleteBoard(boardId: number, userId: string) {
+    await this.ensureBoardAdminOrOwner(boardId, userId);
+
+    const board = await this.prisma.retroBoard.update({
+      where: { id: boardId },
+      data: { deletedAt: new Date(), ...BUMP_VERSION },
+      select: { id: true, deletedAt: true },
+    });
+
+    return {
+      deleted: true,
+      boardId: board.id,
+      purgeAt: this.getPurgeAt(board.deletedAt as Date),
+    };
+  }
+
+  async restoreBoard(boardId: number, userId: string) {
+    await this.ensureBoardAdminOrOwner(boardId, userId, true);
+
+    const restored = await this.prisma.retroBoard.updateMany({
+      where: { id: boardId, deletedAt: { not: null } },
+      data: { deletedAt: null, ...BUMP_VERSION },
+    });
+
+    if (restored.count === 0) {
+      throw new BadRequestException(`Board ${boardId} is not in trash`);
+    }
+
+    return this.mapBoard(await this.getBoardOrFail(boardId, userId));
+  }
+
+  async getDeletedBoards(userId: string, teamId?: number) {
+    if (teamId !== undefined) {
+      await this.ensureTeamMember(teamId, userId);
+    }
+
+    const boards = await this.prisma.retroBoard.findMany({
+      where: {
+        ...(teamId !== undefined ? { teamId } : {}),
+        deletedAt: { not: null },
+        team: {
+          members: {
+            some: {
+              userId,
+              role: { in: [TeamRole.OWNER, TeamRole.ADMIN] },
+            },
+          },
+        },
+      },
+      select: {
+        id: true,
+        teamId: true,
+        name: true,
+        date: true,
+        description: true,
+        archivedAt: true,
+        deletedAt: true,
+      },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return boards.map((board) => ({
+      id: board.id,
+      teamId: board.teamId,
+      name: board.name,
+      date: board.date.toISOString().slice(0, 10),
+      description: board.description,
+      archivedAt: board.archivedAt,
+      deletedAt: board.deletedAt as Date,
+      purgeAt: this.getPurgeAt(board.deletedAt as Date),
+    }));
+  }
+
+  async purgeExpiredDeletedBoards(): Promise<number> {
+    const result = await this.prisma.retroBoard.deleteMany({
+      where: {
+        deletedAt: {
+          lte: new Date(Date.now() - this.trashRetentionDays * DAY_MS),
+        },
+      },
+    });
+
+    if (result.count > 0) {
+      this.logger.log(`Purged ${result.count} boards from trash`);
+    }
+
+    return result.count;
+  }
+
+  async purgeExpiredTombstones(): Promise<number> {
+    const result = await this.prisma.retroTombstone.deleteMany({
+      where: {
+        deletedAt: {
+          lte: new Date(Date.now() - this.tombstoneRetentionDays * DAY_MS),
+        },
+      },
+    });
+
+    return result.count;
+  }
+
+  async createColumn(
+    boardId: number,
+    userId: string,
+    name?: string,
+    description?: string,
+    color?: ColumnColorDto,
+  ) {
+    await this.ensureBoardAccessible(boardId, userId);
+    await this.ensureBoardPhase(boardId);
+
+    const lastColumn = await this.prisma.retroColumn.findFirst({
+      where: {
+        boardId,
+      },
+      orderBy: { orderIndex: 'desc' },
+      select: { orderIndex: true },
+    });
+
+    const createdColumn = await this.prisma.retroColumn.create({
+      data: {
+        boardId,
+        name: name ?? 'Новая колонка',
+        description: description ?? '',
+        color: this.toColumnColorsInput(color ?? DEFAULT_COLUMN_COLORS[0]),
+        orderIndex: lastColumn ? lastColumn.orderIndex + 1 : 0,
+      },
+    });
+
+    return {
+      id: createdColumn.id,
+      name: createdColumn.name,
+      description: createdColumn.description,
+      color: this.toColumnColors(createdColumn.color),
+      isNameEditing: false,
+      items: [],
+      groups: [],
+      entries: [],
+    };
+  }
+
+  async createGroup(
+    columnId: number,
+    userId: string,
+    name?: string,
+    description?: string,
+  ) {
+    const column = await this.prisma.retroColumn.findUnique({
+      where: { id: columnId },
+      select: {
+        boardId: true,
+        color: true,
+      },
+    });
+
+    if (!column) {
+      throw new NotFoundException(`Column ${columnId} not found`);
+    }
+
+    await this.ensureBoardAccessible(column.boardId, userId);
+    await this.ensureBoardPhase(column.boardId);
+
+    const createdGroup = await this.prisma.retroGroup.create({
+      data: {
+        columnId,
+        name: name ?? 'Новая группа',
+        description: description ?? '',
+        color: this.toColumnColorsInput(
+          this.getAlternativeGroupColor(this.toColumnColors(column.color)),
+        ),
+        orderIndex: await this.getNextRootEntryIndex(columnId),
+      },
+    });
 
     return {
       id: createdGroup.id,
@@ -508,11 +1170,7 @@ export class RetroService {
         board: {
           select: {
             settings: true,
-            team: {
-              select: {
-                isAllCardsHidden: true,
-              },
-            },
+            phase: true,
           },
         },
       },
@@ -523,6 +1181,7 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(column.boardId, userId);
+    ensureBoardPhaseAllows(column.board.phase, 'change');
 
     const normalizedGroupId = groupId ?? null;
 
@@ -572,10 +1231,10 @@ export class RetroService {
       return tx.retroItem.create({
         data: {
           description: description ?? 'Напишите описание нового элемента',
-          likes: [],
           rowIndex: 0,
           columnId,
           groupId: normalizedGroupId,
+          authorId: userId,
         },
         include: ITEM_WITH_COMMENTS_COUNT_INCLUDE,
       });
@@ -585,113 +1244,161 @@ export class RetroService {
       ...this.mapItem(
         createdItem,
         column.orderIndex,
-        column.board.team.isAllCardsHidden,
-        this.normalizeBoardSettings(column.board.settings).showLikes,
+        this.toCardView(column.board, null, userId),
       ),
     };
   }
 
-  async updateColumnName(columnId: number, userId: string, name: string) {
-    await this.ensureColumnAccessible(columnId, userId);
-    return this.prisma.retroColumn.update({
-      where: { id: columnId },
-      data: { name },
-    });
+  async updateColumnName(
+    columnId: number,
+    userId: string,
+    name: string,
+    expectedVersion?: number,
+  ) {
+    const boardId = await this.ensureColumnAccessible(columnId, userId);
+    await this.ensureBoardPhase(boardId);
+    return writeVersioned(
+      { entity: 'Column', id: columnId, expectedVersion },
+      (where) =>
+        this.prisma.retroColumn.update({
+          where,
+          data: { name, ...BUMP_VERSION },
+        }),
+      () => this.prisma.retroColumn.findUnique({ where: { id: columnId } }),
+    );
   }
 
   async updateColumnColor(
     columnId: number,
     userId: string,
     color: ColumnColorDto,
+    expectedVersion?: number,
   ) {
-    await this.ensureColumnAccessible(columnId, userId);
-    return this.prisma.retroColumn.update({
-      where: { id: columnId },
-      data: { color: this.toColumnColorsInput(color) },
-    });
+    const boardId = await this.ensureColumnAccessible(columnId, userId);
+    await this.ensureBoardPhase(boardId);
+    return writeVersioned(
+      { entity: 'Column', id: columnId, expectedVersion },
+      (where) =>
+        this.prisma.retroColumn.update({
+          where,
+          data: { color: this.toColumnColorsInput(color), ...BUMP_VERSION },
+        }),
+      () => this.prisma.retroColumn.findUnique({ where: { id: columnId } }),
+    );
   }
 
   async updateColumnDescription(
     columnId: number,
     userId: string,
     description: string,
+    expectedVersion?: number,
   ) {
-    await this.ensureColumnAccessible(columnId, userId);
-    return this.prisma.retroColumn.update({
-      where: { id: columnId },
-      data: { description },
-    });
+    const boardId = await this.ensureColumnAccessible(columnId, userId);
+    await this.ensureBoardPhase(boardId);
+    return writeVersioned(
+      { entity: 'Column', id: columnId, expectedVersion },
+      (where) =>
+        this.prisma.retroColumn.update({
+          where,
+          data: { description, ...BUMP_VERSION },
+        }),
+      () => this.prisma.retroColumn.findUnique({ where: { id: columnId } }),
+    );
   }
 
-  async updateGroupName(groupId: number, userId: string, name: string) {
-    await this.ensureGroupAccessible(groupId, userId);
-    return this.prisma.retroGroup.update({
-      where: { id: groupId },
-      data: { name },
-    });
+  async updateGroupName(
+    groupId: number,
+    userId: string,
+    name: string,
+    expectedVersion?: number,
+  ) {
+    const boardId = await this.ensureGroupAccessible(groupId, userId);
+    await this.ensureBoardPhase(boardId);
+    return writeVersioned(
+      { entity: 'Group', id: groupId, expectedVersion },
+      (where) =>
+        this.prisma.retroGroup.update({
+          where,
+          data: { name, ...BUMP_VERSION },
+        }),
+      () => this.prisma.retroGroup.findUnique({ where: { id: groupId } }),
+    );
   }
 
-  async updateGroupColor(groupId: number, userId: string, color: ColumnColorDto) {
-    await this.ensureGroupAccessible(groupId, userId);
-    return this.prisma.retroGroup.update({
-      where: { id: groupId },
-      data: { color: this.toColumnColorsInput(color) },
-    });
+  async updateGroupColor(
+    groupId: number,
+    userId: string,
+    color: ColumnColorDto,
+    expectedVersion?: number,
+  ) {
+    const boardId = await this.ensureGroupAccessible(groupId, userId);
+    await this.ensureBoardPhase(boardId);
+    return writeVersioned(
+      { entity: 'Group', id: groupId, expectedVersion },
+      (where) =>
+        this.prisma.retroGroup.update({
+          where,
+          data: { color: this.toColumnColorsInput(color), ...BUMP_VERSION },
+        }),
+      () => this.prisma.retroGroup.findUnique({ where: { id: groupId } }),
+    );
   }
 
   async updateGroupDescription(
     groupId: number,
     userId: string,
     description: string,
+    expectedVersion?: number,
   ) {
-    await this.ensureGroupAccessible(groupId, userId);
-    return this.prisma.retroGroup.update({
-      where: { id: groupId },
-      data: { description },
-    });
+    const boardId = await this.ensureGroupAccessible(groupId, userId);
+    await this.ensureBoardPhase(boardId);
+    return writeVersioned(
+      { entity: 'Group', id: groupId, expectedVersion },
+      (where) =>
+        this.prisma.retroGroup.update({
+          where,
+          data: { description, ...BUMP_VERSION },
+        }),
+      () => this.prisma.retroGroup.findUnique({ where: { id: groupId } }),
+    );
   }
 
   async updateItemDescription(
     itemId: number,
     userId: string,
     description: string,
+    expectedVersion?: number,
   ) {
-    await this.ensureItemAccessible(itemId, userId);
-
-    const boardVisibilitySettings =
-      await this.getItemBoardVisibilitySettingsByItemId(itemId);
-
-    const updatedItem = await this.prisma.retroItem.update({
-      where: { id: itemId },
-      data: { description },
-    });
+    const boardId = await this.ensureItemManageAccess(itemId, userId);
+    await this.ensureBoardPhase(boardId);
+
+    const cardView = await this.getItemCardView(itemId, userId);
+
+    const updatedItem = await writeVersioned(
+      { entity: 'Item', id: itemId, expectedVersion },
+      (where) =>
+        this.prisma.retroItem.update({
+          where,
+          data: { description, ...BUMP_VERSION },
+          include: ITEM_LIKES_INCLUDE,
+        }),
+      () => this.getCurrentItem(itemId, cardView),
+    );
 
-    return {
-      ...updatedItem,
-      description: this.maskItemDescription(
-        updatedItem.description,
-        boardVisibilitySettings.isAllCardsHidden,
-      ),
-      likes: boardVisibilitySettings.showLikes ? updatedItem.likes : [],
-    };
+    return this.mapItemRecord(updatedItem, cardView);
   }
 
   async toggleItemLike(itemId: number, userId: string) {
     const item = await this.prisma.retroItem.findUnique({
       where: { id: itemId },
       select: {
-        likes: true,
         column: {
           select: {
             boardId: true,
             board: {
               select: {
                 settings: true,
-                team: {
-                  select: {
-                    isAllCardsHidden: true,
-                  },
-                },
+                phase: true,
               },
             },
           },
@@ -704,51 +1411,56 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(item.column.boardId, userId);
+    ensureBoardPhaseAllows(item.column.board.phase, 'vote');
 
-    const likes = [...item.likes];
-    const index = likes.indexOf(userId);
-    if (index === -1) {
-      likes.push(userId);
-    } else {
-      likes.splice(index, 1);
+    // Delete-or-insert keeps the toggle atomic: concurrent likes of other
+    // users never touch this row, and a duplicate insert is skipped.
+    const removed = await this.prisma.retroItemVote.deleteMany({
+      where: { itemId, userId, kind: RetroVoteKind.LIKE },
+    });
+    if (removed.count === 0) {
+      await this.prisma.retroItemVote.createMany({
+        data: [{ itemId, userId, kind: RetroVoteKind.LIKE }],
+        skipDuplicates: true,
+      });
     }
 
+    // Likes live in their own rows; touching the card keeps it in changes.
     const updatedItem = await this.prisma.retroItem.update({
       where: { id: itemId },
-      data: { likes },
+      data: { updatedAt: new Date() },
+      include: ITEM_LIKES_INCLUDE,
     });
 
-    return {
-      ...updatedItem,
-      description: this.maskItemDescription(
-        updatedItem.description,
-        item.column.board.team.isAllCardsHidden,
-      ),
-      likes: this.normalizeBoardSettings(item.column.board.settings).showLikes
-        ? updatedItem.likes
-        : [],
-    };
+    return this.mapItemRecord(
+      updatedItem,
+      this.toCardView(item.column.board, null, userId),
+    );
   }
 
-  async updateItemColor(itemId: number, userId: string, color?: string) {
-    await this.ensureItemAccessible(itemId, userId);
-
-    const boardVisibilitySettings =
-      await this.getItemBoardVisibilitySettingsByItemId(itemId);
-
-    const updatedItem = await this.prisma.retroItem.update({
-      where: { id: itemId },
-      data: { color: color ?? null },
-    });
+  async updateItemColor(
+    itemId: number,
+    userId: string,
+    color?: string,
+    expectedVersion?: number,
+  ) {
+    const boardId = await this.ensureItemManageAccess(itemId, userId);
+    await this.ensureBoardPhase(boardId);
+
+    const cardView = await this.getItemCardView(itemId, userId);
+
+    const updatedItem = await writeVersioned(
+      { entity: 'Item', id: itemId, expectedVersion },
+      (where) =>
+        this.prisma.retroItem.update({
+          where,
+          data: { color: color ?? null, ...BUMP_VERSION },
+          include: ITEM_LIKES_INCLUDE,
+        }),
+      () => this.getCurrentItem(itemId, cardView),
+    );
 
-    return {
-      ...updatedItem,
-      description: this.maskItemDescription(
-        updatedItem.description,
-        boardVisibilitySettings.isAllCardsHidden,
-      ),
-      likes: boardVisibilitySettings.showLikes ? updatedItem.likes : [],
-    };
+    return this.mapItemRecord(updatedItem, cardView);
   }
 
   async getItemComments(itemId: number, userId: string) {
@@ -766,38 +1478,72 @@ export class RetroService {
   }
 
   async createItemComment(itemId: number, userId: string, text: string) {
-    await this.ensureItemAccessible(itemId, userId);
-
-    const comment = await this.prisma.retroItemComment.create({
-      data: {
-        itemId,
-        creatorId: userId,
-        text,
-      },
-      include: COMMENT_INCLUDE,
-    });
+    const boardId = await this.ensureItemAccessible(itemId, userId);
+    await this.ensureBoardPhase(boardId);
 
-    return this.mapComment(comment);
-  }
-
-  async updateItemComment(commentId: number, userId: string, text: string) {
-    await this.ensureCommentManageAccess(commentId, userId);
+    const comment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.retroItemComment.create({
+        data: {
+          itemId,
+          creatorId: userId,
+          text,
+        },
+        include: COMMENT_INCLUDE,
+      });
+      await this.touchItem(tx, itemId);
 
-    const comment = await this.prisma.retroItemComment.update({
-      where: { id: commentId },
-      data: { text },
-      include: COMMENT_INCLUDE,
+      return created;
     });
 
     return this.mapComment(comment);
   }
 
-  async deleteItemComment(commentId: number, userId: string) {
-    await this.ensureCommentManageAccess(commentId, userId);
+  async updateItemComment(
+    commentId: number,
+    userId: string,
+    text: string,
+    expectedVersion?: number,
+  ) {
+    const boardId = await this.ensureCommentManageAccess(commentId, userId);
+    await this.ensureBoardPhase(boardId);
+
+    const comment = await writeVersioned(
+      { entity: 'Comment', id: commentId, expectedVersion },
+      (where) =>
+        this.prisma.retroItemComment.update({
+          where,
+          data: { text, ...BUMP_VERSION },
+          include: COMMENT_INCLUDE,
+        }),
+      () => this.getCurrentComment(commentId),
+    );
 
-    await this.prisma.retroItemComment.delete({
-      where: { id: commentId },
-    });
+    return this.mapComment(comment);
+  }
+
+  async deleteItemComment(
+    commentId: number,
+    userId: string,
+    expectedVersion?: number,
+  ) {
+    const boardId = await this.ensureCommentManageAccess(commentId, userId);
+    await this.ensureBoardPhase(boardId);
+
+    await writeVersioned(
+      { entity: 'Comment', id: commentId, expectedVersion },
+      (where) =>
+        this.prisma.$transaction(async (tx) => {
+          const comment = await tx.retroItemComment.delete({ where });
+          await this.touchItem(tx, comment.itemId);
+          await this.recordTombstones(
+            tx,
+            boardId,
+            RetroTombstoneEntity.COMMENT,
+            [commentId],
+          );
+        }),
+      () => this.getCurrentComment(commentId),
+    );
 
     return { deleted: true };
   }
@@ -809,6 +1555,7 @@ export class RetroService {
     newIndex: number,
   ) {
     await this.ensureBoardAccessible(boardId, userId);
+    await this.ensureBoardPhase(boardId);
 
     const columns = await this.prisma.retroColumn.findMany({
       where: {
@@ -844,7 +1591,8 @@ export class RetroService {
       ),
     );
 
-    return this.getBoardColumns(boardId, userId);
+    // The result is broadcast, so it is mapped without the caller's view.
+    return this.mapBoard(await this.getBoardOrFail(boardId, userId)).columns;
   }
 
   async syncGroupPositions(
@@ -862,6 +1610,7 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(boardId, userId);
+    await this.ensureBoardPhase(boardId, 'groupMove');
 
     const columns = await this.prisma.retroColumn.findMany({
       where: {
@@ -935,79 +1684,58 @@ export class RetroService {
       });
     }
 
-    await this.prisma.$transaction(async (tx) => {
-      for (const change of changes) {
-        const previousGroup = groupById.get(change.groupId);
-        await tx.retroGroup.update({
-          where: {
-            id: change.groupId,
-          },
-          data: {
-            columnId: change.newColumnId,
-            orderIndex: change.newOrderIndex,
-          },
-        });
+    const changedColumnIds = Array.from(changedColumnIdsSet);
 
-        if (previousGroup && previousGroup.columnId !== change.newColumnId) {
-          await tx.retroItem.updateMany({
-            where: {
-              groupId: change.groupId,
-            },
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        for (const change of changes) {
+          const previousGroup = groupById.get(change.groupId);
+          await tx.retroGroup.update({
+            where: whereVersion(change.groupId, change.expectedVersion),
             data: {
               columnId: change.newColumnId,
+              orderIndex: change.newOrderIndex,
+              ...BUMP_VERSION,
             },
           });
-        }
-      }
-
-      for (const columnId of changedColumnIdsSet) {
-        await this.normalizeColumnRootEntryOrder(
-          tx,
-          columnId,
-          preferredEntriesByColumn.get(columnId),
-        );
-      }
-    });
 
-    const [board, changedColumns] = await Promise.all([
-      this.prisma.retroBoard.findUnique({
-        where: { id: boardId },
-        select: {
-          team: {
-            select: {
-              isAllCardsHidden: true,
-            },
-          },
-          settings: true,
-        },
-      }),
-      this.prisma.retroColumn.findMany({
-        where: {
-          boardId,
-          id: {
-            in: Array.from(changedColumnIdsSet),
-          },
-        },
-        orderBy: { orderIndex: 'asc' },
-        include: COLUMN_WITH_GROUPS_INCLUDE,
-      }),
-    ]);
+          if (previousGroup && previousGroup.columnId !== change.newColumnId) {
+            await tx.retroItem.updateMany({
+              where: {
+                groupId: change.groupId,
+              },
+              data: {
+                columnId: change.newColumnId,
+              },
+            });
+          }
+        }
 
-    if (!board) {
-      throw new NotFoundException(`Board ${boardId} not found`);
+        for (const columnId of changedColumnIdsSet) {
+          await this.normalizeColumnRootEntryOrder(
+            tx,
+            columnId,
+            preferredEntriesByColumn.get(columnId),
+          );
+        }
+      });
+    } catch (error) {
+      throw await this.toStalePositionsError(
+        error,
+        boardId,
+        'Group',
+        changes.map((change) => ({
+          id: change.groupId,
+          expectedVersion: change.expectedVersion,
+        })),
+        changedColumnIds,
+      );
     }
 
     return {
       boardId,
       updated: changes.length,
-      changedColumnIds: changedColumns.map((column) => column.id),
-      columns: changedColumns.map((column) =>
-        this.mapColumn(
-          column,
-          board.team.isAllCardsHidden,
-          this.normalizeBoardSettings(board.settings).showLikes,
-        ),
-      ),
+      ...(await this.getChangedColumns(boardId, changedColumnIds)),
     };
   }
 
@@ -1026,6 +1754,7 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(boardId, userId);
+    await this.ensureBoardPhase(boardId);
 
     const columns = await this.prisma.retroColumn.findMany({
       where: {
@@ -1149,85 +1878,68 @@ export class RetroService {
 
     const changedGroupIdsSet = new Set<number>();
 
-    await this.prisma.$transaction(async (tx) => {
-      for (const change of changes) {
-        await tx.retroItem.update({
-          where: { id: change.itemId },
-          data: {
-            columnId: change.newColumnId,
-            groupId: change.newGroupId ?? null,
-            rowIndex: change.newRowIndex,
-          },
-        });
-      }
-
-      for (const change of changes) {
-        const previousItem = itemById.get(change.itemId);
-        if (previousItem?.groupId !== null && previousItem?.groupId !== undefined) {
-          changedGroupIdsSet.add(previousItem.groupId);
-        }
-        if (change.newGroupId !== null && change.newGroupId !== undefined) {
-          changedGroupIdsSet.add(change.newGroupId);
-        }
-      }
-
-      for (const groupId of changedGroupIdsSet) {
-        await this.normalizeGroupItemsOrder(tx, groupId);
-      }
-      for (const columnId of changedColumnIdsSet) {
-        await this.normalizeColumnRootEntryOrder(
-          tx,
-          columnId,
-          preferredEntriesByColumn.get(columnId),
-        );
-      }
-    });
-
     const changedColumnIds = Array.from(changedColumnIdsSet);
 
-    const [board, changedColumns] = await Promise.all([
-      this.prisma.retroBoard.findUnique({
-        where: { id: boardId },
-        select: {
-          team: {
-            select: {
-              isAllCardsHidden: true,
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        for (const change of changes) {
+          await tx.retroItem.update({
+            where: whereVersion(change.itemId, change.expectedVersion),
+            data: {
+              columnId: change.newColumnId,
+              groupId: change.newGroupId ?? null,
+              rowIndex: change.newRowIndex,
+              ...BUMP_VERSION,
             },
-          },
-          settings: true,
-        },
-      }),
-      this.prisma.retroColumn.findMany({
-        where: {
-          boardId,
-          id: {
-            in: changedColumnIds,
-          },
-        },
-        orderBy: { orderIndex: 'asc' },
-        include: COLUMN_WITH_GROUPS_INCLUDE,
-      }),
-    ]);
+          });
+        }
 
-    if (!board) {
-      throw new NotFoundException(`Board ${boardId} not found`);
+        for (const change of changes) {
+          const previousItem = itemById.get(change.itemId);
+          if (previousItem?.groupId !== null && previousItem?.groupId !== undefined) {
+            changedGroupIdsSet.add(previousItem.groupId);
+          }
+          if (change.newGroupId !== null && change.newGroupId !== undefined) {
+            changedGroupIdsSet.add(change.newGroupId);
+          }
+        }
+
+        for (const groupId of changedGroupIdsSet) {
+          await this.normalizeGroupItemsOrder(tx, groupId);
+        }
+        for (const columnId of changedColumnIdsSet) {
+          await this.normalizeColumnRootEntryOrder(
+            tx,
+            columnId,
+            preferredEntriesByColumn.get(columnId),
+          );
+        }
+      });
+    } catch (error) {
+      throw await this.toStalePositionsError(
+        error,
+        boardId,
+        'Item',
+        changes.map((change) => ({
+          id: change.itemId,
+          expectedVersion: change.expectedVersion,
+        })),
+        changedColumnIds,
+      );
     }
 
     return {
       boardId,
       updated: changes.length,
-      changedColumnIds: changedColumns.map((column) => column.id),
-      columns: changedColumns.map((column) =>
-        this.mapColumn(
-          column,
-          board.team.isAllCardsHidden,
-          this.normalizeBoardSettings(board.settings).showLikes,
-        ),
-      ),
+      ...(await this.getChangedColumns(boardId, changedColumnIds)),
     };
   }
 
-  async deleteColumn(columnId: number, userId: string) {
+  async deleteColumn(
+    columnId: number,
+    userId: string,
+    expectedVersion?: number,
+  ) {
     const column = await this.prisma.retroColumn.findUnique({
       where: { id: columnId },
       select: { id: true, boardId: true, orderIndex: true },
@@ -1238,25 +1950,66 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(column.boardId, userId);
+    await this.ensureBoardPhase(column.boardId);
+
+    await writeVersioned(
+      { entity: 'Column', id: columnId, expectedVersion },
+      (where) =>
+        this.prisma.$transaction(async (tx) => {
+          const [groups, items, comments] = await Promise.all([
+            tx.retroGroup.findMany({ where: { columnId }, select: { id: true } }),
+            tx.retroItem.findMany({ where: { columnId }, select: { id: true } }),
+            tx.retroItemComment.findMany({
+              where: { item: { columnId } },
+              select: { id: true },
+            }),
+          ]);
+
+          await tx.retroColumn.delete({ where });
+          await this.recordTombstones(
+            tx,
+            column.boardId,
+            RetroTombstoneEntity.COLUMN,
+            [columnId],
+          );
+          await this.recordTombstones(
+            tx,
+            column.boardId,
+            RetroTombstoneEntity.GROUP,
+            groups.map((group) => group.id),
+          );
+          await this.recordTombstones(
+            tx,
+            column.boardId,
+            RetroTombstoneEntity.ITEM,
+            items.map((item) => item.id),
+          );
+          await this.recordTombstones(
+            tx,
+            column.boardId,
+            RetroTombstoneEntity.COMMENT,
+            comments.map((comment) => comment.id),
+          );
 
-    await this.prisma.$transaction(async (tx) => {
-      await tx.retroColumn.delete({
-        where: { id: columnId },
-      });
-
-      await tx.retroColumn.updateMany({
-        where: {
-          boardId: column.boardId,
-          orderIndex: { gt: column.orderIndex },
-        },
-        data: { orderIndex: { decrement: 1 } },
-      });
-    });
+          await tx.retroColumn.updateMany({
+            where: {
+              boardId: column.boardId,
+              orderIndex: { gt: column.orderIndex },
+            },
+            data: { orderIndex: { decrement: 1 } },
+          });
+        }),
+      () => this.prisma.retroColumn.findUnique({ where: { id: columnId } }),
+    );
 
     return { deleted: true };
   }
 
-  async deleteGroup(groupId: number, userId: string) {
+  async deleteGroup(
+    groupId: number,
+    userId: string,
+    expectedVersion?: number,
+  ) {
     const group = await this.prisma.retroGroup.findUnique({
       where: { id: groupId },
       select: {
@@ -1276,108 +2029,439 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(group.column.boardId, userId);
+    await this.ensureBoardPhase(group.column.boardId);
+
+    await writeVersioned(
+      { entity: 'Group', id: groupId, expectedVersion },
+      (where) =>
+        this.prisma.$transaction(async (tx) => {
+          const [ungroupedItems, siblingGroups, groupedItems] = await Promise.all([
+            tx.retroItem.findMany({
+              where: {
+                columnId: group.columnId,
+                groupId: null,
+              },
+              orderBy: { rowIndex: 'asc' },
+              select: { id: true, rowIndex: true },
+            }),
+            tx.retroGroup.findMany({
+              where: {
+                columnId: group.columnId,
+                id: {
+                  not: groupId,
+                },
+              },
+              orderBy: { orderIndex: 'asc' },
+              select: { id: true, orderIndex: true },
+            }),
+            tx.retroItem.findMany({
+              where: {
+                groupId,
+              },
+              orderBy: { rowIndex: 'asc' },
+              select: { id: true },
+            }),
+          ]);
+
+          const rootTokens: Array<{ type: 'ITEM' | 'GROUP'; id: number; index: number }> = [
+            ...ungroupedItems.map((item) => ({
+              type: 'ITEM' as const,
+              id: item.id,
+              index: item.rowIndex,
+            })),
+            ...siblingGroups.map((currentGroup) => ({
+              type: 'GROUP' as const,
+              id: currentGroup.id,
+              index: currentGroup.orderIndex,
+            })),
+          ].sort((a, b) => a.index - b.index || a.id - b.id);
+
+          const insertAt = Math.max(0, Math.min(group.orderIndex, rootTokens.length));
+          rootTokens.splice(
+            insertAt,
+            0,
+            ...groupedItems.map((item) => ({
+              type: 'ITEM' as const,
+              id: item.id,
+              index: -1,
+            })),
+          );
 
-    await this.prisma.$transaction(async (tx) => {
-      const [ungroupedItems, siblingGroups, groupedItems] = await Promise.all([
-        tx.retroItem.findMany({
-          where: {
-            columnId: group.columnId,
-            groupId: null,
-          },
-          orderBy: { rowIndex: 'asc' },
-          select: { id: true, rowIndex: true },
-        }),
-        tx.retroGroup.findMany({
-          where: {
-            columnId: group.columnId,
-            id: {
-              not: groupId,
+          await tx.retroItem.updateMany({
+            where: {
+              groupId,
             },
-          },
-          orderBy: { orderIndex: 'asc' },
-          select: { id: true, orderIndex: true },
+            data: {
+              groupId: null,
+            },
+          });
+
+          await tx.retroGroup.delete({ where });
+          await this.recordTombstones(
+            tx,
+            group.column.boardId,
+            RetroTombstoneEntity.GROUP,
+            [groupId],
+          );
+
+          for (let index = 0; index < rootTokens.length; index += 1) {
+            const token = rootTokens[index];
+            if (token.type === 'ITEM') {
+              await tx.retroItem.update({
+                where: { id: token.id },
+                data: { rowIndex: index },
+              });
+              continue;
+            }
+
+            await tx.retroGroup.update({
+              where: { id: token.id },
+              data: { orderIndex: index },
+            });
+          }
+
+          await this.normalizeColumnRootEntryOrder(tx, group.columnId);
         }),
-        tx.retroItem.findMany({
-          where: {
-            groupId,
-          },
-          orderBy: { rowIndex: 'asc' },
-          select: { id: true },
+      () => this.prisma.retroGroup.findUnique({ where: { id: groupId } }),
+    );
+
+    return { deleted: true };
+  }
+
+  async deleteItem(itemId: number, userId: string, expectedVersion?: number) {
+    const boardId = await this.ensureItemManageAccess(itemId, userId);
+    await this.ensureBoardPhase(boardId);
+
+    await writeVersioned(
+      { entity: 'Item', id: itemId, expectedVersion },
+      (where) =>
+        this.prisma.$transaction(async (tx) => {
+          const comments = await tx.retroItemComment.findMany({
+            where: { itemId },
+            select: { id: true },
+          });
+
+          await tx.retroItem.delete({ where });
+          await this.recordTombstones(
+            tx,
+            boardId,
+            RetroTombstoneEntity.ITEM,
+            [itemId],
+          );
+          await this.recordTombstones(
+            tx,
+            boardId,
+            RetroTombstoneEntity.COMMENT,
+            comments.map((comment) => comment.id),
+          );
         }),
+      () => this.getCurrentItem(itemId, userId),
+    );
+
+    return { deleted: true };
+  }
+
+  /**
+   * History readers feed the undo history; the caller has already checked
+   * access.
+   */
+  async getColumnValues(columnId: number) {
+    const column = await this.prisma.retroColumn.findUnique({
+      where: { id: columnId },
+      select: { name: true, color: true },
+    });
+
+    if (!column) {
+      throw new NotFoundException(`Column ${columnId} not found`);
+    }
+
+    return { name: column.name, color: this.toColumnColors(column.color) };
+  }
+
+  async getGroupValues(groupId: number) {
+    const group = await this.prisma.retroGroup.findUnique({
+      where: { id: groupId },
+      select: { name: true, color: true },
+    });
+
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    return { name: group.name, color: this.toColumnColors(group.color) };
+  }
+
+  async getItemValues(itemId: number) {
+    const item = await this.prisma.retroItem.findUnique({
+      where: { id: itemId },
+      select: { description: true, color: true },
+    });
+
+    if (!item) {
+      throw new NotFoundException(`Item ${itemId} not found`);
+    }
+
+    return item;
+  }
+
+  async getItemSnapshot(itemId: number): Promise<RetroItemSnapshot> {
+    const item = await this.prisma.retroItem.findUnique({
+      where: { id: itemId },
+      include: ITEM_SNAPSHOT_INCLUDE,
+    });
+
+    if (!item) {
+      throw new NotFoundException(`Item ${itemId} not found`);
+    }
+
+    return this.toItemSnapshot(item);
+  }
+
+  async getGroupSnapshot(groupId: number): Promise<RetroGroupSnapshot> {
+    const group = await this.prisma.retroGroup.findUnique({
+      where: { id: groupId },
+      include: {
+        items: {
+          orderBy: [{ rowIndex: 'asc' }, { id: 'asc' }],
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    return {
+      ...this.toGroupSnapshot(group),
+      itemIds: group.items.map((item) => item.id),
+    };
+  }
+
+  async getColumnSnapshot(columnId: number): Promise<RetroColumnSnapshot> {
+    const column = await this.prisma.retroColumn.findUnique({
+      where: { id: columnId },
+      include: {
+        groups: { orderBy: { orderIndex: 'asc' } },
+        items: {
+          orderBy: [{ rowIndex: 'asc' }, { id: 'asc' }],
+          include: ITEM_SNAPSHOT_INCLUDE,
+        },
+      },
+    });
+
+    if (!column) {
+      throw new NotFoundException(`Column ${columnId} not found`);
+    }
+
+    return {
+      id: column.id,
+      boardId: column.boardId,
+      name: column.name,
+      description: column.description,
+      color: this.toColumnColors(column.color),
+      orderIndex: column.orderIndex,
+      isActionItems: column.isActionItems,
+      version: column.version,
+      createdAt: column.createdAt.toISOString(),
+      groups: column.groups.map((group) => this.toGroupSnapshot(group)),
+      items: column.items.map((item) => this.toItemSnapshot(item)),
+    };
+  }
+
+  async getItemPositions(boardId: number, itemIds: number[]) {
+    return this.prisma.retroItem.findMany({
+      where: { id: { in: itemIds }, column: { boardId } },
+      select: {
+        id: true,
+        columnId: true,
+        groupId: true,
+        rowIndex: true,
+        version: true,
+      },
+    });
+  }
+
+  async getGroupPositions(boardId: number, groupIds: number[]) {
+    return this.prisma.retroGroup.findMany({
+      where: { id: { in: groupIds }, column: { boardId } },
+      select: { id: true, columnId: true, orderIndex: true, version: true },
+    });
+  }
+
+  /**
+   * Re-creates a deleted card under its old id with its comments and
+   * likes, at its old place. Votes and comments of users that no longer
+   * exist are left out.
+   */
+  async restoreItem(userId: string, snapshot: RetroItemSnapshot) {
+    const column = await this.prisma.retroColumn.findUnique({
+      where: { id: snapshot.columnId },
+      select: { boardId: true },
+    });
+
+    if (!column) {
+      throw new NotFoundException(`Column ${snapshot.columnId} not found`);
+    }
+
+    await this.ensureBoardAccessible(column.boardId, userId);
+    await this.ensureBoardPhase(column.boardId);
+
+    const groupId = await this.prisma.$transaction(async (tx) => {
+      const group =
+        snapshot.groupId === null
+          ? null
+          : await tx.retroGroup.findFirst({
+              where: { id: snapshot.groupId, columnId: snapshot.columnId },
+              select: { id: true },
+            });
+
+      if (group) {
+        await tx.retroItem.updateMany({
+          where: { groupId: group.id, rowIndex: { gte: snapshot.rowIndex } },
+          data: { rowIndex: { increment: 1 } },
+        });
+      } else {
+        await this.shiftColumnRootEntries(tx, snapshot.columnId, snapshot.rowIndex);
+      }
+
+      await this.insertItemSnapshots(tx, column.boardId, [
+        { ...snapshot, groupId: group?.id ?? null },
       ]);
 
-      const rootTokens: Array<{ type: 'ITEM' | 'GROUP'; id: number; index: number }> = [
-        ...ungroupedItems.map((item) => ({
-          type: 'ITEM' as const,
-          id: item.id,
-          index: item.rowIndex,
-        })),
-        ...siblingGroups.map((currentGroup) => ({
-          type: 'GROUP' as const,
-          id: currentGroup.id,
-          index: currentGroup.orderIndex,
-        })),
-      ].sort((a, b) => a.index - b.index || a.id - b.id);
-
-      const insertAt = Math.max(0, Math.min(group.orderIndex, rootTokens.length));
-      rootTokens.splice(
-        insertAt,
-        0,
-        ...groupedItems.map((item) => ({
-          type: 'ITEM' as const,
-          id: item.id,
-          index: -1,
-        })),
-      );
+      if (group) {
+        await this.normalizeGroupItemsOrder(tx, group.id);
+      } else {
+        await this.normalizeColumnRootEntryOrder(tx, snapshot.columnId);
+      }
+
+      return group?.id ?? null;
+    });
+
+    const changed = await this.getChangedColumns(column.boardId, [
+      snapshot.columnId,
+    ]);
+    const [restoredColumn] = changed.columns;
+    const items =
+      groupId === null
+        ? restoredColumn.items
+        : (restoredColumn.groups.find((group) => group.id === groupId)?.items ??
+          []);
+
+    return {
+      boardId: column.boardId,
+      item: items.find((item) => item.id === snapshot.id)!,
+      ...changed,
+    };
+  }
+
+  /**
+   * Re-creates a deleted group and moves back the cards it held, as far as
+   * they are still loose cards of the same column.
+   */
+  async restoreGroup(userId: string, snapshot: RetroGroupSnapshot) {
+    const column = await this.prisma.retroColumn.findUnique({
+      where: { id: snapshot.columnId },
+      select: { boardId: true },
+    });
+
+    if (!column) {
+      throw new NotFoundException(`Column ${snapshot.columnId} not found`);
+    }
+
+    await this.ensureBoardAccessible(column.boardId, userId);
+    await this.ensureBoardPhase(column.boardId);
 
-      await tx.retroItem.updateMany({
+    await this.prisma.$transaction(async (tx) => {
+      const looseItems = await tx.retroItem.findMany({
         where: {
-          groupId,
-        },
-        data: {
+          id: { in: snapshot.itemIds },
+          columnId: snapshot.columnId,
           groupId: null,
         },
+        select: { id: true },
       });
+      const looseItemIds = new Set(looseItems.map((item) => item.id));
 
-      await tx.retroGroup.delete({
-        where: { id: groupId },
-      });
-
-      for (let index = 0; index < rootTokens.length; index += 1) {
-        const token = rootTokens[index];
-        if (token.type === 'ITEM') {
-          await tx.retroItem.update({
-            where: { id: token.id },
-            data: { rowIndex: index },
-          });
-          continue;
-        }
+      await this.shiftColumnRootEntries(tx, snapshot.columnId, snapshot.orderIndex);
+      await this.insertGroupSnapshots(tx, column.boardId, [snapshot]);
 
-        await tx.retroGroup.update({
-          where: { id: token.id },
-          data: { orderIndex: index },
+      const itemIds = snapshot.itemIds.filter((itemId) => looseItemIds.has(itemId));
+      for (let index = 0; index < itemIds.length; index += 1) {
+        await tx.retroItem.update({
+          where: { id: itemIds[index] },
+          data: { groupId: snapshot.id, rowIndex: index },
         });
       }
 
-      await this.normalizeColumnRootEntryOrder(tx, group.columnId);
+      await this.normalizeColumnRootEntryOrder(tx, snapshot.columnId);
     });
 
-    return { deleted: true };
+    const changed = await this.getChangedColumns(column.boardId, [
+      snapshot.columnId,
+    ]);
+
+    return {
+      boardId: column.boardId,
+      group: changed.columns[0].groups.find((group) => group.id === snapshot.id)!,
+      ...changed,
+    };
   }
 
-  async deleteItem(itemId: number, userId: string) {
-    await this.ensureItemAccessible(itemId, userId);
+  /**
+   * Re-creates a deleted column with its groups, cards, comments and likes.
+   */
+  async restoreColumn(userId: string, snapshot: RetroColumnSnapshot) {
+    await this.ensureBoardAccessible(snapshot.boardId, userId);
+    await this.ensureBoardPhase(snapshot.boardId);
 
-    await this.prisma.retroItem.delete({
-      where: { id: itemId },
+    await this.prisma.$transaction(async (tx) => {
+      const columnsCount = await tx.retroColumn.count({
+        where: { boardId: snapshot.boardId },
+      });
+      const orderIndex = Math.min(snapshot.orderIndex, columnsCount);
+
+      await tx.retroColumn.updateMany({
+        where: { boardId: snapshot.boardId, orderIndex: { gte: orderIndex } },
+        data: { orderIndex: { increment: 1 } },
+      });
+      await tx.retroColumn.create({
+        data: {
+          id: snapshot.id,
+          boardId: snapshot.boardId,
+          name: snapshot.name,
+          description: snapshot.description,
+          color: this.toColumnColorsInput(snapshot.color),
+          orderIndex,
+          isActionItems: snapshot.isActionItems,
+          version: snapshot.version + 1,
+          createdAt: new Date(snapshot.createdAt),
+        },
+      });
+      await this.clearTombstones(
+        tx,
+        snapshot.boardId,
+        RetroTombstoneEntity.COLUMN,
+        [snapshot.id],
+      );
+      await this.insertGroupSnapshots(tx, snapshot.boardId, snapshot.groups);
+      await this.insertItemSnapshots(tx, snapshot.boardId, snapshot.items);
     });
 
-    return { deleted: true };
+    const board = this.mapBoard(
+      await this.getBoardOrFail(snapshot.boardId, userId),
+    );
+
+    return {
+      boardId: snapshot.boardId,
+      column: board.columns.find((column) => column.id === snapshot.id)!,
+      columns: board.columns,
+    };
   }
 
   private async getBoardOrFail(boardId: number, userId: string) {
-    const board = await this.prisma.retroBoard.findUnique({
-      where: { id: boardId },
+    const board = await this.prisma.retroBoard.findFirst({
+      where: { id: boardId, deletedAt: null },
       include: BOARD_INCLUDE,
     });
 
@@ -1393,6 +2477,141 @@ export class RetroService {
     return board;
   }
 
+  private async getCurrentBoard(boardId: number, userId: string) {
+    const board = await this.getBoardOrFail(boardId, userId);
+    const role = await this.getTeamRole(board.teamId, userId);
+
+    return this.mapBoard(board, role, userId);
+  }
+
+  private async getCurrentItem(itemId: number, viewer: string | CardView) {
+    const item = await this.prisma.retroItem.findUnique({
+      where: { id: itemId },
+      include: ITEM_LIKES_INCLUDE,
+    });
+
+    if (!item) {
+      return null;
+    }
+
+    const view =
+      typeof viewer === 'string'
+        ? await this.getItemCardView(itemId, viewer)
+        : viewer;
+    return this.mapItemRecord(item, view);
+  }
+
+  private async getCurrentComment(commentId: number) {
+    const comment = await this.prisma.retroItemComment.findUnique({
+      where: { id: commentId },
+      include: COMMENT_INCLUDE,
+    });
+
+    return comment ? this.mapComment(comment) : null;
+  }
+
+  /**
+   * Position syncs are broadcast, so changed columns use the team view.
+   */
+  private async getChangedColumns(boardId: number, columnIds: number[]) {
+    const [board, changedColumns] = await Promise.all([
+      this.prisma.retroBoard.findUnique({
+        where: { id: boardId },
+        select: {
+          settings: true,
+          phase: true,
+        },
+      }),
+      this.prisma.retroColumn.findMany({
+        where: {
+          boardId,
+          id: {
+            in: columnIds,
+          },
+        },
+        orderBy: { orderIndex: 'asc' },
+        include: COLUMN_WITH_GROUPS_INCLUDE,
+      }),
+    ]);
+
+    if (!board) {
+      throw new NotFoundException(`Board ${boardId} not found`);
+    }
+
+    return {
+      changedColumnIds: changedColumns.map((column) => column.id),
+      columns: changedColumns.map((column) =>
+        this.mapColumn(column, this.toCardView(board)),
+      ),
+    };
+  }
+
+  /**
+   * A sync runs in one transaction, so a single stale entry rolls back the
+   * whole batch; the conflict carries the current state of the columns.
+   */
+  private async toStalePositionsError(
+    error: unknown,
+    boardId: number,
+    entity: 'Item' | 'Group',
+    targets: Array<{ id: number; expectedVersion?: number }>,
+    columnIds: number[],
+  ): Promise<unknown> {
+    if (!isRecordNotFound(error)) {
+      return error;
+    }
+
+    const ids = targets.map((target) => target.id);
+    const rows =
+      entity === 'Item'
+        ? await this.prisma.retroItem.findMany({
+            where: { id: { in: ids } },
+            select: { id: true, version: true },
+          })
+        : await this.prisma.retroGroup.findMany({
+            where: { id: { in: ids } },
+            select: { id: true, version: true },
+          });
+    const versionById = new Map(rows.map((row) => [row.id, row.version]));
+
+    const stale = targets.find(
+      (target) =>
+        target.expectedVersion !== undefined &&
+        versionById.get(target.id) !== target.expectedVersion,
+    );
+    if (!stale) {
+      return error;
+    }
+
+    const currentVersion = versionById.get(stale.id);
+    if (currentVersion === undefined) {
+      return new NotFoundException(`${entity} ${stale.id} not found`);
+    }
+
+    return staleVersionConflict(
+      { entity, ...stale },
+      currentVersion,
+      { boardId, ...(await this.getChangedColumns(boardId, columnIds)) },
+    );
+  }
+
+  private async getTeamRole(
+    teamId: number,
+    userId: string,
+  ): Promise<TeamRole | null> {
+    const teamMember = await this.prisma.teamMember.findUnique({
+      where: {
+        teamId_userId: {
+          teamId,
+          userId,
+        },
+      },
+      select: { role: true },
+    });
+
+    return teamMember?.role ?? null;
+  }
+
   private async ensureTeamMember(teamId: number, userId: string) {
     const teamMember = await this.prisma.teamMember.findUnique({
       where: {
@@ -1417,7 +2636,7 @@ export class RetroService {
           userId,
         },
       },
-      select: { role: true },
+      select: TEAM_ADMIN_MEMBER_SELECT,
     });
 
     if (!teamMember) {
@@ -1427,11 +2646,13 @@ export class RetroService {
     if (teamMember.role === TeamRole.MEMBER) {
       throw new ForbiddenException('Insufficient permissions to create board');
     }
+
+    ensureAdminTwoFactor(teamMember);
   }
 
   private async ensureBoardAccessible(boardId: number, userId: string) {
-    const board = await this.prisma.retroBoard.findUnique({
-      where: { id: boardId },
+    const board = await this.prisma.retroBoard.findFirst({
+      where: { id: boardId, deletedAt: null },
       select: { id: true },
     });
 
@@ -1446,8 +2667,8 @@ export class RetroService {
   }
 
   private async hasBoardAccess(boardId: number, userId: string): Promise<boolean> {
-    const board = await this.prisma.retroBoard.findUnique({
-      where: { id: boardId },
+    const board = await this.prisma.retroBoard.findFirst({
+      where: { id: boardId, deletedAt: null },
       select: {
         team: {
           select: {
@@ -1462,7 +2683,13 @@ export class RetroService {
     }
 
     if (board.team.isAnonymousBoardAccessEnabled) {
-      return true;
+      // Guest sessions are bound to the board they were issued for.
+      const foreignGuest = await this.prisma.user.findFirst({
+        where: { id: userId, isGuest: true, guestBoardId: { not: boardId } },
+        select: { id: true },
+      });
+
+      return !foreignGuest;
     }
 
     const teamMember = await this.prisma.teamMember.findFirst({
@@ -1482,9 +2709,16 @@ export class RetroService {
     return Boolean(teamMember);
   }
 
-  private async ensureBoardAdminOrOwner(boardId: number, userId: string) {
-    const board = await this.prisma.retroBoard.findUnique({
-      where: { id: boardId },
+  private async ensureBoardAdminOrOwner(
+    boardId: number,
+    userId: string,
+    includeDeleted = false,
+  ) {
+    const board = await this.prisma.retroBoard.findFirst({
+      where: {
+        id: boardId,
+        ...(includeDeleted ? {} : { deletedAt: null }),
+      },
       select: { teamId: true },
     });
 
@@ -1499,16 +2733,34 @@ export class RetroService {
           userId,
         },
       },
-      select: { role: true },
+      select: TEAM_ADMIN_MEMBER_SELECT,
     });
 
     if (!teamMember) {
       throw new NotFoundException(`Board ${boardId} not found`);
     }
 
-    if (teamMember.role === TeamRole.MEMBER) {
-      throw new ForbiddenException('Insufficient permissions to rename board');
-    }
+    if (teamMember.role === TeamRole.MEMBER) {
+      throw new ForbiddenException('Insufficient permissions to manage board');
+    }
+
+    ensureAdminTwoFactor(teamMember);
+  }
+
+  private async ensureBoardPhase(
+    boardId: number,
+    action: BoardPhaseAction = 'change',
+  ) {
+    const board = await this.prisma.retroBoard.findUnique({
+      where: { id: boardId },
+      select: { phase: true },
+    });
+
+    if (!board) {
+      throw new NotFoundException(`Board ${boardId} not found`);
+    }
+
+    ensureBoardPhaseAllows(board.phase, action);
   }
 
   private async ensureColumnAccessible(columnId: number, userId: string) {
@@ -1522,6 +2774,7 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(column.boardId, userId);
+    return column.boardId;
   }
 
   private async ensureGroupAccessible(groupId: number, userId: string) {
@@ -1535,6 +2788,7 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(group.column.boardId, userId);
+    return group.column.boardId;
   }
 
   private async ensureItemAccessible(itemId: number, userId: string) {
@@ -1548,6 +2802,55 @@ export class RetroService {
     }
 
     await this.ensureBoardAccessible(item.column.boardId, userId);
+    return item.column.boardId;
+  }
+
+  private async ensureItemManageAccess(itemId: number, userId: string) {
+    const item = await this.prisma.retroItem.findUnique({
+      where: { id: itemId },
+      select: {
+        id: true,
+        authorId: true,
+        column: {
+          select: {
+            board: {
+              select: {
+                id: true,
+                teamId: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!item) {
+      throw new NotFoundException(`Item ${itemId} not found`);
+    }
+
+    await this.ensureBoardAccessible(item.column.board.id, userId);
+
+    if (item.authorId === userId) {
+      return item.column.board.id;
+    }
+
+    const teamMember = await this.prisma.teamMember.findUnique({
+      where: {
+        teamId_userId: {
+          teamId: item.column.board.teamId,
+          userId,
+        },
+      },
+      select: TEAM_ADMIN_MEMBER_SELECT,
+    });
+
+    if (!teamMember || teamMember.role === TeamRole.MEMBER) {
+      throw new ForbiddenException('Insufficient permissions to manage item');
+    }
+
+    ensureAdminTwoFactor(teamMember);
+
+    return item.column.board.id;
   }
 
   private async ensureCommentManageAccess(commentId: number, userId: string) {
@@ -1580,7 +2883,7 @@ export class RetroService {
     await this.ensureBoardAccessible(comment.item.column.board.id, userId);
 
     if (comment.creatorId === userId) {
-      return;
+      return comment.item.column.board.id;
     }
 
     const teamMember = await this.prisma.teamMember.findUnique({
@@ -1590,7 +2893,7 @@ export class RetroService {
           userId,
         },
       },
-      select: { role: true },
+      select: TEAM_ADMIN_MEMBER_SELECT,
     });
 
     if (!teamMember || teamMember.role === TeamRole.MEMBER) {
@@ -1598,6 +2901,10 @@ export class RetroService {
         'Insufficient permissions to manage comment',
       );
     }
+
+    ensureAdminTwoFactor(teamMember);
+
+    return comment.item.column.board.id;
   }
 
   private async normalizeGroupItemsOrder(
@@ -1781,30 +3088,44 @@ export class RetroService {
     return 1;
   }
 
-  private mapItem(
-    item: RetroItemWithCount,
-    columnIndex: number,
-    isAllCardsHidden: boolean,
-    showLikes: boolean,
-  ) {
+  private mapItem(item: RetroItemWithCount, columnIndex: number, view: CardView) {
     return {
       id: item.id,
-      description: this.maskItemDescription(item.description, isAllCardsHidden),
+      description: this.maskItemDescription(item.description, item, view),
       createdAt: item.createdAt,
-      likes: showLikes ? item.likes : [],
+      likes: view.showLikes ? item.votes.map((vote) => vote.userId) : [],
       color: item.color ?? undefined,
       columnIndex,
       rowIndex: item.rowIndex,
       groupId: item.groupId,
       commentsCount: item._count.comments,
+      version: item.version,
+      author:
+        view.showAuthors && item.author
+          ? {
+              id: item.author.id,
+              email: item.author.email,
+              name: item.author.name,
+            }
+          : null,
+    };
+  }
+
+  private mapItemRecord(item: RetroItemWithLikes, view: CardView) {
+    const { votes, ...record } = item;
+
+    return {
+      ...record,
+      description: this.maskItemDescription(record.description, record, view),
+      likes: view.showLikes ? votes.map((vote) => vote.userId) : [],
+      authorId: view.showAuthors ? record.authorId : null,
     };
   }
 
   private mapGroup(
     group: RetroBoardGroup | RetroGroupWithItems,
     columnIndex: number,
-    isAllCardsHidden: boolean,
-    showLikes: boolean,
+    view: CardView,
   ) {
     return {
       id: group.id,
@@ -1813,33 +3134,23 @@ export class RetroService {
       description: group.description,
       color: this.toColumnColors(group.color),
       orderIndex: group.orderIndex,
+      version: group.version,
       isNameEditing: false,
       items: group.items.map((item) =>
-        this.mapItem(
-          item as RetroItemWithCount,
-          columnIndex,
-          isAllCardsHidden,
-          showLikes,
-        ),
+        this.mapItem(item as RetroItemWithCount, columnIndex, view),
       ),
     };
   }
 
   private mapColumn(
     column: RetroBoardColumn | RetroColumnWithItems,
-    isAllCardsHidden: boolean,
-    showLikes: boolean,
+    view: CardView,
   ) {
     const mappedItems = column.items.map((item) =>
-      this.mapItem(
-        item as RetroItemWithCount,
-        column.orderIndex,
-        isAllCardsHidden,
-        showLikes,
-      ),
+      this.mapItem(item as RetroItemWithCount, column.orderIndex, view),
     );
     const mappedGroups = column.groups.map((group) =>
-      this.mapGroup(group, column.orderIndex, isAllCardsHidden, showLikes),
+      this.mapGroup(group, column.orderIndex, view),
     );
     const entries = [
       ...mappedItems.map((item) => ({
@@ -1859,6 +3170,8 @@ export class RetroService {
       name: column.name,
       description: column.description,
       color: this.toColumnColors(column.color),
+      isActionItems: column.isActionItems,
+      version: column.version,
       isNameEditing: false,
       items: mappedItems,
       groups: mappedGroups,
@@ -1866,28 +3179,219 @@ export class RetroService {
     };
   }
 
-  private mapBoard(board: RetroBoardWithColumns) {
-    const settings = this.normalizeBoardSettings(board.settings);
+  private mapBoard(
+    board: RetroBoardWithColumns,
+    viewerRole?: TeamRole | null,
+    viewerUserId?: string,
+  ) {
+    const view = this.toCardView(board, viewerRole, viewerUserId);
+
+    return {
+      ...this.mapBoardState(board),
+      columns: board.columns.map((column: RetroBoardColumn) =>
+        this.mapColumn(column, view),
+      ),
+    };
+  }
 
+  private mapBoardState(board: RetroBoard) {
     return {
       id: board.id,
       teamId: board.teamId,
-      isAllCardsHidden: board.team.isAllCardsHidden,
-      settings,
+      settings: normalizeBoardSettings(board.settings),
       name: board.name,
       date: board.date.toISOString().slice(0, 10),
       description: board.description,
-      columns: board.columns.map((column: RetroBoardColumn) =>
-        this.mapColumn(column, board.team.isAllCardsHidden, settings.showLikes),
-      ),
+      archivedAt: board.archivedAt,
+      phase: board.phase,
+      phaseChangedAt: board.phaseChangedAt,
+      version: board.version,
     };
   }
 
+  private mapColumnRecord(column: RetroColumn) {
+    return {
+      id: column.id,
+      name: column.name,
+      description: column.description,
+      color: this.toColumnColors(column.color),
+      orderIndex: column.orderIndex,
+      isActionItems: column.isActionItems,
+      version: column.version,
+    };
+  }
+
+  private mapGroupRecord(group: RetroGroup) {
+    return {
+      id: group.id,
+      columnId: group.columnId,
+      name: group.name,
+      description: group.description,
+      color: this.toColumnColors(group.color),
+      orderIndex: group.orderIndex,
+      version: group.version,
+    };
+  }
+
+  private toCardView(
+    board: { settings: Prisma.JsonValue; phase: RetroBoardPhase | null },
+    viewerRole?: TeamRole | null,
+    viewerUserId?: string,
+  ): CardView {
+    const settings = normalizeBoardSettings(board.settings);
+
+    return {
+      ...this.toCardVisibility(board),
+      showLikes: settings.showLikes,
+      showAuthors: canSeeAuthors(settings, viewerRole),
+      viewerUserId,
+    };
+  }
+
+  private toCardVisibility(board: {
+    settings: Prisma.JsonValue;
+    phase: RetroBoardPhase | null;
+  }): CardVisibility {
+    return {
+      phase: board.phase,
+      cardHiding: normalizeBoardSettings(board.settings).cardHiding,
+    };
+  }
+
+  private async getBoardCounters(
+    boardIds: number[],
+  ): Promise<Map<number, BoardCounters>> {
+    const counters = new Map<number, BoardCounters>();
+    if (boardIds.length === 0) {
+      return counters;
+    }
+
+    const [itemRows, participantRows] = await Promise.all([
+      this.prisma.$queryRaw<
+        Array<{ boardId: number; itemsCount: number; openActionItemsCount: number }>
+      >`
+        SELECT c."boardId" AS "boardId",
+          COUNT(i.id)::int AS "itemsCount",
+          COUNT(i.id) FILTER (WHERE c."isActionItems")::int AS "openActionItemsCount"
+        FROM "retro_items" i
+        JOIN "retro_columns" c ON c.id = i."columnId"
+        WHERE c."boardId" IN (${Prisma.join(boardIds)})
+        GROUP BY c."boardId"
+      `,
+      this.prisma.$queryRaw<Array<{ boardId: number; participantsCount: number }>>`
+        SELECT p."boardId" AS "boardId",
+          COUNT(DISTINCT p."userId")::int AS "participantsCount"
+        FROM (
+          SELECT c."boardId", i."authorId" AS "userId"
+          FROM "retro_items" i
+          JOIN "retro_columns" c ON c.id = i."columnId"
+          WHERE c."boardId" IN (${Prisma.join(boardIds)})
+            AND i."authorId" IS NOT NULL
+          UNION ALL
+          SELECT c."boardId", cm."creatorId" AS "userId"
+          FROM "retro_item_comments" cm
+          JOIN "retro_items" i ON i.id = cm."itemId"
+          JOIN "retro_columns" c ON c.id = i."columnId"
+          WHERE c."boardId" IN (${Prisma.join(boardIds)})
+          UNION ALL
+          SELECT c."boardId", v."userId"
+          FROM "retro_item_votes" v
+          JOIN "retro_items" i ON i.id = v."itemId"
+          JOIN "retro_columns" c ON c.id = i."columnId"
+          WHERE c."boardId" IN (${Prisma.join(boardIds)})
+        ) p
+        GROUP BY p."boardId"
+      `,
+    ]);
+
+    for (const row of itemRows) {
+      counters.set(row.boardId, {
+        itemsCount: row.itemsCount,
+        participantsCount: 0,
+        openActionItemsCount: row.openActionItemsCount,
+      });
+    }
+
+    for (const row of participantRows) {
+      const current = counters.get(row.boardId);
+      counters.set(row.boardId, {
+        itemsCount: current?.itemsCount ?? 0,
+        participantsCount: row.participantsCount,
+        openActionItemsCount: current?.openActionItemsCount ?? 0,
+      });
+    }
+
+    return counters;
+  }
+
+  private encodeBoardListCursor(
+    board: RetroBoardSummary,
+    sortBy: BoardSortField,
+  ): string {
+    const cursor: BoardListCursor = {
+      sortBy,
+      value: sortBy === 'date' ? board.date.toISOString() : board.name,
+      id: board.id,
+    };
+
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeBoardListCursor(
+    rawCursor: string,
+    sortBy: BoardSortField,
+  ): BoardListCursor {
+    let cursor: unknown;
+    try {
+      cursor = JSON.parse(Buffer.from(rawCursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (typeof cursor !== 'object' || cursor === null) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const { sortBy: cursorSortBy, value, id } = cursor as Record<string, unknown>;
+    if (
+      cursorSortBy !== sortBy ||
+      typeof value !== 'string' ||
+      typeof id !== 'number' ||
+      !Number.isInteger(id) ||
+      (sortBy === 'date' && Number.isNaN(new Date(value).getTime()))
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return { sortBy, value, id };
+  }
+
+  private getBoardListCursorWhere(
+    cursor: BoardListCursor,
+    sortBy: BoardSortField,
+    order: SortOrder,
+  ): Prisma.RetroBoardWhereInput {
+    const operator = order === 'asc' ? 'gt' : 'lt';
+    const value = sortBy === 'date' ? new Date(cursor.value) : cursor.value;
+
+    return {
+      OR: [
+        { [sortBy]: { [operator]: value } },
+        { [sortBy]: value, id: { [operator]: cursor.id } },
+      ],
+    };
+  }
+
+  private getPurgeAt(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + this.trashRetentionDays * DAY_MS);
+  }
+
   private mapComment(comment: RetroItemCommentWithCreator) {
     return {
       id: comment.id,
       itemId: comment.itemId,
       text: comment.text,
+      version: comment.version,
       createdAt: comment.createdAt,
       creator: {
         id: comment.creator.id,
@@ -1897,7 +3401,266 @@ export class RetroService {
     };
   }
 
-  private async getItemBoardVisibilitySettingsByItemId(itemId: number) {
+  private async touchItem(tx: Prisma.TransactionClient, itemId: number) {
+    await tx.retroItem.update({
+      where: { id: itemId },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  private async shiftColumnRootEntries(
+    tx: Prisma.TransactionClient,
+    columnId: number,
+    fromIndex: number,
+  ) {
+    await tx.retroItem.updateMany({
+      where: { columnId, groupId: null, rowIndex: { gte: fromIndex } },
+      data: { rowIndex: { increment: 1 } },
+    });
+    await tx.retroGroup.updateMany({
+      where: { columnId, orderIndex: { gte: fromIndex } },
+      data: { orderIndex: { increment: 1 } },
+    });
+  }
+
+  private async insertGroupSnapshots(
+    tx: Prisma.TransactionClient,
+    boardId: number,
+    groups: RetroGroupRecordSnapshot[],
+  ) {
+    if (groups.length === 0) {
+      return;
+    }
+
+    await tx.retroGroup.createMany({
+      data: groups.map((group) => ({
+        id: group.id,
+        columnId: group.columnId,
+        name: group.name,
+        description: group.description,
+        color: this.toColumnColorsInput(group.color),
+        orderIndex: group.orderIndex,
+        version: group.version + 1,
+        createdAt: new Date(group.createdAt),
+      })),
+    });
+    await this.clearTombstones(
+      tx,
+      boardId,
+      RetroTombstoneEntity.GROUP,
+      groups.map((group) => group.id),
+    );
+  }
+
+  /**
+   * Restored rows get a version above the deleted one, so clients that
+   * still hold the old row see it as changed.
+   */
+  private async insertItemSnapshots(
+    tx: Prisma.TransactionClient,
+    boardId: number,
+    items: RetroItemSnapshot[],
+  ) {
+    if (items.length === 0) {
+      return;
+    }
+
+    const userIds = new Set<string>();
+    for (const item of items) {
+      if (item.authorId) {
+        userIds.add(item.authorId);
+      }
+      item.comments.forEach((comment) => userIds.add(comment.creatorId));
+      item.votes.forEach((vote) => userIds.add(vote.userId));
+    }
+    const users = await tx.user.findMany({
+      where: { id: { in: Array.from(userIds) } },
+      select: { id: true },
+    });
+    const existingUserIds = new Set(users.map((user) => user.id));
+
+    const comments = items.flatMap((item) =>
+      item.comments
+        .filter((comment) => existingUserIds.has(comment.creatorId))
+        .map((comment) => ({ ...comment, itemId: item.id })),
+    );
+    const votes = await this.fitRestoredDotVotes(
+      tx,
+      boardId,
+      items.flatMap((item) =>
+        item.votes
+          .filter((vote) => existingUserIds.has(vote.userId))
+          .map((vote) => ({ ...vote, itemId: item.id })),
+      ),
+    );
+
+    await tx.retroItem.createMany({
+      data: items.map((item) => ({
+        id: item.id,
+        description: item.description,
+        color: item.color,
+        rowIndex: item.rowIndex,
+        columnId: item.columnId,
+        groupId: item.groupId,
+        authorId:
+          item.authorId && existingUserIds.has(item.authorId)
+            ? item.authorId
+            : null,
+        version: item.version + 1,
+        createdAt: new Date(item.createdAt),
+      })),
+    });
+    if (comments.length > 0) {
+      await tx.retroItemComment.createMany({
+        data: comments.map((comment) => ({
+          id: comment.id,
+          itemId: comment.itemId,
+          creatorId: comment.creatorId,
+          text: comment.text,
+          version: comment.version + 1,
+          createdAt: new Date(comment.createdAt),
+        })),
+      });
+    }
+    if (votes.length > 0) {
+      await tx.retroItemVote.createMany({ data: votes });
+    }
+
+    await this.clearTombstones(
+      tx,
+      boardId,
+      RetroTombstoneEntity.ITEM,
+      items.map((item) => item.id),
+    );
+    await this.clearTombstones(
+      tx,
+      boardId,
+      RetroTombstoneEntity.COMMENT,
+      comments.map((comment) => comment.id),
+    );
+  }
+
+  /**
+   * Restored DOT votes pass the budget check of a new vote: a voter who
+   * spent them elsewhere since the delete keeps only what still fits.
+   */
+  private async fitRestoredDotVotes<
+    T extends RetroItemSnapshot['votes'][number],
+  >(tx: Prisma.TransactionClient, boardId: number, votes: T[]): Promise<T[]> {
+    // Sorted, so concurrent restores take the voter locks in one order.
+    const voterIds = Array.from(
+      new Set(
+        votes
+          .filter((vote) => vote.kind === RetroVoteKind.DOT)
+          .map((vote) => vote.userId),
+      ),
+    ).sort();
+    if (voterIds.length === 0) {
+      return votes;
+    }
+
+    const board = await tx.retroBoard.findUnique({
+      where: { id: boardId },
+      select: { settings: true },
+    });
+    const { maxVotesPerParticipant } = normalizeBoardSettings(
+      board?.settings ?? null,
+    ).voting;
+    const remainingVotes = new Map<string, number>();
+    for (const userId of voterIds) {
+      await lockParticipantVotes(tx, boardId, userId);
+      const usedVotes = await getUsedVotes(tx, boardId, userId);
+      remainingVotes.set(
+        userId,
+        Math.max(maxVotesPerParticipant - usedVotes, 0),
+      );
+    }
+
+    return votes.flatMap((vote) => {
+      if (vote.kind !== RetroVoteKind.DOT) {
+        return [vote];
+      }
+
+      const remaining = remainingVotes.get(vote.userId) ?? 0;
+      const count = Math.min(vote.count, remaining);
+      remainingVotes.set(vote.userId, remaining - count);
+      return count > 0 ? [{ ...vote, count }] : [];
+    });
+  }
+
+  private toItemSnapshot(item: RetroItemWithSnapshotData): RetroItemSnapshot {
+    return {
+      id: item.id,
+      columnId: item.columnId,
+      groupId: item.groupId,
+      rowIndex: item.rowIndex,
+      description: item.description,
+      color: item.color,
+      authorId: item.authorId,
+      version: item.version,
+      createdAt: item.createdAt.toISOString(),
+      comments: item.comments.map((comment) => ({
+        id: comment.id,
+        creatorId: comment.creatorId,
+        text: comment.text,
+        version: comment.version,
+        createdAt: comment.createdAt.toISOString(),
+      })),
+      votes: item.votes,
+    };
+  }
+
+  private toGroupSnapshot(group: RetroGroup): RetroGroupRecordSnapshot {
+    return {
+      id: group.id,
+      columnId: group.columnId,
+      name: group.name,
+      description: group.description,
+      color: this.toColumnColors(group.color),
+      orderIndex: group.orderIndex,
+      version: group.version,
+      createdAt: group.createdAt.toISOString(),
+    };
+  }
+
+  private async recordTombstones(
+    tx: Prisma.TransactionClient,
+    boardId: number,
+    entity: RetroTombstoneEntity,
+    entityIds: number[],
+  ) {
+    if (entityIds.length === 0) {
+      return;
+    }
+
+    await tx.retroTombstone.createMany({
+      data: entityIds.map((entityId) => ({ boardId, entity, entityId })),
+    });
+  }
+
+  /**
+   * A restored entity is live again, so delta sync must not report it as
+   * deleted; its fresh `updatedAt` brings it back to clients instead.
+   */
+  private async clearTombstones(
+    tx: Prisma.TransactionClient,
+    boardId: number,
+    entity: RetroTombstoneEntity,
+    entityIds: number[],
+  ) {
+    if (entityIds.length === 0) {
+      return;
+    }
+
+    await tx.retroTombstone.deleteMany({
+      where: { boardId, entity, entityId: { in: entityIds } },
+    });
+  }
+
+  private async getItemCardView(
+    itemId: number,
+    viewerUserId?: string,
+  ): Promise<CardView> {
     const item = await this.prisma.retroItem.findUnique({
       where: { id: itemId },
       select: {
@@ -1905,12 +3668,8 @@ export class RetroService {
           select: {
             board: {
               select: {
-                team: {
-                  select: {
-                    isAllCardsHidden: true,
-                  },
-                },
                 settings: true,
+                phase: true,
               },
             },
           },
@@ -1922,41 +3681,15 @@ export class RetroService {
       throw new NotFoundException(`Item ${itemId} not found`);
     }
 
-    return {
-      isAllCardsHidden: item.column.board.team.isAllCardsHidden,
-      showLikes: this.normalizeBoardSettings(item.column.board.settings)
-        .showLikes,
-    };
+    return this.toCardView(item.column.board, null, viewerUserId);
   }
 
   private maskItemDescription(
     description: string,
-    isAllCardsHidden: boolean,
+    card: CardRef,
+    view: CardView,
   ) {
-    return isAllCardsHidden ? '' : description;
-  }
-
-  private normalizeBoardSettings(settings: Prisma.JsonValue): BoardSettings {
-    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
-      return { ...DEFAULT_BOARD_SETTINGS };
-    }
-
-    const value = settings as Record<string, unknown>;
-    return {
-      showLikes:
-        typeof value.showLikes === 'boolean'
-          ? value.showLikes
-          : DEFAULT_BOARD_SETTINGS.showLikes,
-    };
-  }
-
-  private mergeBoardSettings(
-    current: BoardSettings,
-    patch: UpdateBoardSettingsDto,
-  ): BoardSettings {
-    return {
-      showLikes: patch.showLikes ?? current.showLikes,
-    };
+    return isCardTextVisible(view, card, view.viewerUserId) ? description : '';
   }
 
   private toColumnColors(color: Prisma.JsonValue): ColumnColors {
@@ -2014,3 +3747,17 @@ export class RetroService {
     );
   }
 }
+
+function getIntEnv(name: string, fallbackValue: number): number {
+  const rawValue = process.env[name]?.trim();
+  if (!rawValue) {
+    return fallbackValue;
+  }
+
+  const parsed = Number(rawValue);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+
+  return parsed;
+}
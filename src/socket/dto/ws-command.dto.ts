@@ -0,0 +1,189 @@
+import { IsIn, IsInt, IsOptional, Min } from 'class-validator';
+import {
+  EDIT_LOCK_ENTITIES,
+  EditLockEntity,
+} from '../../realtime/edit-lock.service';
+import {
+  CreateColumnDto,
+  CreateGroupDto,
+  CreateItemCommentDto,
+  CreateItemDto,
+  ExpectedVersionQueryDto,
+  ReorderColumnsDto,
+  SyncGroupPositionsDto,
+  SyncItemPositionsDto,
+  UpdateBoardNameDto,
+  UpdateColumnColorDto,
+  UpdateColumnDescriptionDto,
+  UpdateColumnNameDto,
+  UpdateGroupColorDto,
+  UpdateGroupDescriptionDto,
+  UpdateGroupNameDto,
+  UpdateItemColorDto,
+  UpdateItemCommentDto,
+  UpdateItemDescriptionDto,
+} from '../../retro/dto/retro.dto';
+import { StartTimerDto } from '../../timer/dto/timer.dto';
+
+// Websocket commands carry the REST body plus the id from the REST path,
+// so both transports share the same validation rules.
+
+export class WsBoardTargetDto {
+  @IsInt()
+  @Min(1)
+  boardId!: number;
+}
+
+export class WsBoardJoinDto extends WsBoardTargetDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  lastSeq?: number;
+}
+
+export class WsEditLockDto {
+  @IsIn(EDIT_LOCK_ENTITIES)
+  entity!: EditLockEntity;
+
+  @IsInt()
+  @Min(1)
+  entityId!: number;
+}
+
+export class WsRenameBoardDto extends UpdateBoardNameDto {
+  @IsInt()
+  @Min(1)
+  boardId!: number;
+}
+
+export class WsReorderColumnsDto extends ReorderColumnsDto {
+  @IsInt()
+  @Min(1)
+  boardId!: number;
+}
+
+export class WsSyncItemPositionsDto extends SyncItemPositionsDto {
+  @IsInt()
+  @Min(1)
+  boardId!: number;
+}
+
+export class WsSyncGroupPositionsDto extends SyncGroupPositionsDto {
+  @IsInt()
+  @Min(1)
+  boardId!: number;
+}
+
+export class WsCreateColumnDto extends CreateColumnDto {
+  @IsInt()
+  @Min(1)
+  boardId!: number;
+}
+
+export class WsUpdateColumnNameDto extends UpdateColumnNameDto {
+  @IsInt()
+  @Min(1)
+  columnId!: number;
+}
+
+export class WsUpdateColumnColorDto extends UpdateColumnColorDto {
+  @IsInt()
+  @Min(1)
+  columnId!: number;
+}
+
+export class WsUpdateColumnDescriptionDto extends UpdateColumnDescriptionDto {
+  @IsInt()
+  @Min(1)
+  columnId!: number;
+}
+
+export class WsDeleteColumnDto extends ExpectedVersionQueryDto {
+  @IsInt()
+  @Min(1)
+  columnId!: number;
+}
+
+export class WsCreateGroupDto extends CreateGroupDto {
+  @IsInt()
+  @Min(1)
+  columnId!: number;
+}
+
+export class WsUpdateGroupNameDto extends UpdateGroupNameDto {
+  @IsInt()
+  @Min(1)
+  groupId!: number;
+}
+
+export class WsUpdateGroupColorDto extends UpdateGroupColorDto {
+  @IsInt()
+  @Min(1)
+  groupId!: number;
+}
+
+export class WsUpdateGroupDescriptionDto extends UpdateGroupDescriptionDto {
+  @IsInt()
+  @Min(1)
+  groupId!: number;
+}
+
+export class WsDeleteGroupDto extends ExpectedVersionQueryDto {
+  @IsInt()
+  @Min(1)
+  groupId!: number;
+}
+
+export class WsCreateItemDto extends CreateItemDto {
+  @IsInt()
+  @Min(1)
+  columnId!: number;
+}
+
+export class WsItemTargetDto {
+  @IsInt()
+  @Min(1)
+  itemId!: number;
+}
+
+export class WsUpdateItemDescriptionDto extends UpdateItemDescriptionDto {
+  @IsInt()
+  @Min(1)
+  itemId!: number;
+}
+
+export class WsUpdateItemColorDto extends UpdateItemColorDto {
+  @IsInt()
+  @Min(1)
+  itemId!: number;
+}
+
+export class WsDeleteItemDto extends ExpectedVersionQueryDto {
+  @IsInt()
+  @Min(1)
+  itemId!: number;
+}
+
+export class WsCreateItemCommentDto extends CreateItemCommentDto {
+  @IsInt()
+  @Min(1)
+  itemId!: number;
+}
+
+export class WsUpdateItemCommentDto extends UpdateItemCommentDto {
+  @IsInt()
+  @Min(1)
+  commentId!: number;
+}
+
+export class WsDeleteItemCommentDto extends ExpectedVersionQueryDto {
+  @IsInt()
+  @Min(1)
+  commentId!: number;
+}
+
+export class WsStartTimerDto extends StartTimerDto {
+  @IsInt()
+  @Min(1)
+  boardId!: number;
+}
@@ -1,4 +1,4 @@
-import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Type, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import {
   ConnectedSocket,
@@ -8,49 +8,86 @@ import {
   OnGatewayInit,
   SubscribeMessage,
   WebSocketGateway,
-  WsException,
 } from '@nestjs/websockets';
 import { Public } from '../auth/decorators/public.decorator';
-import { AnonymousActorService } from '../auth/anonymous-actor.service';
+import {
+  GUEST_SESSION_REQUIRED_MESSAGE,
+  GuestSessionService,
+  GuestTokenPayload,
+  isGuestTokenPayload,
+} from '../auth/guest-session.service';
+import {
+  isTwoFactorChallengePayload,
+  TwoFactorChallengePayload,
+} from '../auth/two-factor.service';
 import { AccessActor } from '../auth/types/access-actor.type';
-import { RealtimeService } from '../realtime/realtime.service';
+import {
+  BOARD_RESYNC_EVENT,
+  BoardEventLogService,
+} from '../realtime/board-event-log.service';
+import {
+  EDIT_LOCK_EVENTS,
+  EditLockEntity,
+  EditLockService,
+} from '../realtime/edit-lock.service';
+import {
+  BOARD_PRESENCE_EVENTS,
+  getBoardRoom,
+  RealtimeService,
+} from '../realtime/realtime.service';
+import { RetroCommandService } from '../retro/retro-command.service';
 import { RetroService } from '../retro/retro.service';
+import { TimerCommandService } from '../timer/timer-command.service';
 import { Namespace, Socket } from 'socket.io';
-
-type WsJwtPayload = {
-  sub: string;
-  email: string;
-};
+import {
+  WsBoardJoinDto,
+  WsBoardTargetDto,
+  WsCreateColumnDto,
+  WsCreateGroupDto,
+  WsCreateItemCommentDto,
+  WsCreateItemDto,
+  WsDeleteColumnDto,
+  WsDeleteGroupDto,
+  WsDeleteItemCommentDto,
+  WsDeleteItemDto,
+  WsEditLockDto,
+  WsItemTargetDto,
+  WsRenameBoardDto,
+  WsReorderColumnsDto,
+  WsStartTimerDto,
+  WsSyncGroupPositionsDto,
+  WsSyncItemPositionsDto,
+  WsUpdateColumnColorDto,
+  WsUpdateColumnDescriptionDto,
+  WsUpdateColumnNameDto,
+  WsUpdateGroupColorDto,
+  WsUpdateGroupDescriptionDto,
+  WsUpdateGroupNameDto,
+  WsUpdateItemColorDto,
+  WsUpdateItemCommentDto,
+  WsUpdateItemDescriptionDto,
+} from './dto/ws-command.dto';
+import {
+  toWsAckError,
+  validateWsCommand,
+  WS_ERROR_CODES,
+  WsAck,
+  WsCommandException,
+} from './ws-command';
+
+type WsJwtPayload =
+  | {
+      sub: string;
+      email: string;
+    }
+  | GuestTokenPayload
+  | TwoFactorChallengePayload;
 
 type WsUser = {
   id: string;
   email: string;
-};
-
-type RenameBoardPayload = {
-  boardId: number;
-  name: string;
-};
-
-type ReorderColumnsPayload = {
-  boardId: number;
-  oldIndex: number;
-  newIndex: number;
-};
-
-type BoardJoinPayload = {
-  boardId: number;
-};
-
-type GroupPositionChangePayload = {
-  groupId: number;
-  newColumnId: number;
-  newOrderIndex: number;
-};
-
-type SyncGroupPositionsPayload = {
-  boardId: number;
-  changes: GroupPositionChangePayload[];
+  isGuest?: boolean;
+  guestBoardId?: number;
 };
 
 @Public()
@@ -71,8 +108,12 @@ export class RetroGateway
   constructor(
     private readonly jwtService: JwtService,
     private readonly retroService: RetroService,
+    private readonly retroCommandService: RetroCommandService,
+    private readonly timerCommandService: TimerCommandService,
     private readonly realtimeService: RealtimeService,
-    private readonly anonymousActorService: AnonymousActorService,
+    private readonly editLockService: EditLockService,
+    private readonly boardEventLogService: BoardEventLogService,
+    private readonly guestSessionService: GuestSessionService,
   ) {}
 
   afterInit(server: Namespace) {
@@ -86,10 +127,23 @@ export class RetroGateway
             secret: this.accessSecret,
           });
 
-          socket.data.user = {
-            id: payload.sub,
-            email: payload.email,
-          } satisfies WsUser;
+          if (isTwoFactorChallengePayload(payload)) {
+            throw new Error('Two-factor authentication required');
+          }
+
+          if (isGuestTokenPayload(payload)) {
+            const guest = await this.guestSessionService.resolveGuest(payload);
+            if (!guest) {
+              throw new Error('Guest session expired');
+            }
+
+            socket.data.user = guest satisfies WsUser;
+          } else {
+            socket.data.user = {
+              id: payload.sub,
+              email: payload.email,
+            } satisfies WsUser;
+          }
         }
 
         next();
@@ -114,202 +168,657 @@ export class RetroGateway
     client.send(userLog);
   }
 
-  handleDisconnect(client: Socket) {
-    this.realtimeService.unregisterClient(client);
+  async handleDisconnect(client: Socket) {
+    await this.editLockService.releaseSocketLocks(client.id);
+    await this.realtimeService.unregisterClient(client);
     this.logger.debug(`Socket disconnected: ${client.id}`);
   }
 
   @SubscribeMessage('board.join')
-  async handleBoardJoin(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() body: BoardJoinPayload,
-  ) {
-    const actor = await this.resolveActor(client);
-    const boardId = this.parseBoardId(body?.boardId);
+  handleBoardJoin(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('board.join', WsBoardJoinDto, body, async (dto) => {
+      const actor = await this.resolveActor(client);
 
-    try {
       // Reuse existing access checks from RetroService.
-      await this.retroService.getBoardColumns(boardId, actor.userId);
-      client.join(this.getBoardRoom(boardId));
-      return { joined: true, boardId };
-    } catch (error) {
-      if (error instanceof HttpException) {
-        throw new WsException(error.message);
+      await this.retroService.getBoardColumns(dto.boardId, actor.userId);
+      client.join(getBoardRoom(dto.boardId));
+      const participants = await this.realtimeService.joinBoardPresence(
+        client,
+        dto.boardId,
+      );
+      client.emit(BOARD_PRESENCE_EVENTS.snapshot, {
+        boardId: dto.boardId,
+        participants,
+      });
+
+      // Read after joining the room, so nothing falls between replay and live.
+      const replay = await this.boardEventLogService.readSince(
+        dto.boardId,
+        dto.lastSeq,
+      );
+      if (replay.resync) {
+        client.emit(BOARD_RESYNC_EVENT, { boardId: dto.boardId, seq: replay.seq });
       }
 
-      throw new WsException('Failed to join board room');
-    }
+      for (const event of replay.events) {
+        client.emit(event.event, event.payload);
+      }
+
+      return {
+        joined: true,
+        boardId: dto.boardId,
+        seq: replay.seq,
+        replayed: replay.events.length,
+        resync: replay.resync,
+      };
+    });
   }
 
-  @SubscribeMessage('board.rename')
-  async handleBoardRename(
+  @SubscribeMessage('board.leave')
+  handleBoardLeave(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('board.leave', WsBoardTargetDto, body, async (dto) => {
+      client.leave(getBoardRoom(dto.boardId));
+      await this.realtimeService.leaveBoardPresence(client, dto.boardId);
+      return { left: true, boardId: dto.boardId };
+    });
+  }
+
+  @SubscribeMessage('board.presence.ping')
+  handleBoardPresencePing(
     @ConnectedSocket() client: Socket,
-    @MessageBody() body: RenameBoardPayload,
+    @MessageBody() body: unknown,
   ) {
-    const actor = await this.resolveActor(client);
-    const boardId = this.parseBoardId(body?.boardId);
-    const name = this.parseBoardName(body?.name);
+    return this.runCommand('board.presence.ping', WsBoardTargetDto, body, async (dto) => {
+      if (!(await this.realtimeService.markBoardActivity(client, dto.boardId))) {
+        throw new WsCommandException(
+          WS_ERROR_CODES.boardNotJoined,
+          'Join the board before sending presence',
+        );
+      }
 
-    try {
-      const updatedBoard = await this.retroService.updateBoardName(boardId, actor.userId, name);
-      client.to(this.getBoardRoom(boardId)).emit('board.renamed', updatedBoard);
-      return updatedBoard;
-    } catch (error) {
-      if (error instanceof HttpException) {
-        throw new WsException(error.message);
+      return { active: true, boardId: dto.boardId };
+    });
+  }
+
+  @SubscribeMessage('lock.acquire')
+  handleLockAcquire(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('lock.acquire', WsEditLockDto, body, async (dto) => {
+      const actor = await this.resolveActor(client);
+      const boardId = await this.getLockBoardId(dto.entity, dto.entityId, actor.userId);
+      const participant = await this.realtimeService.getPresenceParticipant(
+        client,
+        boardId,
+      );
+      if (!participant) {
+        throw new WsCommandException(
+          WS_ERROR_CODES.boardNotJoined,
+          'Join the board before locking',
+        );
       }
 
-      throw new WsException('Failed to rename board');
-    }
+      await this.realtimeService.markBoardActivity(client, boardId);
+      const lock = await this.editLockService.acquire(
+        { entity: dto.entity, entityId: dto.entityId, boardId },
+        {
+          socketId: client.id,
+          userId: actor.userId,
+          name: participant.name,
+          isGuest: Boolean(actor.isGuest),
+        },
+      );
+      client.to(getBoardRoom(boardId)).emit(EDIT_LOCK_EVENTS.acquired, lock);
+      return lock;
+    });
   }
 
-  @SubscribeMessage('board.columns.reorder')
-  async handleBoardColumnsReorder(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() body: ReorderColumnsPayload,
-  ) {
-    const actor = await this.resolveActor(client);
-    const boardId = this.parseBoardId(body?.boardId);
-    const oldIndex = this.parseNonNegativeInt(body?.oldIndex, 'oldIndex');
-    const newIndex = this.parseNonNegativeInt(body?.newIndex, 'newIndex');
+  @SubscribeMessage('lock.renew')
+  handleLockRenew(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('lock.renew', WsEditLockDto, body, async (dto) => {
+      const lock = await this.editLockService.renew(dto.entity, dto.entityId, client.id);
+      await this.realtimeService.markBoardActivity(client, lock.boardId);
+      return lock;
+    });
+  }
 
-    try {
-      const columns = await this.retroService.reorderColumns(
-        boardId,
+  @SubscribeMessage('lock.typing')
+  handleLockTyping(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('lock.typing', WsEditLockDto, body, async (dto) => {
+      // Typing keeps the lock alive, so clients do not need a separate renew.
+      const lock = await this.editLockService.renew(dto.entity, dto.entityId, client.id);
+      await this.realtimeService.markBoardActivity(client, lock.boardId);
+      client.to(getBoardRoom(lock.boardId)).emit(EDIT_LOCK_EVENTS.typing, lock);
+      return lock;
+    });
+  }
+
+  @SubscribeMessage('lock.release')
+  handleLockRelease(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('lock.release', WsEditLockDto, body, async (dto) => {
+      const lock = await this.editLockService.release(dto.entity, dto.entityId, client.id);
+      if (lock) {
+        client.to(getBoardRoom(lock.boardId)).emit(EDIT_LOCK_EVENTS.released, {
+          entity: dto.entity,
+          entityId: dto.entityId,
+          boardId: lock.boardId,
+        });
+      }
+
+      return { released: Boolean(lock), entity: dto.entity, entityId: dto.entityId };
+    });
+  }
+
+  @SubscribeMessage('board.rename')
+  handleBoardRename(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('board.rename', WsRenameBoardDto, body, async (dto) => {
+      const actor = await this.resolveActor(client);
+      const updatedBoard = await this.retroService.updateBoardName(
+        dto.boardId,
         actor.userId,
-        oldIndex,
-        newIndex,
+        dto.name,
+        dto.expectedVersion,
       );
-      const payload = { boardId, columns };
-      client.to(this.getBoardRoom(boardId)).emit('board.columns.reordered', payload);
-      client
-        .to(this.getBoardRoom(boardId))
-        .emit('retro.board.columns.reordered', payload);
-      return columns;
-    } catch (error) {
-      if (error instanceof HttpException) {
-        throw new WsException(error.message);
-      }
+      await this.realtimeService.emitToBoard(
+        dto.boardId,
+        'board.renamed',
+        updatedBoard,
+        actor.userId,
+      );
+      return updatedBoard;
+    });
+  }
 
-      throw new WsException('Failed to reorder board columns');
-    }
+  @SubscribeMessage('board.columns.reorder')
+  handleBoardColumnsReorder(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'board.columns.reorder',
+      WsReorderColumnsDto,
+      body,
+      async (dto) => {
+        const actor = await this.resolveActor(client);
+        const columns = await this.retroService.reorderColumns(
+          dto.boardId,
+          actor.userId,
+          dto.oldIndex,
+          dto.newIndex,
+        );
+        const payload = { boardId: dto.boardId, columns };
+        await this.realtimeService.emitToBoard(
+          dto.boardId,
+          'retro.board.columns.reordered',
+          payload,
+          actor.userId,
+        );
+        // Legacy alias: one reorder is one logged event, so it is not replayed.
+        await this.realtimeService.emitTransientToBoard(
+          dto.boardId,
+          'board.columns.reordered',
+          payload,
+          actor.userId,
+        );
+        return columns;
+      },
+    );
   }
 
   @SubscribeMessage('board.groups.positions.sync')
-  async handleBoardGroupsPositionsSync(
+  handleBoardGroupsPositionsSync(
     @ConnectedSocket() client: Socket,
-    @MessageBody() body: SyncGroupPositionsPayload,
+    @MessageBody() body: unknown,
   ) {
-    const actor = await this.resolveActor(client);
-    const boardId = this.parseBoardId(body?.boardId);
-    const changes = this.parseGroupPositionChanges(body?.changes);
+    return this.runCommand(
+      'board.groups.positions.sync',
+      WsSyncGroupPositionsDto,
+      body,
+      async (dto) => {
+        const actor = await this.resolveActor(client);
+        const result = await this.retroCommandService.syncGroupPositions(
+          actor,
+          dto.boardId,
+          dto.changes,
+        );
+        await this.realtimeService.emitToBoard(
+          dto.boardId,
+          'board.groups.positions.synced',
+          result,
+          actor.userId,
+        );
+        return result;
+      },
+    );
+  }
 
-    try {
-      const result = await this.retroService.syncGroupPositions(
-        boardId,
-        actor.userId,
-        changes,
-      );
-      client
-        .to(this.getBoardRoom(boardId))
-        .emit('board.groups.positions.synced', result);
-      client
-        .to(this.getBoardRoom(boardId))
-        .emit('retro.board.groups.positions.synced', result);
-      return result;
-    } catch (error) {
-      if (error instanceof HttpException) {
-        throw new WsException(error.message);
-      }
+  @SubscribeMessage('board.items.positions.sync')
+  handleBoardItemsPositionsSync(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'board.items.positions.sync',
+      WsSyncItemPositionsDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.syncItemPositions(
+          await this.resolveActor(client),
+          dto.boardId,
+          dto.changes,
+        ),
+    );
+  }
 
-      throw new WsException('Failed to sync group positions');
-    }
+  @SubscribeMessage('board.undo')
+  handleBoardUndo(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('board.undo', WsBoardTargetDto, body, async (dto) =>
+      this.retroCommandService.undo(await this.resolveActor(client), dto.boardId),
+    );
   }
 
-  private extractAuthToken(client: Socket): string | null {
-    const token = client.handshake.auth?.token;
+  @SubscribeMessage('board.redo')
+  handleBoardRedo(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('board.redo', WsBoardTargetDto, body, async (dto) =>
+      this.retroCommandService.redo(await this.resolveActor(client), dto.boardId),
+    );
+  }
 
-    if (typeof token !== 'string' || !token.trim()) {
-      return null;
-    }
+  @SubscribeMessage('column.create')
+  handleColumnCreate(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('column.create', WsCreateColumnDto, body, async (dto) =>
+      this.retroCommandService.createColumn(
+        await this.resolveActor(client),
+        dto.boardId,
+        dto,
+      ),
+    );
+  }
 
-    return token.trim();
+  @SubscribeMessage('column.name.update')
+  handleColumnNameUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'column.name.update',
+      WsUpdateColumnNameDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateColumnName(
+          await this.resolveActor(client),
+          dto.columnId,
+          dto,
+        ),
+    );
   }
 
-  private async resolveActor(client: Socket): Promise<AccessActor> {
-    const user = client.data.user as WsUser | undefined;
-    if (user) {
-      return {
-        userId: user.id,
-        isAnonymous: false,
-      };
-    }
+  @SubscribeMessage('column.color.update')
+  handleColumnColorUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'column.color.update',
+      WsUpdateColumnColorDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateColumnColor(
+          await this.resolveActor(client),
+          dto.columnId,
+          dto,
+        ),
+    );
+  }
 
-    return {
-      userId: await this.anonymousActorService.getOrCreateGuestUserId(),
-      isAnonymous: true,
-    };
+  @SubscribeMessage('column.description.update')
+  handleColumnDescriptionUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'column.description.update',
+      WsUpdateColumnDescriptionDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateColumnDescription(
+          await this.resolveActor(client),
+          dto.columnId,
+          dto,
+        ),
+    );
   }
 
-  private parseBoardId(boardId: unknown): number {
-    if (typeof boardId !== 'number' || !Number.isInteger(boardId) || boardId < 1) {
-      throw new WsException('boardId must be a positive integer');
-    }
+  @SubscribeMessage('column.delete')
+  handleColumnDelete(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('column.delete', WsDeleteColumnDto, body, async (dto) =>
+      this.retroCommandService.deleteColumn(
+        await this.resolveActor(client),
+        dto.columnId,
+        dto.expectedVersion,
+      ),
+    );
+  }
 
-    return boardId;
+  @SubscribeMessage('group.create')
+  handleGroupCreate(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('group.create', WsCreateGroupDto, body, async (dto) =>
+      this.retroCommandService.createGroup(
+        await this.resolveActor(client),
+        dto.columnId,
+        dto,
+      ),
+    );
   }
 
-  private parseBoardName(name: unknown): string {
-    if (typeof name !== 'string' || !name.trim()) {
-      throw new WsException('name must be a non-empty string');
-    }
+  @SubscribeMessage('group.name.update')
+  handleGroupNameUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'group.name.update',
+      WsUpdateGroupNameDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateGroupName(
+          await this.resolveActor(client),
+          dto.groupId,
+          dto,
+        ),
+    );
+  }
 
-    return name.trim();
+  @SubscribeMessage('group.color.update')
+  handleGroupColorUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'group.color.update',
+      WsUpdateGroupColorDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateGroupColor(
+          await this.resolveActor(client),
+          dto.groupId,
+          dto,
+        ),
+    );
   }
 
-  private parseNonNegativeInt(value: unknown, fieldName: string): number {
-    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
-      throw new WsException(`${fieldName} must be a non-negative integer`);
-    }
+  @SubscribeMessage('group.description.update')
+  handleGroupDescriptionUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'group.description.update',
+      WsUpdateGroupDescriptionDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateGroupDescription(
+          await this.resolveActor(client),
+          dto.groupId,
+          dto,
+        ),
+    );
+  }
 
-    return value;
+  @SubscribeMessage('group.delete')
+  handleGroupDelete(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('group.delete', WsDeleteGroupDto, body, async (dto) =>
+      this.retroCommandService.deleteGroup(
+        await this.resolveActor(client),
+        dto.groupId,
+        dto.expectedVersion,
+      ),
+    );
   }
 
-  private parsePositiveInt(value: unknown, fieldName: string): number {
-    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
-      throw new WsException(`${fieldName} must be a positive integer`);
-    }
+  @SubscribeMessage('item.create')
+  handleItemCreate(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('item.create', WsCreateItemDto, body, async (dto) =>
+      this.retroCommandService.addItemToColumn(
+        await this.resolveActor(client),
+        dto.columnId,
+        dto,
+      ),
+    );
+  }
 
-    return value;
+  @SubscribeMessage('item.description.update')
+  handleItemDescriptionUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'item.description.update',
+      WsUpdateItemDescriptionDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateItemDescription(
+          await this.resolveActor(client),
+          dto.itemId,
+          dto,
+        ),
+    );
   }
 
-  private parseGroupPositionChanges(value: unknown): GroupPositionChangePayload[] {
-    if (!Array.isArray(value)) {
-      throw new WsException('changes must be an array');
-    }
+  @SubscribeMessage('item.color.update')
+  handleItemColorUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand(
+      'item.color.update',
+      WsUpdateItemColorDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateItemColor(
+          await this.resolveActor(client),
+          dto.itemId,
+          dto,
+        ),
+    );
+  }
 
-    return value.map((change, index) => {
-      if (typeof change !== 'object' || change === null) {
-        throw new WsException(`changes[${index}] must be an object`);
-      }
+  @SubscribeMessage('item.delete')
+  handleItemDelete(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('item.delete', WsDeleteItemDto, body, async (dto) =>
+      this.retroCommandService.deleteItem(
+        await this.resolveActor(client),
+        dto.itemId,
+        dto.expectedVersion,
+      ),
+    );
+  }
 
-      const record = change as Record<string, unknown>;
-      return {
-        groupId: this.parsePositiveInt(record.groupId, `changes[${index}].groupId`),
-        newColumnId: this.parsePositiveInt(
-          record.newColumnId,
-          `changes[${index}].newColumnId`,
+  @SubscribeMessage('item.like.toggle')
+  handleItemLikeToggle(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand('item.like.toggle', WsItemTargetDto, body, async (dto) =>
+      this.retroCommandService.toggleItemLike(
+        await this.resolveActor(client),
+        dto.itemId,
+      ),
+    );
+  }
+
+  @SubscribeMessage('item.vote.cast')
+  handleItemVoteCast(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('item.vote.cast', WsItemTargetDto, body, async (dto) =>
+      this.retroCommandService.castItemVote(
+        await this.resolveActor(client),
+        dto.itemId,
+      ),
+    );
+  }
+
+  @SubscribeMessage('item.vote.retract')
+  handleItemVoteRetract(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: unknown,
+  ) {
+    return this.runCommand('item.vote.retract', WsItemTargetDto, body, async (dto) =>
+      this.retroCommandService.retractItemVote(
+        await this.resolveActor(client),
+        dto.itemId,
+      ),
+    );
+  }
+
+  @SubscribeMessage('comment.create')
+  handleCommentCreate(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand(
+      'comment.create',
+      WsCreateItemCommentDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.createItemComment(
+          await this.resolveActor(client),
+          dto.itemId,
+          dto,
         ),
-        newOrderIndex: this.parseNonNegativeInt(
-          record.newOrderIndex,
-          `changes[${index}].newOrderIndex`,
+    );
+  }
+
+  @SubscribeMessage('comment.update')
+  handleCommentUpdate(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand(
+      'comment.update',
+      WsUpdateItemCommentDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.updateItemComment(
+          await this.resolveActor(client),
+          dto.commentId,
+          dto,
         ),
+    );
+  }
+
+  @SubscribeMessage('comment.delete')
+  handleCommentDelete(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand(
+      'comment.delete',
+      WsDeleteItemCommentDto,
+      body,
+      async (dto) =>
+        this.retroCommandService.deleteItemComment(
+          await this.resolveActor(client),
+          dto.commentId,
+          dto.expectedVersion,
+        ),
+    );
+  }
+
+  @SubscribeMessage('timer.start')
+  handleTimerStart(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('timer.start', WsStartTimerDto, body, async (dto) =>
+      this.timerCommandService.startTimer(
+        await this.resolveActor(client),
+        dto.boardId,
+        dto,
+      ),
+    );
+  }
+
+  @SubscribeMessage('timer.pause')
+  handleTimerPause(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('timer.pause', WsBoardTargetDto, body, async (dto) =>
+      this.timerCommandService.pauseTimer(await this.resolveActor(client), dto.boardId),
+    );
+  }
+
+  @SubscribeMessage('timer.resume')
+  handleTimerResume(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('timer.resume', WsBoardTargetDto, body, async (dto) =>
+      this.timerCommandService.resumeTimer(await this.resolveActor(client), dto.boardId),
+    );
+  }
+
+  @SubscribeMessage('timer.delete')
+  handleTimerDelete(@ConnectedSocket() client: Socket, @MessageBody() body: unknown) {
+    return this.runCommand('timer.delete', WsBoardTargetDto, body, async (dto) =>
+      this.timerCommandService.deleteTimer(await this.resolveActor(client), dto.boardId),
+    );
+  }
+
+  /**
+   * Validates the payload like the REST body and wraps the outcome into
+   * the shared ack envelope instead of throwing to the client.
+   */
+  private async runCommand<TDto extends object, TResult>(
+    command: string,
+    metatype: Type<TDto>,
+    body: unknown,
+    handler: (dto: TDto) => TResult | Promise<TResult>,
+  ): Promise<WsAck<TResult>> {
+    try {
+      const dto = await validateWsCommand(metatype, body);
+      return { ok: true, data: await handler(dto) };
+    } catch (error) {
+      const ackError = toWsAckError(error);
+      if (ackError) {
+        return { ok: false, error: ackError };
+      }
+
+      this.logger.error(
+        `Command ${command} failed`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      return {
+        ok: false,
+        error: {
+          code: WS_ERROR_CODES.internal,
+          message: `Failed to run ${command}`,
+        },
       };
-    });
+    }
+  }
+
+  private extractAuthToken(client: Socket): string | null {
+    const token = client.handshake.auth?.token;
+
+    if (typeof token !== 'string' || !token.trim()) {
+      return null;
+    }
+
+    return token.trim();
   }
 
-  private getBoardRoom(boardId: number): string {
-    return `board:${boardId}`;
+  private async resolveActor(client: Socket): Promise<AccessActor> {
+    const user = client.data.user as WsUser | undefined;
+    // Sockets without a token may connect, but act only with a guest session.
+    if (!user) {
+      throw new UnauthorizedException(GUEST_SESSION_REQUIRED_MESSAGE);
+    }
+
+    return {
+      userId: user.id,
+      isGuest: Boolean(user.isGuest),
+    };
+  }
+
+  private async getLockBoardId(
+    entity: EditLockEntity,
+    entityId: number,
+    userId: string,
+  ): Promise<number> {
+    // Realtime contexts double as access checks for the locked entity.
+    if (entity === 'item') {
+      return (await this.retroService.getItemRealtimeContext(entityId, userId))
+        .boardId;
+    }
+
+    if (entity === 'group') {
+      return (await this.retroService.getGroupRealtimeContext(entityId, userId))
+        .boardId;
+    }
+
+    return (await this.retroService.getColumnRealtimeContext(entityId, userId))
+      .boardId;
   }
 }
 
@@ -3,10 +3,17 @@ import { AuthModule } from '../auth/auth.module';
 import { JwtModule } from '@nestjs/jwt';
 import { RealtimeModule } from '../realtime/realtime.module';
 import { RetroModule } from '../retro/retro.module';
+import { TimerModule } from '../timer/timer.module';
 import { RetroGateway } from './retro.gateway';
 
 @Module({
-  imports: [JwtModule.register({}), AuthModule, RetroModule, RealtimeModule],
+  imports: [
+    JwtModule.register({}),
+    AuthModule,
+    RetroModule,
+    TimerModule,
+    RealtimeModule,
+  ],
   providers: [RetroGateway],
 })
 export class SocketModule {}
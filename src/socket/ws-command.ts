@@ -0,0 +1,109 @@
+import { HttpException, HttpStatus, Type, ValidationPipe } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { EDIT_LOCKED_ERROR_CODE } from '../realtime/edit-lock.service';
+
+export const WS_ERROR_CODES = {
+  validationFailed: 'VALIDATION_FAILED',
+  badRequest: 'BAD_REQUEST',
+  unauthorized: 'UNAUTHORIZED',
+  forbidden: 'FORBIDDEN',
+  notFound: 'NOT_FOUND',
+  conflict: 'CONFLICT',
+  versionConflict: 'VERSION_CONFLICT',
+  editLocked: EDIT_LOCKED_ERROR_CODE,
+  boardNotJoined: 'BOARD_NOT_JOINED',
+  internal: 'INTERNAL_ERROR',
+} as const;
+
+export type WsErrorCode = (typeof WS_ERROR_CODES)[keyof typeof WS_ERROR_CODES];
+
+export type WsAckError = {
+  code: WsErrorCode;
+  message: string;
+  details?: string[];
+  current?: unknown;
+};
+
+/**
+ * Every websocket command acks with this envelope; `code` is stable and
+ * meant for client logic, `message` is for humans.
+ */
+export type WsAck<T> = { ok: true; data: T } | { ok: false; error: WsAckError };
+
+export class WsCommandException extends WsException {
+  constructor(
+    readonly code: WsErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const STATUS_CODES: Partial<Record<number, WsErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: WS_ERROR_CODES.badRequest,
+  [HttpStatus.UNAUTHORIZED]: WS_ERROR_CODES.unauthorized,
+  [HttpStatus.FORBIDDEN]: WS_ERROR_CODES.forbidden,
+  [HttpStatus.NOT_FOUND]: WS_ERROR_CODES.notFound,
+  [HttpStatus.CONFLICT]: WS_ERROR_CODES.conflict,
+};
+
+// Same options as the global REST pipe in main.ts.
+const validationPipe = new ValidationPipe({
+  whitelist: true,
+  transform: true,
+  forbidNonWhitelisted: true,
+});
+
+export async function validateWsCommand<T extends object>(
+  metatype: Type<T>,
+  payload: unknown,
+): Promise<T> {
+  return (await validationPipe.transform(payload ?? {}, {
+    type: 'body',
+    metatype,
+  })) as T;
+}
+
+/**
+ * Returns null for errors that are not meant for the client.
+ */
+export function toWsAckError(error: unknown): WsAckError | null {
+  if (error instanceof WsCommandException) {
+    return { code: error.code, message: error.message };
+  }
+
+  if (error instanceof WsException) {
+    return { code: WS_ERROR_CODES.badRequest, message: error.message };
+  }
+
+  if (!(error instanceof HttpException) || error.getStatus() >= 500) {
+    return null;
+  }
+
+  const response = error.getResponse();
+  const body =
+    typeof response === 'object' ? (response as Record<string, unknown>) : {};
+
+  if (Array.isArray(body.message)) {
+    return {
+      code: WS_ERROR_CODES.validationFailed,
+      message: 'Validation failed',
+      details: body.message.map(String),
+    };
+  }
+
+  if ('current' in body) {
+    return {
+      code: WS_ERROR_CODES.versionConflict,
+      message: error.message,
+      current: body.current,
+    };
+  }
+
+  const code =
+    typeof body.code === 'string'
+      ? (body.code as WsErrorCode)
+      : (STATUS_CODES[error.getStatus()] ?? WS_ERROR_CODES.badRequest);
+
+  return { code, message: error.message };
+}
@@ -7,6 +7,10 @@ import {
 import { Prisma, TeamRole } from '@prisma/client';
 import { randomBytes } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  ensureAdminTwoFactor,
+  TEAM_ADMIN_MEMBER_SELECT,
+} from '../team/team-admin-two-factor';
 import {
   AcceptInviteResponseDto,
   InviteInfoResponseDto,
@@ -95,12 +99,13 @@ export class TeamInviteService {
         board: {
           select: {
             name: true,
+            deletedAt: true,
           },
         },
       },
     });
 
-    if (!invite || !invite.isActive) {
+    if (!invite || !invite.isActive || invite.board.deletedAt) {
       throw new NotFoundException('Invite not found');
     }
 
@@ -122,13 +127,26 @@ export class TeamInviteService {
           isActive: true,
           teamId: true,
           boardId: true,
+          board: {
+            select: {
+              deletedAt: true,
+            },
+          },
         },
       });
 
-      if (!invite || !invite.isActive) {
+      if (!invite || !invite.isActive || invite.board.deletedAt) {
         throw new NotFoundException('Invite not found');
       }
 
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { emailVerifiedAt: true },
+      });
+      if (!user?.emailVerifiedAt) {
+        throw new ForbiddenException('Verify your email before joining a team');
+      }
+
       const existingMember = await tx.teamMember.findUnique({
         where: {
           teamId_userId: {
@@ -175,8 +193,8 @@ export class TeamInviteService {
   }
 
   private async ensureBoardAdminOrOwner(boardId: number, userId: string): Promise<{ id: number; teamId: number }> {
-    const board = await this.prisma.retroBoard.findUnique({
-      where: { id: boardId },
+    const board = await this.prisma.retroBoard.findFirst({
+      where: { id: boardId, deletedAt: null },
       select: {
         id: true,
         teamId: true,
@@ -194,9 +212,7 @@ export class TeamInviteService {
           userId,
         },
       },
-      select: {
-        role: true,
-      },
+      select: TEAM_ADMIN_MEMBER_SELECT,
     });
 
     if (!teamMember) {
@@ -207,6 +223,8 @@ export class TeamInviteService {
       throw new ForbiddenException('Insufficient permissions to manage board share link');
     }
 
+    ensureAdminTwoFactor(teamMember);
+
     return board;
   }
 
@@ -38,14 +38,14 @@ export class UpdateTeamMemberRoleDto {
   role!: TeamRole;
 }
 
-export class UpdateTeamCardsVisibilityDto {
+export class UpdateTeamAnonymousBoardAccessDto {
   @ApiProperty({ example: true })
   @IsBoolean()
-  isAllCardsHidden!: boolean;
+  isAnonymousBoardAccessEnabled!: boolean;
 }
 
-export class UpdateTeamAnonymousBoardAccessDto {
+export class UpdateTeamTwoFactorRequirementDto {
   @ApiProperty({ example: true })
   @IsBoolean()
-  isAnonymousBoardAccessEnabled!: boolean;
+  isTwoFactorRequiredForAdmins!: boolean;
 }
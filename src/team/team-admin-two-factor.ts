@@ -0,0 +1,33 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Prisma, TeamRole } from '@prisma/client';
+
+/**
+ * Membership fields needed to authorize an OWNER/ADMIN action, including
+ * the team's two-factor requirement.
+ */
+export const TEAM_ADMIN_MEMBER_SELECT = {
+  role: true,
+  team: { select: { isTwoFactorRequiredForAdmins: true } },
+  user: { select: { totpEnabledAt: true } },
+} satisfies Prisma.TeamMemberSelect;
+
+export type TeamAdminMember = Prisma.TeamMemberGetPayload<{
+  select: typeof TEAM_ADMIN_MEMBER_SELECT;
+}>;
+
+/**
+ * Teams holding sensitive feedback can require two-factor authentication
+ * for OWNER/ADMIN. Such admins keep their membership without 2FA but cannot
+ * use admin powers until they enable it. Plain members are never affected.
+ */
+export function ensureAdminTwoFactor(member: TeamAdminMember) {
+  if (member.role === TeamRole.MEMBER) {
+    return;
+  }
+
+  if (member.team.isTwoFactorRequiredForAdmins && !member.user.totpEnabledAt) {
+    throw new ForbiddenException(
+      'Two-factor authentication is required for team admins',
+    );
+  }
+}
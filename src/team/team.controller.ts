@@ -7,15 +7,20 @@ import {
   AddTeamMemberDto,
   CreateTeamDto,
   UpdateTeamAnonymousBoardAccessDto,
-  UpdateTeamCardsVisibilityDto,
   UpdateTeamDto,
   UpdateTeamMemberRoleDto,
+  UpdateTeamTwoFactorRequirementDto,
 } from './dto/team.dto';
 import { TeamService } from './team.service';
 
 const TEAM_EVENTS = {
-  allCardsVisibilityUpdated: 'team.all-cards-visibility.updated',
+  updated: 'team.updated',
   anonymousBoardAccessUpdated: 'team.anonymous-board-access.updated',
+  twoFactorRequirementUpdated: 'team.two-factor-requirement.updated',
+  memberAdded: 'team.member.added',
+  memberRemoved: 'team.member.removed',
+  memberLeft: 'team.member.left',
+  memberRoleUpdated: 'team.member.role.updated',
 } as const;
 
 @ApiTags('teams')
@@ -66,84 +71,92 @@ export class TeamController {
       },
     },
   })
-  updateTeam(
+  async updateTeam(
     @CurrentUser() user: AuthenticatedUser,
     @Param('teamId', ParseIntPipe) teamId: number,
     @Body() body: UpdateTeamDto,
   ) {
-    return this.teamService.updateTeam(teamId, user.id, body);
+    const result = await this.teamService.updateTeam(teamId, user.id, body);
+    await this.realtimeService.emitToTeam(teamId, TEAM_EVENTS.updated, result, user.id);
+    return result;
   }
 
-  @Patch(':teamId/is-all-cards-hidden')
-  @ApiOperation({ summary: 'Update team cards visibility (OWNER/ADMIN only)' })
+  @Patch(':teamId/anonymous-board-access')
+  @ApiOperation({ summary: 'Update anonymous board access (OWNER/ADMIN only)' })
   @ApiBody({
     schema: {
       example: {
-        isAllCardsHidden: true,
+        isAnonymousBoardAccessEnabled: true,
       },
     },
   })
   @ApiOkResponse({
-    description: 'Team cards visibility updated',
+    description: 'Anonymous board access updated',
     schema: {
       example: {
         id: 1,
-        isAllCardsHidden: true,
-        updatedAt: '2026-02-25T12:30:00.000Z',
+        isAnonymousBoardAccessEnabled: true,
+        updatedAt: '2026-03-04T12:30:00.000Z',
       },
     },
   })
-  async updateTeamCardsVisibility(
+  async updateAnonymousBoardAccess(
     @CurrentUser() user: AuthenticatedUser,
     @Param('teamId', ParseIntPipe) teamId: number,
-    @Body() body: UpdateTeamCardsVisibilityDto,
+    @Body() body: UpdateTeamAnonymousBoardAccessDto,
   ) {
-    const result = await this.teamService.updateIsAllCardsHidden(
+    const result = await this.teamService.updateAnonymousBoardAccess(
       teamId,
       user.id,
-      body.isAllCardsHidden,
+      body.isAnonymousBoardAccessEnabled,
     );
     await this.realtimeService.emitToTeam(
       teamId,
-      TEAM_EVENTS.allCardsVisibilityUpdated,
+      TEAM_EVENTS.anonymousBoardAccessUpdated,
       result,
       user.id,
     );
+    if (!result.isAnonymousBoardAccessEnabled) {
+      await this.realtimeService.evictUnauthorizedBoardSockets(teamId);
+    }
     return result;
   }
 
-  @Patch(':teamId/anonymous-board-access')
-  @ApiOperation({ summary: 'Update anonymous board access (OWNER/ADMIN only)' })
+  @Patch(':teamId/two-factor-requirement')
+  @ApiOperation({
+    summary:
+      'Require two-factor authentication for OWNER/ADMIN actions (OWNER/ADMIN only)',
+  })
   @ApiBody({
     schema: {
       example: {
-        isAnonymousBoardAccessEnabled: true,
+        isTwoFactorRequiredForAdmins: true,
       },
     },
   })
   @ApiOkResponse({
-    description: 'Anonymous board access updated',
+    description: 'Two-factor requirement updated',
     schema: {
       example: {
         id: 1,
-        isAnonymousBoardAccessEnabled: true,
-        updatedAt: '2026-03-04T12:30:00.000Z',
+        isTwoFactorRequiredForAdmins: true,
+        updatedAt: '2026-03-28T12:30:00.000Z',
       },
     },
   })
-  async updateAnonymousBoardAccess(
+  async updateTwoFactorRequirement(
     @CurrentUser() user: AuthenticatedUser,
     @Param('teamId', ParseIntPipe) teamId: number,
-    @Body() body: UpdateTeamAnonymousBoardAccessDto,
+    @Body() body: UpdateTeamTwoFactorRequirementDto,
   ) {
-    const result = await this.teamService.updateAnonymousBoardAccess(
+    const result = await this.teamService.updateTwoFactorRequirement(
       teamId,
       user.id,
-      body.isAnonymousBoardAccessEnabled,
+      body.isTwoFactorRequiredForAdmins,
     );
     await this.realtimeService.emitToTeam(
       teamId,
-      TEAM_EVENTS.anonymousBoardAccessUpdated,
+      TEAM_EVENTS.twoFactorRequirementUpdated,
       result,
       user.id,
     );
@@ -169,31 +182,52 @@ export class TeamController {
       },
     },
   })
-  addMember(
+  async addMember(
     @CurrentUser() user: AuthenticatedUser,
     @Param('teamId', ParseIntPipe) teamId: number,
     @Body() body: AddTeamMemberDto,
   ) {
-    return this.teamService.addMember(teamId, user.id, body);
+    const member = await this.teamService.addMember(teamId, user.id, body);
+    await this.realtimeService.emitToTeam(
+      teamId,
+      TEAM_EVENTS.memberAdded,
+      { teamId, member },
+      user.id,
+    );
+    return member;
   }
 
   @Delete(':teamId/members/:userId')
   @ApiOperation({ summary: 'Remove team member (OWNER/ADMIN only)' })
-  removeMember(
+  async removeMember(
     @CurrentUser() user: AuthenticatedUser,
     @Param('teamId', ParseIntPipe) teamId: number,
     @Param('userId') memberUserId: string,
   ) {
-    return this.teamService.removeMember(teamId, user.id, memberUserId);
+    const result = await this.teamService.removeMember(teamId, user.id, memberUserId);
+    await this.realtimeService.emitToTeam(
+      teamId,
+      TEAM_EVENTS.memberRemoved,
+      { teamId, userId: memberUserId },
+      user.id,
+    );
+    await this.realtimeService.evictUnauthorizedBoardSockets(teamId);
+    return result;
   }
 
   @Delete(':teamId/leave')
   @ApiOperation({ summary: 'Leave team where current user is a member' })
-  leaveTeam(
+  async leaveTeam(
     @CurrentUser() user: AuthenticatedUser,
     @Param('teamId', ParseIntPipe) teamId: number,
   ) {
-    return this.teamService.leaveTeam(teamId, user.id);
+    const result = await this.teamService.leaveTeam(teamId, user.id);
+    await this.realtimeService.emitToTeam(teamId, TEAM_EVENTS.memberLeft, {
+      teamId,
+      userId: user.id,
+    });
+    await this.realtimeService.evictUnauthorizedBoardSockets(teamId);
+    return result;
   }
 
   @Patch(':teamId/members/:userId/role')
@@ -205,12 +239,24 @@ export class TeamController {
       },
     },
   })
-  updateMemberRole(
+  async updateMemberRole(
     @CurrentUser() user: AuthenticatedUser,
     @Param('teamId', ParseIntPipe) teamId: number,
     @Param('userId') memberUserId: string,
     @Body() body: UpdateTeamMemberRoleDto,
   ) {
-    return this.teamService.updateMemberRole(teamId, user.id, memberUserId, body.role);
+    const member = await this.teamService.updateMemberRole(
+      teamId,
+      user.id,
+      memberUserId,
+      body.role,
+    );
+    await this.realtimeService.emitToTeam(
+      teamId,
+      TEAM_EVENTS.memberRoleUpdated,
+      { teamId, member },
+      user.id,
+    );
+    return member;
   }
 }
@@ -8,6 +8,10 @@ import {
 import { Prisma, TeamRole } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AddTeamMemberDto, CreateTeamDto, UpdateTeamDto } from './dto/team.dto';
+import {
+  ensureAdminTwoFactor,
+  TEAM_ADMIN_MEMBER_SELECT,
+} from './team-admin-two-factor';
 
 type TeamMembershipWithTeam = Prisma.TeamMemberGetPayload<{
   select: {
@@ -17,6 +21,7 @@ type TeamMembershipWithTeam = Prisma.TeamMemberGetPayload<{
         id: true;
         name: true;
         isAnonymousBoardAccessEnabled: true;
+        isTwoFactorRequiredForAdmins: true;
         createdAt: true;
         updatedAt: true;
       };
@@ -71,6 +76,7 @@ export class TeamService {
       id: team.id,
       name: team.name,
       isAnonymousBoardAccessEnabled: team.isAnonymousBoardAccessEnabled,
+      isTwoFactorRequiredForAdmins: team.isTwoFactorRequiredForAdmins,
       role: team.members[0]?.role ?? TeamRole.OWNER,
       createdAt: team.createdAt,
       updatedAt: team.updatedAt,
@@ -87,6 +93,7 @@ export class TeamService {
             id: true,
             name: true,
             isAnonymousBoardAccessEnabled: true,
+            isTwoFactorRequiredForAdmins: true,
             createdAt: true,
             updatedAt: true,
           },
@@ -103,6 +110,7 @@ export class TeamService {
       id: membership.team.id,
       name: membership.team.name,
       isAnonymousBoardAccessEnabled: membership.team.isAnonymousBoardAccessEnabled,
+      isTwoFactorRequiredForAdmins: membership.team.isTwoFactorRequiredForAdmins,
       role: membership.role,
       createdAt: membership.team.createdAt,
       updatedAt: membership.team.updatedAt,
@@ -132,37 +140,53 @@ export class TeamService {
     return team;
   }
 
-  async updateIsAllCardsHidden(
+  async updateAnonymousBoardAccess(
     teamId: number,
     actorUserId: string,
-    isAllCardsHidden: boolean,
+    isAnonymousBoardAccessEnabled: boolean,
   ) {
     await this.ensureTeamAdminOrOwner(teamId, actorUserId);
 
     return this.prisma.team.update({
       where: { id: teamId },
-      data: { isAllCardsHidden },
+      data: { isAnonymousBoardAccessEnabled },
       select: {
         id: true,
-        isAllCardsHidden: true,
+        isAnonymousBoardAccessEnabled: true,
         updatedAt: true,
       },
     });
   }
 
-  async updateAnonymousBoardAccess(
+  /**
+   * Turning the requirement on needs 2FA on the actor's own account, so an
+   * admin cannot lock themselves out of admin actions by accident.
+   */
+  async updateTwoFactorRequirement(
     teamId: number,
     actorUserId: string,
-    isAnonymousBoardAccessEnabled: boolean,
+    isTwoFactorRequiredForAdmins: boolean,
   ) {
     await this.ensureTeamAdminOrOwner(teamId, actorUserId);
 
+    if (isTwoFactorRequiredForAdmins) {
+      const actor = await this.prisma.user.findUnique({
+        where: { id: actorUserId },
+        select: { totpEnabledAt: true },
+      });
+      if (!actor?.totpEnabledAt) {
+        throw new ForbiddenException(
+          'Enable two-factor authentication before requiring it for admins',
+        );
+      }
+    }
+
     return this.prisma.team.update({
       where: { id: teamId },
-      data: { isAnonymousBoardAccessEnabled },
+      data: { isTwoFactorRequiredForAdmins },
       select: {
         id: true,
-        isAnonymousBoardAccessEnabled: true,
+        isTwoFactorRequiredForAdmins: true,
         updatedAt: true,
       },
     });
@@ -203,13 +227,18 @@ export class TeamService {
 
     const user = await this.prisma.user.findUnique({
       where: { email },
-      select: { id: true, email: true, name: true },
+      select: { id: true, email: true, name: true, emailVerifiedAt: true },
     });
 
     if (!user) {
       throw new NotFoundException(`User with email ${email} not found`);
     }
 
+    // Otherwise anyone could register someone else's address and get added.
+    if (!user.emailVerifiedAt) {
+      throw new ForbiddenException(`User ${email} has not verified their email`);
+    }
+
     const existingMember = await this.prisma.teamMember.findUnique({
       where: {
         teamId_userId: {
@@ -403,7 +432,7 @@ export class TeamService {
           userId,
         },
       },
-      select: { role: true },
+      select: TEAM_ADMIN_MEMBER_SELECT,
     });
 
     if (!member) {
@@ -415,6 +444,8 @@ export class TeamService {
         'Insufficient permissions to manage team members',
       );
     }
+
+    ensureAdminTwoFactor(member);
   }
 
   private async ensureTeamOwner(teamId: number, userId: string) {
@@ -425,7 +456,7 @@ export class TeamService {
           userId,
         },
       },
-      select: { role: true },
+      select: TEAM_ADMIN_MEMBER_SELECT,
     });
 
     if (!member) {
@@ -435,5 +466,7 @@ export class TeamService {
     if (member.role !== TeamRole.OWNER) {
       throw new ForbiddenException('Only OWNER can change member roles');
     }
+
+    ensureAdminTwoFactor(member);
   }
 }
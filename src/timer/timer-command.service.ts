@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { AccessActor } from '../auth/types/access-actor.type';
+import { RealtimeService } from '../realtime/realtime.service';
+import { StartTimerDto } from './dto/timer.dto';
+import { TimerService } from './timer.service';
+
+export const TIMER_EVENTS = {
+  started: 'retro.timer.started',
+  paused: 'retro.timer.paused',
+  resumed: 'retro.timer.resumed',
+  deleted: 'retro.timer.deleted',
+} as const;
+
+/**
+ * Timer changes shared by REST and websocket commands.
+ */
+@Injectable()
+export class TimerCommandService {
+  constructor(
+    private readonly timerService: TimerService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  async startTimer(actor: AccessActor, boardId: number, dto: StartTimerDto) {
+    const result = await this.timerService.startTimer(boardId, actor.userId, dto.seconds);
+
+    await this.realtimeService.emitToBoard(
+      result.boardId,
+      TIMER_EVENTS.started,
+      { boardId: result.boardId, timer: result.timer },
+      actor.userId,
+    );
+
+    return result.timer;
+  }
+
+  async pauseTimer(actor: AccessActor, boardId: number) {
+    const result = await this.timerService.pauseTimer(boardId, actor.userId);
+
+    await this.realtimeService.emitToBoard(
+      result.boardId,
+      TIMER_EVENTS.paused,
+      { boardId: result.boardId, timer: result.timer },
+      actor.userId,
+    );
+
+    return result.timer;
+  }
+
+  async resumeTimer(actor: AccessActor, boardId: number) {
+    const result = await this.timerService.resumeTimer(boardId, actor.userId);
+
+    await this.realtimeService.emitToBoard(
+      result.boardId,
+      TIMER_EVENTS.resumed,
+      { boardId: result.boardId, timer: result.timer },
+      actor.userId,
+    );
+
+    return result.timer;
+  }
+
+  async deleteTimer(actor: AccessActor, boardId: number) {
+    const result = await this.timerService.deleteTimer(boardId, actor.userId);
+
+    await this.realtimeService.emitToBoard(
+      result.boardId,
+      TIMER_EVENTS.deleted,
+      { boardId: result.boardId, deleted: true },
+      actor.userId,
+    );
+
+    return { deleted: true };
+  }
+}
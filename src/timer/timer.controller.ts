@@ -1,26 +1,29 @@
-import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
-import { AnonymousActorService } from '../auth/anonymous-actor.service';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Public } from '../auth/decorators/public.decorator';
+import { GUEST_SESSION_REQUIRED_MESSAGE } from '../auth/guest-session.service';
 import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { AccessActor } from '../auth/types/access-actor.type';
 import { AuthenticatedUser } from '../auth/types/authenticated-user.type';
-import { RealtimeService } from '../realtime/realtime.service';
 import {
   BoardTimerResponseDto,
   DeleteTimerResponseDto,
   StartTimerDto,
 } from './dto/timer.dto';
+import { TimerCommandService } from './timer-command.service';
 import { TimerService } from './timer.service';
 
-const TIMER_EVENTS = {
-  started: 'retro.timer.started',
-  paused: 'retro.timer.paused',
-  resumed: 'retro.timer.resumed',
-  deleted: 'retro.timer.deleted',
-} as const;
-
 @ApiTags('timer')
 @ApiBearerAuth()
 @Public()
@@ -29,8 +32,7 @@ const TIMER_EVENTS = {
 export class TimerController {
   constructor(
     private readonly timerService: TimerService,
-    private readonly realtimeService: RealtimeService,
-    private readonly anonymousActorService: AnonymousActorService,
+    private readonly timerCommandService: TimerCommandService,
   ) {}
 
   @Post('boards/:boardId/timer/start')
@@ -49,16 +51,7 @@ export class TimerController {
     @Body() body: StartTimerDto,
   ) {
     const actor = await this.resolveActor(user);
-    const result = await this.timerService.startTimer(boardId, actor.userId, body.seconds);
-
-    await this.realtimeService.emitToTeam(
-      result.teamId,
-      TIMER_EVENTS.started,
-      { boardId: result.boardId, timer: result.timer },
-      this.toExcludedUserId(actor),
-    );
-
-    return result.timer;
+    return this.timerCommandService.startTimer(actor, boardId, body);
   }
 
   @Post('boards/:boardId/timer/pause')
@@ -69,16 +62,7 @@ export class TimerController {
     @Param('boardId', ParseIntPipe) boardId: number,
   ) {
     const actor = await this.resolveActor(user);
-    const result = await this.timerService.pauseTimer(boardId, actor.userId);
-
-    await this.realtimeService.emitToTeam(
-      result.teamId,
-      TIMER_EVENTS.paused,
-      { boardId: result.boardId, timer: result.timer },
-      this.toExcludedUserId(actor),
-    );
-
-    return result.timer;
+    return this.timerCommandService.pauseTimer(actor, boardId);
   }
 
   @Post('boards/:boardId/timer/resume')
@@ -89,16 +73,7 @@ export class TimerController {
     @Param('boardId', ParseIntPipe) boardId: number,
   ) {
     const actor = await this.resolveActor(user);
-    const result = await this.timerService.resumeTimer(boardId, actor.userId);
-
-    await this.realtimeService.emitToTeam(
-      result.teamId,
-      TIMER_EVENTS.resumed,
-      { boardId: result.boardId, timer: result.timer },
-      this.toExcludedUserId(actor),
-    );
-
-    return result.timer;
+    return this.timerCommandService.resumeTimer(actor, boardId);
   }
 
   @Delete('boards/:boardId/timer')
@@ -109,16 +84,7 @@ export class TimerController {
     @Param('boardId', ParseIntPipe) boardId: number,
   ) {
     const actor = await this.resolveActor(user);
-    const result = await this.timerService.deleteTimer(boardId, actor.userId);
-
-    await this.realtimeService.emitToTeam(
-      result.teamId,
-      TIMER_EVENTS.deleted,
-      { boardId: result.boardId, deleted: true },
-      this.toExcludedUserId(actor),
-    );
-
-    return { deleted: true };
+    return this.timerCommandService.deleteTimer(actor, boardId);
   }
 
   @Get('boards/:boardId/timer')
@@ -137,24 +103,13 @@ export class TimerController {
   }
 
   private async resolveActor(user: AuthenticatedUser | undefined): Promise<AccessActor> {
-    if (user) {
-      return {
-        userId: user.id,
-        isAnonymous: false,
-      };
+    if (!user) {
+      throw new UnauthorizedException(GUEST_SESSION_REQUIRED_MESSAGE);
     }
 
     return {
-      userId: await this.anonymousActorService.getOrCreateGuestUserId(),
-      isAnonymous: true,
+      userId: user.id,
+      isGuest: Boolean(user.isGuest),
     };
   }
-
-  private toExcludedUserId(actor: AccessActor): string | undefined {
-    if (actor.isAnonymous) {
-      return undefined;
-    }
-
-    return actor.userId;
-  }
 }
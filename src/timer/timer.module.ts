@@ -1,13 +1,14 @@
 import { Module } from '@nestjs/common';
 import { AuthModule } from '../auth/auth.module';
 import { TimerCleanupService } from './timer-cleanup.service';
+import { TimerCommandService } from './timer-command.service';
 import { TimerController } from './timer.controller';
 import { TimerService } from './timer.service';
 
 @Module({
   imports: [AuthModule],
   controllers: [TimerController],
-  providers: [TimerService, TimerCleanupService],
-  exports: [TimerService],
+  providers: [TimerService, TimerCommandService, TimerCleanupService],
+  exports: [TimerService, TimerCommandService],
 })
 export class TimerModule {}
@@ -1,6 +1,7 @@
 import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { BoardTimer, TimerStatus } from '@prisma/client';
+import { BoardTimer, RetroBoardPhase, TimerStatus } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { ensureBoardPhaseAllows } from '../retro/retro-board-phase';
 import { BoardTimerResponseDto } from './dto/timer.dto';
 
 type TimerActionResult = {
@@ -23,6 +24,7 @@ export class TimerService {
 
   async startTimer(boardId: number, userId: string, seconds: number): Promise<TimerActionResult> {
     const context = await this.getBoardContextOrFail(boardId, userId);
+    ensureBoardPhaseAllows(context.phase, 'change');
     const now = new Date();
     const endsAt = new Date(now.getTime() + seconds * 1000);
 
@@ -56,6 +58,7 @@ export class TimerService {
 
   async pauseTimer(boardId: number, userId: string): Promise<TimerActionResult> {
     const context = await this.getBoardContextOrFail(boardId, userId);
+    ensureBoardPhaseAllows(context.phase, 'change');
     const current = await this.getTimerOrFail(boardId);
 
     if (current.status !== TimerStatus.RUNNING) {
@@ -96,6 +99,7 @@ export class TimerService {
 
   async resumeTimer(boardId: number, userId: string): Promise<TimerActionResult> {
     const context = await this.getBoardContextOrFail(boardId, userId);
+    ensureBoardPhaseAllows(context.phase, 'change');
     const current = await this.getTimerOrFail(boardId);
 
     if (current.status !== TimerStatus.PAUSED) {
@@ -128,6 +132,7 @@ export class TimerService {
 
   async deleteTimer(boardId: number, userId: string): Promise<TimerDeleteResult> {
     const context = await this.getBoardContextOrFail(boardId, userId);
+    ensureBoardPhaseAllows(context.phase, 'change');
     const result = await this.prisma.boardTimer.deleteMany({ where: { boardId } });
 
     return {
@@ -179,12 +184,16 @@ export class TimerService {
     };
   }
 
-  private async getBoardContextOrFail(boardId: number, userId: string): Promise<{ boardId: number; teamId: number }> {
-    const board = await this.prisma.retroBoard.findUnique({
-      where: { id: boardId },
+  private async getBoardContextOrFail(
+    boardId: number,
+    userId: string,
+  ): Promise<{ boardId: number; teamId: number; phase: RetroBoardPhase | null }> {
+    const board = await this.prisma.retroBoard.findFirst({
+      where: { id: boardId, deletedAt: null },
       select: {
         id: true,
         teamId: true,
+        phase: true,
         team: {
           select: {
             isAnonymousBoardAccessEnabled: true,
@@ -209,9 +218,21 @@ export class TimerService {
       throw new NotFoundException(`Board ${boardId} not found`);
     }
 
+    if (board.team.members.length === 0) {
+      // Guest sessions are bound to the board they were issued for.
+      const foreignGuest = await this.prisma.user.findFirst({
+        where: { id: userId, isGuest: true, guestBoardId: { not: boardId } },
+        select: { id: true },
+      });
+      if (foreignGuest) {
+        throw new NotFoundException(`Board ${boardId} not found`);
+      }
+    }
+
     return {
       boardId: board.id,
       teamId: board.teamId,
+      phase: board.phase,
     };
   }
 
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { BoardCleanupService } from '../src/retro/board-cleanup.service';
+import { RetroService } from '../src/retro/retro.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class CleanupPrisma {
+  boards = new Map<number, { deletedAt: Date | null }>();
+
+  retroBoard = {
+    deleteMany: async (args: { where: { deletedAt: { lte: Date } } }) => {
+      let count = 0;
+      for (const [boardId, board] of this.boards.entries()) {
+        if (
+          board.deletedAt !== null &&
+          board.deletedAt.getTime() <= args.where.deletedAt.lte.getTime()
+        ) {
+          this.boards.delete(boardId);
+          count += 1;
+        }
+      }
+
+      return { count };
+    },
+  };
+}
+
+test('cleanup purges only boards whose trash period has expired', async () => {
+  const prisma = new CleanupPrisma();
+  const now = Date.now();
+  prisma.boards.set(1, { deletedAt: new Date(now - 31 * DAY_MS) });
+  prisma.boards.set(2, { deletedAt: new Date(now - DAY_MS) });
+  prisma.boards.set(3, { deletedAt: null });
+
+  const retroService = new RetroService(prisma as never, {} as never);
+  const cleanupService = new BoardCleanupService(retroService);
+
+  const purgedCount = await cleanupService.runCleanup();
+
+  assert.equal(purgedCount, 1);
+  assert.equal(prisma.boards.has(1), false);
+  assert.equal(prisma.boards.has(2), true);
+  assert.equal(prisma.boards.has(3), true);
+});
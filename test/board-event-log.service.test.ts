@@ -0,0 +1,198 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  BOARD_EVENT_LOG_SIZE,
+  BoardEventLogService,
+} from '../src/realtime/board-event-log.service';
+import { BoardStreamService } from '../src/realtime/board-stream.service';
+import { RealtimeService } from '../src/realtime/realtime.service';
+
+type MockEvent = {
+  boardId: number;
+  seq: number;
+  event: string;
+  payload: unknown;
+};
+
+class EventLogPrisma {
+  readonly boards = new Map<number, { eventSeq: number }>([
+    [1, { eventSeq: 0 }],
+  ]);
+  events: MockEvent[] = [];
+  failNextInsert = false;
+
+  // Rolls the boards and the log back when the callback throws.
+  $transaction = async <T>(run: (tx: this) => Promise<T>) => {
+    const boards = [...this.boards].map(([id, board]) => [id, { ...board }]);
+    const events = [...this.events];
+    try {
+      return await run(this);
+    } catch (error) {
+      this.boards.clear();
+      boards.forEach(([id, board]) =>
+        this.boards.set(id as number, board as { eventSeq: number }),
+      );
+      this.events = events;
+      throw error;
+    }
+  };
+
+  // Stands in for the UPDATE ... RETURNING of the next board seq.
+  $queryRaw = async (_strings: TemplateStringsArray, boardId: number) => {
+    const board = this.boards.get(boardId);
+    if (!board) {
+      return [];
+    }
+
+    board.eventSeq += 1;
+    return [{ seq: board.eventSeq }];
+  };
+
+  retroBoard = {
+    findUnique: async (args: { where: { id: number } }) =>
+      this.boards.get(args.where.id) ?? null,
+  };
+
+  retroBoardEvent = {
+    create: async (args: { data: MockEvent }) => {
+      if (this.failNextInsert) {
+        this.failNextInsert = false;
+        throw new Error('insert failed');
+      }
+      this.events.push(args.data);
+      return args.data;
+    },
+    deleteMany: async (args: {
+      where: { boardId: number; seq: { lte: number } };
+    }) => {
+      this.events = this.events.filter(
+        (event) =>
+          event.boardId !== args.where.boardId ||
+          event.seq > args.where.seq.lte,
+      );
+    },
+    findMany: async (args: {
+      where: { boardId: number; seq: { gt: number } };
+    }) =>
+      this.events
+        .filter(
+          (event) =>
+            event.boardId === args.where.boardId &&
+            event.seq > args.where.seq.gt,
+        )
+        .sort((a, b) => a.seq - b.seq),
+  };
+}
+
+function setup() {
+  const prisma = new EventLogPrisma();
+  const service = new BoardEventLogService(prisma as never);
+
+  return { prisma, service };
+}
+
+test('board events get increasing seq stamped into the payload', async () => {
+  const { service } = setup();
+
+  const first = await service.append(1, 'retro.item.created', {
+    id: 5,
+    createdAt: new Date('2026-03-20T09:00:00.000Z'),
+  });
+  const second = await service.append(1, 'retro.item.deleted', 5);
+
+  assert.deepEqual(first?.payload, {
+    id: 5,
+    createdAt: '2026-03-20T09:00:00.000Z',
+    seq: 1,
+  });
+  assert.deepEqual(second?.payload, { seq: 2, data: 5 });
+  assert.equal(await service.append(99, 'retro.item.created', {}), null);
+});
+
+test('a failed insert does not use up the board seq', async () => {
+  const { prisma, service } = setup();
+  await service.append(1, 'retro.item.created', { id: 1 });
+
+  prisma.failNextInsert = true;
+  await assert.rejects(
+    async () => service.append(1, 'retro.item.created', { id: 2 }),
+    /insert failed/,
+  );
+  assert.equal(prisma.boards.get(1)?.eventSeq, 1);
+
+  const next = await service.append(1, 'retro.item.created', { id: 3 });
+  assert.equal(next?.seq, 2);
+  assert.deepEqual(
+    (await service.readSince(1, 0)).events.map((event) => event.seq),
+    [1, 2],
+  );
+});
+
+test('join with lastSeq replays only missed events', async () => {
+  const { service } = setup();
+  for (const id of [1, 2, 3]) {
+    await service.append(1, 'retro.item.created', { id });
+  }
+
+  const replay = await service.readSince(1, 1);
+  assert.equal(replay.resync, false);
+  assert.equal(replay.seq, 3);
+  assert.deepEqual(
+    replay.events.map((event) => event.seq),
+    [2, 3],
+  );
+
+  assert.deepEqual(await service.readSince(1, 3), {
+    seq: 3,
+    resync: false,
+    events: [],
+  });
+  assert.deepEqual(await service.readSince(1), {
+    seq: 3,
+    resync: false,
+    events: [],
+  });
+});
+
+test('client asks for a resync when missed events are gone', async () => {
+  const { prisma, service } = setup();
+  for (let index = 0; index < BOARD_EVENT_LOG_SIZE + 2; index += 1) {
+    await service.append(1, 'retro.item.created', { id: index });
+  }
+
+  assert.equal(prisma.events.length, BOARD_EVENT_LOG_SIZE);
+  assert.equal((await service.readSince(1, 1)).resync, true);
+  assert.equal(
+    (await service.readSince(1, 2)).events.length,
+    BOARD_EVENT_LOG_SIZE,
+  );
+  assert.equal((await service.readSince(1, 9999)).resync, true);
+});
+
+test('board broadcasts carry the logged seq', async () => {
+  const { service: eventLog } = setup();
+  const emitted: Array<{ event: string; payload: unknown }> = [];
+  const namespace = {
+    to: () => ({
+      except: () => ({
+        emit: (event: string, payload: unknown) => {
+          emitted.push({ event, payload });
+        },
+      }),
+    }),
+  };
+  const realtime = new RealtimeService(
+    {} as never,
+    eventLog,
+    new BoardStreamService(eventLog),
+  );
+  realtime.bindNamespace(namespace as never);
+
+  await realtime.emitToBoard(1, 'board.renamed', { id: 1, name: 'Ретро' });
+  await realtime.emitTransientToBoard(1, 'lock.released', { entityId: 5 });
+
+  assert.deepEqual(emitted, [
+    { event: 'board.renamed', payload: { id: 1, name: 'Ретро', seq: 1 } },
+    { event: 'lock.released', payload: { entityId: 5 } },
+  ]);
+});
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { MessageEvent } from '@nestjs/common';
+import { BoardEventReplay } from '../src/realtime/board-event-log.service';
+import {
+  BOARD_STREAM_EVENTS,
+  BoardStreamService,
+} from '../src/realtime/board-stream.service';
+import { RealtimeService } from '../src/realtime/realtime.service';
+
+class EventLogStub {
+  replay: BoardEventReplay = { seq: 0, resync: false, events: [] };
+  private release: (() => void) | null = null;
+  private readonly blocked: Promise<void> | null = null;
+
+  constructor(blockReads = false) {
+    if (blockReads) {
+      this.blocked = new Promise((resolve) => {
+        this.release = resolve;
+      });
+    }
+  }
+
+  append = async () => null;
+
+  readSince = async () => {
+    await this.blocked;
+    return this.replay;
+  };
+
+  unblock() {
+    this.release?.();
+  }
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function open(service: BoardStreamService, userId: string, lastSeq?: number) {
+  const messages: MessageEvent[] = [];
+  const subscription = service
+    .stream(1, userId, lastSeq)
+    .subscribe((message) => messages.push(message));
+
+  return { messages, subscription };
+}
+
+test('stream replays missed events before going live', async () => {
+  const eventLog = new EventLogStub(true);
+  eventLog.replay = {
+    seq: 4,
+    resync: false,
+    events: [
+      { seq: 3, event: 'retro.item.created', payload: { id: 5, seq: 3 } },
+      { seq: 4, event: 'retro.item.updated', payload: { id: 5, seq: 4 } },
+    ],
+  };
+  const service = new BoardStreamService(eventLog as never);
+  const { messages, subscription } = open(service, 'member', 2);
+
+  // Arrives while the replay is read: already in the replay, then new.
+  service.publish(1, 'retro.item.updated', { id: 5, seq: 4 });
+  service.publish(1, 'retro.item.deleted', { id: 5, seq: 5 });
+  service.publish(1, 'lock.released', { entityId: 5 });
+  eventLog.unblock();
+  await flush();
+
+  assert.deepEqual(messages, [
+    { id: '3', type: 'retro.item.created', data: { id: 5, seq: 3 } },
+    { id: '4', type: 'retro.item.updated', data: { id: 5, seq: 4 } },
+    {
+      id: '4',
+      type: BOARD_STREAM_EVENTS.ready,
+      data: { boardId: 1, seq: 4, replayed: 2, resync: false },
+    },
+    { id: '5', type: 'retro.item.deleted', data: { id: 5, seq: 5 } },
+    { type: 'lock.released', data: { entityId: 5 } },
+  ]);
+
+  subscription.unsubscribe();
+  assert.equal(service.getSubscriberCount(1), 0);
+});
+
+test('stream asks for a resync when the log no longer covers the gap', async () => {
+  const eventLog = new EventLogStub();
+  eventLog.replay = { seq: 900, resync: true, events: [] };
+  const service = new BoardStreamService(eventLog as never);
+  const { messages, subscription } = open(service, 'member', 2);
+  await flush();
+
+  assert.deepEqual(messages, [
+    { type: 'board.resync', data: { boardId: 1, seq: 900 } },
+    {
+      id: '900',
+      type: BOARD_STREAM_EVENTS.ready,
+      data: { boardId: 1, seq: 900, replayed: 0, resync: true },
+    },
+  ]);
+
+  subscription.unsubscribe();
+});
+
+test('board broadcasts reach streams except the actor', async () => {
+  const eventLog = new EventLogStub();
+  const service = new BoardStreamService(eventLog as never);
+  const realtime = new RealtimeService({} as never, eventLog as never, service);
+  const owner = open(service, 'owner');
+  const member = open(service, 'member');
+  await flush();
+
+  await realtime.emitToBoard(1, 'retro.item.created', { id: 5 }, 'owner');
+
+  assert.deepEqual(
+    owner.messages.map((message) => message.type),
+    [BOARD_STREAM_EVENTS.ready],
+  );
+  assert.deepEqual(member.messages.slice(1), [
+    { type: 'retro.item.created', data: { id: 5 } },
+  ]);
+
+  owner.subscription.unsubscribe();
+  member.subscription.unsubscribe();
+});
+
+test('eviction closes streams of users that lost access', async () => {
+  const eventLog = new EventLogStub();
+  const service = new BoardStreamService(eventLog as never);
+  const prisma = {
+    team: {
+      findUnique: async () => ({
+        isAnonymousBoardAccessEnabled: false,
+        members: [{ userId: 'owner' }],
+        boards: [{ id: 1 }],
+      }),
+    },
+  };
+  const realtime = new RealtimeService(
+    prisma as never,
+    eventLog as never,
+    service,
+  );
+  const owner = open(service, 'owner');
+  const guest = open(service, 'guest');
+  await flush();
+
+  await realtime.evictUnauthorizedBoardSockets(1);
+
+  assert.equal(owner.subscription.closed, false);
+  assert.equal(guest.subscription.closed, true);
+  assert.equal(service.getSubscriberCount(1), 1);
+
+  owner.subscription.unsubscribe();
+});
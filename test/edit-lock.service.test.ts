@@ -0,0 +1,271 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  EDIT_LOCK_TTL_MS,
+  EditLockService,
+} from '../src/realtime/edit-lock.service';
+import { RetroCommandService } from '../src/retro/retro-command.service';
+
+class RealtimeStub {
+  readonly events: Array<{ boardId: number; event: string; payload: unknown }> =
+    [];
+
+  async emitTransientToBoard(boardId: number, event: string, payload: unknown) {
+    this.events.push({ boardId, event, payload });
+  }
+}
+
+type LockRow = {
+  entity: string;
+  entityId: number;
+  boardId: number;
+  socketId: string;
+  userId: string;
+  name: string | null;
+  isGuest: boolean;
+  expiresAt: Date;
+};
+
+type LockWhere = {
+  entity?: string;
+  entityId?: number;
+  socketId?: string;
+  expiresAt?: { lte?: Date; gt?: Date };
+  OR?: LockWhere[];
+};
+
+function matches(row: LockRow, where: LockWhere): boolean {
+  return (
+    (where.entity === undefined || row.entity === where.entity) &&
+    (where.entityId === undefined || row.entityId === where.entityId) &&
+    (where.socketId === undefined || row.socketId === where.socketId) &&
+    (where.expiresAt?.lte === undefined ||
+      row.expiresAt <= where.expiresAt.lte) &&
+    (where.expiresAt?.gt === undefined || row.expiresAt > where.expiresAt.gt) &&
+    (where.OR === undefined || where.OR.some((item) => matches(row, item)))
+  );
+}
+
+/**
+ * The `retro_edit_locks` table, shared by every service built on it like
+ * by API instances on one database.
+ */
+class LockPrisma {
+  rows: LockRow[] = [];
+
+  retroEditLock = {
+    findUnique: async (args: {
+      where: { entity_entityId: { entity: string; entityId: number } };
+    }) =>
+      this.rows.find((row) => matches(row, args.where.entity_entityId)) ?? null,
+    findMany: async (args: { where: LockWhere }) =>
+      this.rows.filter((row) => matches(row, args.where)),
+    create: async (args: { data: LockRow }) => {
+      const { entity, entityId } = args.data;
+      if (this.rows.some((row) => matches(row, { entity, entityId }))) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+          code: 'P2002',
+          clientVersion: 'test',
+        });
+      }
+      this.rows.push({ ...args.data });
+      return args.data;
+    },
+    updateMany: async (args: { where: LockWhere; data: Partial<LockRow> }) => {
+      const matched = this.rows.filter((row) => matches(row, args.where));
+      matched.forEach((row) => Object.assign(row, args.data));
+      return { count: matched.length };
+    },
+    deleteMany: async (args: { where: LockWhere }) => {
+      const before = this.rows.length;
+      this.rows = this.rows.filter((row) => !matches(row, args.where));
+      return { count: before - this.rows.length };
+    },
+  };
+}
+
+function setup(prisma = new LockPrisma()) {
+  const realtime = new RealtimeStub();
+  const service = new EditLockService(prisma as never, realtime as never);
+
+  return { prisma, realtime, service };
+}
+
+const ownerTab = {
+  socketId: 'owner-tab',
+  userId: 'owner',
+  name: 'Анна',
+  isGuest: false,
+};
+
+const memberTab = {
+  socketId: 'member-tab',
+  userId: 'member',
+  name: null,
+  isGuest: false,
+};
+
+test('lock is held by one connection until released', async () => {
+  const { service } = setup();
+  const target = { entity: 'item' as const, entityId: 5, boardId: 1 };
+
+  const lock = await service.acquire(target, ownerTab);
+  assert.equal(lock.userId, 'owner');
+  assert.equal('socketId' in lock, false);
+
+  await assert.rejects(
+    service.acquire(target, memberTab),
+    (error: unknown) =>
+      error instanceof ConflictException &&
+      error.message === 'Item 5 is being edited by Анна',
+  );
+  await assert.rejects(
+    service.renew('item', 5, 'member-tab'),
+    ConflictException,
+  );
+
+  assert.equal(await service.release('item', 5, 'member-tab'), null);
+  assert.notEqual(await service.release('item', 5, 'owner-tab'), null);
+  assert.equal((await service.acquire(target, memberTab)).userId, 'member');
+});
+
+test('REST updates are blocked only for other users', async () => {
+  const { service } = setup();
+  await service.acquire({ entity: 'group', entityId: 3, boardId: 1 }, ownerTab);
+
+  await service.ensureNotLockedByOther('group', 3, 'owner');
+  await assert.rejects(
+    service.ensureNotLockedByOther('group', 3, 'member'),
+    ConflictException,
+  );
+  await service.ensureNotLockedByOther('column', 3, 'member');
+});
+
+test('a lock taken on one instance holds on every other', async () => {
+  const first = setup();
+  const second = setup(first.prisma);
+  const target = { entity: 'item' as const, entityId: 5, boardId: 1 };
+
+  await first.service.acquire(target, ownerTab);
+
+  await assert.rejects(
+    second.service.acquire(target, memberTab),
+    ConflictException,
+  );
+  await assert.rejects(
+    second.service.ensureNotLockedByOther('item', 5, 'member'),
+    ConflictException,
+  );
+
+  // Both instances sweep, the expired lock is announced once.
+  const expired = new Date(Date.now() + EDIT_LOCK_TTL_MS);
+  assert.equal(await first.service.sweepExpiredLocks(expired), 1);
+  assert.equal(await second.service.sweepExpiredLocks(expired), 0);
+  assert.equal(first.realtime.events.length, 1);
+  assert.equal(second.realtime.events.length, 0);
+  assert.equal(
+    (await second.service.acquire(target, memberTab)).userId,
+    'member',
+  );
+});
+
+test('column edits of other users wait for the lock holder', async () => {
+  const { service } = setup();
+  await service.acquire(
+    { entity: 'column', entityId: 7, boardId: 1 },
+    ownerTab,
+  );
+  const updates: string[] = [];
+  const retro = {
+    getColumnRealtimeContext: async (columnId: number) => ({
+      teamId: 1,
+      boardId: 1,
+      columnId,
+    }),
+    getColumnValues: async () => ({ name: 'Идеи', color: null }),
+    getColumnSnapshot: async () => ({}),
+    updateColumnColor: async () => {
+      updates.push('color');
+      return { id: 7, version: 2 };
+    },
+    updateColumnDescription: async () => {
+      updates.push('description');
+      return { id: 7, version: 2 };
+    },
+    deleteColumn: async () => {
+      updates.push('delete');
+      return { deleted: true };
+    },
+  };
+  const commands = new RetroCommandService(
+    retro as never,
+    {} as never,
+    { emitToBoard: async () => undefined } as never,
+    service,
+    { record: async () => undefined } as never,
+  );
+  const member = { userId: 'member' };
+  const color = {
+    columnColor: '#FFDBD7',
+    itemColor: '#FF6161',
+    buttonColor: '#FF9594',
+  };
+
+  await assert.rejects(
+    async () => commands.updateColumnColor(member, 7, { color }),
+    ConflictException,
+  );
+  await assert.rejects(
+    async () =>
+      commands.updateColumnDescription(member, 7, { description: 'Новое' }),
+    ConflictException,
+  );
+  await assert.rejects(
+    async () => commands.deleteColumn(member, 7),
+    ConflictException,
+  );
+  assert.deepEqual(updates, []);
+
+  const owner = { userId: 'owner' };
+  await commands.updateColumnDescription(owner, 7, { description: 'Новое' });
+  assert.deepEqual(updates, ['description']);
+});
+
+test('locks expire unless renewed', async () => {
+  const { realtime, service } = setup();
+  const start = new Date('2026-03-20T10:00:00.000Z');
+  const target = { entity: 'column' as const, entityId: 7, boardId: 1 };
+  await service.acquire(target, ownerTab, start);
+
+  const renewedAt = new Date(start.getTime() + EDIT_LOCK_TTL_MS - 1);
+  await service.renew('column', 7, 'owner-tab', renewedAt);
+
+  const stillHeld = new Date(start.getTime() + EDIT_LOCK_TTL_MS);
+  assert.equal(await service.sweepExpiredLocks(stillHeld), 0);
+
+  const expired = new Date(renewedAt.getTime() + EDIT_LOCK_TTL_MS);
+  assert.equal(await service.sweepExpiredLocks(expired), 1);
+  assert.deepEqual(realtime.events, [
+    {
+      boardId: 1,
+      event: 'lock.released',
+      payload: { entity: 'column', entityId: 7, boardId: 1 },
+    },
+  ]);
+});
+
+test('disconnect releases every lock of the connection', async () => {
+  const { realtime, service } = setup();
+  await service.acquire({ entity: 'item', entityId: 1, boardId: 1 }, ownerTab);
+  await service.acquire({ entity: 'group', entityId: 2, boardId: 1 }, ownerTab);
+  await service.acquire({ entity: 'item', entityId: 3, boardId: 1 }, memberTab);
+
+  assert.equal(await service.releaseSocketLocks('owner-tab'), 2);
+  assert.equal(realtime.events.length, 2);
+  await assert.rejects(
+    service.ensureNotLockedByOther('item', 3, 'owner'),
+    ConflictException,
+  );
+});
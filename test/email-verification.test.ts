@@ -0,0 +1,263 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { TeamRole } from '@prisma/client';
+import { EmailVerificationService } from '../src/auth/email-verification.service';
+import { MailMessage } from '../src/mail/mail.service';
+import { TeamService } from '../src/team/team.service';
+
+type UserRecord = {
+  id: string;
+  email: string;
+  name: string | null;
+  emailVerifiedAt: Date | null;
+  isGuest: boolean;
+};
+
+type TokenRecord = {
+  id: string;
+  tokenHash: string;
+  userId: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+type MemberRecord = { teamId: number; userId: string; role: TeamRole };
+
+class VerificationPrisma {
+  users: UserRecord[] = [
+    {
+      id: 'owner',
+      email: 'owner@example.com',
+      name: 'Owner',
+      emailVerifiedAt: new Date('2026-01-01T00:00:00.000Z'),
+      isGuest: false,
+    },
+    {
+      id: 'alice',
+      email: 'alice@example.com',
+      name: 'Alice',
+      emailVerifiedAt: null,
+      isGuest: false,
+    },
+  ];
+  tokens: TokenRecord[] = [];
+  members: MemberRecord[] = [
+    { teamId: 1, userId: 'owner', role: TeamRole.OWNER },
+  ];
+
+  private idSeq = 1;
+
+  user = {
+    findUnique: async ({ where }: { where: { id?: string; email?: string } }) =>
+      this.users.find(
+        (user) => user.id === where.id || user.email === where.email,
+      ) ?? null,
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: { id: string; emailVerifiedAt: null };
+      data: { emailVerifiedAt: Date };
+    }) => {
+      const matched = this.users.filter(
+        (user) => user.id === where.id && user.emailVerifiedAt === null,
+      );
+      matched.forEach((user) => (user.emailVerifiedAt = data.emailVerifiedAt));
+      return { count: matched.length };
+    },
+  };
+
+  emailVerificationToken = {
+    count: async ({
+      where,
+    }: {
+      where: { userId: string; createdAt: { gt: Date } };
+    }) =>
+      this.tokens.filter(
+        (token) =>
+          token.userId === where.userId && token.createdAt > where.createdAt.gt,
+      ).length,
+    create: async ({
+      data,
+    }: {
+      data: Pick<TokenRecord, 'userId' | 'tokenHash' | 'expiresAt'>;
+    }) => {
+      const record: TokenRecord = {
+        id: `token-${this.idSeq++}`,
+        usedAt: null,
+        createdAt: new Date(),
+        ...data,
+      };
+      this.tokens.push(record);
+      return record;
+    },
+    findUnique: async ({ where }: { where: { tokenHash: string } }) =>
+      this.tokens.find((token) => token.tokenHash === where.tokenHash) ?? null,
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: {
+        id?: string;
+        userId?: string;
+        usedAt: null;
+        expiresAt?: { gt: Date };
+      };
+      data: { usedAt: Date };
+    }) => {
+      const matched = this.tokens.filter(
+        (token) =>
+          (where.id === undefined || token.id === where.id) &&
+          (where.userId === undefined || token.userId === where.userId) &&
+          token.usedAt === null &&
+          (!where.expiresAt || token.expiresAt > where.expiresAt.gt),
+      );
+      matched.forEach((token) => (token.usedAt = data.usedAt));
+      return { count: matched.length };
+    },
+  };
+
+  teamMember = {
+    findUnique: async ({
+      where,
+    }: {
+      where: { teamId_userId: { teamId: number; userId: string } };
+    }) => {
+      const member = this.members.find(
+        (item) =>
+          item.teamId === where.teamId_userId.teamId &&
+          item.userId === where.teamId_userId.userId,
+      );
+      return member
+        ? {
+            ...member,
+            team: { isTwoFactorRequiredForAdmins: false },
+            user: { totpEnabledAt: null },
+          }
+        : null;
+    },
+    create: async ({ data }: { data: MemberRecord }) => {
+      this.members.push(data);
+      return { ...data, createdAt: new Date() };
+    },
+  };
+
+  async $transaction<T>(callback: (tx: VerificationPrisma) => Promise<T>) {
+    return callback(this);
+  }
+}
+
+function setup() {
+  process.env.FRONTEND_URL = 'http://localhost:5173';
+  process.env.EMAIL_VERIFICATION_RATE_LIMIT = '2';
+
+  const prisma = new VerificationPrisma();
+  const sent: MailMessage[] = [];
+  const mailService = {
+    send: async (message: MailMessage) => {
+      sent.push(message);
+    },
+  };
+  const service = new EmailVerificationService(
+    prisma as never,
+    mailService as never,
+  );
+  const teamService = new TeamService(prisma as never);
+  return { prisma, sent, service, teamService };
+}
+
+function extractToken(message: MailMessage): string {
+  const match = message.text.match(/verify-email\?token=([A-Za-z0-9_-]+)/);
+  assert.ok(match, 'verification link missing in the email');
+  return match[1];
+}
+
+test('the emailed link verifies the address once', async () => {
+  const { prisma, sent, service } = setup();
+
+  await service.sendVerification('alice');
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].to, 'alice@example.com');
+  const token = extractToken(sent[0]);
+  assert.notEqual(prisma.tokens[0].tokenHash, token);
+
+  assert.deepEqual(await service.confirm(token), { success: true });
+  assert.ok(prisma.users[1].emailVerifiedAt instanceof Date);
+
+  await assert.rejects(service.confirm(token), UnauthorizedException);
+  await assert.rejects(service.confirm('made-up'), UnauthorizedException);
+});
+
+test('expired links do not verify', async () => {
+  const { prisma, sent, service } = setup();
+  await service.sendVerification('alice');
+  prisma.tokens[0].expiresAt = new Date(Date.now() - 1000);
+
+  await assert.rejects(
+    service.confirm(extractToken(sent[0])),
+    UnauthorizedException,
+  );
+  assert.equal(prisma.users[1].emailVerifiedAt, null);
+});
+
+test('resend is rate limited and refused once verified', async () => {
+  const { sent, service } = setup();
+
+  await service.sendVerification('alice');
+  await service.sendVerification('alice');
+  await assert.rejects(service.sendVerification('alice'), (error) => {
+    assert.ok(error instanceof HttpException);
+    assert.equal(error.getStatus(), 429);
+    return true;
+  });
+  assert.equal(sent.length, 2);
+
+  await assert.rejects(service.sendVerification('owner'), ConflictException);
+});
+
+test('unverified addresses cannot be added to a team', async () => {
+  const { prisma, sent, service, teamService } = setup();
+
+  await assert.rejects(
+    teamService.addMember(1, 'owner', { email: 'Alice@example.com' }),
+    ForbiddenException,
+  );
+  assert.equal(prisma.members.length, 1);
+
+  await service.sendVerification('alice');
+  await service.confirm(extractToken(sent[0]));
+
+  const member = await teamService.addMember(1, 'owner', {
+    email: 'alice@example.com',
+  });
+  assert.equal(member.userId, 'alice');
+  assert.equal(member.role, TeamRole.MEMBER);
+});
+
+test('the anonymous system user cannot be added to a team', async () => {
+  const { prisma, teamService } = setup();
+  // Left over from the shared anonymous access; the backfill skips it.
+  prisma.users.push({
+    id: 'anonymous',
+    email: 'anonymous@system.local',
+    name: 'Anonymous User',
+    emailVerifiedAt: null,
+    isGuest: false,
+  });
+
+  await assert.rejects(
+    teamService.addMember(1, 'owner', { email: 'anonymous@system.local' }),
+    ForbiddenException,
+  );
+  assert.deepEqual(
+    prisma.members.map((member) => member.userId),
+    ['owner'],
+  );
+});
@@ -11,12 +11,21 @@ type UserRecord = {
   authProvider: AuthProvider;
   googleSub: string | null;
   googleEmail: string | null;
+  emailVerifiedAt?: Date | null;
+  totpSecret?: string | null;
+  totpEnabledAt?: Date | null;
+};
+
+type RefreshTokenRecord = {
+  userId: string;
+  revokedAt: Date | null;
 };
 
 type OauthStateRecord = {
   id: string;
   stateHash: string;
   returnTo: string;
+  guestUserId: string | null;
   expiresAt: Date;
   usedAt: Date | null;
   createdAt: Date;
@@ -26,8 +35,8 @@ type ExchangeRecord = {
   id: string;
   tokenHash: string;
   userId: string;
-  accessToken: string;
-  refreshToken: string;
+  accessToken: string | null;
+  refreshToken: string | null;
   expiresAt: Date;
   usedAt: Date | null;
   createdAt: Date;
@@ -37,15 +46,34 @@ class InMemoryPrisma {
   users: UserRecord[] = [];
   oauthStates: OauthStateRecord[] = [];
   authExchangeTokens: ExchangeRecord[] = [];
+  refreshTokens: RefreshTokenRecord[] = [];
+  recoveryCodes: { userId: string }[] = [];
 
   private idSeq = 1;
 
+  refreshToken = {
+    updateMany: async ({ where, data }: { where: { userId: string; revokedAt: null }; data: { revokedAt: Date } }) => {
+      const matched = this.refreshTokens.filter((token) => token.userId === where.userId && token.revokedAt === null);
+      matched.forEach((token) => (token.revokedAt = data.revokedAt));
+      return { count: matched.length };
+    },
+  };
+
+  totpRecoveryCode = {
+    deleteMany: async ({ where }: { where: { userId: string } }) => {
+      const before = this.recoveryCodes.length;
+      this.recoveryCodes = this.recoveryCodes.filter((code) => code.userId !== where.userId);
+      return { count: before - this.recoveryCodes.length };
+    },
+  };
+
   oauthState = {
     create: async ({ data }: { data: Omit<OauthStateRecord, 'id' | 'createdAt' | 'usedAt'> & { usedAt?: Date | null } }) => {
       const record: OauthStateRecord = {
         id: this.nextId('state'),
         stateHash: data.stateHash,
         returnTo: data.returnTo,
+        guestUserId: data.guestUserId,
         expiresAt: data.expiresAt,
         usedAt: data.usedAt ?? null,
         createdAt: new Date(),
@@ -98,6 +126,7 @@ class InMemoryPrisma {
 
       return {
         id: record.id,
+        userId: record.userId,
         accessToken: record.accessToken,
         refreshToken: record.refreshToken,
         usedAt: record.usedAt,
@@ -185,6 +214,33 @@ class FakeAuthService {
   }
 }
 
+class FakeGuestSessionService {
+  claims: Array<{ guestId: string; userId: string }> = [];
+
+  async verifyGuestToken(token: string) {
+    if (token !== 'valid-guest-token') {
+      throw new UnauthorizedException('Invalid guest token');
+    }
+
+    return { id: 'guest-1', email: 'guest-1@guest.local', isGuest: true, guestBoardId: 1 };
+  }
+
+  async claimGuest(_tx: unknown, guestId: string, userId: string) {
+    this.claims.push({ guestId, userId });
+    return null;
+  }
+}
+
+class FakeTwoFactorService {
+  async createChallenge(user: { id: string }) {
+    return {
+      twoFactorRequired: true as const,
+      challengeToken: `challenge-${user.id}`,
+      expiresAt: new Date(Date.now() + 300_000),
+    };
+  }
+}
+
 function setRequiredEnv() {
   process.env.GOOGLE_CLIENT_ID = 'google-client-id';
   process.env.GOOGLE_CLIENT_SECRET = 'google-client-secret';
@@ -199,9 +255,15 @@ function createService() {
   setRequiredEnv();
   const prisma = new InMemoryPrisma();
   const authService = new FakeAuthService();
-  const service = new GoogleOAuthService(prisma as never, authService as never);
-
-  return { service, prisma };
+  const guestSessionService = new FakeGuestSessionService();
+  const service = new GoogleOAuthService(
+    prisma as never,
+    authService as never,
+    guestSessionService as never,
+    new FakeTwoFactorService() as never,
+  );
+
+  return { service, prisma, guestSessionService };
 }
 
 function getQueryParam(urlString: string, key: string): string {
@@ -223,10 +285,13 @@ async function run() {
   await testExistingGoogleUserLogin();
   await testCreateNewGoogleUser();
   await testLinkLocalAccountByEmail();
+  await testLinkUnverifiedLocalAccountResetsIt();
   await testStateMismatchExpiredAndReused();
   await testExchangeTokenExpiredAndReused();
   await testNoAppTokensInUrl();
   await testConsentDeniedRedirect();
+  await testGuestClaimedOnSignIn();
+  await testTwoFactorUserGetsChallenge();
 
   console.log('Google OAuth flow tests: OK');
 }
@@ -304,8 +369,12 @@ async function testCreateNewGoogleUser() {
   assert.equal(prisma.users[0].email, 'new-user@example.com');
   assert.equal(prisma.users[0].authProvider, AuthProvider.GOOGLE);
   assert.equal(prisma.users[0].googleSub, 'sub-new');
+  assert.ok(
+    (prisma.users[0] as { emailVerifiedAt?: Date }).emailVerifiedAt instanceof Date,
+  );
 
   const exchangeResult = await service.exchangeToken(exchangeToken);
+  assert.ok('accessToken' in exchangeResult);
   assert.equal(exchangeResult.accessToken, `access-${prisma.users[0].id}`);
 }
 
@@ -320,7 +389,9 @@ async function testLinkLocalAccountByEmail() {
     authProvider: AuthProvider.LOCAL,
     googleSub: null,
     googleEmail: null,
+    emailVerifiedAt: new Date('2026-01-01T00:00:00Z'),
   });
+  prisma.refreshTokens.push({ userId: 'u-local', revokedAt: null });
 
   const startUrl = await service.getStartRedirectUrl('/teams');
   const state = getQueryParam(startUrl, 'state');
@@ -345,6 +416,62 @@ async function testLinkLocalAccountByEmail() {
   assert.equal(prisma.users[0].id, 'u-local');
   assert.equal(prisma.users[0].googleSub, 'sub-local-link');
   assert.equal(prisma.users[0].authProvider, AuthProvider.GOOGLE);
+  assert.equal(prisma.users[0].passwordHash, 'local-hash');
+  assert.equal(prisma.refreshTokens[0].revokedAt, null);
+}
+
+async function testLinkUnverifiedLocalAccountResetsIt() {
+  const { service, prisma } = createService();
+
+  prisma.users.push({
+    id: 'u-squatter',
+    email: 'owner@example.com',
+    passwordHash: 'squatter-hash',
+    name: 'Squatter',
+    authProvider: AuthProvider.LOCAL,
+    googleSub: null,
+    googleEmail: null,
+    emailVerifiedAt: null,
+    totpSecret: 'squatter-secret',
+    totpEnabledAt: new Date(),
+  });
+  prisma.refreshTokens.push(
+    { userId: 'u-squatter', revokedAt: null },
+    { userId: 'u-other', revokedAt: null },
+  );
+  prisma.recoveryCodes.push({ userId: 'u-squatter' });
+
+  const startUrl = await service.getStartRedirectUrl('/teams');
+  const state = getQueryParam(startUrl, 'state');
+
+  (service as unknown as { exchangeCodeForGoogleTokens: () => Promise<{ id_token: string }> }).exchangeCodeForGoogleTokens = async () => ({
+    id_token: 'id-token',
+  });
+
+  (service as unknown as { validateGoogleIdToken: () => Promise<{ sub: string; email: string; email_verified: true; iss: string; aud: string; exp: number; name: string }> }).validateGoogleIdToken = async () => ({
+    sub: 'sub-owner',
+    email: 'owner@example.com',
+    email_verified: true,
+    iss: 'https://accounts.google.com',
+    aud: 'google-client-id',
+    exp: Math.floor(Date.now() / 1000) + 300,
+    name: 'Owner',
+  });
+
+  await service.handleCallback({ code: 'valid-code', state });
+
+  const user = prisma.users[0];
+  assert.equal(prisma.users.length, 1);
+  assert.equal(user.googleSub, 'sub-owner');
+  assert.ok(user.emailVerifiedAt instanceof Date);
+  assert.notEqual(user.passwordHash, 'squatter-hash');
+  assert.equal(user.totpSecret, null);
+  assert.equal(user.totpEnabledAt, null);
+  assert.deepEqual(prisma.recoveryCodes, []);
+  assert.ok(prisma.refreshTokens[0].revokedAt instanceof Date);
+  assert.equal(prisma.refreshTokens[1].revokedAt, null);
+  // With the squatter's 2FA gone, the owner gets app tokens, not a challenge.
+  assert.equal(prisma.authExchangeTokens[0].refreshToken, 'refresh-u-squatter');
 }
 
 async function testStateMismatchExpiredAndReused() {
@@ -469,6 +596,81 @@ async function testConsentDeniedRedirect() {
   assert.equal(getQueryParam(callbackUrl, 'error'), 'google_consent_denied');
 }
 
+async function testGuestClaimedOnSignIn() {
+  const { service, prisma, guestSessionService } = createService();
+
+  await assertUnauthorized(async () => {
+    await service.getStartRedirectUrl('/teams', 'forged-guest-token');
+  });
+  assert.equal(prisma.oauthStates.length, 0);
+
+  const startUrl = await service.getStartRedirectUrl('/teams', 'valid-guest-token');
+  const state = getQueryParam(startUrl, 'state');
+  assert.equal(prisma.oauthStates[0].guestUserId, 'guest-1');
+
+  (service as unknown as { exchangeCodeForGoogleTokens: () => Promise<{ id_token: string }> }).exchangeCodeForGoogleTokens = async () => ({
+    id_token: 'id-token',
+  });
+
+  (service as unknown as { validateGoogleIdToken: () => Promise<{ sub: string; email: string; email_verified: true; iss: string; aud: string; exp: number; name: string }> }).validateGoogleIdToken = async () => ({
+    sub: 'sub-guest',
+    email: 'former-guest@example.com',
+    email_verified: true,
+    iss: 'https://accounts.google.com',
+    aud: 'google-client-id',
+    exp: Math.floor(Date.now() / 1000) + 300,
+    name: 'Former Guest',
+  });
+
+  const callbackUrl = await service.handleCallback({ code: 'valid-code', state });
+  assert.ok(getQueryParam(callbackUrl, 'exchangeToken'));
+  assert.deepEqual(guestSessionService.claims, [
+    { guestId: 'guest-1', userId: prisma.users[0].id },
+  ]);
+}
+
+async function testTwoFactorUserGetsChallenge() {
+  const { service, prisma } = createService();
+
+  prisma.users.push({
+    id: 'u-2fa',
+    email: 'secure@example.com',
+    passwordHash: 'hash',
+    name: 'Secure User',
+    authProvider: AuthProvider.GOOGLE,
+    googleSub: 'sub-2fa',
+    googleEmail: 'secure@example.com',
+    totpEnabledAt: new Date(),
+  });
+
+  const startUrl = await service.getStartRedirectUrl('/teams');
+  const state = getQueryParam(startUrl, 'state');
+
+  (service as unknown as { exchangeCodeForGoogleTokens: () => Promise<{ id_token: string }> }).exchangeCodeForGoogleTokens = async () => ({
+    id_token: 'id-token',
+  });
+
+  (service as unknown as { validateGoogleIdToken: () => Promise<{ sub: string; email: string; email_verified: true; iss: string; aud: string; exp: number; name: string }> }).validateGoogleIdToken = async () => ({
+    sub: 'sub-2fa',
+    email: 'secure@example.com',
+    email_verified: true,
+    iss: 'https://accounts.google.com',
+    aud: 'google-client-id',
+    exp: Math.floor(Date.now() / 1000) + 300,
+    name: 'Secure User',
+  });
+
+  const callbackUrl = await service.handleCallback({ code: 'valid-code', state });
+  const exchangeToken = getQueryParam(callbackUrl, 'exchangeToken');
+  assert.equal(prisma.authExchangeTokens[0].accessToken, null);
+  assert.equal(prisma.authExchangeTokens[0].refreshToken, null);
+
+  const exchangeResult = await service.exchangeToken(exchangeToken);
+  assert.ok('challengeToken' in exchangeResult);
+  assert.equal(exchangeResult.challengeToken, 'challenge-u-2fa');
+  assert.equal(exchangeResult.twoFactorRequired, true);
+}
+
 run().catch((error) => {
   console.error(error);
   process.exit(1);
@@ -0,0 +1,527 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { RetroVoteKind } from '@prisma/client';
+import { AuthService } from '../src/auth/auth.service';
+import { GuestSessionService } from '../src/auth/guest-session.service';
+import { JwtAuthGuard } from '../src/auth/guards/jwt-auth.guard';
+import { JwtStrategy } from '../src/auth/strategies/jwt.strategy';
+
+process.env.JWT_ACCESS_SECRET ??= 'test-secret';
+process.env.JWT_ACCESS_EXPIRES_IN ??= '15m';
+process.env.JWT_REFRESH_SECRET ??= 'test-refresh-secret';
+process.env.JWT_REFRESH_EXPIRES_IN ??= '30d';
+process.env.GUEST_SESSION_IP_RATE_LIMIT = '3';
+process.env.GUEST_SESSION_BOARD_RATE_LIMIT = '5';
+
+type BoardRecord = {
+  id: number;
+  deletedAt: Date | null;
+  anonymousAccess: boolean;
+};
+
+type UserRecord = {
+  id: string;
+  email: string;
+  passwordHash: string;
+  name: string | null;
+  isGuest: boolean;
+  guestBoardId: number | null;
+};
+
+type VoteRecord = {
+  id: number;
+  itemId: number;
+  userId: string;
+  kind: RetroVoteKind;
+};
+
+type OwnedRecord = { id: number; ownerId: string | null };
+
+type GuestRequestRecord = {
+  ipHash: string;
+  boardId: number;
+  createdAt: Date;
+};
+
+type GuestRequestWhere = {
+  ipHash?: string;
+  boardId?: number;
+  OR?: { ipHash?: string; boardId?: number }[];
+  createdAt: { gt?: Date; lte?: Date };
+};
+
+type BoardWhere = {
+  deletedAt: null;
+  team: { isAnonymousBoardAccessEnabled: true };
+};
+
+class GuestPrisma {
+  boards: BoardRecord[] = [
+    { id: 1, deletedAt: null, anonymousAccess: true },
+    { id: 2, deletedAt: null, anonymousAccess: true },
+    { id: 3, deletedAt: null, anonymousAccess: false },
+  ];
+  users: UserRecord[] = [];
+  votes: VoteRecord[] = [];
+  items: OwnedRecord[] = [];
+  comments: OwnedRecord[] = [];
+  timers: OwnedRecord[] = [];
+  guestRequests: GuestRequestRecord[] = [];
+  advisoryLocks = 0;
+
+  private idSeq = 1;
+
+  guestSessionRequest = {
+    count: async ({ where }: { where: GuestRequestWhere }) =>
+      this.guestRequests.filter((record) => matchesRequest(record, where))
+        .length,
+    deleteMany: async ({ where }: { where: GuestRequestWhere }) => {
+      const before = this.guestRequests.length;
+      this.guestRequests = this.guestRequests.filter(
+        (record) => !matchesRequest(record, where),
+      );
+      return { count: before - this.guestRequests.length };
+    },
+    create: async ({
+      data,
+    }: {
+      data: Omit<GuestRequestRecord, 'createdAt'>;
+    }) => {
+      this.guestRequests.push({ ...data, createdAt: new Date() });
+      return data;
+    },
+  };
+
+  async $executeRaw() {
+    this.advisoryLocks += 1;
+    return 1;
+  }
+
+  retroItemVote = {
+    findMany: async ({
+      where,
+    }: {
+      where: { userId: string; itemId?: { in: number[] } };
+    }) =>
+      this.votes.filter(
+        (vote) =>
+          vote.userId === where.userId &&
+          (!where.itemId || where.itemId.in.includes(vote.itemId)),
+      ),
+    deleteMany: async ({ where }: { where: { id: { in: number[] } } }) => {
+      this.votes = this.votes.filter((vote) => !where.id.in.includes(vote.id));
+      return { count: 0 };
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: { userId: string };
+      data: { userId: string };
+    }) => {
+      const moved = this.votes.filter((vote) => vote.userId === where.userId);
+      for (const vote of moved) {
+        assert.ok(
+          !this.votes.some(
+            (other) =>
+              other.userId === data.userId &&
+              other.itemId === vote.itemId &&
+              other.kind === vote.kind,
+          ),
+          'unique (itemId, userId, kind) violated',
+        );
+        vote.userId = data.userId;
+      }
+      return { count: moved.length };
+    },
+  };
+
+  retroItem = this.owned(() => this.items, 'authorId');
+  retroItemComment = this.owned(() => this.comments, 'creatorId');
+  boardTimer = this.owned(() => this.timers, 'createdById');
+
+  refreshToken = {
+    create: async () => ({}),
+  };
+
+  async $transaction<T>(callback: (tx: GuestPrisma) => Promise<T>) {
+    return callback(this);
+  }
+
+  retroBoard = {
+    findFirst: async ({ where }: { where: BoardWhere & { id: number } }) => {
+      const board = this.boards.find((item) => item.id === where.id);
+      return board && this.isOpen(board) ? { id: board.id } : null;
+    },
+  };
+
+  user = {
+    findUnique: async ({ where }: { where: { email: string } }) =>
+      this.users.find((item) => item.email === where.email) ?? null,
+    delete: async ({ where }: { where: { id: string } }) => {
+      this.users = this.users.filter((item) => item.id !== where.id);
+    },
+    create: async ({ data }: { data: Omit<UserRecord, 'id'> }) => {
+      const record: UserRecord = { id: `guest-${this.idSeq++}`, ...data };
+      this.users.push(record);
+      return record;
+    },
+    update: async ({
+      where,
+      data,
+    }: {
+      where: { id: string };
+      data: { name: string };
+    }) => {
+      const record = this.users.find((item) => item.id === where.id);
+      assert.ok(record);
+      record.name = data.name;
+      return record;
+    },
+    findFirst: async ({
+      where,
+    }: {
+      where: {
+        id: string;
+        isGuest: true;
+        guestBoardId?: number;
+        guestBoard?: BoardWhere;
+      };
+    }) => {
+      const record = this.users.find(
+        (item) =>
+          item.id === where.id &&
+          item.isGuest &&
+          (where.guestBoardId === undefined ||
+            item.guestBoardId === where.guestBoardId),
+      );
+      if (!record || !where.guestBoard) {
+        return record ?? null;
+      }
+
+      const board = this.boards.find((item) => item.id === record.guestBoardId);
+      return board && this.isOpen(board) ? record : null;
+    },
+  };
+
+  private isOpen(board: BoardRecord) {
+    return board.deletedAt === null && board.anonymousAccess;
+  }
+
+  private owned(records: () => OwnedRecord[], field: string) {
+    return {
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: Record<string, string>;
+        data: Record<string, string>;
+      }) => {
+        const moved = records().filter(
+          (record) => record.ownerId === where[field],
+        );
+        moved.forEach((record) => (record.ownerId = data[field]));
+        return { count: moved.length };
+      },
+    };
+  }
+}
+
+function matchesRequest(record: GuestRequestRecord, where: GuestRequestWhere) {
+  const keys = where.OR ?? [where];
+  return (
+    keys.some(
+      (key) =>
+        (key.ipHash === undefined || key.ipHash === record.ipHash) &&
+        (key.boardId === undefined || key.boardId === record.boardId),
+    ) &&
+    (!where.createdAt.gt || record.createdAt > where.createdAt.gt) &&
+    (!where.createdAt.lte || record.createdAt <= where.createdAt.lte)
+  );
+}
+
+function setup() {
+  const prisma = new GuestPrisma();
+  const jwtService = new JwtService({});
+  const service = new GuestSessionService(prisma as never, jwtService);
+  const strategy = new JwtStrategy(service);
+  const emailVerification = {
+    sendVerification: async () => ({ success: true }),
+  };
+  const authService = new AuthService(
+    prisma as never,
+    jwtService,
+    service,
+    emailVerification as never,
+    {} as never,
+  );
+  return { prisma, jwtService, service, strategy, authService };
+}
+
+test('every guest gets an own identity with the chosen name', async () => {
+  const { jwtService, service } = setup();
+
+  const alice = await service.createSession({ boardId: 1, name: ' Alice ' });
+  const bob = await service.createSession({ boardId: 1, name: 'Bob' });
+
+  assert.notEqual(alice.guest.id, bob.guest.id);
+  assert.deepEqual(alice.guest, {
+    id: alice.guest.id,
+    name: 'Alice',
+    boardId: 1,
+  });
+  assert.ok(alice.expiresAt > new Date());
+
+  const payload = jwtService.decode(alice.guestToken);
+  assert.equal(payload.sub, alice.guest.id);
+  assert.equal(payload.type, 'guest');
+  assert.equal(payload.boardId, 1);
+});
+
+test('a guest token of the same board renames the guest', async () => {
+  const { prisma, service } = setup();
+  const first = await service.createSession({ boardId: 1, name: 'Alice' });
+  const current = {
+    id: first.guest.id,
+    email: prisma.users[0].email,
+    isGuest: true,
+    guestBoardId: 1,
+  };
+
+  const renamed = await service.createSession(
+    { boardId: 1, name: 'Alice B.' },
+    current,
+  );
+  assert.equal(renamed.guest.id, first.guest.id);
+  assert.equal(prisma.users[0].name, 'Alice B.');
+
+  const otherBoard = await service.createSession(
+    { boardId: 2, name: 'Alice' },
+    current,
+  );
+  assert.notEqual(otherBoard.guest.id, first.guest.id);
+  assert.equal(prisma.users.length, 2);
+});
+
+test('guest sessions need a board with anonymous access', async () => {
+  const { service } = setup();
+
+  await assert.rejects(
+    service.createSession({ boardId: 3, name: 'Alice' }),
+    NotFoundException,
+  );
+  await assert.rejects(
+    service.createSession({ boardId: 99, name: 'Alice' }),
+    NotFoundException,
+  );
+});
+
+test('new guests are limited per IP and per board', async () => {
+  const { prisma, service } = setup();
+  const create = (boardId: number, ip: string) =>
+    service.createSession({ boardId, name: 'Guest' }, undefined, ip);
+  const isTooMany = (error: unknown) =>
+    error instanceof HttpException &&
+    error.getStatus() === HttpStatus.TOO_MANY_REQUESTS;
+
+  for (let i = 0; i < 3; i += 1) {
+    await create(1, '198.51.100.1');
+  }
+  await assert.rejects(create(2, '198.51.100.1'), isTooMany);
+
+  await create(1, '198.51.100.2');
+  await create(1, '198.51.100.3');
+  await assert.rejects(create(1, '198.51.100.4'), isTooMany);
+  await create(2, '198.51.100.4');
+
+  assert.equal(prisma.users.length, 6);
+  assert.ok(
+    prisma.guestRequests.every((record) => record.ipHash.length === 64),
+  );
+  assert.ok(prisma.advisoryLocks > 0);
+
+  prisma.guestRequests.forEach(
+    (record) => (record.createdAt = new Date(Date.now() - 7200 * 1000)),
+  );
+  await create(1, '198.51.100.1');
+  assert.equal(prisma.guestRequests.length, 2);
+});
+
+test('a guest token of the same board is renamed past the limit', async () => {
+  const { prisma, service } = setup();
+  const first = await service.createSession(
+    { boardId: 1, name: 'Alice' },
+    undefined,
+    '198.51.100.1',
+  );
+  const current = {
+    id: first.guest.id,
+    email: prisma.users[0].email,
+    isGuest: true,
+    guestBoardId: 1,
+  };
+  for (let i = 0; i < 2; i += 1) {
+    await service.createSession(
+      { boardId: 1, name: 'Bob' },
+      undefined,
+      '198.51.100.1',
+    );
+  }
+
+  const renamed = await service.createSession(
+    { boardId: 1, name: 'Alice B.' },
+    current,
+    '198.51.100.1',
+  );
+  assert.equal(renamed.guest.id, first.guest.id);
+  assert.equal(prisma.users.length, 3);
+  assert.equal(prisma.guestRequests.length, 3);
+});
+
+test('a guest token stops working with its board', async () => {
+  const { prisma, jwtService, service, strategy } = setup();
+  const session = await service.createSession({ boardId: 1, name: 'Alice' });
+  const payload = jwtService.decode(session.guestToken);
+
+  assert.deepEqual(await strategy.validate(payload), {
+    id: session.guest.id,
+    email: prisma.users[0].email,
+    isGuest: true,
+    guestBoardId: 1,
+  });
+
+  prisma.boards[0].deletedAt = new Date();
+  await assert.rejects(strategy.validate(payload), UnauthorizedException);
+});
+
+test('account-only routes reject guests', () => {
+  const reflector = { getAllAndOverride: () => true } as unknown as Reflector;
+  const guard = new JwtAuthGuard(reflector);
+  const contextFor = (user: unknown) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as never;
+
+  assert.equal(
+    guard.canActivate(contextFor({ id: 'u1', email: 'a@b.c' })),
+    true,
+  );
+  assert.throws(
+    () =>
+      guard.canActivate(contextFor({ id: 'g1', email: 'g', isGuest: true })),
+    UnauthorizedException,
+  );
+  assert.throws(
+    () =>
+      guard.handleRequest(
+        null,
+        { id: 'g1', email: 'g', isGuest: true },
+        undefined,
+        contextFor(undefined),
+      ),
+    UnauthorizedException,
+  );
+});
+
+test('registering with a guest token claims cards, comments and likes', async () => {
+  const { prisma, jwtService, service, authService } = setup();
+  const session = await service.createSession({ boardId: 1, name: 'Alice' });
+  const guestId = session.guest.id;
+  prisma.items.push({ id: 1, ownerId: guestId }, { id: 2, ownerId: 'other' });
+  prisma.comments.push({ id: 1, ownerId: guestId });
+  prisma.votes.push({
+    id: 1,
+    itemId: 2,
+    userId: guestId,
+    kind: RetroVoteKind.LIKE,
+  });
+
+  const result = await authService.register({
+    email: 'Alice@example.com',
+    password: 'strongpassword123',
+    guestToken: session.guestToken,
+  });
+
+  assert.deepEqual(result.claimedGuest, {
+    guestId,
+    boardId: 1,
+    items: 1,
+    comments: 1,
+    votes: 1,
+    droppedVotes: 0,
+  });
+  assert.deepEqual(
+    prisma.items.map((item) => item.ownerId),
+    [result.user.id, 'other'],
+  );
+  assert.equal(prisma.comments[0].ownerId, result.user.id);
+  assert.equal(prisma.votes[0].userId, result.user.id);
+  assert.deepEqual(
+    prisma.users.map((user) => user.id),
+    [result.user.id],
+  );
+
+  // The claimed guest is gone, so its token no longer works.
+  await assert.rejects(
+    new JwtStrategy(service).validate(jwtService.decode(session.guestToken)),
+    UnauthorizedException,
+  );
+});
+
+test('a like the account already holds wins over the guest like', async () => {
+  const { prisma, service } = setup();
+  const session = await service.createSession({ boardId: 1, name: 'Alice' });
+  const guestId = session.guest.id;
+  prisma.votes.push(
+    { id: 1, itemId: 5, userId: guestId, kind: RetroVoteKind.LIKE },
+    { id: 2, itemId: 5, userId: 'member', kind: RetroVoteKind.LIKE },
+    { id: 3, itemId: 6, userId: guestId, kind: RetroVoteKind.LIKE },
+  );
+
+  const result = await service.claimGuest(prisma as never, guestId, 'member');
+
+  assert.equal(result?.votes, 1);
+  assert.equal(result?.droppedVotes, 1);
+  assert.deepEqual(
+    prisma.votes.map((vote) => [vote.id, vote.userId]),
+    [
+      [2, 'member'],
+      [3, 'member'],
+    ],
+  );
+});
+
+test('registration needs a valid guest token to claim', async () => {
+  const { prisma, service, authService } = setup();
+  const session = await service.createSession({ boardId: 1, name: 'Alice' });
+
+  await assert.rejects(
+    authService.register({
+      email: 'alice@example.com',
+      password: 'strongpassword123',
+      guestToken: `${session.guestToken}x`,
+    }),
+    UnauthorizedException,
+  );
+
+  prisma.boards[0].deletedAt = new Date();
+  await assert.rejects(
+    authService.register({
+      email: 'alice@example.com',
+      password: 'strongpassword123',
+      guestToken: session.guestToken,
+    }),
+    UnauthorizedException,
+  );
+  assert.equal(prisma.users.filter((user) => !user.isGuest).length, 0);
+});
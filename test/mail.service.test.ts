@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { Logger } from '@nestjs/common';
+import { getMailTransportKind } from '../src/mail/mail-transport';
+import { MailService } from '../src/mail/mail.service';
+
+function withEnv(env: Record<string, string | undefined>, run: () => void) {
+  const saved = Object.fromEntries(
+    Object.keys(env).map((name) => [name, process.env[name]]),
+  );
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  };
+
+  apply(env);
+  try {
+    run();
+  } finally {
+    apply(saved);
+  }
+}
+
+test('MAIL_TRANSPORT defaults to log only in development', () => {
+  withEnv({ MAIL_TRANSPORT: undefined, NODE_ENV: 'development' }, () => {
+    assert.equal(getMailTransportKind(), 'log');
+  });
+  withEnv({ MAIL_TRANSPORT: undefined, NODE_ENV: 'production' }, () => {
+    assert.throws(() => getMailTransportKind(), /MAIL_TRANSPORT is required/);
+  });
+  withEnv({ MAIL_TRANSPORT: undefined, NODE_ENV: undefined }, () => {
+    assert.throws(() => getMailTransportKind(), /MAIL_TRANSPORT is required/);
+  });
+  withEnv({ MAIL_TRANSPORT: 'log', NODE_ENV: 'production' }, () => {
+    assert.equal(getMailTransportKind(), 'log');
+  });
+});
+
+test('the log transport logs the recipient and subject but not the body', async (t) => {
+  const logged: string[] = [];
+  t.mock.method(Logger.prototype, 'log', (message: string) => {
+    logged.push(message);
+  });
+
+  let service: MailService | undefined;
+  withEnv({ MAIL_TRANSPORT: 'log' }, () => {
+    service = new MailService();
+  });
+  assert.ok(service);
+  await service.send({
+    to: 'alice@example.com',
+    subject: 'Reset your password',
+    text: 'Open https://retro.local/auth/reset-password?token=secret-token',
+  });
+
+  assert.deepEqual(logged, ['Mail to alice@example.com: Reset your password']);
+});
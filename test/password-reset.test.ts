@@ -0,0 +1,411 @@
+import assert from 'node:assert/strict';
+import { AddressInfo, createServer, Server } from 'node:net';
+import test from 'node:test';
+import { UnauthorizedException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { PasswordResetService } from '../src/auth/password-reset.service';
+import { MailService } from '../src/mail/mail.service';
+
+type UserRecord = {
+  id: string;
+  email: string;
+  passwordHash: string;
+  isGuest: boolean;
+};
+
+type ResetTokenRecord = {
+  id: string;
+  tokenHash: string;
+  userId: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+type ResetRequestRecord = {
+  emailHash: string;
+  createdAt: Date;
+};
+
+type RefreshTokenRecord = {
+  userId: string;
+  revokedAt: Date | null;
+};
+
+type CaughtMail = { from: string; to: string[]; data: string };
+
+/**
+ * Just enough SMTP to accept messages from nodemailer, like a local
+ * catcher (Mailpit, MailHog) would.
+ */
+async function startSmtpCatcher() {
+  const mails: CaughtMail[] = [];
+  const server: Server = createServer((socket) => {
+    let buffer = '';
+    let current: CaughtMail = { from: '', to: [], data: '' };
+    let inData = false;
+    socket.write('220 catcher ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let newline = buffer.indexOf('\r\n');
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        newline = buffer.indexOf('\r\n');
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            mails.push(current);
+            current = { from: '', to: [], data: '' };
+            socket.write('250 Queued\r\n');
+          } else {
+            current.data += `${line.replace(/^\.\./, '.')}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 catcher\r\n');
+        } else if (command === 'MAIL') {
+          current.from = line.slice(10).trim();
+          socket.write('250 OK\r\n');
+        } else if (command === 'RCPT') {
+          current.to.push(line.slice(8).trim());
+          socket.write('250 OK\r\n');
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    mails,
+    port: (server.address() as AddressInfo).port,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+class ResetPrisma {
+  users: UserRecord[] = [
+    {
+      id: 'u1',
+      email: 'alice@example.com',
+      passwordHash: 'old-hash',
+      isGuest: false,
+    },
+  ];
+  resetTokens: ResetTokenRecord[] = [];
+  resetRequests: ResetRequestRecord[] = [];
+  lookups: string[] = [];
+  refreshTokens: RefreshTokenRecord[] = [
+    { userId: 'u1', revokedAt: null },
+    { userId: 'u1', revokedAt: null },
+    { userId: 'u2', revokedAt: null },
+  ];
+
+  private idSeq = 1;
+
+  user = {
+    findUnique: async ({ where }: { where: { email: string } }) => {
+      this.lookups.push(where.email);
+      return this.users.find((user) => user.email === where.email) ?? null;
+    },
+    update: async ({
+      where,
+      data,
+    }: {
+      where: { id: string };
+      data: { passwordHash: string };
+    }) => {
+      const user = this.users.find((item) => item.id === where.id);
+      assert.ok(user);
+      user.passwordHash = data.passwordHash;
+      return user;
+    },
+  };
+
+  passwordResetRequest = {
+    count: async ({
+      where,
+    }: {
+      where: { emailHash: string; createdAt: { gt: Date } };
+    }) =>
+      this.resetRequests.filter(
+        (request) =>
+          request.emailHash === where.emailHash &&
+          request.createdAt > where.createdAt.gt,
+      ).length,
+    deleteMany: async ({
+      where,
+    }: {
+      where: { emailHash: string; createdAt: { lte: Date } };
+    }) => {
+      const before = this.resetRequests.length;
+      this.resetRequests = this.resetRequests.filter(
+        (request) =>
+          request.emailHash !== where.emailHash ||
+          request.createdAt > where.createdAt.lte,
+      );
+      return { count: before - this.resetRequests.length };
+    },
+    create: async ({ data }: { data: { emailHash: string } }) => {
+      const record = { ...data, createdAt: new Date() };
+      this.resetRequests.push(record);
+      return record;
+    },
+  };
+
+  passwordResetToken = {
+    create: async ({
+      data,
+    }: {
+      data: Pick<ResetTokenRecord, 'userId' | 'tokenHash' | 'expiresAt'>;
+    }) => {
+      const record: ResetTokenRecord = {
+        id: `reset-${this.idSeq++}`,
+        usedAt: null,
+        createdAt: new Date(),
+        ...data,
+      };
+      this.resetTokens.push(record);
+      return record;
+    },
+    findUnique: async ({ where }: { where: { tokenHash: string } }) =>
+      this.resetTokens.find((token) => token.tokenHash === where.tokenHash) ??
+      null,
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: {
+        id?: string;
+        userId?: string;
+        usedAt: null;
+        expiresAt?: { gt: Date };
+      };
+      data: { usedAt: Date };
+    }) => {
+      const matched = this.resetTokens.filter(
+        (token) =>
+          (where.id === undefined || token.id === where.id) &&
+          (where.userId === undefined || token.userId === where.userId) &&
+          token.usedAt === null &&
+          (!where.expiresAt || token.expiresAt > where.expiresAt.gt),
+      );
+      matched.forEach((token) => (token.usedAt = data.usedAt));
+      return { count: matched.length };
+    },
+  };
+
+  refreshToken = {
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: { userId: string; revokedAt: null };
+      data: { revokedAt: Date };
+    }) => {
+      const matched = this.refreshTokens.filter(
+        (token) => token.userId === where.userId && token.revokedAt === null,
+      );
+      matched.forEach((token) => (token.revokedAt = data.revokedAt));
+      return { count: matched.length };
+    },
+  };
+
+  private lockTails = new Map<string, Promise<void>>();
+
+  // Advisory locks are held until the end of the transaction, like
+  // pg_advisory_xact_lock, so parallel transactions on one key run in turn.
+  async $transaction<T>(callback: (tx: ResetPrisma) => Promise<T>) {
+    const releases: (() => void)[] = [];
+    const tx = Object.create(this, {
+      $executeRaw: {
+        value: async (_query: TemplateStringsArray, key: string) => {
+          const previous = this.lockTails.get(key) ?? Promise.resolve();
+          let release!: () => void;
+          const held = new Promise<void>((resolve) => (release = resolve));
+          this.lockTails.set(
+            key,
+            previous.then(() => held),
+          );
+          releases.push(release);
+          await previous;
+          return 1;
+        },
+      },
+    }) as ResetPrisma;
+
+    try {
+      return await callback(tx);
+    } finally {
+      releases.forEach((release) => release());
+    }
+  }
+}
+
+async function setup() {
+  const catcher = await startSmtpCatcher();
+  process.env.FRONTEND_URL = 'http://localhost:5173';
+  process.env.MAIL_TRANSPORT = 'smtp';
+  process.env.MAIL_SMTP_HOST = '127.0.0.1';
+  process.env.MAIL_SMTP_PORT = String(catcher.port);
+  process.env.PASSWORD_RESET_RATE_LIMIT = '2';
+
+  const prisma = new ResetPrisma();
+  const service = new PasswordResetService(prisma as never, new MailService());
+  return { catcher, prisma, service };
+}
+
+// The letter goes out after the answer, so tests wait for it.
+async function waitFor(condition: () => boolean) {
+  const deadline = Date.now() + 2000;
+  while (!condition()) {
+    assert.ok(Date.now() < deadline, 'timed out waiting for the condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function extractToken(mail: CaughtMail): string {
+  const unfolded = mail.data.replace(/=\n/g, '').replace(/=3D/g, '=');
+  const match = unfolded.match(/reset-password\?token=([A-Za-z0-9_-]+)/);
+  assert.ok(match, 'reset link missing in the email');
+  return match[1];
+}
+
+test('a reset link is emailed and stored only as a hash', async (t) => {
+  const { catcher, prisma, service } = await setup();
+  t.after(catcher.close);
+
+  assert.deepEqual(await service.requestReset(' Alice@Example.com '), {
+    success: true,
+  });
+  // The answer does not wait for the letter, so it takes as long as for an
+  // unknown email.
+  assert.equal(catcher.mails.length, 0);
+
+  await waitFor(() => catcher.mails.length === 1);
+  assert.deepEqual(catcher.mails[0].to, ['<alice@example.com>']);
+  const token = extractToken(catcher.mails[0]);
+  assert.equal(prisma.resetTokens.length, 1);
+  assert.notEqual(prisma.resetTokens[0].tokenHash, token);
+  assert.ok(prisma.resetTokens[0].expiresAt > new Date());
+});
+
+test('unknown emails get the same answer and no letter', async (t) => {
+  const { catcher, prisma, service } = await setup();
+  t.after(catcher.close);
+
+  assert.deepEqual(await service.requestReset('nobody@example.com'), {
+    success: true,
+  });
+  await waitFor(() => prisma.lookups.length === 1);
+  assert.equal(catcher.mails.length, 0);
+  assert.equal(prisma.resetTokens.length, 0);
+});
+
+test('requests over the per-email limit send nothing', async (t) => {
+  const { catcher, prisma, service } = await setup();
+  t.after(catcher.close);
+
+  for (let i = 0; i < 3; i += 1) {
+    await service.requestReset('alice@example.com');
+  }
+
+  await waitFor(() => catcher.mails.length === 2);
+  assert.equal(prisma.resetTokens.length, 2);
+  assert.equal(prisma.resetRequests.length, 2);
+});
+
+test('parallel requests cannot pass the limit together', async (t) => {
+  const { catcher, prisma, service } = await setup();
+  t.after(catcher.close);
+
+  await Promise.all(
+    Array.from({ length: 4 }, () => service.requestReset('alice@example.com')),
+  );
+
+  await waitFor(() => catcher.mails.length === 2);
+  assert.equal(prisma.resetRequests.length, 2);
+});
+
+test('unknown emails are limited before the user lookup', async (t) => {
+  const { catcher, prisma, service } = await setup();
+  t.after(catcher.close);
+
+  for (let i = 0; i < 3; i += 1) {
+    assert.deepEqual(await service.requestReset(' Nobody@Example.com'), {
+      success: true,
+    });
+  }
+
+  await waitFor(() => prisma.lookups.length === 2);
+  assert.deepEqual(prisma.lookups, [
+    'nobody@example.com',
+    'nobody@example.com',
+  ]);
+  assert.equal(prisma.resetRequests.length, 2);
+  // Only the hash of the address is kept.
+  assert.ok(
+    prisma.resetRequests.every(
+      (request) => !request.emailHash.includes('nobody'),
+    ),
+  );
+});
+
+test('confirming sets the password once and revokes refresh tokens', async (t) => {
+  const { catcher, prisma, service } = await setup();
+  t.after(catcher.close);
+  await service.requestReset('alice@example.com');
+  await service.requestReset('alice@example.com');
+  await waitFor(() => catcher.mails.length === 2);
+  const token = extractToken(catcher.mails[0]);
+
+  assert.deepEqual(await service.confirmReset(token, 'newstrongpassword123'), {
+    success: true,
+  });
+
+  assert.ok(
+    await bcrypt.compare('newstrongpassword123', prisma.users[0].passwordHash),
+  );
+  assert.deepEqual(
+    prisma.refreshTokens.map((item) => item.revokedAt !== null),
+    [true, true, false],
+  );
+  // The other outstanding link is used up as well.
+  assert.ok(prisma.resetTokens.every((item) => item.usedAt !== null));
+
+  await assert.rejects(
+    service.confirmReset(token, 'anotherpassword123'),
+    UnauthorizedException,
+  );
+});
+
+test('expired and unknown tokens are rejected', async (t) => {
+  const { catcher, prisma, service } = await setup();
+  t.after(catcher.close);
+  await service.requestReset('alice@example.com');
+  await waitFor(() => catcher.mails.length === 1);
+  const token = extractToken(catcher.mails[0]);
+  prisma.resetTokens[0].expiresAt = new Date(Date.now() - 1000);
+
+  await assert.rejects(
+    service.confirmReset(token, 'newstrongpassword123'),
+    UnauthorizedException,
+  );
+  await assert.rejects(
+    service.confirmReset('made-up-token', 'newstrongpassword123'),
+    UnauthorizedException,
+  );
+  assert.equal(prisma.users[0].passwordHash, 'old-hash');
+});
@@ -0,0 +1,419 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import test from 'node:test';
+import { Pool } from 'pg';
+import { Subscription } from 'rxjs';
+import { Namespace } from 'socket.io';
+import { ClusterAdapter } from 'socket.io-adapter';
+import {
+  ClusterMessage,
+  ClusterResponse,
+} from 'socket.io-adapter/dist/cluster-adapter';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { BoardStreamService } from '../src/realtime/board-stream.service';
+import {
+  RealtimeIoAdapter,
+  SOCKET_IO_ATTACHMENTS_TABLE,
+} from '../src/realtime/realtime-io.adapter';
+import {
+  BOARD_PRESENCE_EVENTS,
+  getBoardRoom,
+  RealtimeService,
+} from '../src/realtime/realtime.service';
+
+// The Postgres test needs a real database, e.g. `docker compose up -d postgres`.
+const databaseUrl = process.env.DATABASE_URL;
+const skip = databaseUrl ? false : 'DATABASE_URL is not set';
+
+// SSE streams are relayed between instances only with a shared adapter.
+process.env.REALTIME_ADAPTER = 'postgres';
+
+/**
+ * Cluster adapter over an in-process bus, for tests of several instances
+ * without Postgres. Messages are JSON round-tripped like the Postgres
+ * adapter does.
+ */
+class InProcessAdapter extends ClusterAdapter {
+  constructor(
+    nsp: Namespace,
+    private readonly peers: Set<InProcessAdapter>,
+  ) {
+    super(nsp);
+    peers.add(this);
+  }
+
+  override async serverCount() {
+    return this.namespacePeers().length;
+  }
+
+  override close() {
+    this.peers.delete(this);
+  }
+
+  protected async doPublish(message: ClusterMessage) {
+    const encoded = JSON.stringify(message);
+    for (const peer of this.namespacePeers()) {
+      if (peer !== this) {
+        setImmediate(() => peer.onMessage(JSON.parse(encoded)));
+      }
+    }
+
+    return '';
+  }
+
+  protected async doPublishResponse(
+    requesterUid: string,
+    response: ClusterResponse,
+  ) {
+    const encoded = JSON.stringify(response);
+    for (const peer of this.namespacePeers()) {
+      if (peer.uid === requesterUid) {
+        setImmediate(() => peer.onResponse(JSON.parse(encoded)));
+      }
+    }
+  }
+
+  // Every server has an adapter per namespace; only the same one talks.
+  private namespacePeers() {
+    return Array.from(this.peers).filter(
+      (peer) => peer.nsp.name === this.nsp.name,
+    );
+  }
+}
+
+class ClusterPrisma {
+  memberIds = ['owner', 'member'];
+
+  user = {
+    findUnique: async (args: { where: { id: string } }) => ({
+      name: args.where.id === 'owner' ? 'Анна' : null,
+      email: `${args.where.id}@example.com`,
+      isGuest: false,
+    }),
+  };
+
+  teamMember = {
+    findMany: async () => this.memberIds.map((userId) => ({ userId })),
+  };
+
+  team = {
+    findUnique: async () => ({
+      isAnonymousBoardAccessEnabled: false,
+      members: this.memberIds.map((userId) => ({ userId })),
+      boards: [{ id: 1 }],
+    }),
+  };
+}
+
+type Instance = {
+  service: RealtimeService;
+  boardStream: BoardStreamService;
+  adapter: RealtimeIoAdapter;
+  namespace: Namespace;
+  url: string;
+};
+
+async function startInstance(
+  prisma: ClusterPrisma,
+  peers?: Set<InProcessAdapter>,
+): Promise<Instance> {
+  const httpServer = createServer();
+  const adapter = new RealtimeIoAdapter(
+    httpServer,
+    peers ? 'memory' : 'postgres',
+  );
+  const server = adapter.createIOServer(0);
+  if (peers) {
+    const sharedPeers = peers;
+    server.adapter(
+      class extends InProcessAdapter {
+        constructor(nsp: Namespace) {
+          super(nsp, sharedPeers);
+        }
+      } as never,
+    );
+  }
+  const namespace = server.of('/ws');
+  const eventLog = {
+    append: async () => null,
+    readSince: async () => ({ seq: 0, resync: false, events: [] }),
+  };
+  const boardStream = new BoardStreamService(eventLog as never);
+  const service = new RealtimeService(
+    prisma as never,
+    eventLog as never,
+    boardStream,
+  );
+  service.bindNamespace(namespace);
+
+  namespace.on('connection', (socket) => {
+    const userId = socket.handshake.auth.userId as string | undefined;
+    if (userId) {
+      service.registerClient(socket, userId);
+    }
+
+    socket.join(getBoardRoom(1));
+    socket.on('disconnect', () => service.unregisterClient(socket));
+  });
+
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    service,
+    boardStream,
+    adapter,
+    namespace,
+    url: `http://localhost:${port}/ws`,
+  };
+}
+
+async function stopInstance(instance: Instance) {
+  await new Promise<void>((resolve) =>
+    instance.namespace.server.close(() => resolve()),
+  );
+  await instance.adapter.dispose();
+}
+
+async function connectClient(url: string, userId?: string) {
+  const client = connect(url, {
+    auth: userId ? { userId } : {},
+    transports: ['websocket'],
+    forceNew: true,
+  });
+  await new Promise<void>((resolve, reject) => {
+    client.once('connect', () => resolve());
+    client.once('connect_error', reject);
+  });
+
+  return client;
+}
+
+function collect(client: ClientSocket, event: string): unknown[] {
+  const received: unknown[] = [];
+  client.on(event, (payload: unknown) => received.push(payload));
+  return received;
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test(
+  'board and team events reach sockets on another instance',
+  { skip, timeout: 30_000 },
+  async () => {
+    const pool = new Pool({ connectionString: databaseUrl });
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS ${SOCKET_IO_ATTACHMENTS_TABLE} (
+        id bigserial UNIQUE,
+        created_at timestamptz DEFAULT NOW(),
+        payload bytea
+      )
+    `);
+    await pool.end();
+
+    const prisma = new ClusterPrisma();
+    const first = await startInstance(prisma);
+    const second = await startInstance(prisma);
+    const clients: ClientSocket[] = [];
+    const streams: Subscription[] = [];
+
+    try {
+      const ownerOnFirst = await connectClient(first.url, 'owner');
+      const ownerOnSecond = await connectClient(second.url, 'owner');
+      const memberOnSecond = await connectClient(second.url, 'member');
+      const guestOnSecond = await connectClient(second.url);
+      clients.push(ownerOnFirst, ownerOnSecond, memberOnSecond, guestOnSecond);
+
+      const ownerEvents = collect(ownerOnSecond, 'retro.item.created');
+      const memberEvents = collect(memberOnSecond, 'retro.item.created');
+      const guestEvents = collect(guestOnSecond, 'retro.item.created');
+      const memberTeamEvents = collect(memberOnSecond, 'team.updated');
+      const guestTeamEvents = collect(guestOnSecond, 'team.updated');
+      const memberStreamEvents: unknown[] = [];
+      const memberStream = second.boardStream
+        .stream(1, 'member')
+        .subscribe((message) => {
+          if (message.type === 'retro.item.created') {
+            memberStreamEvents.push(message.data);
+          }
+        });
+      streams.push(memberStream);
+
+      // Lets both instances see each other's heartbeat.
+      await delay(1_000);
+
+      await first.service.emitToBoard(
+        1,
+        'retro.item.created',
+        { id: 5 },
+        'owner',
+      );
+      await first.service.emitToTeam(1, 'team.updated', { id: 1 });
+      await delay(500);
+
+      assert.deepEqual(memberEvents, [{ id: 5 }]);
+      assert.deepEqual(guestEvents, [{ id: 5 }]);
+      assert.deepEqual(ownerEvents, []);
+      assert.deepEqual(memberTeamEvents, [{ id: 1 }]);
+      assert.deepEqual(guestTeamEvents, []);
+      assert.deepEqual(memberStreamEvents, [{ id: 5 }]);
+
+      // Eviction started on one instance removes sockets held by another.
+      prisma.memberIds = ['owner'];
+      await first.service.evictUnauthorizedBoardSockets(1);
+      await first.service.emitToBoard(1, 'retro.item.created', { id: 6 });
+      await delay(500);
+
+      assert.deepEqual(memberEvents, [{ id: 5 }]);
+      assert.deepEqual(ownerEvents, [{ id: 6 }]);
+      assert.equal(memberStream.closed, true);
+      assert.equal(second.boardStream.getSubscriberCount(1), 0);
+    } finally {
+      for (const client of clients) {
+        client.disconnect();
+      }
+
+      for (const stream of streams) {
+        stream.unsubscribe();
+      }
+
+      await stopInstance(first);
+      await stopInstance(second);
+    }
+  },
+);
+
+test(
+  'presence counts the tabs of a user on every instance',
+  { timeout: 30_000 },
+  async () => {
+    const prisma = new ClusterPrisma();
+    const peers = new Set<InProcessAdapter>();
+    const first = await startInstance(prisma, peers);
+    const second = await startInstance(prisma, peers);
+    const clients: ClientSocket[] = [];
+
+    // `board.join` of the gateway: the socket is already in the board room.
+    const join = async (instance: Instance, client: ClientSocket) => {
+      const socket = instance.namespace.sockets.get(client.id ?? '');
+      assert.ok(socket);
+      return instance.service.joinBoardPresence(socket, 1);
+    };
+
+    try {
+      const ownerOnFirst = await connectClient(first.url, 'owner');
+      const ownerOnSecond = await connectClient(second.url, 'owner');
+      const memberOnSecond = await connectClient(second.url, 'member');
+      clients.push(ownerOnFirst, ownerOnSecond, memberOnSecond);
+      const memberJoined = collect(
+        memberOnSecond,
+        BOARD_PRESENCE_EVENTS.joined,
+      );
+      const memberUpdated = collect(
+        memberOnSecond,
+        BOARD_PRESENCE_EVENTS.updated,
+      );
+      const memberLeft = collect(memberOnSecond, BOARD_PRESENCE_EVENTS.left);
+
+      await join(second, memberOnSecond);
+      await join(first, ownerOnFirst);
+      const snapshot = await join(second, ownerOnSecond);
+
+      assert.deepEqual(
+        snapshot.map((item) => [item.key, item.name, item.connections]),
+        [
+          ['user:member', null, 1],
+          ['user:owner', 'Анна', 2],
+        ],
+      );
+      assert.equal(
+        (await first.service.getBoardPresence(1)).find(
+          (item) => item.key === 'user:owner',
+        )?.connections,
+        2,
+      );
+
+      // The second tab is on another instance, so the owner does not leave.
+      ownerOnFirst.disconnect();
+      await delay(200);
+      assert.deepEqual(memberLeft, []);
+      assert.deepEqual(
+        (await second.service.getBoardPresence(1)).map((item) => [
+          item.key,
+          item.connections,
+        ]),
+        [
+          ['user:member', 1],
+          ['user:owner', 1],
+        ],
+      );
+
+      ownerOnSecond.disconnect();
+      await delay(200);
+      assert.equal(memberJoined.length, 1);
+      assert.equal(memberUpdated.length, 2);
+      assert.deepEqual(memberLeft, [{ boardId: 1, key: 'user:owner' }]);
+    } finally {
+      for (const client of clients) {
+        client.disconnect();
+      }
+
+      await stopInstance(first);
+      await stopInstance(second);
+    }
+  },
+);
+
+test(
+  'eviction updates presence on the instance holding the socket',
+  { timeout: 30_000 },
+  async () => {
+    const prisma = new ClusterPrisma();
+    const peers = new Set<InProcessAdapter>();
+    const first = await startInstance(prisma, peers);
+    const second = await startInstance(prisma, peers);
+    const clients: ClientSocket[] = [];
+
+    try {
+      const ownerOnFirst = await connectClient(first.url, 'owner');
+      const memberOnSecond = await connectClient(second.url, 'member');
+      clients.push(ownerOnFirst, memberOnSecond);
+      const ownerLeft = collect(ownerOnFirst, BOARD_PRESENCE_EVENTS.left);
+
+      for (const [instance, client] of [
+        [first, ownerOnFirst],
+        [second, memberOnSecond],
+      ] as const) {
+        const socket = instance.namespace.sockets.get(client.id ?? '');
+        assert.ok(socket);
+        await instance.service.joinBoardPresence(socket, 1);
+      }
+
+      prisma.memberIds = ['owner'];
+      await first.service.evictUnauthorizedBoardSockets(1);
+      await delay(200);
+
+      const memberSocket = second.namespace.sockets.get(
+        memberOnSecond.id ?? '',
+      );
+      assert.ok(memberSocket);
+      assert.equal(memberSocket.rooms.has(getBoardRoom(1)), false);
+      assert.deepEqual(Object.keys(memberSocket.data.presence ?? {}), []);
+      for (const instance of [first, second]) {
+        assert.deepEqual(
+          (await instance.service.getBoardPresence(1)).map((item) => item.key),
+          ['user:owner'],
+        );
+      }
+      assert.deepEqual(ownerLeft, [{ boardId: 1, key: 'user:member' }]);
+    } finally {
+      for (const client of clients) {
+        client.disconnect();
+      }
+
+      await stopInstance(first);
+      await stopInstance(second);
+    }
+  },
+);
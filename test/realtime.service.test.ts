@@ -0,0 +1,246 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { BoardStreamService } from '../src/realtime/board-stream.service';
+import {
+  PRESENCE_IDLE_AFTER_MS,
+  RealtimeService,
+} from '../src/realtime/realtime.service';
+
+type Broadcast = {
+  rooms: string | string[];
+  excluded: string[];
+  event: string;
+  payload: unknown;
+};
+
+type FakeSocket = {
+  id: string;
+  data: Record<string, unknown>;
+  join: (room: string) => void;
+  leave: (room: string) => void;
+};
+
+class FakeNamespace {
+  readonly broadcasts: Broadcast[] = [];
+  readonly rooms = new Map<string, Set<string>>();
+  readonly sockets = new Map<string, FakeSocket>();
+
+  to(rooms: string | string[]) {
+    return {
+      except: (excluded: string[]) => ({
+        emit: (event: string, payload: unknown) => {
+          this.broadcasts.push({ rooms, excluded, event, payload });
+        },
+      }),
+    };
+  }
+
+  in(room: string) {
+    const fetchSockets = async () =>
+      Array.from(this.rooms.get(room) ?? []).map(
+        (id) =>
+          this.sockets.get(id) ?? {
+            id,
+            data: {},
+            leave: (left: string) => this.leave(id, left),
+          },
+      );
+
+    // A single instance: its own sockets are all sockets.
+    return { fetchSockets, local: { fetchSockets } };
+  }
+
+  join(socketId: string, room: string) {
+    const sockets = this.rooms.get(room) ?? new Set<string>();
+    sockets.add(socketId);
+    this.rooms.set(room, sockets);
+  }
+
+  leave(socketId: string, room: string) {
+    this.rooms.get(room)?.delete(socketId);
+  }
+
+  client(socketId: string) {
+    const socket: FakeSocket = {
+      id: socketId,
+      data: {},
+      join: (room: string) => this.join(socketId, room),
+      leave: (room: string) => this.leave(socketId, room),
+    };
+    this.sockets.set(socketId, socket);
+
+    return socket;
+  }
+
+  // Joins the board room the way `board.join` does before presence.
+  onBoard(socketId: string, boardId: number) {
+    const socket = this.sockets.get(socketId) ?? this.client(socketId);
+    socket.join(`board:${boardId}`);
+    return socket;
+  }
+}
+
+class RealtimePrisma {
+  memberIds = ['owner', 'member'];
+  isAnonymousBoardAccessEnabled = false;
+
+  teamMember = {
+    findMany: async () => this.memberIds.map((userId) => ({ userId })),
+  };
+
+  user = {
+    findUnique: async (args: { where: { id: string } }) => ({
+      name: args.where.id === 'owner' ? 'Анна' : null,
+      email: `${args.where.id}@example.com`,
+    }),
+  };
+
+  team = {
+    findUnique: async () => ({
+      isAnonymousBoardAccessEnabled: this.isAnonymousBoardAccessEnabled,
+      members: this.memberIds.map((userId) => ({ userId })),
+      boards: [{ id: 1 }],
+    }),
+  };
+}
+
+function setup() {
+  const prisma = new RealtimePrisma();
+  const namespace = new FakeNamespace();
+  const eventLog = { append: async () => null };
+  const service = new RealtimeService(
+    prisma as never,
+    eventLog as never,
+    new BoardStreamService(eventLog as never),
+  );
+  service.bindNamespace(namespace as never);
+  service.registerClient(namespace.client('owner-tab') as never, 'owner');
+  service.registerClient(namespace.client('member-tab') as never, 'member');
+
+  return { prisma, namespace, service };
+}
+
+test('board events go to the board room without the actor sockets', async () => {
+  const { namespace, service } = setup();
+
+  await service.emitToBoard(1, 'retro.item.created', { id: 5 }, 'owner');
+
+  assert.deepEqual(namespace.broadcasts, [
+    {
+      rooms: ['board:1'],
+      excluded: ['user:owner'],
+      event: 'retro.item.created',
+      payload: { id: 5 },
+    },
+  ]);
+});
+
+test('team events go to member user rooms only', async () => {
+  const { namespace, service } = setup();
+  assert.deepEqual(Array.from(namespace.rooms.get('user:owner') ?? []), [
+    'owner-tab',
+  ]);
+
+  await service.emitToTeam(1, 'team.updated', { id: 1 });
+  assert.deepEqual(namespace.broadcasts[0].rooms, [
+    'user:owner',
+    'user:member',
+  ]);
+
+  await service.emitToTeamAndBoard(1, 1, 'retro.board.archived', {});
+  assert.deepEqual(namespace.broadcasts[1].rooms, [
+    'user:owner',
+    'user:member',
+    'board:1',
+  ]);
+});
+
+test('sockets that lost board access leave board rooms', async () => {
+  const { prisma, namespace, service } = setup();
+  namespace.join('owner-tab', 'board:1');
+  namespace.join('member-tab', 'board:1');
+  namespace.join('guest-tab', 'board:1');
+
+  prisma.isAnonymousBoardAccessEnabled = true;
+  await service.evictUnauthorizedBoardSockets(1);
+  assert.equal(namespace.rooms.get('board:1')?.size, 3);
+
+  prisma.isAnonymousBoardAccessEnabled = false;
+  prisma.memberIds = ['owner'];
+  await service.evictUnauthorizedBoardSockets(1);
+  assert.deepEqual(Array.from(namespace.rooms.get('board:1') ?? []), [
+    'owner-tab',
+  ]);
+});
+
+test('several tabs of one user make a single presence entry', async () => {
+  const { namespace, service } = setup();
+  service.registerClient(namespace.client('owner-tab-2') as never, 'owner');
+  const ownerTab = namespace.onBoard('owner-tab', 1);
+  const ownerTab2 = namespace.onBoard('owner-tab-2', 1);
+
+  await service.joinBoardPresence(ownerTab as never, 1);
+  const snapshot = await service.joinBoardPresence(ownerTab2 as never, 1);
+
+  assert.equal(snapshot.length, 1);
+  assert.equal(snapshot[0].key, 'user:owner');
+  assert.equal(snapshot[0].name, 'Анна');
+  assert.equal(snapshot[0].connections, 2);
+  assert.equal(
+    namespace.broadcasts.filter(
+      (item) => item.event === 'board.presence.joined',
+    ).length,
+    1,
+  );
+
+  ownerTab.leave('board:1');
+  await service.unregisterClient(ownerTab as never);
+  assert.equal((await service.getBoardPresence(1))[0].connections, 1);
+  assert.equal(namespace.broadcasts.at(-1)?.event, 'board.presence.updated');
+
+  ownerTab2.leave('board:1');
+  await service.leaveBoardPresence(ownerTab2 as never, 1);
+  assert.deepEqual(await service.getBoardPresence(1), []);
+  assert.deepEqual(namespace.broadcasts.at(-1)?.payload, {
+    boardId: 1,
+    key: 'user:owner',
+  });
+});
+
+test('guests are listed per socket', async () => {
+  const { namespace, service } = setup();
+
+  await service.joinBoardPresence(namespace.onBoard('guest-tab', 1), 1);
+  const snapshot = await service.joinBoardPresence(
+    namespace.onBoard('member-tab', 1),
+    1,
+  );
+
+  assert.deepEqual(
+    snapshot.map((item) => [item.key, item.isGuest]),
+    [
+      ['guest:guest-tab', true],
+      ['user:member', false],
+    ],
+  );
+});
+
+test('inactive participants become idle until the next ping', async () => {
+  const { namespace, service } = setup();
+  const memberTab = namespace.onBoard('member-tab', 1);
+  await service.joinBoardPresence(memberTab, 1);
+
+  const later = new Date(Date.now() + PRESENCE_IDLE_AFTER_MS);
+  assert.equal(await service.sweepIdlePresence(later), 1);
+  assert.equal((await service.getBoardPresence(1))[0].idle, true);
+  assert.equal(await service.sweepIdlePresence(later), 0);
+
+  assert.equal(await service.markBoardActivity(memberTab, 1), true);
+  assert.equal((await service.getBoardPresence(1))[0].idle, false);
+  assert.equal(namespace.broadcasts.at(-1)?.event, 'board.presence.updated');
+
+  assert.equal(
+    await service.markBoardActivity(namespace.sockets.get('owner-tab')!, 1),
+    false,
+  );
+});
@@ -0,0 +1,337 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { NotFoundException } from '@nestjs/common';
+import { Prisma, RetroTombstoneEntity } from '@prisma/client';
+import { RetroService } from '../src/retro/retro.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const T0 = new Date(Date.now() - DAY_MS);
+const at = (minutes: number) => new Date(T0.getTime() + minutes * 60_000);
+
+type Changed = { updatedAt: Date };
+type ChangedWhere = { updatedAt?: { gt: Date } };
+
+type MockColumn = Changed & {
+  id: number;
+  boardId: number;
+  name: string;
+  orderIndex: number;
+};
+
+type MockGroup = Changed & { id: number; columnId: number; name: string };
+
+type MockItem = Changed & {
+  id: number;
+  columnId: number;
+  groupId: number | null;
+  description: string;
+  authorId: string | null;
+};
+
+type MockComment = Changed & { id: number; itemId: number; text: string };
+
+type MockTombstone = {
+  id: number;
+  boardId: number;
+  entity: RetroTombstoneEntity;
+  entityId: number;
+  deletedAt: Date;
+};
+
+function changedAfter(row: Changed, where: ChangedWhere) {
+  return !where.updatedAt || row.updatedAt > where.updatedAt.gt;
+}
+
+class ChangesPrisma {
+  readonly columns: MockColumn[] = [];
+  readonly groups: MockGroup[] = [];
+  readonly items: MockItem[] = [];
+  readonly comments: MockComment[] = [];
+  readonly tombstones: MockTombstone[] = [];
+  isMember = true;
+  settings: Prisma.JsonValue = {};
+  boardUpdatedAt = T0;
+
+  $transaction = async <T>(run: (tx: this) => Promise<T>) => run(this);
+
+  retroBoard = {
+    findFirst: async () => ({
+      id: 1,
+      teamId: 1,
+      name: 'Sprint 12 Retro',
+      date: T0,
+      description: '',
+      settings: this.settings,
+      archivedAt: null,
+      deletedAt: null,
+      phase: null,
+      phaseChangedAt: null,
+      version: 3,
+      eventSeq: 0,
+      createdAt: T0,
+      updatedAt: this.boardUpdatedAt,
+      team: { isAnonymousBoardAccessEnabled: false },
+    }),
+    findUnique: async () => ({ phase: null }),
+  };
+
+  teamMember = {
+    findFirst: async () => (this.isMember ? { id: 1 } : null),
+    findUnique: async () => (this.isMember ? { role: 'MEMBER' } : null),
+  };
+
+  retroColumn = {
+    findUnique: async (args: { where: { id: number } }) =>
+      this.columns.find((column) => column.id === args.where.id) ?? null,
+    findMany: async (args: { where: ChangedWhere }) =>
+      this.columns
+        .filter((column) => changedAfter(column, args.where))
+        .map((column) => ({
+          ...column,
+          description: '',
+          color: '#FFDBD7',
+          isActionItems: false,
+          version: 1,
+        })),
+    delete: async (args: { where: { id: number } }) => {
+      this.removeColumn(args.where.id);
+      return { id: args.where.id };
+    },
+    updateMany: async () => ({ count: 0 }),
+  };
+
+  retroGroup = {
+    findMany: async (args: { where: ChangedWhere & { columnId?: number } }) =>
+      this.groups
+        .filter(
+          (group) =>
+            changedAfter(group, args.where) &&
+            (args.where.columnId === undefined ||
+              group.columnId === args.where.columnId),
+        )
+        .map((group) => ({
+          ...group,
+          description: '',
+          color: '#FFDBD7',
+          orderIndex: 0,
+          version: 1,
+        })),
+  };
+
+  retroItem = {
+    findMany: async (args: { where: ChangedWhere & { columnId?: number } }) =>
+      this.items
+        .filter(
+          (item) =>
+            changedAfter(item, args.where) &&
+            (args.where.columnId === undefined ||
+              item.columnId === args.where.columnId),
+        )
+        .map((item) => ({
+          ...item,
+          color: null,
+          rowIndex: 0,
+          version: 1,
+          createdAt: T0,
+          votes: [],
+          _count: { comments: 0 },
+          author: null,
+          column: { orderIndex: this.getColumnIndex(item.columnId) },
+        })),
+  };
+
+  retroItemComment = {
+    findMany: async (args: {
+      where: ChangedWhere & { item?: { columnId?: number } };
+    }) =>
+      this.comments
+        .filter(
+          (comment) =>
+            changedAfter(comment, args.where) &&
+            (args.where.item?.columnId === undefined ||
+              this.items.find((item) => item.id === comment.itemId)
+                ?.columnId === args.where.item.columnId),
+        )
+        .map((comment) => ({
+          ...comment,
+          version: 1,
+          createdAt: T0,
+          creator: { id: 'owner', email: 'owner@example.com', name: null },
+        })),
+  };
+
+  retroTombstone = {
+    findMany: async (args: { where: { deletedAt: { gt: Date } } }) =>
+      this.tombstones.filter(
+        (tombstone) => tombstone.deletedAt > args.where.deletedAt.gt,
+      ),
+    createMany: async (args: {
+      data: Array<{
+        boardId: number;
+        entity: RetroTombstoneEntity;
+        entityId: number;
+      }>;
+    }) => {
+      for (const entry of args.data) {
+        this.tombstones.push({
+          id: this.tombstones.length + 1,
+          ...entry,
+          deletedAt: new Date(),
+        });
+      }
+
+      return { count: args.data.length };
+    },
+  };
+
+  private getColumnIndex(columnId: number) {
+    return (
+      this.columns.find((column) => column.id === columnId)?.orderIndex ?? 0
+    );
+  }
+
+  private removeColumn(columnId: number) {
+    const itemIds = new Set(
+      this.items
+        .filter((item) => item.columnId === columnId)
+        .map((item) => item.id),
+    );
+    remove(this.columns, (column) => column.id === columnId);
+    remove(this.groups, (group) => group.columnId === columnId);
+    remove(this.items, (item) => itemIds.has(item.id));
+    remove(this.comments, (comment) => itemIds.has(comment.itemId));
+  }
+}
+
+function remove<T>(rows: T[], predicate: (row: T) => boolean) {
+  for (let index = rows.length - 1; index >= 0; index -= 1) {
+    if (predicate(rows[index])) {
+      rows.splice(index, 1);
+    }
+  }
+}
+
+function setup() {
+  const prisma = new ChangesPrisma();
+  prisma.columns.push(
+    { id: 7, boardId: 1, name: 'Хорошо', orderIndex: 0, updatedAt: at(0) },
+    { id: 8, boardId: 1, name: 'Улучшить', orderIndex: 1, updatedAt: at(5) },
+  );
+  prisma.groups.push({ id: 3, columnId: 7, name: 'Процесс', updatedAt: at(0) });
+  prisma.items.push(
+    {
+      id: 1,
+      columnId: 7,
+      groupId: 3,
+      description: 'Старая карточка',
+      authorId: 'owner',
+      updatedAt: at(0),
+    },
+    {
+      id: 2,
+      columnId: 8,
+      groupId: null,
+      description: 'Новая карточка',
+      authorId: 'owner',
+      updatedAt: at(6),
+    },
+  );
+  prisma.comments.push({
+    id: 11,
+    itemId: 1,
+    text: 'Согласен',
+    updatedAt: at(7),
+  });
+  prisma.tombstones.push({
+    id: 1,
+    boardId: 1,
+    entity: RetroTombstoneEntity.ITEM,
+    entityId: 9,
+    deletedAt: at(8),
+  });
+  const service = new RetroService(prisma as never, {} as never);
+
+  return { prisma, service };
+}
+
+test('changes contain only entities touched after the cursor', async () => {
+  const { service } = setup();
+
+  const changes = await service.getBoardChanges(1, 'member', at(1));
+
+  assert.equal(changes.resync, false);
+  assert.equal(changes.board, null);
+  assert.deepEqual(
+    changes.columns.map((column) => [column.id, column.orderIndex]),
+    [[8, 1]],
+  );
+  assert.deepEqual(changes.groups, []);
+  assert.deepEqual(
+    changes.items.map((item) => [item.id, item.columnId, item.columnIndex]),
+    [[2, 8, 1]],
+  );
+  assert.deepEqual(
+    changes.comments.map((comment) => comment.id),
+    [11],
+  );
+  assert.deepEqual(changes.tombstones, [
+    { entity: RetroTombstoneEntity.ITEM, id: 9, deletedAt: at(8) },
+  ]);
+  assert.ok(changes.cursor.getTime() < Date.now());
+});
+
+test('a board change returns every card with the current view', async () => {
+  const { prisma, service } = setup();
+  prisma.boardUpdatedAt = at(2);
+
+  const changes = await service.getBoardChanges(1, 'member', at(1));
+
+  assert.equal(changes.board?.version, 3);
+  assert.deepEqual(
+    changes.items.map((item) => item.id),
+    [1, 2],
+  );
+});
+
+test('deleting a column leaves tombstones for everything inside it', async () => {
+  const { prisma, service } = setup();
+  const since = new Date(Date.now() - 1);
+
+  await service.deleteColumn(7, 'member');
+  const changes = await service.getBoardChanges(1, 'member', since);
+
+  assert.deepEqual(
+    changes.tombstones.map((tombstone) => [tombstone.entity, tombstone.id]),
+    [
+      [RetroTombstoneEntity.COLUMN, 7],
+      [RetroTombstoneEntity.GROUP, 3],
+      [RetroTombstoneEntity.ITEM, 1],
+      [RetroTombstoneEntity.COMMENT, 11],
+    ],
+  );
+  assert.equal(prisma.items.length, 1);
+});
+
+test('a cursor older than kept tombstones asks for a reload', async () => {
+  const { service } = setup();
+
+  const changes = await service.getBoardChanges(
+    1,
+    'member',
+    new Date(Date.now() - 31 * DAY_MS),
+  );
+
+  assert.equal(changes.resync, true);
+  assert.deepEqual(changes.items, []);
+  assert.deepEqual(changes.tombstones, []);
+});
+
+test('changes require board access', async () => {
+  const { prisma, service } = setup();
+  prisma.isMember = false;
+
+  await assert.rejects(
+    async () => service.getBoardChanges(1, 'stranger', at(1)),
+    NotFoundException,
+  );
+});
@@ -0,0 +1,564 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  BoardTimer,
+  Prisma,
+  RetroBoardPhase,
+  TeamRole,
+  TimerStatus,
+} from '@prisma/client';
+import { normalizeBoardSettings } from '../src/retro/retro-board-settings';
+import { RetroController } from '../src/retro/retro.controller';
+import { RetroService } from '../src/retro/retro.service';
+import { TimerService } from '../src/timer/timer.service';
+
+type CloneBoardRecord = {
+  id: number;
+  teamId: number;
+  name: string;
+  date: Date;
+  description: string;
+  settings: Prisma.JsonValue;
+  phase: RetroBoardPhase | null;
+  phaseChangedAt: Date | null;
+  archivedAt: Date | null;
+  version: number;
+};
+
+type CloneColumnRecord = {
+  id: number;
+  boardId: number;
+  name: string;
+  description: string;
+  color: Prisma.JsonValue;
+  orderIndex: number;
+  isActionItems: boolean;
+  version: number;
+};
+
+type CloneGroupRecord = {
+  id: number;
+  columnId: number;
+  name: string;
+  description: string;
+  color: Prisma.JsonValue;
+  orderIndex: number;
+  version: number;
+};
+
+type CloneItemRecord = {
+  id: number;
+  columnId: number;
+  groupId: number | null;
+  description: string;
+  color: string | null;
+  rowIndex: number;
+  authorId: string | null;
+  createdAt: Date;
+  version: number;
+  likes: string[];
+};
+
+class ClonePrisma {
+  readonly members: Array<{ teamId: number; userId: string; role: TeamRole }> =
+    [];
+  readonly boards: CloneBoardRecord[] = [];
+  readonly columns: CloneColumnRecord[] = [];
+  readonly groups: CloneGroupRecord[] = [];
+  readonly items: CloneItemRecord[] = [];
+  readonly guests: Array<{ id: string; guestBoardId: number }> = [];
+  readonly timers: BoardTimer[] = [];
+  isAnonymousBoardAccessEnabled = false;
+
+  private idSeq = 100;
+
+  teamMember = {
+    findFirst: async (args: { where: { userId: string } }) =>
+      this.members.some((member) => member.userId === args.where.userId)
+        ? { id: 1 }
+        : null,
+    findUnique: async (args: {
+      where: { teamId_userId: { teamId: number; userId: string } };
+    }) => {
+      const { teamId, userId } = args.where.teamId_userId;
+      const member = this.members.find(
+        (item) => item.teamId === teamId && item.userId === userId,
+      );
+      return member
+        ? {
+            role: member.role,
+            team: { isTwoFactorRequiredForAdmins: false },
+            user: { totpEnabledAt: null },
+          }
+        : null;
+    },
+  };
+
+  user = {
+    findFirst: async (args: {
+      where: { id: string; guestBoardId: { not: number } };
+    }) =>
+      this.guests.find(
+        (guest) =>
+          guest.id === args.where.id &&
+          guest.guestBoardId !== args.where.guestBoardId.not,
+      ) ?? null,
+  };
+
+  boardTimer = {
+    findUnique: async (args: { where: { boardId: number } }) =>
+      this.timers.find((timer) => timer.boardId === args.where.boardId) ?? null,
+  };
+
+  retroBoard = {
+    findFirst: async (args: {
+      where: { id: number };
+      select?: {
+        team?: { select: { members?: { where: { userId: string } } } };
+      };
+    }) => {
+      const board = this.boards.find((item) => item.id === args.where.id);
+      const memberUserId = args.select?.team?.select.members?.where.userId;
+      return board
+        ? {
+            ...board,
+            team: {
+              isAnonymousBoardAccessEnabled: this.isAnonymousBoardAccessEnabled,
+              members: this.members
+                .filter(
+                  (member) =>
+                    member.teamId === board.teamId &&
+                    member.userId === memberUserId,
+                )
+                .map((member) => ({ id: member.userId })),
+            },
+            columns: this.boardColumns(board.id),
+          }
+        : null;
+    },
+    findUnique: async (args: {
+      where: { id: number };
+      select: {
+        columns: {
+          select: { items: { where: { id: { in: number[] } } } };
+        };
+      };
+    }) => {
+      const board = this.boards.find((item) => item.id === args.where.id);
+      if (!board) {
+        return null;
+      }
+
+      const carriedIds = args.select.columns.select.items.where.id.in;
+      return {
+        ...board,
+        columns: this.columnsOf(board.id).map((column) => ({
+          ...column,
+          groups: this.groupsOf(column.id),
+          items: this.items.filter(
+            (item) =>
+              item.columnId === column.id && carriedIds.includes(item.id),
+          ),
+        })),
+      };
+    },
+    create: async (args: {
+      data: Omit<
+        CloneBoardRecord,
+        'id' | 'phase' | 'phaseChangedAt' | 'archivedAt' | 'version'
+      >;
+    }) => {
+      const board: CloneBoardRecord = {
+        id: this.idSeq++,
+        phase: null,
+        phaseChangedAt: null,
+        archivedAt: null,
+        version: 1,
+        ...args.data,
+      };
+      this.boards.push(board);
+      return { id: board.id };
+    },
+  };
+
+  retroColumn = {
+    create: async (args: {
+      data: Omit<CloneColumnRecord, 'id' | 'version'>;
+    }) => {
+      const column: CloneColumnRecord = {
+        id: this.idSeq++,
+        version: 1,
+        ...args.data,
+      };
+      this.columns.push(column);
+      return { id: column.id };
+    },
+  };
+
+  retroGroup = {
+    create: async (args: {
+      data: Omit<CloneGroupRecord, 'id' | 'version'>;
+    }) => {
+      const group: CloneGroupRecord = {
+        id: this.idSeq++,
+        version: 1,
+        ...args.data,
+      };
+      this.groups.push(group);
+      return { id: group.id };
+    },
+    findMany: async (args: { where: { columnId: number } }) =>
+      this.groupsOf(args.where.columnId),
+    update: async (args: {
+      where: { id: number };
+      data: { orderIndex: number };
+    }) => {
+      const group = this.groups.find((item) => item.id === args.where.id);
+      assert.ok(group);
+      group.orderIndex = args.data.orderIndex;
+      return group;
+    },
+  };
+
+  retroItem = {
+    create: async (args: {
+      data: Omit<CloneItemRecord, 'id' | 'createdAt' | 'version' | 'likes'>;
+    }) => {
+      const item: CloneItemRecord = {
+        id: this.idSeq++,
+        createdAt: new Date(),
+        version: 1,
+        likes: [],
+        ...args.data,
+      };
+      this.items.push(item);
+      return item;
+    },
+    findMany: async (args: {
+      where: { groupId: number | null; columnId?: number };
+    }) =>
+      this.items
+        .filter(
+          (item) =>
+            item.groupId === args.where.groupId &&
+            (args.where.columnId === undefined ||
+              item.columnId === args.where.columnId),
+        )
+        .sort((a, b) => a.rowIndex - b.rowIndex || a.id - b.id),
+    update: async (args: {
+      where: { id: number };
+      data: { rowIndex: number };
+    }) => {
+      const item = this.items.find((record) => record.id === args.where.id);
+      assert.ok(item);
+      item.rowIndex = args.data.rowIndex;
+      return item;
+    },
+  };
+
+  async $transaction<T>(callback: (tx: ClonePrisma) => Promise<T>) {
+    return callback(this);
+  }
+
+  private columnsOf(boardId: number) {
+    return this.columns
+      .filter((column) => column.boardId === boardId)
+      .sort((a, b) => a.orderIndex - b.orderIndex);
+  }
+
+  private groupsOf(columnId: number) {
+    return this.groups
+      .filter((group) => group.columnId === columnId)
+      .sort((a, b) => a.orderIndex - b.orderIndex);
+  }
+
+  private boardColumns(boardId: number) {
+    const withCounts = (item: CloneItemRecord) => ({
+      ...item,
+      votes: item.likes.map((userId) => ({ userId })),
+      _count: { comments: 0 },
+      author: null,
+    });
+
+    return this.columnsOf(boardId).map((column) => ({
+      ...column,
+      items: this.items
+        .filter((item) => item.columnId === column.id && item.groupId === null)
+        .map(withCounts),
+      groups: this.groupsOf(column.id).map((group) => ({
+        ...group,
+        items: this.items
+          .filter((item) => item.groupId === group.id)
+          .map(withCounts),
+      })),
+    }));
+  }
+}
+
+function setupClone() {
+  const prisma = new ClonePrisma();
+  prisma.members.push(
+    { teamId: 1, userId: 'owner', role: TeamRole.OWNER },
+    { teamId: 1, userId: 'member', role: TeamRole.MEMBER },
+  );
+  prisma.boards.push({
+    id: 1,
+    teamId: 1,
+    name: 'Sprint 12',
+    date: new Date('2026-03-01T00:00:00.000Z'),
+    description: 'Итоги спринта',
+    settings: {
+      showLikes: false,
+      authorVisibility: 'anonymous',
+      voting: {
+        enabled: true,
+        maxVotesPerParticipant: 3,
+        allowMultipleVotesPerItem: true,
+        hideVotesUntilReveal: true,
+        votesRevealed: true,
+      },
+      cardHiding: {
+        enabled: true,
+        revealedColumnIds: [10],
+        revealedAuthorIds: ['owner'],
+      },
+    },
+    phase: RetroBoardPhase.DISCUSS,
+    phaseChangedAt: new Date('2026-03-01T10:00:00.000Z'),
+    archivedAt: null,
+    version: 7,
+  });
+  prisma.columns.push(
+    {
+      id: 10,
+      boardId: 1,
+      name: 'Что было хорошо',
+      description: '',
+      color: null,
+      orderIndex: 0,
+      isActionItems: false,
+      version: 3,
+    },
+    {
+      id: 11,
+      boardId: 1,
+      name: 'Действия',
+      description: 'Кто и что делает',
+      color: null,
+      orderIndex: 1,
+      isActionItems: true,
+      version: 2,
+    },
+  );
+  prisma.groups.push({
+    id: 20,
+    columnId: 10,
+    name: 'Релиз',
+    description: '',
+    color: null,
+    orderIndex: 0,
+    version: 1,
+  });
+  prisma.items.push(
+    {
+      id: 30,
+      columnId: 10,
+      groupId: 20,
+      description: 'Быстрый релиз',
+      color: null,
+      rowIndex: 0,
+      authorId: 'member',
+      createdAt: new Date(),
+      version: 4,
+      likes: ['owner', 'member'],
+    },
+    {
+      id: 31,
+      columnId: 11,
+      groupId: null,
+      description: 'Обновить CI',
+      color: null,
+      rowIndex: 0,
+      authorId: 'owner',
+      createdAt: new Date(),
+      version: 1,
+      likes: [],
+    },
+  );
+  const service = new RetroService(prisma as never, {} as never);
+
+  return { prisma, service };
+}
+
+test('cloneBoard copies columns and settings without the reveal and vote state', async () => {
+  const { prisma, service } = setupClone();
+
+  const clone = await service.cloneBoard(1, 'owner', { name: 'Sprint 13' });
+
+  assert.notEqual(clone.id, 1);
+  assert.equal(clone.name, 'Sprint 13');
+  assert.equal(clone.description, 'Итоги спринта');
+  assert.equal(clone.phase, null);
+  assert.deepEqual(
+    clone.columns.map((column) => [
+      column.name,
+      column.description,
+      column.isActionItems,
+    ]),
+    [
+      ['Что было хорошо', '', false],
+      ['Действия', 'Кто и что делает', true],
+    ],
+  );
+  assert.deepEqual(
+    clone.columns.map((column) => column.groups.map((group) => group.name)),
+    [['Релиз'], []],
+  );
+  assert.ok(clone.columns.every((column) => column.items.length === 0));
+
+  const settings = normalizeBoardSettings(
+    prisma.boards.find((board) => board.id === clone.id)?.settings ?? null,
+  );
+  assert.deepEqual(settings, {
+    showLikes: false,
+    authorVisibility: 'anonymous',
+    voting: {
+      enabled: true,
+      maxVotesPerParticipant: 3,
+      allowMultipleVotesPerItem: true,
+      hideVotesUntilReveal: true,
+      votesRevealed: false,
+    },
+    cardHiding: {
+      enabled: true,
+      revealedColumnIds: [],
+      revealedAuthorIds: [],
+    },
+  });
+});
+
+test('cloneBoard copies only the requested cards, without their likes', async () => {
+  const { prisma, service } = setupClone();
+
+  const clone = await service.cloneBoard(1, 'owner', { itemIds: [30] });
+  const cloned = prisma.items.filter((item) => item.id >= 100);
+
+  assert.equal(cloned.length, 1);
+  assert.equal(cloned[0].description, 'Быстрый релиз');
+  assert.equal(cloned[0].authorId, 'member');
+  assert.deepEqual(cloned[0].likes, []);
+
+  const clonedGroup = clone.columns[0].groups[0];
+  assert.equal(cloned[0].groupId, clonedGroup.id);
+  assert.deepEqual(
+    clonedGroup.items.map((item) => item.likes),
+    [[]],
+  );
+  assert.equal(clone.columns[1].items.length, 0);
+
+  await assert.rejects(
+    async () => service.cloneBoard(1, 'owner', { itemIds: [30, 999] }),
+    BadRequestException,
+  );
+});
+
+test('cloneBoard requires OWNER/ADMIN of the board team', async () => {
+  const { prisma, service } = setupClone();
+
+  await assert.rejects(
+    async () => service.cloneBoard(1, 'stranger', {}),
+    NotFoundException,
+  );
+  await assert.rejects(
+    async () => service.cloneBoard(1, 'member', {}),
+    ForbiddenException,
+  );
+  assert.equal(prisma.boards.length, 1);
+});
+
+function setupBoardDetails() {
+  const { prisma, service } = setupClone();
+  const now = new Date();
+  prisma.timers.push({
+    id: 1,
+    boardId: 1,
+    createdById: 'owner',
+    status: TimerStatus.RUNNING,
+    durationSeconds: 300,
+    remainingSeconds: 300,
+    startedAt: now,
+    endsAt: new Date(now.getTime() + 300_000),
+    createdAt: now,
+    updatedAt: now,
+  });
+  const controller = new RetroController(
+    service,
+    {} as never,
+    {} as never,
+    new TimerService(prisma as never),
+    {} as never,
+    {} as never,
+  );
+
+  return { prisma, controller };
+}
+
+test('getBoard returns the caller role and the board timer', async () => {
+  const { controller } = setupBoardDetails();
+
+  const ownerView = await controller.getBoard(
+    { id: 'owner', email: 'owner@example.com' },
+    1,
+  );
+  assert.equal(ownerView.role, TeamRole.OWNER);
+  assert.equal(ownerView.timer?.status, TimerStatus.RUNNING);
+  assert.equal(ownerView.timer?.durationSeconds, 300);
+
+  const memberView = await controller.getBoard(
+    { id: 'member', email: 'member@example.com' },
+    1,
+  );
+  assert.equal(memberView.role, TeamRole.MEMBER);
+  assert.equal(memberView.timer?.boardId, 1);
+});
+
+test('getBoard gives a guest of the board no role', async () => {
+  const { prisma, controller } = setupBoardDetails();
+  prisma.isAnonymousBoardAccessEnabled = true;
+  prisma.guests.push(
+    { id: 'guest', guestBoardId: 1 },
+    { id: 'foreign-guest', guestBoardId: 2 },
+  );
+  prisma.timers.length = 0;
+
+  const guestView = await controller.getBoard(
+    { id: 'guest', email: 'guest@guest.local', isGuest: true, guestBoardId: 1 },
+    1,
+  );
+  assert.equal(guestView.role, null);
+  assert.ok('timer' in guestView);
+  assert.equal(guestView.timer, null);
+  assert.deepEqual(
+    guestView.columns.map((column) => column.name),
+    ['Что было хорошо', 'Действия'],
+  );
+
+  await assert.rejects(
+    async () =>
+      controller.getBoard(
+        {
+          id: 'foreign-guest',
+          email: 'foreign@guest.local',
+          isGuest: true,
+          guestBoardId: 2,
+        },
+        1,
+      ),
+    NotFoundException,
+  );
+});
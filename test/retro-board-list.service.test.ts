@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { BadRequestException } from '@nestjs/common';
+import { RetroService } from '../src/retro/retro.service';
+
+type MockBoard = {
+  id: number;
+  teamId: number;
+  name: string;
+  date: Date;
+  description: string;
+  archivedAt: Date | null;
+};
+
+class ListPrisma {
+  readonly boards: MockBoard[] = [];
+  readonly findManyCalls: Array<Record<string, unknown>> = [];
+
+  teamMember = {
+    findUnique: async () => ({ id: 1 }),
+  };
+
+  retroBoard = {
+    findMany: async (args: {
+      where: { AND: Array<{ OR: [{ date: { lt: Date } }, { date: Date; id: { lt: number } }] }> };
+      take: number;
+    }) => {
+      this.findManyCalls.push(args as never);
+      const cursorWhere = args.where.AND[0];
+      const sorted = [...this.boards].sort(
+        (a, b) => b.date.getTime() - a.date.getTime() || b.id - a.id,
+      );
+      const filtered = cursorWhere
+        ? sorted.filter(
+            (board) =>
+              board.date.getTime() < cursorWhere.OR[0].date.lt.getTime() ||
+              (board.date.getTime() === cursorWhere.OR[1].date.getTime() &&
+                board.id < cursorWhere.OR[1].id.lt),
+          )
+        : sorted;
+
+      return filtered.slice(0, args.take);
+    },
+  };
+
+  $queryRaw = async () => [];
+}
+
+function setup() {
+  const prisma = new ListPrisma();
+  for (let id = 1; id <= 5; id += 1) {
+    prisma.boards.push({
+      id,
+      teamId: 1,
+      name: `Retro ${id}`,
+      date: new Date(Date.UTC(2026, 0, id <= 2 ? 1 : id)),
+      description: '',
+      archivedAt: null,
+    });
+  }
+  const service = new RetroService(prisma as never, {} as never);
+
+  return { prisma, service };
+}
+
+test('getBoards pages through summaries with a cursor', async () => {
+  const { service } = setup();
+
+  const firstPage = await service.getBoards('user', { teamId: 1, limit: 2 });
+  assert.deepEqual(
+    firstPage.items.map((board) => board.id),
+    [5, 4],
+  );
+  assert.deepEqual(firstPage.items[0].counters, {
+    itemsCount: 0,
+    participantsCount: 0,
+    openActionItemsCount: 0,
+  });
+  assert.ok(firstPage.nextCursor);
+
+  const secondPage = await service.getBoards('user', {
+    teamId: 1,
+    limit: 2,
+    cursor: firstPage.nextCursor ?? undefined,
+  });
+  assert.deepEqual(
+    secondPage.items.map((board) => board.id),
+    [3, 2],
+  );
+
+  const lastPage = await service.getBoards('user', {
+    teamId: 1,
+    limit: 2,
+    cursor: secondPage.nextCursor ?? undefined,
+  });
+  assert.deepEqual(
+    lastPage.items.map((board) => board.id),
+    [1],
+  );
+  assert.equal(lastPage.nextCursor, null);
+});
+
+test('getBoards rejects a cursor issued for another sort field', async () => {
+  const { service } = setup();
+
+  const page = await service.getBoards('user', { limit: 1 });
+
+  await assert.rejects(
+    async () =>
+      service.getBoards('user', {
+        limit: 1,
+        sortBy: 'name',
+        cursor: page.nextCursor ?? undefined,
+      }),
+    BadRequestException,
+  );
+  await assert.rejects(
+    async () => service.getBoards('user', { cursor: 'not-a-cursor' }),
+    BadRequestException,
+  );
+});
@@ -0,0 +1,203 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { RetroBoardPhase, TeamRole } from '@prisma/client';
+import { maskCardText } from '../src/retro/retro-card-visibility';
+import { RetroService } from '../src/retro/retro.service';
+
+type MockItem = {
+  id: number;
+  description: string;
+  color: string | null;
+  rowIndex: number;
+  columnId: number;
+  groupId: number | null;
+  authorId: string | null;
+};
+
+class PhasePrisma {
+  readonly members: Array<{ teamId: number; userId: string; role: TeamRole }> =
+    [];
+  readonly items = new Map<number, MockItem>();
+  phase: RetroBoardPhase | null = null;
+  phaseChangedAt: Date | null = null;
+
+  retroBoard = {
+    findFirst: async () => ({
+      id: 1,
+      teamId: 1,
+      team: { isAnonymousBoardAccessEnabled: false },
+    }),
+    findUnique: async () => ({ phase: this.phase }),
+    update: async (args: {
+      data: { phase: RetroBoardPhase; phaseChangedAt: Date };
+    }) => {
+      this.phase = args.data.phase;
+      this.phaseChangedAt = args.data.phaseChangedAt;
+      return { phase: this.phase, phaseChangedAt: this.phaseChangedAt };
+    },
+  };
+
+  teamMember = {
+    findFirst: async (args: { where: { userId: string } }) => {
+      const member = this.members.find(
+        (item) => item.userId === args.where.userId,
+      );
+      return member ? { id: 1 } : null;
+    },
+    findUnique: async (args: {
+      where: { teamId_userId: { teamId: number; userId: string } };
+    }) => {
+      const { teamId, userId } = args.where.teamId_userId;
+      const member = this.members.find(
+        (item) => item.teamId === teamId && item.userId === userId,
+      );
+      return member
+        ? {
+            id: 1,
+            role: member.role,
+            team: { isTwoFactorRequiredForAdmins: false },
+            user: { totpEnabledAt: null },
+          }
+        : null;
+    },
+  };
+
+  retroItem = {
+    findUnique: async (args: { where: { id: number } }) => {
+      const item = this.items.get(args.where.id);
+      if (!item) {
+        return null;
+      }
+
+      return {
+        id: item.id,
+        authorId: item.authorId,
+        column: {
+          boardId: 1,
+          board: {
+            id: 1,
+            teamId: 1,
+            settings: {},
+            phase: this.phase,
+          },
+        },
+      };
+    },
+    update: async (args: {
+      where: { id: number };
+      data: Partial<MockItem>;
+    }) => {
+      const item = this.items.get(args.where.id) as MockItem;
+      const updated = { ...item, ...args.data };
+      this.items.set(updated.id, updated);
+      return { ...updated, votes: [] };
+    },
+  };
+}
+
+function setup(phase: RetroBoardPhase | null = null) {
+  const prisma = new PhasePrisma();
+  prisma.phase = phase;
+  prisma.members.push({ teamId: 1, userId: 'owner', role: TeamRole.OWNER });
+  prisma.members.push({ teamId: 1, userId: 'author', role: TeamRole.MEMBER });
+  prisma.items.set(1, {
+    id: 1,
+    description: 'Card',
+    color: null,
+    rowIndex: 0,
+    columnId: 1,
+    groupId: null,
+    authorId: 'author',
+  });
+  const service = new RetroService(prisma as never, {} as never);
+
+  return { prisma, service };
+}
+
+test('facilitator moves board forward and one phase back', async () => {
+  const { service } = setup();
+
+  const started = await service.changeBoardPhase(
+    1,
+    'owner',
+    RetroBoardPhase.WRITE,
+  );
+  assert.equal(started.previousPhase, null);
+  assert.equal(started.phase, RetroBoardPhase.WRITE);
+
+  await service.changeBoardPhase(1, 'owner', RetroBoardPhase.VOTE);
+  const back = await service.changeBoardPhase(
+    1,
+    'owner',
+    RetroBoardPhase.GROUP,
+  );
+  assert.equal(back.previousPhase, RetroBoardPhase.VOTE);
+
+  await assert.rejects(
+    async () => service.changeBoardPhase(1, 'owner', RetroBoardPhase.WRITE),
+    BadRequestException,
+  );
+});
+
+test('only OWNER/ADMIN can change board phase', async () => {
+  const { service } = setup();
+
+  await assert.rejects(
+    async () => service.changeBoardPhase(1, 'author', RetroBoardPhase.WRITE),
+    ForbiddenException,
+  );
+});
+
+test('likes and group moves are limited to their phases', async () => {
+  const { service } = setup(RetroBoardPhase.DISCUSS);
+
+  await assert.rejects(
+    async () => service.toggleItemLike(1, 'author'),
+    ConflictException,
+  );
+  await assert.rejects(
+    async () =>
+      service.syncGroupPositions(1, 'author', [
+        { groupId: 1, newColumnId: 1, newOrderIndex: 0 },
+      ]),
+    ConflictException,
+  );
+});
+
+test('closed board rejects changes', async () => {
+  const { service } = setup(RetroBoardPhase.CLOSED);
+
+  await assert.rejects(
+    async () => service.updateItemDescription(1, 'author', 'Edited'),
+    ConflictException,
+  );
+  await assert.rejects(
+    async () => service.deleteItem(1, 'owner'),
+    ConflictException,
+  );
+});
+
+test('write phase shows card text to its author only', async () => {
+  const { service } = setup(RetroBoardPhase.WRITE);
+
+  const byAuthor = await service.updateItemDescription(1, 'author', 'Secret');
+  assert.equal(byAuthor.description, 'Secret');
+
+  const byOwner = await service.updateItemColor(1, 'owner', '#34d399');
+  assert.equal(byOwner.description, '');
+
+  const broadcast = maskCardText(byAuthor, byAuthor, {
+    phase: RetroBoardPhase.WRITE,
+    cardHiding: {
+      enabled: false,
+      revealedColumnIds: [],
+      revealedAuthorIds: [],
+    },
+  });
+  assert.equal(broadcast.description, '');
+});
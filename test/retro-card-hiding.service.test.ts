@@ -0,0 +1,226 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma, TeamRole } from '@prisma/client';
+import {
+  mergeBoardSettings,
+  normalizeBoardSettings,
+} from '../src/retro/retro-board-settings';
+import { isCardTextVisible } from '../src/retro/retro-card-visibility';
+import { RetroService } from '../src/retro/retro.service';
+
+type MockItem = {
+  id: number;
+  description: string;
+  color: string | null;
+  rowIndex: number;
+  columnId: number;
+  groupId: number | null;
+  authorId: string | null;
+};
+
+class CardHidingPrisma {
+  readonly members: Array<{ teamId: number; userId: string; role: TeamRole }> =
+    [];
+  readonly items = new Map<number, MockItem>();
+  settings: Prisma.JsonValue = {
+    cardHiding: { enabled: true },
+  };
+
+  retroBoard = {
+    findFirst: async () => ({
+      id: 1,
+      teamId: 1,
+      team: { isAnonymousBoardAccessEnabled: false },
+    }),
+    findUnique: async () => ({ settings: this.settings, phase: null }),
+    update: async (args: { data: { settings: Prisma.JsonValue } }) => {
+      this.settings = args.data.settings;
+      return { id: 1 };
+    },
+  };
+
+  retroColumn = {
+    findFirst: async (args: { where: { id: number } }) =>
+      args.where.id === 7 || args.where.id === 8 ? { id: args.where.id } : null,
+  };
+
+  teamMember = {
+    findFirst: async (args: { where: { userId: string } }) => {
+      const member = this.members.find(
+        (item) => item.userId === args.where.userId,
+      );
+      return member ? { id: 1 } : null;
+    },
+    findUnique: async (args: {
+      where: { teamId_userId: { teamId: number; userId: string } };
+    }) => {
+      const { teamId, userId } = args.where.teamId_userId;
+      const member = this.members.find(
+        (item) => item.teamId === teamId && item.userId === userId,
+      );
+      return member
+        ? {
+            id: 1,
+            role: member.role,
+            team: { isTwoFactorRequiredForAdmins: false },
+            user: { totpEnabledAt: null },
+          }
+        : null;
+    },
+  };
+
+  retroItem = {
+    findUnique: async (args: { where: { id: number } }) => {
+      const item = this.items.get(args.where.id);
+      if (!item) {
+        return null;
+      }
+
+      return {
+        id: item.id,
+        authorId: item.authorId,
+        column: {
+          boardId: 1,
+          board: {
+            id: 1,
+            teamId: 1,
+            settings: this.settings,
+            phase: null,
+          },
+        },
+      };
+    },
+    findMany: async (args: {
+      where: { OR: Array<{ columnId?: number; authorId?: string }> };
+    }) =>
+      Array.from(this.items.values())
+        .filter((item) =>
+          args.where.OR.some(
+            (condition) =>
+              item.columnId === condition.columnId ||
+              item.authorId === condition.authorId,
+          ),
+        )
+        .map((item) => ({
+          ...item,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          votes: [],
+          _count: { comments: 0 },
+          author: null,
+          column: { orderIndex: item.columnId - 7 },
+        })),
+    update: async (args: {
+      where: { id: number };
+      data: Partial<MockItem>;
+    }) => {
+      const item = this.items.get(args.where.id) as MockItem;
+      const updated = { ...item, ...args.data };
+      this.items.set(updated.id, updated);
+      return { ...updated, votes: [] };
+    },
+  };
+}
+
+function setup() {
+  const prisma = new CardHidingPrisma();
+  prisma.members.push({ teamId: 1, userId: 'owner', role: TeamRole.OWNER });
+  prisma.members.push({ teamId: 1, userId: 'author', role: TeamRole.MEMBER });
+  prisma.items.set(1, {
+    id: 1,
+    description: 'Went well',
+    color: null,
+    rowIndex: 0,
+    columnId: 7,
+    groupId: null,
+    authorId: 'author',
+  });
+  prisma.items.set(2, {
+    id: 2,
+    description: 'To improve',
+    color: null,
+    rowIndex: 0,
+    columnId: 8,
+    groupId: null,
+    authorId: 'owner',
+  });
+  const service = new RetroService(prisma as never, {} as never);
+
+  return { prisma, service };
+}
+
+test('hidden cards stay visible to their author', async () => {
+  const { service } = setup();
+
+  const byAuthor = await service.updateItemDescription(1, 'author', 'Mine');
+  assert.equal(byAuthor.description, 'Mine');
+
+  const byOwner = await service.updateItemColor(1, 'owner', '#34d399');
+  assert.equal(byOwner.description, '');
+});
+
+test('facilitator reveals cards per column and per author', async () => {
+  const { prisma, service } = setup();
+
+  const byColumn = await service.revealBoardCards(1, 'owner', { columnId: 7 });
+  assert.deepEqual(byColumn.cardHiding.revealedColumnIds, [7]);
+  assert.deepEqual(
+    byColumn.items.map((item) => item.description),
+    ['Went well'],
+  );
+
+  const byAuthor = await service.revealBoardCards(1, 'owner', {
+    authorId: 'owner',
+  });
+  assert.deepEqual(byAuthor.cardHiding.revealedAuthorIds, ['owner']);
+  assert.deepEqual(
+    byAuthor.items.map((item) => item.description),
+    ['To improve'],
+  );
+
+  const cardHiding = normalizeBoardSettings(prisma.settings).cardHiding;
+  assert.equal(
+    isCardTextVisible(
+      { phase: null, cardHiding },
+      { authorId: null, columnId: 9 },
+    ),
+    false,
+  );
+});
+
+test('reveal requires OWNER/ADMIN, hidden cards and a board column', async () => {
+  const { prisma, service } = setup();
+
+  await assert.rejects(
+    async () => service.revealBoardCards(1, 'author', { columnId: 7 }),
+    ForbiddenException,
+  );
+  await assert.rejects(
+    async () => service.revealBoardCards(1, 'owner', { columnId: 99 }),
+    BadRequestException,
+  );
+
+  prisma.settings = {};
+  await assert.rejects(
+    async () => service.revealBoardCards(1, 'owner', { columnId: 7 }),
+    BadRequestException,
+  );
+});
+
+test('enabling hiding again drops earlier reveals', () => {
+  const current = normalizeBoardSettings({
+    cardHiding: {
+      enabled: false,
+      revealedColumnIds: [7],
+      revealedAuthorIds: ['author'],
+    },
+  });
+
+  const merged = mergeBoardSettings(current, { cardHiding: { enabled: true } });
+  assert.deepEqual(merged.cardHiding, {
+    enabled: true,
+    revealedColumnIds: [],
+    revealedAuthorIds: [],
+  });
+});
@@ -0,0 +1,220 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { writeVersioned } from '../src/retro/retro-entity-version';
+import { RetroService } from '../src/retro/retro.service';
+
+type MockItem = {
+  id: number;
+  description: string;
+  color: string | null;
+  rowIndex: number;
+  columnId: number;
+  groupId: number | null;
+  authorId: string | null;
+  version: number;
+};
+
+type MockColumn = {
+  id: number;
+  boardId: number;
+  name: string;
+  version: number;
+};
+
+type VersionedArgs = { where: { id: number; version?: number } };
+
+function recordNotFound() {
+  return new Prisma.PrismaClientKnownRequestError('Record not found', {
+    code: 'P2025',
+    clientVersion: 'test',
+  });
+}
+
+function matches(
+  row: { version: number } | undefined,
+  where: VersionedArgs['where'],
+) {
+  return (
+    row !== undefined &&
+    (where.version === undefined || row.version === where.version)
+  );
+}
+
+class VersionPrisma {
+  readonly items = new Map<number, MockItem>();
+  readonly columns = new Map<number, MockColumn>();
+  readonly tombstones: Array<{ entity: string; entityId: number }> = [];
+
+  $transaction = async <T>(run: (tx: this) => Promise<T>) => run(this);
+
+  retroItemComment = {
+    findMany: async () => [],
+  };
+
+  retroTombstone = {
+    createMany: async (args: {
+      data: Array<{ entity: string; entityId: number }>;
+    }) => {
+      this.tombstones.push(
+        ...args.data.map(({ entity, entityId }) => ({ entity, entityId })),
+      );
+      return { count: args.data.length };
+    },
+  };
+
+  retroBoard = {
+    findFirst: async () => ({
+      id: 1,
+      teamId: 1,
+      team: { isAnonymousBoardAccessEnabled: false },
+    }),
+    findUnique: async () => ({ phase: null }),
+  };
+
+  teamMember = {
+    findFirst: async () => ({ id: 1 }),
+  };
+
+  retroColumn = {
+    findUnique: async (args: VersionedArgs) =>
+      this.columns.get(args.where.id) ?? null,
+    update: async (args: VersionedArgs & { data: { name: string } }) => {
+      const column = this.columns.get(args.where.id);
+      if (!column || !matches(column, args.where)) {
+        throw recordNotFound();
+      }
+
+      const updated = {
+        ...column,
+        name: args.data.name,
+        version: column.version + 1,
+      };
+      this.columns.set(updated.id, updated);
+      return updated;
+    },
+  };
+
+  retroItem = {
+    findUnique: async (args: VersionedArgs) => {
+      const item = this.items.get(args.where.id);
+      if (!item) {
+        return null;
+      }
+
+      return {
+        ...item,
+        votes: [],
+        column: {
+          boardId: 1,
+          board: { id: 1, teamId: 1, settings: {}, phase: null },
+        },
+      };
+    },
+    update: async (args: VersionedArgs & { data: { description: string } }) => {
+      const item = this.items.get(args.where.id);
+      if (!item || !matches(item, args.where)) {
+        throw recordNotFound();
+      }
+
+      const updated = {
+        ...item,
+        description: args.data.description,
+        version: item.version + 1,
+      };
+      this.items.set(updated.id, updated);
+      return { ...updated, votes: [] };
+    },
+    delete: async (args: VersionedArgs) => {
+      const item = this.items.get(args.where.id);
+      if (!item || !matches(item, args.where)) {
+        throw recordNotFound();
+      }
+
+      this.items.delete(item.id);
+      return item;
+    },
+  };
+}
+
+function setup() {
+  const prisma = new VersionPrisma();
+  prisma.items.set(1, {
+    id: 1,
+    description: 'Card',
+    color: null,
+    rowIndex: 0,
+    columnId: 7,
+    groupId: null,
+    authorId: 'author',
+    version: 1,
+  });
+  prisma.columns.set(7, { id: 7, boardId: 1, name: 'Хорошо', version: 3 });
+  const service = new RetroService(prisma as never, {} as never);
+
+  return { prisma, service };
+}
+
+test('matching version updates the item and bumps its version', async () => {
+  const { service } = setup();
+
+  const item = await service.updateItemDescription(1, 'author', 'Edited', 1);
+  assert.equal(item.description, 'Edited');
+  assert.equal(item.version, 2);
+});
+
+test('stale version is rejected with the current state', async () => {
+  const { prisma, service } = setup();
+  await service.updateItemDescription(1, 'author', 'First', 1);
+
+  await assert.rejects(
+    async () => service.updateItemDescription(1, 'author', 'Second', 1),
+    (error: unknown) => {
+      assert.ok(error instanceof ConflictException);
+      const body = error.getResponse() as {
+        message: string;
+        current: { description: string; version: number };
+      };
+      assert.equal(
+        body.message,
+        'Item 1 was changed: expected version 1, current version 2',
+      );
+      assert.equal(body.current.description, 'First');
+      assert.equal(body.current.version, 2);
+      return true;
+    },
+  );
+
+  await assert.rejects(
+    async () => service.deleteItem(1, 'author', 1),
+    ConflictException,
+  );
+  assert.deepEqual(prisma.tombstones, []);
+  assert.deepEqual(await service.deleteItem(1, 'author', 2), {
+    deleted: true,
+  });
+  assert.deepEqual(prisma.tombstones, [{ entity: 'ITEM', entityId: 1 }]);
+});
+
+test('writes without expected version stay last-write-wins', async () => {
+  const { service } = setup();
+
+  const column = await service.updateColumnName(7, 'author', 'Что улучшить');
+  assert.equal(column.name, 'Что улучшить');
+  assert.equal(column.version, 4);
+});
+
+test('missing record with the expected version is not a conflict', async () => {
+  await assert.rejects(
+    async () =>
+      writeVersioned(
+        { entity: 'Item', id: 1, expectedVersion: 2 },
+        async () => {
+          throw recordNotFound();
+        },
+        async () => ({ version: 2 }),
+      ),
+    Prisma.PrismaClientKnownRequestError,
+  );
+});
@@ -0,0 +1,201 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { AuthenticatedUser } from '../src/auth/types/authenticated-user.type';
+import { RetroCommandService } from '../src/retro/retro-command.service';
+import { RetroController } from '../src/retro/retro.controller';
+import { RetroService } from '../src/retro/retro.service';
+import { RetroGateway } from '../src/socket/retro.gateway';
+import { WS_ERROR_CODES } from '../src/socket/ws-command';
+
+type GuestRecord = {
+  id: string;
+  email: string;
+  name: string;
+  guestBoardId: number;
+};
+
+type CommentRecord = {
+  id: number;
+  itemId: number;
+  creatorId: string;
+  text: string;
+  version: number;
+  createdAt: Date;
+};
+
+/**
+ * Board 1 of a team with anonymous access; only guests, no team members.
+ */
+class GuestBoardPrisma {
+  readonly guests: GuestRecord[] = [
+    {
+      id: 'guest-alice',
+      email: 'alice@guest.local',
+      name: 'Алиса',
+      guestBoardId: 1,
+    },
+    {
+      id: 'guest-bob',
+      email: 'bob@guest.local',
+      name: 'Боб',
+      guestBoardId: 1,
+    },
+  ];
+  readonly comments: CommentRecord[] = [
+    {
+      id: 11,
+      itemId: 5,
+      creatorId: 'guest-alice',
+      text: 'Идея Алисы',
+      version: 1,
+      createdAt: new Date('2026-03-24T09:00:00.000Z'),
+    },
+  ];
+
+  retroBoard = {
+    findFirst: async () => ({
+      id: 1,
+      team: { isAnonymousBoardAccessEnabled: true },
+    }),
+    findUnique: async () => ({ phase: null }),
+  };
+
+  teamMember = {
+    findUnique: async () => null,
+  };
+
+  user = {
+    findFirst: async (args: {
+      where: { id: string; guestBoardId: { not: number } };
+    }) =>
+      this.guests.find(
+        (guest) =>
+          guest.id === args.where.id &&
+          guest.guestBoardId !== args.where.guestBoardId.not,
+      ) ?? null,
+  };
+
+  retroItemComment = {
+    findUnique: async (args: { where: { id: number } }) => {
+      const comment = this.comments.find((item) => item.id === args.where.id);
+      return comment
+        ? {
+            ...comment,
+            item: {
+              id: comment.itemId,
+              column: { board: { id: 1, teamId: 1 } },
+            },
+          }
+        : null;
+    },
+    update: async (args: { where: { id: number }; data: { text: string } }) => {
+      const comment = this.comments.find((item) => item.id === args.where.id);
+      assert.ok(comment);
+      comment.text = args.data.text;
+      comment.version += 1;
+      return {
+        ...comment,
+        creator: this.guests.find((guest) => guest.id === comment.creatorId),
+      };
+    },
+  };
+}
+
+function setup() {
+  process.env.JWT_ACCESS_SECRET ??= 'test-secret';
+  const prisma = new GuestBoardPrisma();
+  const retroService = new RetroService(prisma as never, {} as never);
+  const emitted: Array<{ event: string; excludedUserId?: string }> = [];
+  const realtime = {
+    emitToBoard: async (
+      _boardId: number,
+      event: string,
+      _payload: unknown,
+      excludedUserId?: string,
+    ) => {
+      emitted.push({ event, excludedUserId });
+    },
+  };
+  const commands = new RetroCommandService(
+    retroService,
+    {} as never,
+    realtime as never,
+    {} as never,
+    {} as never,
+  );
+  const controller = new RetroController(
+    retroService,
+    realtime as never,
+    commands,
+    {} as never,
+    {} as never,
+    {} as never,
+  );
+
+  return { prisma, emitted, controller };
+}
+
+// What the JWT strategy puts on the request for a guest token.
+function asGuest(guest: GuestRecord): AuthenticatedUser {
+  return {
+    id: guest.id,
+    email: guest.email,
+    isGuest: true,
+    guestBoardId: guest.guestBoardId,
+  };
+}
+
+test('requests without a token are rejected instead of sharing a user', async () => {
+  const { prisma, controller } = setup();
+
+  await assert.rejects(
+    async () =>
+      controller.updateItemComment(undefined, 11, { text: 'Первый гость' }),
+    UnauthorizedException,
+  );
+  await assert.rejects(
+    async () =>
+      controller.updateItemComment(undefined, 11, { text: 'Второй гость' }),
+    UnauthorizedException,
+  );
+  assert.equal(prisma.comments[0].text, 'Идея Алисы');
+
+  const gateway = new RetroGateway(
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+  );
+  const ack = await gateway.handleItemCreate({ data: {} } as never, {
+    columnId: 7,
+  });
+  assert.equal(ack.ok, false);
+  assert.equal(!ack.ok && ack.error.code, WS_ERROR_CODES.unauthorized);
+});
+
+test('guest sessions cannot edit each other content', async () => {
+  const { prisma, emitted, controller } = setup();
+  const [alice, bob] = prisma.guests;
+
+  await assert.rejects(
+    async () =>
+      controller.updateItemComment(asGuest(bob), 11, { text: 'Чужая правка' }),
+    ForbiddenException,
+  );
+  assert.equal(prisma.comments[0].text, 'Идея Алисы');
+
+  const updated = await controller.updateItemComment(asGuest(alice), 11, {
+    text: 'Идея Алисы, дополненная',
+  });
+  assert.equal(updated.text, 'Идея Алисы, дополненная');
+  assert.equal(updated.creator.id, 'guest-alice');
+  // Only Alice's own sockets skip the event; Bob still receives it.
+  assert.deepEqual(emitted, [
+    { event: 'retro.item.comment.updated', excludedUserId: 'guest-alice' },
+  ]);
+});
@@ -0,0 +1,563 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { NotFoundException } from '@nestjs/common';
+import { RetroTombstoneEntity, RetroVoteKind } from '@prisma/client';
+import { AccessActor } from '../src/auth/types/access-actor.type';
+import { RetroCommandService } from '../src/retro/retro-command.service';
+import { staleVersionConflict } from '../src/retro/retro-entity-version';
+import { RETRO_EVENTS } from '../src/retro/retro-events';
+import { RetroItemSnapshot } from '../src/retro/retro-history';
+import { RetroHistoryService } from '../src/retro/retro-history.service';
+import { RetroService } from '../src/retro/retro.service';
+
+const OWNER: AccessActor = { userId: 'owner' };
+
+type HistoryRow = {
+  id: number;
+  boardId: number;
+  userId: string;
+  action: string;
+  undo: unknown;
+  redo: unknown;
+  undoneAt: Date | null;
+  createdAt: Date;
+};
+
+type HistoryWhere = {
+  id?: number | { in: number[] };
+  boardId?: number;
+  userId?: string;
+  undoneAt?: Date | null | { not: null };
+};
+
+function matches(row: HistoryRow, where: HistoryWhere) {
+  if (typeof where.id === 'number' && row.id !== where.id) {
+    return false;
+  }
+  if (typeof where.id === 'object' && !where.id.in.includes(row.id)) {
+    return false;
+  }
+  if (where.boardId !== undefined && row.boardId !== where.boardId) {
+    return false;
+  }
+  if (where.userId !== undefined && row.userId !== where.userId) {
+    return false;
+  }
+  if (where.undoneAt === null) {
+    return row.undoneAt === null;
+  }
+  if (where.undoneAt instanceof Date) {
+    return row.undoneAt?.getTime() === where.undoneAt.getTime();
+  }
+  if (where.undoneAt) {
+    return row.undoneAt !== null;
+  }
+
+  return true;
+}
+
+class HistoryPrisma {
+  readonly rows: HistoryRow[] = [];
+
+  $transaction = async <T>(run: (tx: this) => Promise<T>) => run(this);
+
+  retroHistoryEntry = {
+    create: async (args: {
+      data: Omit<HistoryRow, 'id' | 'undoneAt' | 'createdAt'>;
+    }) => {
+      const row = {
+        ...args.data,
+        id: this.rows.length + 1,
+        undoneAt: null,
+        createdAt: new Date(),
+      };
+      this.rows.push(row);
+      return row;
+    },
+    findFirst: async (args: {
+      where: HistoryWhere;
+      orderBy: { id: 'asc' | 'desc' };
+    }) => this.sorted(args.where, args.orderBy.id)[0] ?? null,
+    findMany: async (args: {
+      where: HistoryWhere;
+      orderBy: { id: 'asc' | 'desc' };
+      skip?: number;
+    }) => this.sorted(args.where, args.orderBy.id).slice(args.skip ?? 0),
+    update: async (args: {
+      where: { id: number };
+      data: Partial<HistoryRow>;
+    }) => {
+      const row = this.rows.find((entry) => entry.id === args.where.id)!;
+      Object.assign(row, args.data);
+      return row;
+    },
+    updateMany: async (args: {
+      where: HistoryWhere;
+      data: Partial<HistoryRow>;
+    }) => {
+      const rows = this.rows.filter((row) => matches(row, args.where));
+      rows.forEach((row) => Object.assign(row, args.data));
+      return { count: rows.length };
+    },
+    deleteMany: async (args: { where: HistoryWhere }) => {
+      const kept = this.rows.filter((row) => !matches(row, args.where));
+      const count = this.rows.length - kept.length;
+      this.rows.splice(0, this.rows.length, ...kept);
+      return { count };
+    },
+  };
+
+  private sorted(where: HistoryWhere, order: 'asc' | 'desc') {
+    return this.rows
+      .filter((row) => matches(row, where))
+      .sort((a, b) => (order === 'asc' ? a.id - b.id : b.id - a.id));
+  }
+}
+
+type StubItem = { id: number; description: string; version: number };
+
+/**
+ * Board with cards only; enough RetroService for the command paths.
+ */
+class RetroStub {
+  readonly items = new Map<number, StubItem>();
+  readonly restored: RetroItemSnapshot[] = [];
+
+  getBoardRealtimeContext = async (boardId: number) => ({ boardId, teamId: 1 });
+
+  getItemRealtimeContext = async (itemId: number) => {
+    this.getItem(itemId);
+    return {
+      teamId: 1,
+      boardId: 1,
+      itemId,
+      columnId: 7,
+      authorId: 'owner',
+      cardVisibility: {
+        phase: null,
+        cardHiding: {
+          enabled: false,
+          revealedColumnIds: [],
+          revealedAuthorIds: [],
+        },
+      },
+    };
+  };
+
+  getItemValues = async (itemId: number) => ({
+    description: this.getItem(itemId).description,
+    color: null,
+  });
+
+  getItemSnapshot = async (itemId: number): Promise<RetroItemSnapshot> => {
+    const item = this.getItem(itemId);
+    return {
+      ...item,
+      columnId: 7,
+      groupId: null,
+      rowIndex: 0,
+      color: null,
+      authorId: 'owner',
+      createdAt: '2026-03-23T09:00:00.000Z',
+      comments: [
+        {
+          id: 11,
+          creatorId: 'member',
+          text: 'Согласен',
+          version: 1,
+          createdAt: '2026-03-23T09:01:00.000Z',
+        },
+      ],
+      votes: [{ userId: 'member', kind: RetroVoteKind.LIKE, count: 1 }],
+    };
+  };
+
+  updateItemDescription = async (
+    itemId: number,
+    _userId: string,
+    description: string,
+    expectedVersion?: number,
+  ) => {
+    const item = this.getItem(itemId);
+    if (expectedVersion !== undefined && expectedVersion !== item.version) {
+      throw staleVersionConflict(
+        { entity: 'Item', id: itemId, expectedVersion },
+        item.version,
+        item,
+      );
+    }
+
+    Object.assign(item, { description, version: item.version + 1 });
+    return { ...item, authorId: 'owner', columnId: 7 };
+  };
+
+  deleteItem = async (itemId: number) => {
+    this.getItem(itemId);
+    this.items.delete(itemId);
+    return { deleted: true };
+  };
+
+  restoreItem = async (_userId: string, snapshot: RetroItemSnapshot) => {
+    this.restored.push(snapshot);
+    const item = {
+      id: snapshot.id,
+      description: snapshot.description,
+      version: snapshot.version + 1,
+    };
+    this.items.set(item.id, item);
+    return { boardId: 1, item, changedColumnIds: [7], columns: [] };
+  };
+
+  private getItem(itemId: number) {
+    const item = this.items.get(itemId);
+    if (!item) {
+      throw new NotFoundException(`Item ${itemId} not found`);
+    }
+
+    return item;
+  }
+}
+
+function setup() {
+  const prisma = new HistoryPrisma();
+  const retro = new RetroStub();
+  retro.items.set(5, { id: 5, description: 'Было', version: 1 });
+  const emitted: Array<{ event: string; excludedUserId?: string }> = [];
+  const realtime = {
+    emitToBoard: async (
+      _boardId: number,
+      event: string,
+      _payload: unknown,
+      excludedUserId?: string,
+    ) => {
+      emitted.push({ event, excludedUserId });
+    },
+  };
+  const commands = new RetroCommandService(
+    retro as never,
+    {} as never,
+    realtime as never,
+    { ensureNotLockedByOther: () => undefined } as never,
+    new RetroHistoryService(prisma as never),
+  );
+
+  return { prisma, retro, emitted, commands };
+}
+
+test('undo and redo revert and repeat a card edit', async () => {
+  const { retro, emitted, commands } = setup();
+
+  await commands.updateItemDescription(OWNER, 5, { description: 'Стало' });
+  const undone = await commands.undo(OWNER, 1);
+
+  assert.equal(undone.action, 'item.description');
+  assert.deepEqual(retro.items.get(5), {
+    id: 5,
+    description: 'Было',
+    version: 3,
+  });
+  // The actor's own client learns about the undo from the broadcast.
+  assert.deepEqual(emitted.at(-1), {
+    event: RETRO_EVENTS.itemDescriptionUpdated,
+    excludedUserId: undefined,
+  });
+
+  await commands.redo(OWNER, 1);
+  assert.deepEqual(retro.items.get(5), {
+    id: 5,
+    description: 'Стало',
+    version: 4,
+  });
+
+  await commands.undo(OWNER, 1);
+  assert.equal(retro.items.get(5)?.description, 'Было');
+});
+
+test('undoing a delete restores the card with comments and likes', async () => {
+  const { retro, emitted, commands } = setup();
+
+  await commands.deleteItem(OWNER, 5);
+  await commands.undo(OWNER, 1);
+
+  assert.equal(retro.restored.length, 1);
+  assert.deepEqual(
+    retro.restored[0].comments.map((comment) => comment.text),
+    ['Согласен'],
+  );
+  assert.deepEqual(retro.restored[0].votes, [
+    { userId: 'member', kind: RetroVoteKind.LIKE, count: 1 },
+  ]);
+  assert.deepEqual(
+    emitted.slice(-2).map((entry) => entry.event),
+    [RETRO_EVENTS.itemCreated, RETRO_EVENTS.boardItemPositionsSynced],
+  );
+
+  await commands.redo(OWNER, 1);
+  assert.equal(retro.items.has(5), false);
+});
+
+test('a step overtaken by someone else is dropped', async () => {
+  const { prisma, retro, commands } = setup();
+  await commands.updateItemDescription(OWNER, 5, { description: 'Первое' });
+  await commands.updateItemDescription(OWNER, 5, { description: 'Второе' });
+  retro.items.get(5)!.version = 10;
+
+  await assert.rejects(async () => commands.undo(OWNER, 1), /was changed/);
+  assert.deepEqual(
+    prisma.rows.map((row) => row.id),
+    [1],
+  );
+
+  await assert.rejects(async () => commands.undo(OWNER, 1), /was changed/);
+  await assert.rejects(async () => commands.undo(OWNER, 1), NotFoundException);
+});
+
+test('a new change clears the redo stack', async () => {
+  const { commands } = setup();
+  await commands.updateItemDescription(OWNER, 5, { description: 'Первое' });
+  await commands.undo(OWNER, 1);
+
+  await commands.updateItemDescription(OWNER, 5, { description: 'Другое' });
+  const history = await commands.getHistory(OWNER, 1);
+
+  assert.deepEqual(
+    history.undo.map((step) => step.action),
+    ['item.description'],
+  );
+  assert.deepEqual(history.redo, []);
+  await assert.rejects(async () => commands.redo(OWNER, 1), /Nothing to redo/);
+});
+
+test('guest changes are not recorded', async () => {
+  const { prisma, commands } = setup();
+
+  await commands.updateItemDescription(
+    { userId: 'guest', isGuest: true },
+    5,
+    { description: 'Гость' },
+  );
+
+  assert.equal(prisma.rows.length, 0);
+});
+
+class RestorePrisma {
+  readonly items: Array<{
+    id: number;
+    columnId: number;
+    groupId: number | null;
+    rowIndex: number;
+    version?: number;
+  }> = [{ id: 6, columnId: 7, groupId: null, rowIndex: 0 }];
+  readonly created: Record<string, unknown[]> = {};
+  readonly clearedTombstones: unknown[] = [];
+  readonly lockedVoters: string[] = [];
+  // DOT votes each user has on the board besides the restored card.
+  usedVotes: Record<string, number> = {};
+  settings: object = {};
+
+  $transaction = async <T>(run: (tx: this) => Promise<T>) => run(this);
+
+  // `pg_advisory_xact_lock(boardId, hashtext(userId))` of the vote budget.
+  $executeRaw = async (_query: TemplateStringsArray, ...values: unknown[]) => {
+    this.lockedVoters.push(values[1] as string);
+    return 1;
+  };
+
+  retroBoard = {
+    findFirst: async () => ({
+      id: 1,
+      team: { isAnonymousBoardAccessEnabled: false },
+    }),
+    findUnique: async () => ({ phase: null, settings: this.settings }),
+  };
+
+  teamMember = { findFirst: async () => ({ id: 1 }) };
+
+  user = {
+    findMany: async (args: { where: { id: { in: string[] } } }) =>
+      args.where.id.in.filter((id) => id !== 'gone').map((id) => ({ id })),
+  };
+
+  retroColumn = {
+    findUnique: async () => ({ boardId: 1 }),
+    findMany: async () => [
+      {
+        id: 7,
+        name: 'Хорошо',
+        description: '',
+        color: {},
+        orderIndex: 0,
+        isActionItems: false,
+        version: 1,
+        groups: [],
+        items: this.items
+          .slice()
+          .sort((a, b) => a.rowIndex - b.rowIndex)
+          .map((item) => ({
+            ...item,
+            description: '',
+            createdAt: new Date(),
+            votes: [],
+            _count: { comments: 0 },
+            author: null,
+            version: item.version ?? 1,
+          })),
+      },
+    ],
+  };
+
+  retroGroup = {
+    findMany: async () => [],
+    updateMany: async () => ({ count: 0 }),
+  };
+
+  retroItem = {
+    updateMany: async (args: { where: { rowIndex: { gte: number } } }) => {
+      for (const item of this.items) {
+        if (item.rowIndex >= args.where.rowIndex.gte) {
+          item.rowIndex += 1;
+        }
+      }
+      return { count: 0 };
+    },
+    createMany: async (args: {
+      data: Array<RestorePrisma['items'][number]>;
+    }) => {
+      this.created.items = args.data;
+      this.items.push(...args.data);
+      return { count: args.data.length };
+    },
+    findMany: async () =>
+      this.items.slice().sort((a, b) => a.rowIndex - b.rowIndex || a.id - b.id),
+    update: async (args: {
+      where: { id: number };
+      data: { rowIndex: number };
+    }) => {
+      const item = this.items.find((entry) => entry.id === args.where.id)!;
+      item.rowIndex = args.data.rowIndex;
+      return item;
+    },
+  };
+
+  retroItemComment = {
+    createMany: async (args: { data: unknown[] }) => {
+      this.created.comments = args.data;
+      return { count: args.data.length };
+    },
+  };
+
+  retroItemVote = {
+    createMany: async (args: { data: unknown[] }) => {
+      this.created.votes = args.data;
+      return { count: args.data.length };
+    },
+    aggregate: async (args: { where: { userId: string } }) => ({
+      _sum: { count: this.usedVotes[args.where.userId] ?? null },
+    }),
+  };
+
+  retroTombstone = {
+    deleteMany: async (args: { where: unknown }) => {
+      this.clearedTombstones.push(args.where);
+      return { count: 1 };
+    },
+  };
+}
+
+test('restoring a card brings back its id, place, comments and likes', async () => {
+  const prisma = new RestorePrisma();
+  const service = new RetroService(prisma as never, {} as never);
+
+  const restored = await service.restoreItem('owner', {
+    id: 5,
+    columnId: 7,
+    groupId: null,
+    rowIndex: 0,
+    description: 'Вернуть',
+    color: null,
+    authorId: 'owner',
+    version: 2,
+    createdAt: '2026-03-23T09:00:00.000Z',
+    comments: [
+      {
+        id: 11,
+        creatorId: 'member',
+        text: 'Согласен',
+        version: 1,
+        createdAt: '2026-03-23T09:01:00.000Z',
+      },
+      {
+        id: 12,
+        creatorId: 'gone',
+        text: 'Удалённый пользователь',
+        version: 1,
+        createdAt: '2026-03-23T09:02:00.000Z',
+      },
+    ],
+    votes: [
+      { userId: 'member', kind: RetroVoteKind.LIKE, count: 1 },
+      { userId: 'gone', kind: RetroVoteKind.LIKE, count: 1 },
+    ],
+  });
+
+  assert.equal(restored.item.id, 5);
+  assert.deepEqual(
+    prisma.items
+      .slice()
+      .sort((a, b) => a.rowIndex - b.rowIndex)
+      .map((item) => item.id),
+    [5, 6],
+  );
+  assert.equal((prisma.created.items[0] as { version: number }).version, 3);
+  assert.deepEqual(
+    (prisma.created.comments as Array<{ id: number }>).map(
+      (comment) => comment.id,
+    ),
+    [11],
+  );
+  assert.deepEqual(prisma.created.votes, [
+    { userId: 'member', kind: RetroVoteKind.LIKE, count: 1, itemId: 5 },
+  ]);
+  assert.deepEqual(prisma.clearedTombstones, [
+    { boardId: 1, entity: RetroTombstoneEntity.ITEM, entityId: { in: [5] } },
+    {
+      boardId: 1,
+      entity: RetroTombstoneEntity.COMMENT,
+      entityId: { in: [11] },
+    },
+  ]);
+});
+
+test('a restored card keeps only the votes its voters still have', async () => {
+  const prisma = new RestorePrisma();
+  prisma.settings = { voting: { enabled: true, maxVotesPerParticipant: 3 } };
+  // Since the delete, the member spent two votes and the owner all three.
+  prisma.usedVotes = { member: 2, owner: 3 };
+  const service = new RetroService(prisma as never, {} as never);
+
+  await service.restoreItem('owner', {
+    id: 5,
+    columnId: 7,
+    groupId: null,
+    rowIndex: 0,
+    description: 'Вернуть',
+    color: null,
+    authorId: 'owner',
+    version: 2,
+    createdAt: '2026-03-23T09:00:00.000Z',
+    comments: [],
+    votes: [
+      { userId: 'owner', kind: RetroVoteKind.DOT, count: 2 },
+      { userId: 'owner', kind: RetroVoteKind.LIKE, count: 1 },
+      { userId: 'member', kind: RetroVoteKind.DOT, count: 2 },
+      { userId: 'viewer', kind: RetroVoteKind.DOT, count: 1 },
+    ],
+  });
+
+  assert.deepEqual(prisma.lockedVoters, ['member', 'owner', 'viewer']);
+  assert.deepEqual(prisma.created.votes, [
+    { userId: 'owner', kind: RetroVoteKind.LIKE, count: 1, itemId: 5 },
+    { userId: 'member', kind: RetroVoteKind.DOT, count: 1, itemId: 5 },
+    { userId: 'viewer', kind: RetroVoteKind.DOT, count: 1, itemId: 5 },
+  ]);
+});
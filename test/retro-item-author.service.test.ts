@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { ForbiddenException } from '@nestjs/common';
+import { TeamRole } from '@prisma/client';
+import { RetroService } from '../src/retro/retro.service';
+
+type MockItem = {
+  id: number;
+  description: string;
+  color: string | null;
+  rowIndex: number;
+  columnId: number;
+  groupId: number | null;
+  authorId: string | null;
+};
+
+class ItemPrisma {
+  readonly members: Array<{ teamId: number; userId: string; role: TeamRole }> =
+    [];
+  readonly items = new Map<number, MockItem>();
+  settings: Record<string, unknown> = {};
+
+  retroBoard = {
+    findFirst: async () => ({
+      id: 1,
+      team: { isAnonymousBoardAccessEnabled: false },
+    }),
+    findUnique: async () => ({ phase: null }),
+  };
+
+  teamMember = {
+    findFirst: async (args: { where: { userId: string } }) => {
+      const member = this.members.find(
+        (item) => item.userId === args.where.userId,
+      );
+      return member ? { id: 1 } : null;
+    },
+    findUnique: async (args: {
+      where: { teamId_userId: { teamId: number; userId: string } };
+    }) => {
+      const { teamId, userId } = args.where.teamId_userId;
+      const member = this.members.find(
+        (item) => item.teamId === teamId && item.userId === userId,
+      );
+      return member
+        ? {
+            id: 1,
+            role: member.role,
+            team: { isTwoFactorRequiredForAdmins: false },
+            user: { totpEnabledAt: null },
+          }
+        : null;
+    },
+  };
+
+  retroItem = {
+    findUnique: async (args: { where: { id: number } }) => {
+      const item = this.items.get(args.where.id);
+      if (!item) {
+        return null;
+      }
+
+      return {
+        id: item.id,
+        authorId: item.authorId,
+        column: {
+          board: {
+            id: 1,
+            teamId: 1,
+            settings: this.settings,
+            phase: null,
+          },
+        },
+      };
+    },
+    update: async (args: { where: { id: number }; data: Partial<MockItem> }) => {
+      const item = this.items.get(args.where.id) as MockItem;
+      const updated = { ...item, ...args.data };
+      this.items.set(updated.id, updated);
+      return { ...updated, votes: [] };
+    },
+  };
+}
+
+function setup() {
+  const prisma = new ItemPrisma();
+  prisma.members.push({ teamId: 1, userId: 'owner', role: TeamRole.OWNER });
+  prisma.members.push({ teamId: 1, userId: 'author', role: TeamRole.MEMBER });
+  prisma.members.push({ teamId: 1, userId: 'member', role: TeamRole.MEMBER });
+  prisma.items.set(1, {
+    id: 1,
+    description: 'Card',
+    color: null,
+    rowIndex: 0,
+    columnId: 1,
+    groupId: null,
+    authorId: 'author',
+  });
+  const service = new RetroService(prisma as never, {} as never);
+
+  return { prisma, service };
+}
+
+test('item description can be edited by its author and by OWNER/ADMIN', async () => {
+  const { service } = setup();
+
+  const byAuthor = await service.updateItemDescription(1, 'author', 'Edited');
+  assert.equal(byAuthor.description, 'Edited');
+  assert.equal(byAuthor.authorId, 'author');
+
+  const byOwner = await service.updateItemDescription(1, 'owner', 'Moderated');
+  assert.equal(byOwner.description, 'Moderated');
+});
+
+test('item description cannot be edited by another MEMBER', async () => {
+  const { service } = setup();
+
+  await assert.rejects(
+    async () => service.updateItemDescription(1, 'member', 'Hijacked'),
+    ForbiddenException,
+  );
+});
+
+test('item author is hidden from mutation responses on anonymous boards', async () => {
+  const { prisma, service } = setup();
+  prisma.settings = { authorVisibility: 'anonymous' };
+
+  const updated = await service.updateItemDescription(1, 'author', 'Secret');
+  assert.equal(updated.authorId, null);
+
+  prisma.settings = { authorVisibility: 'facilitators' };
+  const byOwner = await service.updateItemDescription(1, 'owner', 'Secret');
+  assert.equal(byOwner.authorId, null);
+});
@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { TeamRole } from '@prisma/client';
+import { RetroTemplateService } from '../src/retro/retro-template.service';
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+} from '../src/retro/retro-templates';
+
+type MockTemplate = {
+  id: number;
+  teamId: number;
+  createdById: string | null;
+  name: string;
+  description: string;
+  columns: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+class InMemoryPrisma {
+  private templateIdSeq = 1;
+  readonly members: Array<{ teamId: number; userId: string; role: TeamRole }> =
+    [];
+  readonly templates = new Map<number, MockTemplate>();
+
+  teamMember = {
+    findUnique: async (args: {
+      where: { teamId_userId: { teamId: number; userId: string } };
+    }) => {
+      const { teamId, userId } = args.where.teamId_userId;
+      const member = this.members.find(
+        (item) => item.teamId === teamId && item.userId === userId,
+      );
+      return member
+        ? {
+            id: 1,
+            role: member.role,
+            team: { isTwoFactorRequiredForAdmins: false },
+            user: { totpEnabledAt: null },
+          }
+        : null;
+    },
+  };
+
+  retroTemplate = {
+    findMany: async (args: { where: { teamId: number } }) => {
+      return Array.from(this.templates.values()).filter(
+        (template) => template.teamId === args.where.teamId,
+      );
+    },
+    findUnique: async (args: { where: { id: number } }) => {
+      return this.templates.get(args.where.id) ?? null;
+    },
+    create: async (args: {
+      data: Omit<MockTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+    }) => {
+      const now = new Date();
+      const created: MockTemplate = {
+        id: this.templateIdSeq++,
+        ...args.data,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.templates.set(created.id, created);
+      return created;
+    },
+  };
+}
+
+function setup() {
+  const prisma = new InMemoryPrisma();
+  prisma.members.push({ teamId: 1, userId: 'owner', role: TeamRole.OWNER });
+  prisma.members.push({ teamId: 1, userId: 'member', role: TeamRole.MEMBER });
+  prisma.members.push({ teamId: 2, userId: 'other', role: TeamRole.OWNER });
+  const service = new RetroTemplateService(prisma as never);
+
+  return { prisma, service };
+}
+
+test('resolveTemplateColumns falls back to classic template', async () => {
+  const { service } = setup();
+
+  const columns = await service.resolveTemplateColumns(1);
+  const classic = BUILT_IN_TEMPLATES.find(
+    (template) => template.id === DEFAULT_TEMPLATE_ID,
+  );
+
+  assert.deepEqual(columns, classic?.columns);
+  assert.equal(columns.length, 3);
+});
+
+test('createTemplate stores columns with defaults and resolves for same team only', async () => {
+  const { service } = setup();
+
+  const created = await service.createTemplate('owner', {
+    teamId: 1,
+    name: '  Custom  ',
+    columns: [
+      { name: 'Keep', groups: [{ name: 'Process' }] },
+      { name: 'Drop' },
+    ],
+  });
+
+  assert.equal(created.isBuiltIn, false);
+  assert.equal(created.name, 'Custom');
+  assert.equal(created.columns[0].groups[0].name, 'Process');
+  assert.equal(created.columns[0].groups[0].description, '');
+
+  const resolved = await service.resolveTemplateColumns(1, created.id);
+  assert.deepEqual(
+    resolved.map((column) => column.name),
+    ['Keep', 'Drop'],
+  );
+
+  await assert.rejects(
+    async () => service.resolveTemplateColumns(2, created.id),
+    BadRequestException,
+  );
+});
+
+test('createTemplate is forbidden for MEMBER', async () => {
+  const { service } = setup();
+
+  await assert.rejects(
+    async () =>
+      service.createTemplate('member', {
+        teamId: 1,
+        name: 'x',
+        columns: [{ name: 'A' }],
+      }),
+    ForbiddenException,
+  );
+});
+
+test('getTemplates lists built-in templates before team templates', async () => {
+  const { service } = setup();
+
+  await service.createTemplate('owner', {
+    teamId: 1,
+    name: 'Custom',
+    columns: [{ name: 'A' }],
+  });
+  const templates = await service.getTemplates(1, 'member');
+
+  assert.equal(templates.length, BUILT_IN_TEMPLATES.length + 1);
+  assert.equal(templates[0].id, DEFAULT_TEMPLATE_ID);
+  assert.equal(templates[templates.length - 1].name, 'Custom');
+});
@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { TeamRole } from '@prisma/client';
+import { RetroVoteService } from '../src/retro/retro-vote.service';
+
+type MockVote = { itemId: number; userId: string; count: number };
+type VoteKey = {
+  itemId_userId_kind: { itemId: number; userId: string; kind: string };
+};
+
+class VotePrisma {
+  readonly votes: MockVote[] = [];
+  readonly roles = new Map<string, TeamRole>();
+  settings: Record<string, unknown> = {};
+
+  retroBoard = {
+    findUnique: async () => ({
+      settings: this.settings,
+      phase: null,
+    }),
+  };
+
+  teamMember = {
+    findUnique: async (args: {
+      where: { teamId_userId: { teamId: number; userId: string } };
+    }) => {
+      const role = this.roles.get(args.where.teamId_userId.userId);
+      return role ? { role } : null;
+    },
+  };
+
+  retroItemVote = {
+    findUnique: async (args: { where: VoteKey }) => this.findVote(args.where),
+    upsert: async (args: { where: VoteKey }) => {
+      const existing = this.findVote(args.where);
+      if (existing) {
+        existing.count += 1;
+        return existing;
+      }
+
+      const { itemId, userId } = args.where.itemId_userId_kind;
+      const created = { itemId, userId, count: 1 };
+      this.votes.push(created);
+      return created;
+    },
+    update: async (args: { where: VoteKey }) => {
+      const existing = this.findVote(args.where) as MockVote;
+      existing.count -= 1;
+      return existing;
+    },
+    delete: async (args: { where: VoteKey }) => {
+      const index = this.votes.indexOf(this.findVote(args.where) as MockVote);
+      return this.votes.splice(index, 1)[0];
+    },
+    aggregate: async (args: { where: { userId?: string; itemId?: number } }) => {
+      const count = this.votes
+        .filter(
+          (vote) =>
+            (args.where.userId === undefined ||
+              vote.userId === args.where.userId) &&
+            (args.where.itemId === undefined || vote.itemId === args.where.itemId),
+        )
+        .reduce((sum, vote) => sum + vote.count, 0);
+      return { _sum: { count } };
+    },
+  };
+
+  retroItem = {
+    findMany: async () => {
+      const itemIds = Array.from(new Set(this.votes.map((vote) => vote.itemId)));
+      return itemIds.map((id) => ({
+        id,
+        columnId: 1,
+        groupId: null,
+        description: `Item ${id}`,
+        votes: this.votes
+          .filter((vote) => vote.itemId === id)
+          .map((vote) => ({ count: vote.count })),
+      }));
+    },
+  };
+
+  $executeRaw = async () => 0;
+
+  $transaction = async <T>(callback: (tx: this) => Promise<T>) => callback(this);
+
+  private findVote(where: VoteKey) {
+    const { itemId, userId } = where.itemId_userId_kind;
+    return this.votes.find(
+      (vote) => vote.itemId === itemId && vote.userId === userId,
+    );
+  }
+}
+
+function setup(voting: Record<string, unknown>) {
+  const prisma = new VotePrisma();
+  prisma.settings = { voting: { enabled: true, ...voting } };
+  prisma.roles.set('owner', TeamRole.OWNER);
+  prisma.roles.set('member', TeamRole.MEMBER);
+  const retroService = {
+    getItemRealtimeContext: async (itemId: number) => ({
+      teamId: 1,
+      boardId: 1,
+      itemId,
+      columnId: 1,
+    }),
+    getBoardRealtimeContext: async (boardId: number) => ({
+      teamId: 1,
+      boardId,
+    }),
+  };
+  const service = new RetroVoteService(prisma as never, retroService as never);
+
+  return { prisma, service };
+}
+
+test('castVote spends the budget and rejects votes over it', async () => {
+  const { service } = setup({
+    maxVotesPerParticipant: 2,
+    allowMultipleVotesPerItem: true,
+  });
+
+  const first = await service.castVote(1, 'member');
+  assert.equal(first.myVotes, 1);
+  assert.equal(first.remainingVotes, 1);
+
+  const second = await service.castVote(1, 'member');
+  assert.equal(second.myVotes, 2);
+  assert.equal(second.remainingVotes, 0);
+  assert.equal(second.votesCount, 2);
+
+  await assert.rejects(
+    async () => service.castVote(2, 'member'),
+    BadRequestException,
+  );
+
+  const retracted = await service.retractVote(1, 'member');
+  assert.equal(retracted.myVotes, 1);
+  assert.equal(retracted.remainingVotes, 1);
+});
+
+test('castVote rejects a second vote on one item when not allowed', async () => {
+  const { service } = setup({ maxVotesPerParticipant: 5 });
+
+  await service.castVote(1, 'member');
+  await assert.rejects(
+    async () => service.castVote(1, 'member'),
+    BadRequestException,
+  );
+});
+
+test('hidden votes are visible only to facilitators until revealed', async () => {
+  const { prisma, service } = setup({
+    maxVotesPerParticipant: 3,
+    allowMultipleVotesPerItem: true,
+    hideVotesUntilReveal: true,
+  });
+
+  await service.castVote(1, 'member');
+  await service.castVote(2, 'member');
+  await service.castVote(2, 'owner');
+  const hidden = await service.castVote(3, 'owner');
+  assert.equal(hidden.votesCount, null);
+
+  await assert.rejects(
+    async () => service.getResults(1, 'member'),
+    ForbiddenException,
+  );
+
+  const results = await service.getResults(1, 'owner');
+  assert.deepEqual(
+    results.map((result) => [result.rank, result.itemId, result.votesCount]),
+    [
+      [1, 2, 2],
+      [2, 1, 1],
+      [2, 3, 1],
+    ],
+  );
+
+  prisma.settings = {
+    voting: { enabled: true, hideVotesUntilReveal: true, votesRevealed: true },
+  };
+  const revealed = await service.getResults(1, 'member');
+  assert.equal(revealed.length, 3);
+});
@@ -29,10 +29,13 @@ class InMemoryPrisma {
   readonly timers = new Map<number, MockTimer>();
 
   retroBoard = {
-    findFirst: async (args: { where: { id: number; team: { members: { some: { userId: string } } } } }) => {
+    findFirst: async (args: {
+      where: { id: number; deletedAt: null };
+      select: { team: { select: { members: { where: { userId: string } } } } };
+    }) => {
       const boardId = args.where.id;
-      const userId = args.where.team.members.some.userId;
-      const board = this.boards.find((item) => item.id === boardId && item.userIds.includes(userId));
+      const userId = args.select.team.select.members.where.userId;
+      const board = this.boards.find((item) => item.id === boardId);
       if (!board) {
         return null;
       }
@@ -40,6 +43,10 @@ class InMemoryPrisma {
       return {
         id: board.id,
         teamId: board.teamId,
+        team: {
+          isAnonymousBoardAccessEnabled: false,
+          members: board.userIds.includes(userId) ? [{ id: 1 }] : [],
+        },
       };
     },
   };
@@ -0,0 +1,606 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { TeamRole } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { AuthService } from '../src/auth/auth.service';
+import { JwtStrategy } from '../src/auth/strategies/jwt.strategy';
+import {
+  buildTotpUri,
+  generateTotpCode,
+  getTotpStep,
+  verifyTotpCode,
+} from '../src/auth/totp';
+import { TwoFactorService } from '../src/auth/two-factor.service';
+import { ensureAdminTwoFactor } from '../src/team/team-admin-two-factor';
+import { TeamService } from '../src/team/team.service';
+
+process.env.JWT_ACCESS_SECRET ??= 'test-secret';
+process.env.JWT_ACCESS_EXPIRES_IN ??= '15m';
+process.env.JWT_REFRESH_SECRET ??= 'test-refresh-secret';
+process.env.JWT_REFRESH_EXPIRES_IN ??= '30d';
+process.env.TOTP_CHALLENGE_MAX_ATTEMPTS = '3';
+process.env.TOTP_MAX_FAILED_ATTEMPTS = '5';
+
+// RFC 6238 test secret "12345678901234567890" in base32.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+type UserRecord = {
+  id: string;
+  email: string;
+  passwordHash: string;
+  name: string | null;
+  isGuest: boolean;
+  emailVerifiedAt: Date | null;
+  totpSecret: string | null;
+  totpPendingSecret: string | null;
+  totpEnabledAt: Date | null;
+  totpLastUsedStep: number | null;
+  totpFailedAttempts: number;
+  totpLockedUntil: Date | null;
+};
+
+type ChallengeRecord = {
+  id: string;
+  userId: string;
+  attempts: number;
+  expiresAt: Date;
+  usedAt: Date | null;
+};
+
+type RecoveryCodeRecord = {
+  userId: string;
+  codeHash: string;
+  usedAt: Date | null;
+};
+
+type UserWhere = {
+  id: string;
+  totpFailedAttempts?: { lt: number };
+  OR?: (
+    | { totpLastUsedStep: null | { lt: number } }
+    | { totpLockedUntil: null | { lte: Date } }
+  )[];
+};
+
+type Counter = number | { increment: number };
+
+function matchesUser(user: UserRecord, where: UserWhere) {
+  return (
+    user.id === where.id &&
+    (!where.totpFailedAttempts ||
+      user.totpFailedAttempts < where.totpFailedAttempts.lt) &&
+    (!where.OR ||
+      where.OR.some((condition) => {
+        const [field, value] = Object.entries(condition)[0] as [
+          'totpLastUsedStep' | 'totpLockedUntil',
+          null | { lt?: number; lte?: Date },
+        ];
+        const current = user[field];
+        if (value === null || current === null) {
+          return value === current;
+        }
+        return value.lt !== undefined
+          ? (current as number) < value.lt
+          : (current as Date) <= value.lte!;
+      }))
+  );
+}
+
+function applyCounter(current: number, value: Counter) {
+  return typeof value === 'number' ? value : current + value.increment;
+}
+
+class TwoFactorPrisma {
+  users: UserRecord[] = [];
+  recoveryCodes: RecoveryCodeRecord[] = [];
+  challenges: ChallengeRecord[] = [];
+  refreshTokens: { userId: string }[] = [];
+  members: { teamId: number; userId: string; role: TeamRole }[] = [];
+  teamState = {
+    id: 1,
+    isTwoFactorRequiredForAdmins: false,
+    updatedAt: new Date(),
+  };
+
+  user = {
+    findUnique: async ({ where }: { where: { id?: string; email?: string } }) =>
+      this.users.find(
+        (user) =>
+          (where.id === undefined || user.id === where.id) &&
+          (where.email === undefined || user.email === where.email),
+      ) ?? null,
+    update: async ({
+      where,
+      data,
+    }: {
+      where: { id: string };
+      data: Partial<UserRecord>;
+    }) => {
+      const user = this.users.find((item) => item.id === where.id);
+      assert.ok(user);
+      Object.assign(user, data);
+      return user;
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: UserWhere;
+      data: Omit<Partial<UserRecord>, 'totpFailedAttempts'> & {
+        totpFailedAttempts?: Counter;
+      };
+    }) => {
+      const matched = this.users.filter((user) => matchesUser(user, where));
+      for (const user of matched) {
+        const { totpFailedAttempts, ...rest } = data;
+        Object.assign(user, rest);
+        if (totpFailedAttempts !== undefined) {
+          user.totpFailedAttempts = applyCounter(
+            user.totpFailedAttempts,
+            totpFailedAttempts,
+          );
+        }
+      }
+      return { count: matched.length };
+    },
+  };
+
+  totpChallenge = {
+    deleteMany: async ({
+      where,
+    }: {
+      where: { userId: string; expiresAt: { lte: Date } };
+    }) => {
+      this.challenges = this.challenges.filter(
+        (challenge) =>
+          challenge.userId !== where.userId ||
+          challenge.expiresAt > where.expiresAt.lte,
+      );
+    },
+    create: async ({ data }: { data: { userId: string; expiresAt: Date } }) => {
+      const challenge: ChallengeRecord = {
+        id: `challenge-${this.challenges.length + 1}`,
+        attempts: 0,
+        usedAt: null,
+        ...data,
+      };
+      this.challenges.push(challenge);
+      return challenge;
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: {
+        id: string;
+        userId?: string;
+        usedAt: null;
+        expiresAt?: { gt: Date };
+        attempts?: { lt: number };
+      };
+      data: { attempts?: Counter; usedAt?: Date };
+    }) => {
+      const matched = this.challenges.filter(
+        (challenge) =>
+          challenge.id === where.id &&
+          (where.userId === undefined || challenge.userId === where.userId) &&
+          challenge.usedAt === null &&
+          (!where.expiresAt || challenge.expiresAt > where.expiresAt.gt) &&
+          (!where.attempts || challenge.attempts < where.attempts.lt),
+      );
+      for (const challenge of matched) {
+        if (data.attempts !== undefined) {
+          challenge.attempts = applyCounter(challenge.attempts, data.attempts);
+        }
+        challenge.usedAt = data.usedAt ?? challenge.usedAt;
+      }
+      return { count: matched.length };
+    },
+  };
+
+  totpRecoveryCode = {
+    deleteMany: async ({ where }: { where: { userId: string } }) => {
+      this.recoveryCodes = this.recoveryCodes.filter(
+        (code) => code.userId !== where.userId,
+      );
+    },
+    createMany: async ({
+      data,
+    }: {
+      data: { userId: string; codeHash: string }[];
+    }) => {
+      this.recoveryCodes.push(
+        ...data.map((code) => ({ ...code, usedAt: null })),
+      );
+      return { count: data.length };
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: { userId: string; codeHash: string; usedAt: null };
+      data: { usedAt: Date };
+    }) => {
+      const matched = this.recoveryCodes.filter(
+        (code) =>
+          code.userId === where.userId &&
+          code.codeHash === where.codeHash &&
+          code.usedAt === null,
+      );
+      matched.forEach((code) => (code.usedAt = data.usedAt));
+      return { count: matched.length };
+    },
+  };
+
+  refreshToken = {
+    create: async ({ data }: { data: { userId: string } }) => {
+      this.refreshTokens.push({ userId: data.userId });
+    },
+  };
+
+  teamMember = {
+    findUnique: async ({
+      where,
+    }: {
+      where: { teamId_userId: { teamId: number; userId: string } };
+    }) => {
+      const member = this.members.find(
+        (item) =>
+          item.teamId === where.teamId_userId.teamId &&
+          item.userId === where.teamId_userId.userId,
+      );
+      const user = this.users.find((item) => item.id === member?.userId);
+      return member
+        ? {
+            role: member.role,
+            team: {
+              isTwoFactorRequiredForAdmins:
+                this.teamState.isTwoFactorRequiredForAdmins,
+            },
+            user: { totpEnabledAt: user?.totpEnabledAt ?? null },
+          }
+        : null;
+    },
+  };
+
+  team = {
+    update: async ({
+      data,
+    }: {
+      data: { isTwoFactorRequiredForAdmins: boolean };
+    }) => {
+      Object.assign(this.teamState, data);
+      return { ...this.teamState };
+    },
+  };
+
+  async $transaction<T>(callback: (tx: TwoFactorPrisma) => Promise<T>) {
+    return callback(this);
+  }
+}
+
+async function setup() {
+  const prisma = new TwoFactorPrisma();
+  prisma.users.push({
+    id: 'u1',
+    email: 'alice@example.com',
+    passwordHash: await bcrypt.hash('strongpassword123', 4),
+    name: 'Alice',
+    isGuest: false,
+    emailVerifiedAt: new Date(),
+    totpSecret: null,
+    totpPendingSecret: null,
+    totpEnabledAt: null,
+    totpLastUsedStep: null,
+    totpFailedAttempts: 0,
+    totpLockedUntil: null,
+  });
+
+  const jwtService = new JwtService({});
+  const twoFactorService = new TwoFactorService(prisma as never, jwtService);
+  const authService = new AuthService(
+    prisma as never,
+    jwtService,
+    {} as never,
+    {} as never,
+    twoFactorService,
+  );
+  return { prisma, jwtService, twoFactorService, authService };
+}
+
+/**
+ * Enrols the user, then forgets the enrolment step, so the current code is
+ * not refused as a replay of the enrolment code.
+ */
+async function enrol(
+  prisma: TwoFactorPrisma,
+  twoFactorService: TwoFactorService,
+) {
+  const { secret } = await twoFactorService.setup('u1');
+  const { recoveryCodes } = await twoFactorService.enable(
+    'u1',
+    generateTotpCode(secret),
+  );
+  prisma.users[0].totpLastUsedStep = getTotpStep() - 2;
+  return { secret, recoveryCodes };
+}
+
+test('codes match the RFC 6238 reference values', () => {
+  assert.equal(generateTotpCode(RFC_SECRET, 1), '287082');
+  assert.equal(generateTotpCode(RFC_SECRET, 37037036), '081804');
+  assert.equal(verifyTotpCode(RFC_SECRET, '287 082', 59_000), 1);
+  assert.equal(verifyTotpCode(RFC_SECRET, '287082', 200_000), null);
+  assert.equal(verifyTotpCode(RFC_SECRET, 'abcdef', 59_000), null);
+  assert.equal(
+    buildTotpUri(RFC_SECRET, 'alice@example.com'),
+    'otpauth://totp/Retro%20Board:alice%40example.com?secret=' +
+      `${RFC_SECRET}&issuer=Retro%20Board&algorithm=SHA1&digits=6&period=30`,
+  );
+});
+
+test('enrolment needs a code for the pending secret', async () => {
+  const { prisma, twoFactorService } = await setup();
+
+  await assert.rejects(
+    twoFactorService.enable('u1', '123456'),
+    BadRequestException,
+  );
+
+  const { secret, otpauthUri } = await twoFactorService.setup('u1');
+  assert.ok(otpauthUri.includes(`secret=${secret}`));
+  assert.equal(prisma.users[0].totpPendingSecret, secret);
+  assert.equal(prisma.users[0].totpEnabledAt, null);
+
+  const wrongCode = String((Number(generateTotpCode(secret)) + 1) % 1e6);
+  await assert.rejects(
+    twoFactorService.enable('u1', wrongCode.padStart(6, '0')),
+    UnauthorizedException,
+  );
+
+  const { recoveryCodes } = await twoFactorService.enable(
+    'u1',
+    generateTotpCode(secret),
+  );
+  assert.equal(recoveryCodes.length, 10);
+  assert.equal(prisma.users[0].totpSecret, secret);
+  assert.equal(prisma.users[0].totpPendingSecret, null);
+  assert.ok(prisma.users[0].totpEnabledAt);
+  assert.equal(prisma.recoveryCodes.length, 10);
+  assert.ok(
+    prisma.recoveryCodes.every(
+      (code) => !recoveryCodes.includes(code.codeHash),
+    ),
+  );
+});
+
+test('login returns a challenge and the pair only after the code', async () => {
+  const { prisma, jwtService, twoFactorService, authService } = await setup();
+  const { secret } = await enrol(prisma, twoFactorService);
+
+  const result = await authService.login({
+    email: 'alice@example.com',
+    password: 'strongpassword123',
+  });
+  assert.ok('challengeToken' in result);
+  assert.equal(result.twoFactorRequired, true);
+  assert.equal(prisma.refreshTokens.length, 0);
+
+  // The challenge is signed like an access token but opens nothing.
+  await assert.rejects(
+    new JwtStrategy({} as never).validate(
+      jwtService.decode(result.challengeToken),
+    ),
+    UnauthorizedException,
+  );
+
+  const code = generateTotpCode(secret);
+  const session = await authService.completeTwoFactorLogin(
+    result.challengeToken,
+    code,
+  );
+  assert.equal(session.user.id, 'u1');
+  assert.ok(session.accessToken);
+  assert.equal(prisma.refreshTokens.length, 1);
+
+  await assert.rejects(
+    authService.completeTwoFactorLogin(result.challengeToken, code),
+    UnauthorizedException,
+  );
+  await assert.rejects(
+    authService.completeTwoFactorLogin('forged-token', code),
+    UnauthorizedException,
+  );
+});
+
+test('each recovery code works once', async () => {
+  const { prisma, twoFactorService, authService } = await setup();
+  const { recoveryCodes } = await enrol(prisma, twoFactorService);
+  const { challengeToken } = await twoFactorService.createChallenge({
+    id: 'u1',
+  });
+
+  const session = await authService.completeTwoFactorLogin(
+    challengeToken,
+    ` ${recoveryCodes[0].toUpperCase()} `,
+  );
+  assert.equal(session.user.id, 'u1');
+  assert.equal(
+    prisma.recoveryCodes.filter((code) => code.usedAt !== null).length,
+    1,
+  );
+
+  const next = await twoFactorService.createChallenge({ id: 'u1' });
+  await assert.rejects(
+    authService.completeTwoFactorLogin(next.challengeToken, recoveryCodes[0]),
+    UnauthorizedException,
+  );
+});
+
+test('a challenge allows a few attempts and works once', async () => {
+  const { prisma, jwtService, twoFactorService } = await setup();
+  const { secret, recoveryCodes } = await enrol(prisma, twoFactorService);
+  const wrongCode = String((Number(generateTotpCode(secret)) + 1) % 1e6);
+
+  const first = await twoFactorService.createChallenge({ id: 'u1' });
+  for (let i = 0; i < 3; i += 1) {
+    await assert.rejects(
+      twoFactorService.verifyChallenge(
+        first.challengeToken,
+        wrongCode.padStart(6, '0'),
+      ),
+      /Invalid two-factor code/,
+    );
+  }
+  // Out of attempts: even the right code no longer opens this challenge.
+  await assert.rejects(
+    twoFactorService.verifyChallenge(first.challengeToken, recoveryCodes[0]),
+    /Invalid or expired two-factor challenge/,
+  );
+  assert.equal(prisma.challenges[0].attempts, 3);
+
+  const second = await twoFactorService.createChallenge({ id: 'u1' });
+  assert.equal(
+    await twoFactorService.verifyChallenge(
+      second.challengeToken,
+      recoveryCodes[0],
+    ),
+    'u1',
+  );
+  assert.ok(prisma.challenges[1].usedAt);
+  assert.equal(prisma.users[0].totpFailedAttempts, 0);
+  await assert.rejects(
+    twoFactorService.verifyChallenge(second.challengeToken, recoveryCodes[1]),
+    /Invalid or expired two-factor challenge/,
+  );
+
+  // A challenge signed without a stored jti is refused.
+  const unstored = await jwtService.signAsync(
+    { sub: 'u1', type: 'totp-challenge' },
+    { secret: process.env.JWT_ACCESS_SECRET, expiresIn: 300 },
+  );
+  await assert.rejects(
+    twoFactorService.verifyChallenge(unstored, recoveryCodes[1]),
+    /Invalid or expired two-factor challenge/,
+  );
+});
+
+test('repeated wrong codes lock the user out for a while', async () => {
+  const { prisma, twoFactorService } = await setup();
+  const { secret, recoveryCodes } = await enrol(prisma, twoFactorService);
+  const wrongCode = String(
+    (Number(generateTotpCode(secret)) + 1) % 1e6,
+  ).padStart(6, '0');
+  const isTooMany = (error: unknown) =>
+    error instanceof HttpException &&
+    error.getStatus() === HttpStatus.TOO_MANY_REQUESTS;
+
+  // Fresh challenges do not reset the count kept on the user.
+  for (let i = 0; i < 5; i += 1) {
+    const { challengeToken } = await twoFactorService.createChallenge({
+      id: 'u1',
+    });
+    await assert.rejects(
+      twoFactorService.verifyChallenge(challengeToken, wrongCode),
+      UnauthorizedException,
+    );
+  }
+  assert.ok(prisma.users[0].totpLockedUntil);
+
+  const { challengeToken } = await twoFactorService.createChallenge({
+    id: 'u1',
+  });
+  await assert.rejects(
+    twoFactorService.verifyChallenge(challengeToken, recoveryCodes[0]),
+    isTooMany,
+  );
+  await assert.rejects(
+    twoFactorService.disable('u1', recoveryCodes[0]),
+    isTooMany,
+  );
+  assert.ok(prisma.recoveryCodes.every((code) => code.usedAt === null));
+
+  prisma.users[0].totpLockedUntil = new Date(Date.now() - 1000);
+  const next = await twoFactorService.createChallenge({ id: 'u1' });
+  assert.equal(
+    await twoFactorService.verifyChallenge(
+      next.challengeToken,
+      recoveryCodes[0],
+    ),
+    'u1',
+  );
+  assert.equal(prisma.users[0].totpLockedUntil, null);
+  assert.equal(prisma.users[0].totpFailedAttempts, 0);
+});
+
+test('regenerating recovery codes needs an authenticator code', async () => {
+  const { prisma, twoFactorService } = await setup();
+  const { secret, recoveryCodes } = await enrol(prisma, twoFactorService);
+
+  await assert.rejects(
+    twoFactorService.regenerateRecoveryCodes('u1', recoveryCodes[0]),
+    UnauthorizedException,
+  );
+
+  const regenerated = await twoFactorService.regenerateRecoveryCodes(
+    'u1',
+    generateTotpCode(secret),
+  );
+  assert.equal(regenerated.recoveryCodes.length, 10);
+  assert.equal(prisma.recoveryCodes.length, 10);
+  assert.notDeepEqual(regenerated.recoveryCodes, recoveryCodes);
+});
+
+test('disabling clears the secret and recovery codes', async () => {
+  const { prisma, twoFactorService, authService } = await setup();
+  const { recoveryCodes } = await enrol(prisma, twoFactorService);
+
+  assert.deepEqual(await twoFactorService.disable('u1', recoveryCodes[3]), {
+    success: true,
+  });
+  assert.equal(prisma.users[0].totpSecret, null);
+  assert.equal(prisma.users[0].totpEnabledAt, null);
+  assert.equal(prisma.recoveryCodes.length, 0);
+
+  const result = await authService.login({
+    email: 'alice@example.com',
+    password: 'strongpassword123',
+  });
+  assert.ok('accessToken' in result);
+});
+
+test('teams can require two-factor authentication for admins', async () => {
+  const { prisma, twoFactorService } = await setup();
+  prisma.members.push({ teamId: 1, userId: 'u1', role: TeamRole.OWNER });
+  const teamService = new TeamService(prisma as never);
+
+  await assert.rejects(
+    teamService.updateTwoFactorRequirement(1, 'u1', true),
+    ForbiddenException,
+  );
+
+  await enrol(prisma, twoFactorService);
+  const result = await teamService.updateTwoFactorRequirement(1, 'u1', true);
+  assert.equal(result.isTwoFactorRequiredForAdmins, true);
+
+  // An admin who turns 2FA off loses admin powers, members are unaffected.
+  prisma.users[0].totpEnabledAt = null;
+  await assert.rejects(
+    teamService.updateTwoFactorRequirement(1, 'u1', false),
+    ForbiddenException,
+  );
+  assert.doesNotThrow(() =>
+    ensureAdminTwoFactor({
+      role: TeamRole.MEMBER,
+      team: { isTwoFactorRequiredForAdmins: true },
+      user: { totpEnabledAt: null },
+    }),
+  );
+});
@@ -0,0 +1,184 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { Logger, NotFoundException } from '@nestjs/common';
+import { EditLockService } from '../src/realtime/edit-lock.service';
+import { staleVersionConflict } from '../src/retro/retro-entity-version';
+import { WsCreateItemDto } from '../src/socket/dto/ws-command.dto';
+import { RetroGateway } from '../src/socket/retro.gateway';
+import {
+  toWsAckError,
+  validateWsCommand,
+  WS_ERROR_CODES,
+} from '../src/socket/ws-command';
+
+class CommandStub {
+  readonly calls: unknown[][] = [];
+  failWith: unknown = null;
+
+  addItemToColumn = async (...args: unknown[]) => {
+    this.calls.push(args);
+    if (this.failWith) {
+      throw this.failWith;
+    }
+
+    return { id: 12, description: 'Новая карточка' };
+  };
+}
+
+function setup() {
+  process.env.JWT_ACCESS_SECRET ??= 'test-secret';
+  const commands = new CommandStub();
+  const gateway = new RetroGateway(
+    {} as never,
+    {} as never,
+    commands as never,
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+    {} as never,
+  );
+  const client = {
+    data: { user: { id: 'owner', email: 'owner@example.com' } },
+  };
+
+  return { commands, gateway, client };
+}
+
+test('commands validate payloads like the REST body', async () => {
+  const dto = await validateWsCommand(WsCreateItemDto, {
+    columnId: 7,
+    description: 'Карточка',
+  });
+  assert.ok(dto instanceof WsCreateItemDto);
+  assert.equal(dto.columnId, 7);
+
+  const error = await validateWsCommand(WsCreateItemDto, {
+    columnId: 0,
+    extra: true,
+  }).catch((caught: unknown) => caught);
+  const ackError = toWsAckError(error);
+
+  assert.equal(ackError?.code, WS_ERROR_CODES.validationFailed);
+  assert.ok(ackError?.details?.includes('property extra should not exist'));
+  assert.ok(ackError?.details?.includes('columnId must not be less than 1'));
+});
+
+test('service errors map to stable codes', async () => {
+  assert.deepEqual(toWsAckError(new NotFoundException('Item 5 not found')), {
+    code: WS_ERROR_CODES.notFound,
+    message: 'Item 5 not found',
+  });
+
+  const stale = staleVersionConflict(
+    { entity: 'Item', id: 5, expectedVersion: 1 },
+    2,
+    { id: 5, version: 2 },
+  );
+  assert.deepEqual(toWsAckError(stale), {
+    code: WS_ERROR_CODES.versionConflict,
+    message: 'Item 5 was changed: expected version 1, current version 2',
+    current: { id: 5, version: 2 },
+  });
+
+  const heldLock = {
+    entity: 'item',
+    entityId: 5,
+    boardId: 1,
+    socketId: 'owner-tab',
+    userId: 'owner',
+    name: 'Анна',
+    isGuest: false,
+    expiresAt: new Date(Date.now() + 10_000),
+  };
+  const locks = new EditLockService(
+    { retroEditLock: { findUnique: async () => heldLock } } as never,
+    {} as never,
+  );
+  const locked = await locks
+    .ensureNotLockedByOther('item', 5, 'member')
+    .catch((error: unknown) => error);
+  assert.deepEqual(toWsAckError(locked), {
+    code: WS_ERROR_CODES.editLocked,
+    message: 'Item 5 is being edited by Анна',
+  });
+
+  assert.equal(toWsAckError(new Error('database is down')), null);
+});
+
+test('gateway commands ack with the shared envelope', async () => {
+  const { commands, gateway, client } = setup();
+
+  const created = await gateway.handleItemCreate(client as never, {
+    columnId: 7,
+    description: 'Новая карточка',
+  });
+  assert.deepEqual(created, {
+    ok: true,
+    data: { id: 12, description: 'Новая карточка' },
+  });
+  assert.deepEqual(commands.calls[0].slice(0, 2), [
+    { userId: 'owner', isGuest: false },
+    7,
+  ]);
+
+  const invalid = await gateway.handleItemCreate(client as never, {
+    description: 'Без колонки',
+  });
+  assert.equal(invalid.ok, false);
+  assert.equal(
+    !invalid.ok && invalid.error.code,
+    WS_ERROR_CODES.validationFailed,
+  );
+  assert.equal(commands.calls.length, 1);
+
+  commands.failWith = new Error('database is down');
+  Logger.overrideLogger(false);
+  const failed = await gateway.handleItemCreate(client as never, {
+    columnId: 7,
+  });
+  assert.deepEqual(failed, {
+    ok: false,
+    error: {
+      code: WS_ERROR_CODES.internal,
+      message: 'Failed to run item.create',
+    },
+  });
+});
+
+test('a column reorder is logged once, the legacy alias is transient', async () => {
+  const columns = [{ id: 2 }, { id: 1 }];
+  const emitted: Array<{ logged: boolean; event: string }> = [];
+  const retroService = { reorderColumns: async () => columns };
+  const realtime = {
+    emitToBoard: async (_boardId: number, event: string) => {
+      emitted.push({ logged: true, event });
+    },
+    emitTransientToBoard: async (_boardId: number, event: string) => {
+      emitted.push({ logged: false, event });
+    },
+  };
+  const gateway = new RetroGateway(
+    {} as never,
+    retroService as never,
+    {} as never,
+    {} as never,
+    realtime as never,
+    {} as never,
+    {} as never,
+    {} as never,
+  );
+  const { client } = setup();
+
+  const ack = await gateway.handleBoardColumnsReorder(client as never, {
+    boardId: 1,
+    oldIndex: 0,
+    newIndex: 1,
+  });
+
+  assert.deepEqual(ack, { ok: true, data: columns });
+  assert.deepEqual(emitted, [
+    { logged: true, event: 'retro.board.columns.reordered' },
+    { logged: false, event: 'board.columns.reordered' },
+  ]);
+});